@@ -1,11 +1,16 @@
 import { memo } from "react";
-import { User, Bot } from "lucide-react";
+import { User, Bot, FileText } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { formatTimestamp, splitCitations, type DocumentCitation } from "@/lib/citations";
+import { splitMarkdownTables } from "@/lib/markdownTables";
 import { StockQuoteCard } from "@/components/StockQuoteCard";
+import { ResultTable } from "@/components/ResultTable";
 import type { Message } from "@/hooks/useChat";
 
 interface ChatMessageProps {
   message: Message;
+  /** Opens the cited document; citations render as plain text when omitted. */
+  onCitationClick?: (citation: DocumentCitation) => void;
 }
 
 // Convert URLs in text to clickable links
@@ -43,7 +48,55 @@ function linkifyText(text: string): React.ReactNode {
   return parts.length > 0 ? parts : text;
 }
 
-export const ChatMessage = memo(({ message }: ChatMessageProps) => {
+// Render "[report.pdf p.12]" citations as badges that open the document
+function renderAssistantText(
+  text: string,
+  onCitationClick?: (citation: DocumentCitation) => void,
+): React.ReactNode {
+  if (!onCitationClick) return linkifyText(text);
+  return splitCitations(text).map((segment, index) =>
+    typeof segment === "string" ? (
+      <span key={index}>{linkifyText(segment)}</span>
+    ) : (
+      <button
+        key={index}
+        type="button"
+        onClick={() => onCitationClick(segment.citation)}
+        title={
+          segment.citation.time !== undefined
+            ? `Open ${segment.citation.fileName} at ${formatTimestamp(segment.citation.time)}`
+            : segment.citation.page
+              ? `Open ${segment.citation.fileName} at page ${segment.citation.page}`
+              : `Open ${segment.citation.fileName}`
+        }
+        className="mx-0.5 inline-flex items-center gap-1 rounded-md border border-primary/30 bg-primary/10 px-1.5 py-0.5 align-baseline text-xs text-primary hover:bg-primary/20"
+      >
+        <FileText className="h-3 w-3" />
+        {segment.raw.slice(1, -1)}
+      </button>
+    ),
+  );
+}
+
+// Render pipe tables (e.g. from query_document_table) as tables, the rest as cited text
+function renderAssistantContent(
+  text: string,
+  onCitationClick?: (citation: DocumentCitation) => void,
+): React.ReactNode {
+  const segments = splitMarkdownTables(text);
+  if (segments.length === 1 && typeof segments[0] === "string") {
+    return renderAssistantText(text, onCitationClick);
+  }
+  return segments.map((segment, index) =>
+    typeof segment === "string" ? (
+      <span key={index}>{renderAssistantText(segment, onCitationClick)}</span>
+    ) : (
+      <ResultTable key={index} table={segment} />
+    ),
+  );
+}
+
+export const ChatMessage = memo(({ message, onCitationClick }: ChatMessageProps) => {
   const isUser = message.role === "user";
   const isStock = message.type === "stock" && message.role === "assistant";
   const isImage = message.type === "image" && message.role === "assistant";
@@ -94,7 +147,9 @@ export const ChatMessage = memo(({ message }: ChatMessageProps) => {
               )}
             </div>
         ) : (
-          <p className="text-sm leading-relaxed whitespace-pre-wrap">{linkifyText(message.content)}</p>
+          <div className="text-sm leading-relaxed whitespace-pre-wrap">
+            {isUser ? linkifyText(message.content) : renderAssistantContent(message.content, onCitationClick)}
+          </div>
         )}
       </div>
       {isUser && (
@@ -159,7 +159,7 @@ export const DocumentUpload: React.FC = () => {
             type="file"
             onChange={handleFileChange}
             disabled={isUploading}
-            accept=".pdf,.txt,.doc,.docx,.png,.jpg,.jpeg,.csv"
+            accept=".pdf,.txt,.md,.markdown,.html,.htm,.doc,.docx,.xlsx,.pptx,.png,.jpg,.jpeg,.csv,.tsv"
             className="flex-1"
           />
           <Button onClick={handleUpload} disabled={!file || isUploading}>
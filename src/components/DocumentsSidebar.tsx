@@ -2,10 +2,32 @@ import React, { useState, useEffect, useRef } from "react";
 import { supabaseClient } from "@/lib/supabaseClient";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { FileText, Image, Loader2, CheckCircle2, XCircle, Clock, Trash2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { FileAudio, FileText, FileVideo, Image, Loader2, CheckCircle2, XCircle, Clock, Trash2, X, History, FolderPlus, Plus, Users, ScrollText } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/components/ui/use-toast";
 import { deleteProcessingJob } from "@/lib/api";
+import { formatTimestamp } from "@/lib/citations";
+import {
+  addToDocumentCollection,
+  createDocumentCollection,
+  deleteDocumentCollection,
+  listDocumentCollections,
+  removeFromDocumentCollection,
+  shareDocumentCollection,
+  summarizeDocument,
+  unshareDocumentCollection,
+  type DocumentCollection,
+  type DocumentSummary,
+} from "@/lib/ragService";
 
 /**
  * Get session from localStorage directly (fast, no network call)
@@ -104,6 +126,79 @@ interface Document {
   summary?: string | null; // vision_summary or ocr_text preview
   visionSummary?: string | null;
   ocrText?: string | null;
+  documentSummary?: DocumentSummary | null; // Whole-document summary built after indexing
+  documentId: string; // Shared by every version of the document
+  version: number;
+  previousVersions: Document[]; // Older versions, newest first (only set on the latest version)
+}
+
+const JOB_COLUMNS = "id, file_name, file_type, file_size, status, metadata, created_at, updated_at, analysis_target, document_id, version";
+
+function toDocument(job: any): Document {
+  const metadata = job.metadata as Record<string, unknown> | null;
+  const stage = metadata?.job_stage as string | undefined;
+  
+  // Extract summary from analysis_results (now a single object or null)
+  const analysisResult = job.analysis_results || null;
+  
+  const visionSummary = analysisResult?.vision_summary || null;
+  const ocrText = analysisResult?.ocr_text || null;
+  const documentSummary = (analysisResult?.summary as DocumentSummary | null) ?? null;
+  
+  // Prefer the document summary, then vision_summary, fallback to first 200 chars of ocr_text
+  const summary = (documentSummary?.status === "ready" ? documentSummary.summary : null) ||
+    visionSummary || (ocrText ? ocrText.substring(0, 200) + (ocrText.length > 200 ? "..." : "") : null);
+  
+  return {
+    jobId: job.id,
+    fileName: job.file_name,
+    fileType: job.file_type,
+    fileSize: job.file_size,
+    status: job.status,
+    stage: stage || "unknown",
+    createdAt: job.created_at,
+    updatedAt: job.updated_at,
+    summary,
+    visionSummary,
+    ocrText: ocrText ? (ocrText.length > 200 ? ocrText.substring(0, 200) + "..." : ocrText) : null,
+    documentSummary,
+    documentId: job.document_id ?? job.id,
+    version: job.version ?? 1,
+    previousVersions: [],
+  };
+}
+
+/** Shows each document once, at its latest version; older versions become its history. Expects newest first. */
+function groupVersions(allVersions: Document[]): Document[] {
+  const docs: Document[] = [];
+  const latestByDocument = new Map<string, Document>();
+  for (const doc of allVersions) {
+    const latest = latestByDocument.get(doc.documentId);
+    if (latest) {
+      latest.previousVersions.push(doc);
+    } else {
+      latestByDocument.set(doc.documentId, doc);
+      docs.push(doc);
+    }
+  }
+  return docs;
+}
+
+/** Request from the chat to open a cited document, optionally at a page or recording time. */
+export interface DocumentFocusRequest {
+  fileName: string;
+  page?: number;
+  time?: number; // Seconds into a transcribed recording
+  nonce: number; // Changes on every click so re-citing the same page refocuses
+}
+
+interface PageExcerpt {
+  jobId: string;
+  fileName: string;
+  page?: number;
+  time?: number;
+  isLoading: boolean;
+  chunks: Array<{ chunkIndex: number; text: string; section?: string }>;
 }
 
 export const DocumentsSidebar: React.FC<{ 
@@ -111,7 +206,8 @@ export const DocumentsSidebar: React.FC<{
   refreshTrigger?: number; // External trigger to force refresh
   userId?: string; // Optional userId from parent (bypasses session retrieval)
   onDocumentsChange?: (count: number) => void; // Callback to notify parent of document count changes
-}> = ({ onDocumentClick, refreshTrigger, userId: propUserId, onDocumentsChange }) => {
+  focusRequest?: DocumentFocusRequest | null; // Citation clicked in chat
+}> = ({ onDocumentClick, refreshTrigger, userId: propUserId, onDocumentsChange, focusRequest }) => {
   
   const { toast } = useToast();
   const [documents, setDocuments] = useState<Document[]>([]);
@@ -120,6 +216,16 @@ export const DocumentsSidebar: React.FC<{
   const [isLoadingRef, setIsLoadingRef] = useState(false); // Prevent concurrent loads
   const [hasError, setHasError] = useState(false); // Track if there's a persistent error
   const [deletingJobIds, setDeletingJobIds] = useState<Set<string>>(new Set()); // Track jobs being deleted
+  const [focusedJobId, setFocusedJobId] = useState<string | null>(null);
+  const [expandedHistory, setExpandedHistory] = useState<Set<string>>(new Set()); // Documents showing version history
+  const [expandedSummaries, setExpandedSummaries] = useState<Set<string>>(new Set()); // Documents showing their full summary
+  const [pageExcerpt, setPageExcerpt] = useState<PageExcerpt | null>(null);
+  const [collections, setCollections] = useState<DocumentCollection[]>([]);
+  const [activeCollectionId, setActiveCollectionId] = useState<string | null>(null);
+  const [sharedDocuments, setSharedDocuments] = useState<Document[]>([]); // Documents of the active collection when it is shared with the user
+  const [isLoadingShared, setIsLoadingShared] = useState(false);
+  const [shareEmail, setShareEmail] = useState("");
+  const documentRefs = useRef<Map<string, HTMLDivElement>>(new Map());
 
   const loadDocuments = async () => {
     // Prevent concurrent loads
@@ -174,7 +280,7 @@ export const DocumentsSidebar: React.FC<{
         // Try query with analysis_target filter
         const queryWithFilter = supabaseClient
           .from("processing_jobs")
-          .select("id, file_name, file_type, file_size, status, metadata, created_at, updated_at, analysis_target")
+          .select(JOB_COLUMNS)
           .eq("user_id", userId)
           .eq("analysis_target", "document-analysis")
           .order("created_at", { ascending: false })
@@ -207,7 +313,7 @@ export const DocumentsSidebar: React.FC<{
             const jobIds = data.map(job => job.id);
             const { data: analysisData, error: analysisError } = await supabaseClient
               .from("analysis_results")
-              .select("job_id, vision_summary, ocr_text")
+              .select("job_id, vision_summary, ocr_text, summary")
               .in("job_id", jobIds);
             
             if (!analysisError && analysisData) {
@@ -250,7 +356,7 @@ export const DocumentsSidebar: React.FC<{
           try {
             const fallbackQuery = supabaseClient
               .from("processing_jobs")
-              .select("id, file_name, file_type, file_size, status, metadata, created_at, updated_at, analysis_target")
+              .select(JOB_COLUMNS)
               .eq("user_id", userId)
               .order("created_at", { ascending: false })
               .limit(50);
@@ -270,7 +376,7 @@ export const DocumentsSidebar: React.FC<{
               if (jobIds.length > 0) {
                 const { data: analysisData } = await supabaseClient
                   .from("analysis_results")
-                  .select("job_id, vision_summary, ocr_text")
+                  .select("job_id, vision_summary, ocr_text, summary")
                   .in("job_id", jobIds);
                 
                 const analysisMap = new Map(analysisData?.map(ar => [ar.job_id, ar]) || []);
@@ -319,33 +425,7 @@ export const DocumentsSidebar: React.FC<{
         }
       }
 
-      const docs = (data || []).map((job: any) => {
-        const metadata = job.metadata as Record<string, unknown> | null;
-        const stage = metadata?.job_stage as string | undefined;
-        
-        // Extract summary from analysis_results (now a single object or null)
-        const analysisResult = job.analysis_results || null;
-        
-        const visionSummary = analysisResult?.vision_summary || null;
-        const ocrText = analysisResult?.ocr_text || null;
-        
-        // Prefer vision_summary, fallback to first 200 chars of ocr_text
-        const summary = visionSummary || (ocrText ? ocrText.substring(0, 200) + (ocrText.length > 200 ? "..." : "") : null);
-        
-        return {
-          jobId: job.id,
-          fileName: job.file_name,
-          fileType: job.file_type,
-          fileSize: job.file_size,
-          status: job.status,
-          stage: stage || "unknown",
-          createdAt: job.created_at,
-          updatedAt: job.updated_at,
-          summary,
-          visionSummary,
-          ocrText: ocrText ? (ocrText.length > 200 ? ocrText.substring(0, 200) + "..." : ocrText) : null,
-        };
-      });
+      const docs = groupVersions((data || []).map(toDocument));
       
       // CRITICAL: Always set documents and clear loading, even if empty
       // This must happen regardless of whether we found documents or not
@@ -492,6 +572,142 @@ export const DocumentsSidebar: React.FC<{
     }
   }, [refreshTrigger, propUserId]);
 
+  const loadCollections = async () => {
+    try {
+      setCollections(await listDocumentCollections());
+    } catch (error) {
+      // Collections are optional; the document list still works without them
+      console.warn("[DocumentsSidebar] Failed to load collections:", error);
+    }
+  };
+
+  useEffect(() => {
+    if (!propUserId) {
+      setCollections([]);
+      setActiveCollectionId(null);
+      return;
+    }
+    loadCollections();
+  }, [propUserId, refreshTrigger]);
+
+  const activeCollection = collections.find(collection => collection.id === activeCollectionId) ?? null;
+  const activeSharedJobIds = activeCollection?.role === "viewer" ? activeCollection.jobIds.join(",") : "";
+
+  // Documents in a collection shared with the user are not in the user's own list; load them by id (RLS allows reads)
+  useEffect(() => {
+    if (!activeSharedJobIds) {
+      setSharedDocuments([]);
+      return;
+    }
+    let cancelled = false;
+    setIsLoadingShared(true);
+    supabaseClient
+      .from("processing_jobs")
+      .select(JOB_COLUMNS)
+      .in("id", activeSharedJobIds.split(","))
+      .order("created_at", { ascending: false })
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error("[DocumentsSidebar] Failed to load shared documents:", error);
+          toast({
+            title: "Error loading shared documents",
+            description: error.message,
+            variant: "destructive",
+          });
+          setSharedDocuments([]);
+        } else {
+          setSharedDocuments(groupVersions((data || []).map(toDocument)));
+        }
+        setIsLoadingShared(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeSharedJobIds, toast]);
+
+  // Open the cited document: highlight it and show the chunks indexed for the cited page
+  useEffect(() => {
+    if (!focusRequest) return;
+    const target = focusRequest.fileName.toLowerCase();
+    const doc = documents.find(d => d.fileName.toLowerCase() === target);
+    if (!doc) {
+      toast({
+        title: "Document not found",
+        description: `"${focusRequest.fileName}" is not in your documents.`,
+      });
+      return;
+    }
+
+    setFocusedJobId(doc.jobId);
+    documentRefs.current.get(doc.jobId)?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+    setPageExcerpt({
+      jobId: doc.jobId,
+      fileName: doc.fileName,
+      page: focusRequest.page,
+      time: focusRequest.time,
+      isLoading: true,
+      chunks: [],
+    });
+
+    let cancelled = false;
+    (async () => {
+      const { data, error } = await supabaseClient
+        .from("document_embeddings")
+        .select("chunk_index, chunk_text, metadata")
+        .eq("job_id", doc.jobId)
+        .order("chunk_index", { ascending: true });
+      if (cancelled) return;
+      if (error) {
+        console.error("[DocumentsSidebar] Failed to load chunks for citation:", error);
+        setPageExcerpt(prev => (prev?.jobId === doc.jobId ? { ...prev, isLoading: false } : prev));
+        return;
+      }
+
+      type ChunkMetadata = {
+        pageNumber?: number;
+        pageEnd?: number;
+        sectionPath?: string[];
+        timeStart?: number;
+        timeEnd?: number;
+        speakers?: string[];
+      };
+      const { page, time } = focusRequest;
+      const rows = (data ?? []).map(row => ({ ...row, metadata: (row.metadata ?? {}) as ChunkMetadata }));
+      let cited = rows.slice(0, 3);
+      if (time !== undefined) {
+        // The chunks whose turns cover the timestamp, or the last one starting before it
+        // when the time falls in a pause
+        cited = rows.filter(({ metadata }) =>
+          typeof metadata.timeStart === "number" && metadata.timeStart <= time && time <= (metadata.timeEnd ?? metadata.timeStart));
+        if (cited.length === 0) {
+          cited = rows.filter(({ metadata }) => typeof metadata.timeStart === "number" && metadata.timeStart <= time).slice(-1);
+        }
+      } else if (page !== undefined) {
+        cited = rows.filter(({ metadata }) =>
+          typeof metadata.pageNumber === "number" && metadata.pageNumber <= page && page <= (metadata.pageEnd ?? metadata.pageNumber));
+      }
+      const chunks = cited.map(({ chunk_index, chunk_text, metadata }) => {
+        const timeRange = typeof metadata.timeStart === "number"
+          ? `${formatTimestamp(metadata.timeStart)}–${formatTimestamp(metadata.timeEnd ?? metadata.timeStart)}` +
+            (Array.isArray(metadata.speakers) && metadata.speakers.length > 0 ? ` • Speaker ${metadata.speakers.join(", ")}` : "")
+          : undefined;
+        return {
+          chunkIndex: chunk_index,
+          text: chunk_text,
+          section: timeRange ?? (Array.isArray(metadata.sectionPath) ? metadata.sectionPath.join(" > ") : undefined),
+        };
+      });
+      setPageExcerpt(prev => (prev?.jobId === doc.jobId ? { ...prev, isLoading: false, chunks } : prev));
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+    // Only react to new requests, not to document list refreshes
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [focusRequest?.nonce]);
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case "completed":
@@ -510,6 +726,12 @@ export const DocumentsSidebar: React.FC<{
     if (fileType.startsWith("image/") || fileName.match(/\.(jpg|jpeg|png|gif|webp)$/i)) {
       return <Image className="h-5 w-5" />;
     }
+    if (fileType.startsWith("video/") || fileName.match(/\.(mp4|mpeg|webm)$/i)) {
+      return <FileVideo className="h-5 w-5" />;
+    }
+    if (fileType.startsWith("audio/") || fileName.match(/\.(mp3|mpga|m4a|wav|ogg|oga|flac)$/i)) {
+      return <FileAudio className="h-5 w-5" />;
+    }
     return <FileText className="h-5 w-5" />;
   };
 
@@ -534,9 +756,15 @@ export const DocumentsSidebar: React.FC<{
         title: "Document deleted",
         description: `"${fileName}" has been deleted.`,
       });
-      // Remove from local state immediately
+      // Remove from local state immediately; deleting the latest version reveals the one before it
       setDocuments(prev => {
-        const updated = prev.filter(doc => doc.jobId !== jobId);
+        const updated = prev.flatMap(doc => {
+          if (doc.jobId === jobId) {
+            const [previous, ...older] = doc.previousVersions;
+            return previous ? [{ ...previous, previousVersions: older }] : [];
+          }
+          return [{ ...doc, previousVersions: doc.previousVersions.filter(version => version.jobId !== jobId) }];
+        });
         onDocumentsChange?.(updated.length);
         return updated;
       });
@@ -583,7 +811,11 @@ export const DocumentsSidebar: React.FC<{
       });
       // Remove from local state
       setDocuments(prev => {
-        const updated = prev.filter(doc => doc.status !== "failed");
+        const updated = prev.flatMap(doc => {
+          if (doc.status !== "failed") return [doc];
+          const [previous, ...older] = doc.previousVersions;
+          return previous ? [{ ...previous, previousVersions: older }] : [];
+        });
         onDocumentsChange?.(updated.length);
         return updated;
       });
@@ -599,6 +831,112 @@ export const DocumentsSidebar: React.FC<{
     }
   };
 
+  const handleSummarize = async (doc: Document) => {
+    try {
+      const result = await summarizeDocument(doc.jobId, { refresh: doc.documentSummary?.status === "ready" });
+      // The background job's result arrives with the next refresh
+      setDocuments(prev => prev.map(item => item.jobId === doc.jobId ? { ...item, documentSummary: result } : item));
+    } catch (error) {
+      console.error("[DocumentsSidebar] Failed to summarize document:", error);
+      toast({
+        title: "Summary failed",
+        description: error instanceof Error ? error.message : "Failed to summarize document.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const showCollectionError = (title: string, error: unknown) => {
+    console.error(`[DocumentsSidebar] ${title}:`, error);
+    toast({
+      title,
+      description: error instanceof Error ? error.message : String(error),
+      variant: "destructive",
+    });
+  };
+
+  const handleCreateCollection = async () => {
+    const name = prompt("Collection name")?.trim();
+    if (!name) return;
+    try {
+      const created = await createDocumentCollection(name);
+      await loadCollections();
+      setActiveCollectionId(created.id);
+    } catch (error) {
+      showCollectionError("Failed to create collection", error);
+    }
+  };
+
+  const handleDeleteCollection = async (collection: DocumentCollection) => {
+    if (!confirm(`Delete collection "${collection.name}"? Its documents are kept.`)) {
+      return;
+    }
+    try {
+      await deleteDocumentCollection(collection.id);
+      setActiveCollectionId(null);
+      setCollections(prev => prev.filter(item => item.id !== collection.id));
+    } catch (error) {
+      showCollectionError("Failed to delete collection", error);
+    }
+  };
+
+  // Adds the latest version; removing takes out every version of the document that is in the collection
+  const handleToggleCollection = async (collection: DocumentCollection, doc: Document, include: boolean) => {
+    const versionIds = [doc.jobId, ...doc.previousVersions.map(version => version.jobId)];
+    try {
+      if (include) {
+        await addToDocumentCollection(collection.id, [doc.jobId]);
+      } else {
+        await removeFromDocumentCollection(collection.id, versionIds.filter(id => collection.jobIds.includes(id)));
+      }
+      setCollections(prev => prev.map(item => item.id !== collection.id ? item : {
+        ...item,
+        jobIds: include ? [...item.jobIds, doc.jobId] : item.jobIds.filter(id => !versionIds.includes(id)),
+      }));
+    } catch (error) {
+      showCollectionError("Failed to update collection", error);
+    }
+  };
+
+  const handleShareCollection = async (collection: DocumentCollection) => {
+    const email = shareEmail.trim();
+    if (!email) return;
+    try {
+      await shareDocumentCollection(collection.id, email);
+      setShareEmail("");
+      await loadCollections();
+      toast({
+        title: "Collection shared",
+        description: `If ${email} has an account, they can now read "${collection.name}".`,
+      });
+    } catch (error) {
+      showCollectionError("Failed to share collection", error);
+    }
+  };
+
+  const handleUnshareCollection = async (collection: DocumentCollection, email: string) => {
+    try {
+      await unshareDocumentCollection(collection.id, email);
+      setCollections(prev => prev.map(item => item.id !== collection.id ? item : {
+        ...item,
+        shares: item.shares.filter(share => share.email !== email),
+      }));
+    } catch (error) {
+      showCollectionError("Failed to stop sharing", error);
+    }
+  };
+
+  const ownedCollections = collections.filter(collection => collection.role === "owner");
+  const isSharedView = activeCollection?.role === "viewer";
+  const visibleDocuments = !activeCollection
+    ? documents
+    : isSharedView
+      ? sharedDocuments
+      : documents.filter(doc =>
+        activeCollection.jobIds.includes(doc.jobId) ||
+        doc.previousVersions.some(version => activeCollection.jobIds.includes(version.jobId))
+      );
+
   const failedCount = documents.filter(doc => doc.status === "failed").length;
 
   // DIAGNOSTIC: Log render with current state
@@ -636,7 +974,10 @@ export const DocumentsSidebar: React.FC<{
             <Button
               variant="ghost"
               size="sm"
-              onClick={loadDocuments}
+              onClick={() => {
+                loadDocuments();
+                loadCollections();
+              }}
               disabled={isLoading}
               className="h-6 px-2 text-xs"
             >
@@ -646,6 +987,145 @@ export const DocumentsSidebar: React.FC<{
         </div>
       </CardHeader>
       <CardContent className="p-2">
+        {propUserId && (
+          <div className="mb-2 space-y-2">
+            <div className="flex flex-wrap items-center gap-1">
+              <Button
+                variant={activeCollection ? "ghost" : "secondary"}
+                size="sm"
+                onClick={() => setActiveCollectionId(null)}
+                className="h-6 px-2 text-[10px]"
+              >
+                All
+              </Button>
+              {collections.map(collection => (
+                <Button
+                  key={collection.id}
+                  variant={activeCollectionId === collection.id ? "secondary" : "ghost"}
+                  size="sm"
+                  onClick={() => setActiveCollectionId(collection.id)}
+                  className="h-6 max-w-[10rem] px-2 text-[10px]"
+                  title={collection.description ?? collection.name}
+                >
+                  {(collection.role === "viewer" || collection.shares.length > 0) && <Users className="h-3 w-3 mr-1 flex-shrink-0" />}
+                  <span className="truncate">{collection.name}</span>
+                  <span className="ml-1 text-muted-foreground">{collection.jobIds.length}</span>
+                </Button>
+              ))}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleCreateCollection}
+                className="h-6 w-6 p-0"
+                title="New collection"
+              >
+                <Plus className="h-3 w-3" />
+              </Button>
+            </div>
+            {activeCollection && (
+              <div className="rounded-md border p-2 text-[10px]">
+                {isSharedView ? (
+                  <p className="text-muted-foreground">Shared with you (read-only)</p>
+                ) : (
+                  <>
+                    <div className="flex items-center gap-1">
+                      <Input
+                        value={shareEmail}
+                        onChange={(e) => setShareEmail(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") handleShareCollection(activeCollection);
+                        }}
+                        placeholder="Share with email (read-only)"
+                        className="h-6 px-2 text-[10px]"
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleShareCollection(activeCollection)}
+                        disabled={!shareEmail.trim()}
+                        className="h-6 px-2 text-[10px]"
+                      >
+                        Share
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDeleteCollection(activeCollection)}
+                        className="h-6 w-6 p-0 text-destructive hover:text-destructive"
+                        title="Delete collection"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                    {activeCollection.shares.length > 0 && (
+                      <div className="mt-1.5 flex flex-wrap gap-1">
+                        {activeCollection.shares.map(share => (
+                          <span key={share.userId} className="flex items-center gap-1 rounded bg-muted px-1 text-muted-foreground">
+                            {share.email}
+                            <button
+                              onClick={() => handleUnshareCollection(activeCollection, share.email)}
+                              className="hover:text-foreground"
+                              title="Stop sharing"
+                            >
+                              <X className="h-2.5 w-2.5" />
+                            </button>
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+        {pageExcerpt && (
+          <div className="mb-2 rounded-md border border-primary/40 bg-primary/5 p-2">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-xs font-medium truncate" title={pageExcerpt.fileName}>
+                {pageExcerpt.fileName}
+                {pageExcerpt.time !== undefined ? (
+                  <span className="text-muted-foreground"> • {formatTimestamp(pageExcerpt.time)}</span>
+                ) : pageExcerpt.page !== undefined && (
+                  <span className="text-muted-foreground"> • Page {pageExcerpt.page}</span>
+                )}
+              </p>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setPageExcerpt(null);
+                  setFocusedJobId(null);
+                }}
+                className="h-5 w-5 p-0"
+                title="Close"
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+            {pageExcerpt.isLoading ? (
+              <div className="flex items-center gap-2 py-2 text-[10px] text-muted-foreground">
+                <Loader2 className="h-3 w-3 animate-spin" />
+                Loading page...
+              </div>
+            ) : pageExcerpt.chunks.length === 0 ? (
+              <p className="py-2 text-[10px] text-muted-foreground">
+                No indexed text for this page. Documents indexed before page tracking need reprocessing.
+              </p>
+            ) : (
+              <div className="mt-1 max-h-64 space-y-2 overflow-y-auto">
+                {pageExcerpt.chunks.map(chunk => (
+                  <div key={chunk.chunkIndex}>
+                    {chunk.section && (
+                      <p className="text-[10px] font-medium text-muted-foreground">{chunk.section}</p>
+                    )}
+                    <p className="text-[11px] leading-relaxed whitespace-pre-wrap">{chunk.text}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
         {isLoading && documents.length === 0 ? (
           <div className="flex flex-col items-center justify-center py-8">
             <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
@@ -659,20 +1139,34 @@ export const DocumentsSidebar: React.FC<{
               <div>isLoadingRef: {String(isLoadingRef)}</div>
             </div>
           </div>
-        ) : documents.length === 0 ? (
+        ) : documents.length === 0 && !activeCollection ? (
           <div className="py-8 text-center text-sm text-muted-foreground">
             <FileText className="h-8 w-8 mx-auto mb-2 opacity-50" />
             <p>No documents yet</p>
             <p className="text-xs mt-1">Upload files via chat</p>
           </div>
+        ) : isLoadingShared ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : visibleDocuments.length === 0 ? (
+          <div className="py-8 text-center text-xs text-muted-foreground">
+            <p>No documents in this collection</p>
+            {!isSharedView && <p className="mt-1">Add documents with the folder button on each document</p>}
+          </div>
         ) : (
           <div className="space-y-2 max-h-[calc(100vh-200px)] overflow-y-auto">
-            {documents.map((doc) => (
+            {visibleDocuments.map((doc) => (
               <div
                 key={doc.jobId}
+                ref={(el) => {
+                  if (el) documentRefs.current.set(doc.jobId, el);
+                  else documentRefs.current.delete(doc.jobId);
+                }}
                 className={cn(
                   "w-full p-2 rounded-md border transition-colors group",
                   "hover:bg-muted/50 hover:border-primary/50",
+                  focusedJobId === doc.jobId && "border-primary bg-primary/5",
                 )}
               >
                 <button
@@ -684,9 +1178,16 @@ export const DocumentsSidebar: React.FC<{
                       {getFileIcon(doc.fileType, doc.fileName)}
                     </div>
                     <div className="flex-1 min-w-0">
-                      <p className="text-xs font-medium truncate" title={doc.fileName}>
-                        {doc.fileName}
-                      </p>
+                      <div className="flex items-center gap-1.5">
+                        <p className="text-xs font-medium truncate" title={doc.fileName}>
+                          {doc.fileName}
+                        </p>
+                        {doc.version > 1 && (
+                          <span className="flex-shrink-0 rounded bg-muted px-1 text-[10px] text-muted-foreground">
+                            v{doc.version}
+                          </span>
+                        )}
+                      </div>
                       <div className="flex items-center gap-2 mt-1">
                         {getStatusIcon(doc.status)}
                         <span className="text-[10px] text-muted-foreground">
@@ -705,24 +1206,153 @@ export const DocumentsSidebar: React.FC<{
                     </div>
                   </div>
                 </button>
-                <div className="flex justify-end mt-1">
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={(e) => handleDelete(doc.jobId, doc.fileName, e)}
-                    disabled={deletingJobIds.has(doc.jobId)}
-                    className={cn(
-                      "h-5 w-5 p-0 text-[10px] opacity-70 hover:opacity-100 transition-opacity",
-                      "text-destructive hover:text-destructive hover:bg-destructive/10"
-                    )}
-                    title="Delete document"
-                  >
-                    {deletingJobIds.has(doc.jobId) ? (
-                      <Loader2 className="h-3 w-3 animate-spin" />
-                    ) : (
-                      <XCircle className="h-3 w-3" />
+                {doc.documentSummary?.status === "ready" && expandedSummaries.has(doc.jobId) && (
+                  <div className="mt-2 space-y-1.5 border-t pt-1.5">
+                    <p className="text-[11px] leading-relaxed whitespace-pre-wrap">{doc.documentSummary.summary}</p>
+                    {doc.documentSummary.sections.length > 1 && doc.documentSummary.sections.map((section, index) => (
+                      <div key={index}>
+                        <p className="text-[10px] font-medium text-muted-foreground">
+                          {section.title}
+                          {section.pageStart !== undefined && !section.title.startsWith("Page") && ` • p.${section.pageStart}`}
+                        </p>
+                        <p className="text-[10px] leading-relaxed text-muted-foreground">{section.summary}</p>
+                      </div>
+                    ))}
+                    {!isSharedView && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleSummarize(doc)}
+                        className="h-5 px-1 text-[10px] text-muted-foreground"
+                        title="Rebuild the summary"
+                      >
+                        Regenerate
+                      </Button>
                     )}
-                  </Button>
+                  </div>
+                )}
+                {doc.previousVersions.length > 0 && expandedHistory.has(doc.documentId) && (
+                  <div className="mt-2 space-y-1 border-t pt-1.5">
+                    {doc.previousVersions.map((previous) => (
+                      <button
+                        key={previous.jobId}
+                        onClick={() => onDocumentClick?.(previous.jobId)}
+                        className="flex w-full items-center gap-2 rounded px-1 text-left text-[10px] text-muted-foreground hover:bg-muted/50"
+                      >
+                        {getStatusIcon(previous.status)}
+                        <span className="font-medium">v{previous.version}</span>
+                        <span className="truncate">{new Date(previous.createdAt).toLocaleString()}</span>
+                        <span className="ml-auto flex-shrink-0">{formatFileSize(previous.fileSize)}</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+                <div className="flex items-center justify-end gap-1 mt-1">
+                  {doc.previousVersions.length > 0 && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setExpandedHistory(prev => {
+                        const next = new Set(prev);
+                        if (next.has(doc.documentId)) next.delete(doc.documentId);
+                        else next.add(doc.documentId);
+                        return next;
+                      })}
+                      className="mr-auto h-5 px-1 text-[10px] text-muted-foreground"
+                      title="Show earlier versions"
+                    >
+                      <History className="h-3 w-3 mr-1" />
+                      {doc.previousVersions.length} earlier version{doc.previousVersions.length === 1 ? "" : "s"}
+                    </Button>
+                  )}
+                  {doc.documentSummary?.status === "ready" ? (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setExpandedSummaries(prev => {
+                        const next = new Set(prev);
+                        if (next.has(doc.jobId)) next.delete(doc.jobId);
+                        else next.add(doc.jobId);
+                        return next;
+                      })}
+                      className={cn("h-5 px-1 text-[10px] text-muted-foreground", doc.previousVersions.length === 0 && "mr-auto")}
+                      title="Show the whole-document summary"
+                    >
+                      <ScrollText className="h-3 w-3 mr-1" />
+                      Summary
+                    </Button>
+                  ) : doc.documentSummary?.status === "pending" ? (
+                    <span className={cn("flex items-center text-[10px] text-muted-foreground", doc.previousVersions.length === 0 && "mr-auto")}>
+                      <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                      Summarizing...
+                    </span>
+                  ) : doc.status === "completed" && doc.stage === "indexed" && !isSharedView ? (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleSummarize(doc)}
+                      className={cn("h-5 px-1 text-[10px] text-muted-foreground", doc.previousVersions.length === 0 && "mr-auto")}
+                      title={doc.documentSummary?.status === "failed" ? `Last attempt failed: ${doc.documentSummary.error}` : "Summarize the whole document"}
+                    >
+                      <ScrollText className="h-3 w-3 mr-1" />
+                      Summarize
+                    </Button>
+                  ) : null}
+                  {!isSharedView && (
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-5 w-5 p-0 opacity-70 hover:opacity-100 transition-opacity"
+                          title="Add to collection"
+                        >
+                          <FolderPlus className="h-3 w-3" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end" className="text-xs">
+                        <DropdownMenuLabel className="text-xs">Collections</DropdownMenuLabel>
+                        <DropdownMenuSeparator />
+                        {ownedCollections.length === 0 ? (
+                          <p className="px-2 py-1.5 text-xs text-muted-foreground">No collections yet</p>
+                        ) : (
+                          ownedCollections.map(collection => {
+                            const included = [doc.jobId, ...doc.previousVersions.map(version => version.jobId)]
+                              .some(id => collection.jobIds.includes(id));
+                            return (
+                              <DropdownMenuCheckboxItem
+                                key={collection.id}
+                                checked={included}
+                                onCheckedChange={(checked) => handleToggleCollection(collection, doc, checked === true)}
+                                className="text-xs"
+                              >
+                                {collection.name}
+                              </DropdownMenuCheckboxItem>
+                            );
+                          })
+                        )}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  )}
+                  {!isSharedView && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={(e) => handleDelete(doc.jobId, doc.fileName, e)}
+                      disabled={deletingJobIds.has(doc.jobId)}
+                      className={cn(
+                        "h-5 w-5 p-0 text-[10px] opacity-70 hover:opacity-100 transition-opacity",
+                        "text-destructive hover:text-destructive hover:bg-destructive/10"
+                      )}
+                      title="Delete document"
+                    >
+                      {deletingJobIds.has(doc.jobId) ? (
+                        <Loader2 className="h-3 w-3 animate-spin" />
+                      ) : (
+                        <XCircle className="h-3 w-3" />
+                      )}
+                    </Button>
+                  )}
                 </div>
               </div>
             ))}
@@ -0,0 +1,44 @@
+import { memo } from "react";
+import { Table, TableBody, TableCaption, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { McpTableResult } from "@/lib/mcp/types";
+
+interface ResultTableProps {
+  table: McpTableResult;
+}
+
+// Numeric cells (including "$1,234" and "(12)") are right-aligned so columns of figures line up
+const NUMERIC_CELL = /^[-+(]?[$€£¥]?\s?[\d,]*\.?\d+\)?%?$/;
+
+export const ResultTable = memo(({ table }: ResultTableProps) => (
+  <div className="my-2 overflow-hidden rounded-xl border border-glass-border/40 bg-muted/10 whitespace-normal">
+    <Table className="text-xs">
+      {table.summary && <TableCaption className="mb-2 text-xs">{table.summary}</TableCaption>}
+      <TableHeader>
+        <TableRow>
+          {table.columns.map((column, index) => (
+            <TableHead key={index} className="h-8 px-3 text-xs">
+              {column}
+            </TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {table.rows.map((row, rowIndex) => (
+          <TableRow key={rowIndex}>
+            {table.columns.map((_, columnIndex) => {
+              const value = row[columnIndex] ?? "";
+              return (
+                <TableCell
+                  key={columnIndex}
+                  className={NUMERIC_CELL.test(value.trim()) ? "px-3 py-1.5 text-right tabular-nums" : "px-3 py-1.5"}
+                >
+                  {value}
+                </TableCell>
+              );
+            })}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  </div>
+));
@@ -45,15 +45,6 @@ export const SemanticSearchChat: React.FC = () => {
       return;
     }
 
-    if (query.trim().length < 10) {
-      toast({
-        title: "Query too short",
-        description: "Please enter at least 10 characters for semantic search.",
-        variant: "destructive",
-      });
-      return;
-    }
-
     if (availableJobs.length === 0) {
       toast({
         title: "No documents available",
@@ -68,12 +59,11 @@ export const SemanticSearchChat: React.FC = () => {
     setRagResponse("");
 
     try {
-      // Perform semantic search
+      // Perform hybrid (keyword + semantic) search; short queries fall back to keyword matching
       const searchResponse = await searchDocuments(
         query,
         availableJobs.length > 0 ? availableJobs : undefined,
         10, // limit
-        0.7, // similarity threshold
       );
 
       setSearchResults(searchResponse.contexts);
@@ -150,7 +140,7 @@ Answer:`;
           Semantic Document Search (RAG)
         </CardTitle>
         <CardDescription>
-          Ask questions about your uploaded documents using semantic search powered by vector embeddings.
+          Ask questions about your uploaded documents using hybrid search: exact keyword matches combined with vector embeddings.
           {availableJobs.length > 0 && (
             <span className="block mt-1 text-xs">
               {availableJobs.length} document(s) available for search.
@@ -161,7 +151,7 @@ Answer:`;
       <CardContent className="space-y-4">
         <div className="flex gap-2">
           <Input
-            placeholder="Ask a question about your uploaded documents... (min. 10 characters)"
+            placeholder="Ask a question or search for exact terms in your uploaded documents..."
             value={query}
             onChange={(e) => setQuery(e.target.value)}
             onKeyDown={(e) => {
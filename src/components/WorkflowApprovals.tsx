@@ -0,0 +1,205 @@
+import { useCallback, useEffect, useState } from "react";
+import { Check, Hourglass, Loader2, Pencil, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/use-toast";
+import { decideWorkflowApproval, listWorkflowApprovals } from "@/lib/workflows/client";
+import type { WorkflowApproval, WorkflowApprovalDecision } from "@/lib/workflows/types";
+
+interface WorkflowApprovalsPanelProps {
+  /** Only show requests raised by this run. */
+  executionId?: string;
+  pollIntervalMs?: number;
+  /** Called after a decision is recorded. */
+  onDecided?: (approval: WorkflowApproval) => void;
+  className?: string;
+}
+
+function formatExpiry(expiresAt: string): string {
+  const minutes = Math.round((new Date(expiresAt).getTime() - Date.now()) / 60_000);
+  if (minutes < 1) return "expires in under a minute";
+  if (minutes < 60) return `expires in ${minutes} min`;
+  const hours = Math.round(minutes / 60);
+  return hours < 48 ? `expires in ${hours} h` : `expires ${new Date(expiresAt).toLocaleDateString()}`;
+}
+
+// Open approval requests of the user's workflow runs, polled so new ones show up
+export function WorkflowApprovalsPanel({
+  executionId,
+  pollIntervalMs = 30_000,
+  onDecided,
+  className,
+}: WorkflowApprovalsPanelProps) {
+  const [approvals, setApprovals] = useState<WorkflowApproval[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setApprovals(await listWorkflowApprovals(executionId));
+    } catch (error) {
+      console.error("Failed to load workflow approvals:", error);
+    }
+  }, [executionId]);
+
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(refresh, pollIntervalMs);
+    return () => clearInterval(interval);
+  }, [refresh, pollIntervalMs]);
+
+  if (approvals.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={className}>
+      <div className="space-y-3">
+        {approvals.map(approval => (
+          <WorkflowApprovalCard
+            key={approval.id}
+            approval={approval}
+            onDecided={decided => {
+              setApprovals(current => current.filter(item => item.id !== decided.id));
+              onDecided?.(decided);
+            }}
+            onError={refresh}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+interface WorkflowApprovalCardProps {
+  approval: WorkflowApproval;
+  onDecided: (approval: WorkflowApproval) => void;
+  /** Called when a decision could not be recorded, e.g. the request expired meanwhile. */
+  onError?: () => void;
+}
+
+export function WorkflowApprovalCard({ approval, onDecided, onError }: WorkflowApprovalCardProps) {
+  const { toast } = useToast();
+  const [isEditing, setIsEditing] = useState(false);
+  const [payloadJson, setPayloadJson] = useState(() => JSON.stringify(approval.payload, null, 2));
+  const [comment, setComment] = useState("");
+  const [pendingDecision, setPendingDecision] = useState<WorkflowApprovalDecision | null>(null);
+
+  const decide = async (decision: WorkflowApprovalDecision) => {
+    let payload: Record<string, unknown> | undefined;
+    if (decision === "approve" && isEditing) {
+      try {
+        const parsed = JSON.parse(payloadJson);
+        if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) throw new Error();
+        payload = parsed;
+      } catch {
+        toast({ title: "Invalid payload", description: "The edited payload must be a JSON object", variant: "destructive" });
+        return;
+      }
+    }
+
+    setPendingDecision(decision);
+    try {
+      const decided = await decideWorkflowApproval(approval.id, decision, {
+        payload,
+        comment: comment.trim() || undefined,
+      });
+      toast({
+        title: decision === "approve" ? "Approved" : "Rejected",
+        description: decision === "approve"
+          ? `${approval.workflow_name ?? "The workflow"} is continuing`
+          : `${approval.workflow_name ?? "The workflow"} run was stopped`,
+      });
+      onDecided(decided);
+    } catch (error) {
+      toast({
+        title: "Decision failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+      onError?.();
+    } finally {
+      setPendingDecision(null);
+    }
+  };
+
+  return (
+    <Card className="border-amber-300 dark:border-amber-800">
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <CardTitle className="text-sm flex items-center gap-2">
+              <Hourglass className="h-4 w-4 text-amber-500 shrink-0" />
+              <span className="truncate">
+                {approval.workflow_name ?? "Workflow"} is waiting for approval
+              </span>
+            </CardTitle>
+            <CardDescription className="text-xs">
+              {approval.node_label ?? "Approval"} · {formatExpiry(approval.expires_at)}
+            </CardDescription>
+          </div>
+          {!isEditing && (
+            <Button variant="ghost" size="sm" onClick={() => setIsEditing(true)} disabled={pendingDecision !== null}>
+              <Pencil className="h-3 w-3 mr-1" />
+              Edit
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {approval.message && <p className="text-sm whitespace-pre-wrap">{approval.message}</p>}
+
+        {isEditing ? (
+          <Textarea
+            value={payloadJson}
+            onChange={event => setPayloadJson(event.target.value)}
+            className="font-mono text-xs min-h-[160px]"
+          />
+        ) : (
+          <pre className="p-3 rounded-md bg-muted text-xs overflow-auto max-h-48">
+            {JSON.stringify(approval.payload, null, 2)}
+          </pre>
+        )}
+
+        <Input
+          value={comment}
+          onChange={event => setComment(event.target.value)}
+          placeholder="Comment (optional)"
+          className="text-sm"
+        />
+
+        <div className="flex justify-end gap-2">
+          {isEditing && (
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={pendingDecision !== null}
+              onClick={() => {
+                setIsEditing(false);
+                setPayloadJson(JSON.stringify(approval.payload, null, 2));
+              }}
+            >
+              Discard edits
+            </Button>
+          )}
+          <Button variant="outline" size="sm" disabled={pendingDecision !== null} onClick={() => decide("reject")}>
+            {pendingDecision === "reject" ? (
+              <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+            ) : (
+              <X className="h-3 w-3 mr-1" />
+            )}
+            Reject
+          </Button>
+          <Button size="sm" disabled={pendingDecision !== null} onClick={() => decide("approve")}>
+            {pendingDecision === "approve" ? (
+              <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+            ) : (
+              <Check className="h-3 w-3 mr-1" />
+            )}
+            {isEditing ? "Approve edited" : "Approve"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
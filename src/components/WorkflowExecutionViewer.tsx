@@ -1,11 +1,40 @@
 import { useState, useEffect } from "react";
-import { X, CheckCircle2, XCircle, Clock, Loader2 } from "lucide-react";
+import { X, CheckCircle2, XCircle, Clock, Loader2, MinusCircle, Ban, Square, RotateCcw, ArrowUpLeft, ExternalLink, Hourglass } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { cn } from "@/lib/utils";
 import { supabaseClient } from "@/lib/supabaseClient";
+import { useToast } from "@/components/ui/use-toast";
+import { WorkflowApprovalsPanel } from "@/components/WorkflowApprovals";
+import { cancelWorkflowExecution, resumeWorkflowExecution } from "@/lib/workflows/client";
+
+interface NodeExecutionStatus {
+  id: string;
+  node_id: string;
+  node_label?: string | null;
+  node_type?: string | null;
+  status: string;
+  attempt?: number;
+  output_data?: Record<string, unknown>;
+  error_message?: string;
+  started_at?: string;
+  completed_at?: string;
+  latency_ms?: number | null;
+  loop_node_id?: string | null;
+  iteration?: number | null;
+}
+
+// A run started by one of this run's sub-workflow nodes
+interface ChildExecutionStatus {
+  id: string;
+  workflow_id: string;
+  workflow_name?: string | null;
+  parent_node_id?: string | null;
+  status: string;
+  created_at: string;
+}
 
 interface ExecutionStatus {
   execution: {
@@ -15,16 +44,12 @@ interface ExecutionStatus {
     error_message?: string;
     started_at?: string;
     completed_at?: string;
+    parent_execution_id?: string | null;
   };
-  node_executions: Array<{
-    id: string;
-    node_id: string;
-    status: string;
-    output_data?: Record<string, unknown>;
-    error_message?: string;
-    started_at?: string;
-    completed_at?: string;
-  }>;
+  /** Workflow version the run executed; null for runs from before versioning. */
+  version?: number | null;
+  node_executions: NodeExecutionStatus[];
+  child_executions?: ChildExecutionStatus[];
   current_step: number;
   total_steps: number;
   progress: number;
@@ -36,9 +61,13 @@ interface WorkflowExecutionViewerProps {
 }
 
 export function WorkflowExecutionViewer({ executionId, onClose }: WorkflowExecutionViewerProps) {
+  // Sub-workflow links navigate within the viewer
+  const [viewedExecutionId, setViewedExecutionId] = useState(executionId);
   const [status, setStatus] = useState<ExecutionStatus | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [pendingAction, setPendingAction] = useState<"cancel" | "resume" | null>(null);
+  const { toast } = useToast();
 
   const fetchStatus = async () => {
     try {
@@ -60,7 +89,7 @@ export function WorkflowExecutionViewer({ executionId, onClose }: WorkflowExecut
         throw new Error("Not authenticated");
       }
 
-      const response = await fetch(`${FUNCTIONS_URL}/workflow-execution/${executionId}`, {
+      const response = await fetch(`${FUNCTIONS_URL}/workflow-execution/${viewedExecutionId}`, {
         headers: {
           Authorization: `Bearer ${session.access_token}`,
         },
@@ -80,6 +109,36 @@ export function WorkflowExecutionViewer({ executionId, onClose }: WorkflowExecut
     }
   };
 
+  const runAction = async (action: "cancel" | "resume") => {
+    setPendingAction(action);
+    try {
+      if (action === "cancel") {
+        await cancelWorkflowExecution(viewedExecutionId);
+      } else {
+        await resumeWorkflowExecution(viewedExecutionId);
+      }
+      await fetchStatus();
+    } catch (err) {
+      toast({
+        title: action === "cancel" ? "Cancel failed" : "Resume failed",
+        description: err instanceof Error ? err.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const openExecution = (id: string) => {
+    setStatus(null);
+    setIsLoading(true);
+    setViewedExecutionId(id);
+  };
+
+  useEffect(() => {
+    setViewedExecutionId(executionId);
+  }, [executionId]);
+
   useEffect(() => {
     fetchStatus();
 
@@ -91,7 +150,7 @@ export function WorkflowExecutionViewer({ executionId, onClose }: WorkflowExecut
     }, 2000); // Poll every 2 seconds
 
     return () => clearInterval(interval);
-  }, [executionId, status?.execution.status]);
+  }, [viewedExecutionId, status?.execution.status]);
 
   if (isLoading) {
     return (
@@ -114,6 +173,10 @@ export function WorkflowExecutionViewer({ executionId, onClose }: WorkflowExecut
   }
 
   const { execution, node_executions, progress } = status;
+  // Rows of nodes run inside a loop body are shown under their loop node, one iteration at a time
+  const topLevelExecutions = node_executions.filter(nodeExec => !nodeExec.loop_node_id);
+  const canCancel = execution.status === "running" || execution.status === "pending" || execution.status === "waiting";
+  const canResume = execution.status === "failed" || execution.status === "cancelled";
 
   const getStatusIcon = (status: string) => {
     switch (status) {
@@ -123,17 +186,26 @@ export function WorkflowExecutionViewer({ executionId, onClose }: WorkflowExecut
         return <XCircle className="h-4 w-4 text-red-500" />;
       case "running":
         return <Loader2 className="h-4 w-4 animate-spin text-blue-500" />;
+      case "skipped":
+        return <MinusCircle className="h-4 w-4 text-muted-foreground" />;
+      case "cancelled":
+        return <Ban className="h-4 w-4 text-muted-foreground" />;
+      case "waiting":
+        return <Hourglass className="h-4 w-4 text-amber-500" />;
       default:
         return <Clock className="h-4 w-4 text-amber-500" />;
     }
   };
 
   const getStatusBadge = (status: string) => {
-    const variants: Record<string, "default" | "destructive" | "secondary"> = {
+    const variants: Record<string, "default" | "destructive" | "secondary" | "outline"> = {
       completed: "default",
       failed: "destructive",
       running: "secondary",
       pending: "secondary",
+      waiting: "outline",
+      skipped: "outline",
+      cancelled: "outline",
     };
 
     return (
@@ -148,13 +220,24 @@ export function WorkflowExecutionViewer({ executionId, onClose }: WorkflowExecut
       <div className="flex items-center justify-between">
         <div>
           <h3 className="text-lg font-semibold">Execution Status</h3>
-          <p className="text-sm text-muted-foreground">Execution ID: {executionId.slice(0, 8)}...</p>
+          <p className="text-sm text-muted-foreground">
+            Execution ID: {viewedExecutionId.slice(0, 8)}...
+            {status.version != null && <> · Version {status.version}</>}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {execution.parent_execution_id && (
+            <Button variant="outline" size="sm" onClick={() => openExecution(execution.parent_execution_id!)}>
+              <ArrowUpLeft className="h-3 w-3 mr-1" />
+              Parent run
+            </Button>
+          )}
+          {onClose && (
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          )}
         </div>
-        {onClose && (
-          <Button variant="ghost" size="sm" onClick={onClose}>
-            <X className="h-4 w-4" />
-          </Button>
-        )}
       </div>
 
       {/* Overall Status */}
@@ -163,6 +246,37 @@ export function WorkflowExecutionViewer({ executionId, onClose }: WorkflowExecut
           <div className="flex items-center justify-between">
             <CardTitle className="text-base">Workflow Execution</CardTitle>
             <div className="flex items-center gap-2">
+              {canCancel && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={pendingAction !== null}
+                  onClick={() => runAction("cancel")}
+                >
+                  {pendingAction === "cancel" ? (
+                    <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                  ) : (
+                    <Square className="h-3 w-3 mr-1" />
+                  )}
+                  Cancel
+                </Button>
+              )}
+              {canResume && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={pendingAction !== null}
+                  onClick={() => runAction("resume")}
+                  title="Continue from the last completed node"
+                >
+                  {pendingAction === "resume" ? (
+                    <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                  ) : (
+                    <RotateCcw className="h-3 w-3 mr-1" />
+                  )}
+                  Resume
+                </Button>
+              )}
               {getStatusIcon(execution.status)}
               {getStatusBadge(execution.status)}
             </div>
@@ -179,6 +293,10 @@ export function WorkflowExecutionViewer({ executionId, onClose }: WorkflowExecut
             </div>
           )}
 
+          {execution.status === "waiting" && (
+            <WorkflowApprovalsPanel executionId={execution.id} pollIntervalMs={10_000} onDecided={fetchStatus} />
+          )}
+
           {execution.error_message && (
             <div className="p-3 rounded-md bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800">
               <p className="text-sm text-red-800 dark:text-red-200">{execution.error_message}</p>
@@ -196,16 +314,23 @@ export function WorkflowExecutionViewer({ executionId, onClose }: WorkflowExecut
         </CardContent>
       </Card>
 
+      {/* Timeline */}
+      <ExecutionTimeline
+        nodeExecutions={topLevelExecutions}
+        runStartedAt={execution.started_at}
+        runCompletedAt={execution.completed_at}
+      />
+
       {/* Node Executions */}
-      {node_executions.length > 0 && (
+      {topLevelExecutions.length > 0 && (
         <Card>
           <CardHeader>
             <CardTitle className="text-base">Node Executions</CardTitle>
-            <CardDescription>{node_executions.length} nodes executed</CardDescription>
+            <CardDescription>{topLevelExecutions.length} nodes executed</CardDescription>
           </CardHeader>
           <CardContent>
             <div className="space-y-2">
-              {node_executions.map((nodeExec, index) => (
+              {topLevelExecutions.map((nodeExec, index) => (
                 <div
                   key={nodeExec.id}
                   className={cn(
@@ -213,14 +338,25 @@ export function WorkflowExecutionViewer({ executionId, onClose }: WorkflowExecut
                     nodeExec.status === "completed" && "bg-emerald-50 dark:bg-emerald-950 border-emerald-200 dark:border-emerald-800",
                     nodeExec.status === "failed" && "bg-red-50 dark:bg-red-950 border-red-200 dark:border-red-800",
                     nodeExec.status === "running" && "bg-blue-50 dark:bg-blue-950 border-blue-200 dark:border-blue-800",
+                    nodeExec.status === "waiting" && "bg-amber-50 dark:bg-amber-950 border-amber-200 dark:border-amber-800",
+                    nodeExec.status === "skipped" && "bg-muted/50 border-dashed opacity-70",
+                    nodeExec.status === "cancelled" && "bg-muted/50 opacity-70",
                   )}
                 >
                   <div className="flex items-center justify-between mb-2">
                     <div className="flex items-center gap-2">
                       {getStatusIcon(nodeExec.status)}
-                      <span className="text-sm font-medium">Node {index + 1}</span>
+                      <span className="text-sm font-medium">{nodeExec.node_label || `Node ${index + 1}`}</span>
+                      {(nodeExec.attempt ?? 1) > 1 && (
+                        <span className="text-xs text-muted-foreground">attempt {nodeExec.attempt}</span>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {typeof nodeExec.latency_ms === "number" && (
+                        <span className="text-xs text-muted-foreground">{formatDuration(nodeExec.latency_ms)}</span>
+                      )}
+                      {getStatusBadge(nodeExec.status)}
                     </div>
-                    {getStatusBadge(nodeExec.status)}
                   </div>
 
                   {nodeExec.error_message && (
@@ -239,6 +375,34 @@ export function WorkflowExecutionViewer({ executionId, onClose }: WorkflowExecut
                       </pre>
                     </details>
                   )}
+
+                  {nodeExec.node_type === "subworkflow" && (
+                    <div className="mt-2 flex flex-wrap gap-2">
+                      {(status.child_executions ?? [])
+                        .filter(child => child.parent_node_id === nodeExec.node_id && startedDuring(child, nodeExec))
+                        .map(child => (
+                          <Button
+                            key={child.id}
+                            variant="outline"
+                            size="sm"
+                            className="h-7 text-xs"
+                            onClick={() => openExecution(child.id)}
+                          >
+                            <ExternalLink className="h-3 w-3 mr-1" />
+                            {child.workflow_name || "Sub-workflow"} run
+                            <span className="ml-2">{getStatusIcon(child.status)}</span>
+                          </Button>
+                        ))}
+                    </div>
+                  )}
+
+                  {nodeExec.node_type === "loop" && (
+                    <LoopIterations
+                      rows={node_executions.filter(row => row.loop_node_id === nodeExec.node_id)}
+                      getStatusIcon={getStatusIcon}
+                      getStatusBadge={getStatusBadge}
+                    />
+                  )}
                 </div>
               ))}
             </div>
@@ -249,3 +413,186 @@ export function WorkflowExecutionViewer({ executionId, onClose }: WorkflowExecut
   );
 }
 
+const iterationStatusColors: Record<string, string> = {
+  completed: "bg-emerald-500",
+  failed: "bg-red-500",
+  running: "bg-blue-500 animate-pulse",
+  skipped: "bg-muted-foreground/40",
+  cancelled: "bg-muted-foreground/40",
+};
+
+// An iteration is as bad as its worst node
+function iterationStatus(rows: NodeExecutionStatus[]): string {
+  for (const status of ["failed", "running", "cancelled", "completed"]) {
+    if (rows.some(row => row.status === status)) return status;
+  }
+  return "skipped";
+}
+
+// Per-iteration drill-down for a loop node: pick an iteration to see its body nodes
+function LoopIterations({
+  rows,
+  getStatusIcon,
+  getStatusBadge,
+}: {
+  rows: NodeExecutionStatus[];
+  getStatusIcon: (status: string) => JSX.Element;
+  getStatusBadge: (status: string) => JSX.Element;
+}) {
+  const [selected, setSelected] = useState<number | null>(null);
+
+  const iterations = new Map<number, NodeExecutionStatus[]>();
+  for (const row of rows) {
+    const iteration = row.iteration ?? 0;
+    iterations.set(iteration, [...(iterations.get(iteration) ?? []), row]);
+  }
+  if (iterations.size === 0) {
+    return null;
+  }
+
+  const indexes = [...iterations.keys()].sort((a, b) => a - b);
+  // Until one is picked, show the first failed iteration (or the first one)
+  const current =
+    selected !== null && iterations.has(selected)
+      ? selected
+      : indexes.find(index => iterationStatus(iterations.get(index)!) === "failed") ?? indexes[0];
+
+  return (
+    <div className="mt-3 space-y-2 border-t pt-3">
+      <p className="text-xs font-medium">
+        {indexes.length} iteration{indexes.length === 1 ? "" : "s"}
+      </p>
+      <div className="flex flex-wrap gap-1">
+        {indexes.map(index => (
+          <button
+            key={index}
+            type="button"
+            onClick={() => setSelected(index)}
+            title={`Iteration ${index + 1}: ${iterationStatus(iterations.get(index)!)}`}
+            className={cn(
+              "h-3 w-3 rounded-sm",
+              iterationStatusColors[iterationStatus(iterations.get(index)!)] || "bg-amber-500",
+              index === current && "ring-2 ring-offset-1 ring-foreground",
+            )}
+          />
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">Iteration {current + 1}</p>
+      <div className="space-y-1">
+        {iterations.get(current)!.map(row => (
+          <div key={row.id} className="rounded border bg-background p-2">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                {getStatusIcon(row.status)}
+                <span className="text-xs font-medium">{row.node_label || row.node_id.slice(0, 8)}</span>
+                {(row.attempt ?? 1) > 1 && <span className="text-xs text-muted-foreground">attempt {row.attempt}</span>}
+              </div>
+              <div className="flex items-center gap-2">
+                {typeof row.latency_ms === "number" && (
+                  <span className="text-xs text-muted-foreground">{formatDuration(row.latency_ms)}</span>
+                )}
+                {getStatusBadge(row.status)}
+              </div>
+            </div>
+            {row.error_message && <p className="mt-1 text-xs text-red-600 dark:text-red-400">{row.error_message}</p>}
+            {row.output_data && row.status === "completed" && (
+              <details className="mt-1">
+                <summary className="text-xs cursor-pointer text-muted-foreground">View output</summary>
+                <pre className="mt-1 p-2 rounded bg-muted text-xs overflow-auto max-h-32">
+                  {JSON.stringify(row.output_data, null, 2)}
+                </pre>
+              </details>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Pairs a sub-workflow node attempt with the child run it started
+function startedDuring(child: ChildExecutionStatus, nodeExec: NodeExecutionStatus): boolean {
+  const created = new Date(child.created_at).getTime();
+  if (nodeExec.started_at && created < new Date(nodeExec.started_at).getTime()) return false;
+  return !nodeExec.completed_at || created <= new Date(nodeExec.completed_at).getTime();
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(ms < 10000 ? 2 : 1)} s`;
+}
+
+const timelineBarColors: Record<string, string> = {
+  completed: "bg-emerald-500",
+  failed: "bg-red-500",
+  running: "bg-blue-500 animate-pulse",
+  cancelled: "bg-muted-foreground/40",
+};
+
+// Gantt-style view of when each node ran, relative to the start of the run
+function ExecutionTimeline({
+  nodeExecutions,
+  runStartedAt,
+  runCompletedAt,
+}: {
+  nodeExecutions: NodeExecutionStatus[];
+  runStartedAt?: string;
+  runCompletedAt?: string;
+}) {
+  const timed = nodeExecutions.filter(nodeExec => nodeExec.started_at);
+  if (timed.length === 0) {
+    return null;
+  }
+
+  const now = Date.now();
+  const startOf = (nodeExec: NodeExecutionStatus) => new Date(nodeExec.started_at!).getTime();
+  const endOf = (nodeExec: NodeExecutionStatus) =>
+    nodeExec.completed_at ? new Date(nodeExec.completed_at).getTime() : now;
+
+  const timelineStart = Math.min(
+    ...timed.map(startOf),
+    ...(runStartedAt ? [new Date(runStartedAt).getTime()] : []),
+  );
+  const timelineEnd = Math.max(
+    ...timed.map(endOf),
+    ...(runCompletedAt ? [new Date(runCompletedAt).getTime()] : []),
+  );
+  const span = Math.max(timelineEnd - timelineStart, 1);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Timeline</CardTitle>
+        <CardDescription>Total {formatDuration(timelineEnd - timelineStart)}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-1.5">
+          {timed.map((nodeExec, index) => {
+            const offset = startOf(nodeExec) - timelineStart;
+            const duration = nodeExec.latency_ms ?? endOf(nodeExec) - startOf(nodeExec);
+            return (
+              <div key={nodeExec.id} className="flex items-center gap-2">
+                <span className="w-28 shrink-0 truncate text-xs" title={nodeExec.node_label || undefined}>
+                  {nodeExec.node_label || `Node ${index + 1}`}
+                  {(nodeExec.attempt ?? 1) > 1 && ` #${nodeExec.attempt}`}
+                </span>
+                <div className="relative h-4 flex-1 rounded bg-muted">
+                  <div
+                    className={cn("absolute h-full rounded", timelineBarColors[nodeExec.status] || "bg-amber-500")}
+                    style={{
+                      left: `${(offset / span) * 100}%`,
+                      width: `${Math.max((duration / span) * 100, 0.5)}%`,
+                    }}
+                    title={`+${formatDuration(offset)} · ${formatDuration(duration)}`}
+                  />
+                </div>
+                <span className="w-16 shrink-0 text-right text-xs text-muted-foreground">
+                  {formatDuration(duration)}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,417 @@
+import { useEffect, useState } from "react";
+import { CalendarClock, Copy, Eye, EyeOff, Loader2, Plus, RefreshCw, Trash2, Webhook } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/use-toast";
+import {
+  createWorkflowTrigger,
+  deleteWorkflowTrigger,
+  listWorkflowTriggers,
+  rotateWorkflowTriggerSecret,
+  updateWorkflowTrigger,
+} from "@/lib/workflows/client";
+import type { Workflow, WorkflowTrigger, WorkflowTriggerType } from "@/lib/workflows/types";
+
+interface WorkflowTriggersDialogProps {
+  workflow: Workflow | null;
+  onClose: () => void;
+  /** Called with the workflow's triggers whenever they change. */
+  onTriggersChange?: (workflowId: string, triggers: WorkflowTrigger[]) => void;
+}
+
+const BROWSER_TIMEZONE = Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+// Shell example for signing a request, shown under webhook triggers
+function signingExample(trigger: WorkflowTrigger): string {
+  return [
+    `BODY='{"symbols":["AAPL","MSFT"]}'`,
+    "TS=$(date +%s)",
+    `SIG=$(printf '%s.%s' "$TS" "$BODY" | openssl dgst -sha256 -hmac "$SECRET" -hex | sed 's/^.* //')`,
+    `curl -X POST '${trigger.webhook_url}' -H "X-Workflow-Timestamp: $TS" -H "X-Workflow-Signature: sha256=$SIG" -d "$BODY"`,
+  ].join("\n");
+}
+
+export function WorkflowTriggersDialog({ workflow, onClose, onTriggersChange }: WorkflowTriggersDialogProps) {
+  const { toast } = useToast();
+  const [triggers, setTriggers] = useState<WorkflowTrigger[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [revealedSecrets, setRevealedSecrets] = useState<Set<string>>(new Set());
+
+  // New trigger form
+  const [triggerType, setTriggerType] = useState<WorkflowTriggerType>("cron");
+  const [name, setName] = useState("");
+  const [cronExpression, setCronExpression] = useState("0 8 * * 1-5");
+  const [timezone, setTimezone] = useState(BROWSER_TIMEZONE);
+  const [inputJson, setInputJson] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+
+  const workflowId = workflow?.id;
+
+  const applyTriggers = (next: WorkflowTrigger[]) => {
+    setTriggers(next);
+    if (workflowId) onTriggersChange?.(workflowId, next);
+  };
+
+  // The server only returns a signing secret when it is created or rotated; keep it while the dialog is open
+  const replaceTrigger = (updated: WorkflowTrigger) =>
+    applyTriggers(triggers.map(t => (t.id === updated.id ? { ...updated, webhook_secret: updated.webhook_secret ?? t.webhook_secret } : t)));
+
+  useEffect(() => {
+    if (!workflowId) return;
+    let cancelled = false;
+    setIsLoading(true);
+    setTriggers([]);
+    setRevealedSecrets(new Set());
+    listWorkflowTriggers(workflowId)
+      .then(data => {
+        if (!cancelled) setTriggers(data);
+      })
+      .catch(error => {
+        console.error("Failed to load workflow triggers:", error);
+        if (!cancelled) {
+          toast({
+            title: "Error",
+            description: error instanceof Error ? error.message : "Failed to load triggers",
+            variant: "destructive",
+          });
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [workflowId, toast]);
+
+  const reportError = (title: string, error: unknown) => {
+    console.error(`${title}:`, error);
+    toast({
+      title,
+      description: error instanceof Error ? error.message : String(error),
+      variant: "destructive",
+    });
+  };
+
+  const handleCreate = async () => {
+    if (!workflowId) return;
+    let inputData: Record<string, unknown> = {};
+    if (triggerType === "cron" && inputJson.trim()) {
+      try {
+        const parsed = JSON.parse(inputJson);
+        if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+          throw new Error("Input must be a JSON object");
+        }
+        inputData = parsed;
+      } catch (error) {
+        reportError("Invalid input JSON", error);
+        return;
+      }
+    }
+
+    setIsCreating(true);
+    try {
+      const trigger = await createWorkflowTrigger(workflowId, triggerType, {
+        name: name.trim() || null,
+        ...(triggerType === "cron" ? { cron_expression: cronExpression.trim(), timezone: timezone.trim() } : {}),
+        input_data: inputData,
+      });
+      applyTriggers([...triggers, trigger]);
+      if (trigger.trigger_type === "webhook") {
+        setRevealedSecrets(prev => new Set(prev).add(trigger.id));
+      }
+      setName("");
+      setInputJson("");
+      toast({
+        title: "Trigger created",
+        description: trigger.trigger_type === "cron" && trigger.next_run_at
+          ? `Next run ${new Date(trigger.next_run_at).toLocaleString()}`
+          : "Send signed POST requests to the webhook URL to start a run.",
+      });
+    } catch (error) {
+      reportError("Failed to create trigger", error);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleToggle = async (trigger: WorkflowTrigger, enabled: boolean) => {
+    setPendingId(trigger.id);
+    try {
+      const updated = await updateWorkflowTrigger(trigger.id, { enabled });
+      replaceTrigger(updated);
+    } catch (error) {
+      reportError("Failed to update trigger", error);
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleRotate = async (trigger: WorkflowTrigger) => {
+    if (!confirm("Rotate the signing secret? Senders using the current secret will be rejected.")) return;
+    setPendingId(trigger.id);
+    try {
+      const updated = await rotateWorkflowTriggerSecret(trigger.id);
+      replaceTrigger(updated);
+      setRevealedSecrets(prev => new Set(prev).add(updated.id));
+    } catch (error) {
+      reportError("Failed to rotate secret", error);
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleDelete = async (trigger: WorkflowTrigger) => {
+    if (!confirm(`Delete this ${trigger.trigger_type === "cron" ? "schedule" : "webhook"}?`)) return;
+    setPendingId(trigger.id);
+    try {
+      await deleteWorkflowTrigger(trigger.id);
+      applyTriggers(triggers.filter(t => t.id !== trigger.id));
+    } catch (error) {
+      reportError("Failed to delete trigger", error);
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const copyToClipboard = async (value: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      toast({ title: "Copied", description: `${label} copied to clipboard` });
+    } catch (error) {
+      reportError("Copy failed", error);
+    }
+  };
+
+  return (
+    <Dialog open={!!workflow} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Triggers: {workflow?.name}</DialogTitle>
+          <DialogDescription>
+            Run this workflow on a schedule, or when a signed request is POSTed to its webhook URL.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {isLoading ? (
+            <div className="flex items-center gap-2 py-4 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading triggers...
+            </div>
+          ) : triggers.length === 0 ? (
+            <p className="py-2 text-sm text-muted-foreground">No triggers yet. The workflow only runs when started manually.</p>
+          ) : (
+            triggers.map(trigger => (
+              <div key={trigger.id} className="rounded-md border p-3 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    {trigger.trigger_type === "cron" ? (
+                      <CalendarClock className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                    ) : (
+                      <Webhook className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                    )}
+                    <span className="font-medium truncate">
+                      {trigger.name || (trigger.trigger_type === "cron" ? "Schedule" : "Webhook")}
+                    </span>
+                    {!trigger.enabled && <Badge variant="secondary">Disabled</Badge>}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={trigger.enabled}
+                      disabled={pendingId === trigger.id}
+                      onCheckedChange={checked => handleToggle(trigger, checked)}
+                      aria-label={trigger.enabled ? "Disable trigger" : "Enable trigger"}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      disabled={pendingId === trigger.id}
+                      onClick={() => handleDelete(trigger)}
+                      title="Delete trigger"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+
+                {trigger.trigger_type === "cron" ? (
+                  <div className="text-xs text-muted-foreground space-y-0.5">
+                    <p>
+                      <code className="rounded bg-muted px-1 py-0.5">{trigger.cron_expression}</code> ({trigger.timezone})
+                    </p>
+                    {trigger.enabled && trigger.next_run_at && (
+                      <p>Next run {new Date(trigger.next_run_at).toLocaleString()}</p>
+                    )}
+                  </div>
+                ) : (
+                  <div className="text-xs space-y-1">
+                    <div className="flex items-center gap-1">
+                      <code className="flex-1 truncate rounded bg-muted px-1 py-0.5" title={trigger.webhook_url}>
+                        {trigger.webhook_url}
+                      </code>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0"
+                        onClick={() => copyToClipboard(trigger.webhook_url ?? "", "Webhook URL")}
+                        title="Copy URL"
+                      >
+                        <Copy className="h-3 w-3" />
+                      </Button>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <code
+                        className="flex-1 truncate rounded bg-muted px-1 py-0.5"
+                        title={trigger.webhook_secret ? undefined : "The secret is only shown once; rotate it to get a new one"}
+                      >
+                        {trigger.webhook_secret && revealedSecrets.has(trigger.id)
+                          ? trigger.webhook_secret
+                          : "whsec_••••••••••••••••"}
+                      </code>
+                      {trigger.webhook_secret && (
+                        <>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 w-6 p-0"
+                            onClick={() =>
+                              setRevealedSecrets(prev => {
+                                const next = new Set(prev);
+                                if (!next.delete(trigger.id)) next.add(trigger.id);
+                                return next;
+                              })}
+                            title={revealedSecrets.has(trigger.id) ? "Hide secret" : "Show secret"}
+                          >
+                            {revealedSecrets.has(trigger.id) ? <EyeOff className="h-3 w-3" /> : <Eye className="h-3 w-3" />}
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 w-6 p-0"
+                            onClick={() => copyToClipboard(trigger.webhook_secret ?? "", "Signing secret")}
+                            title="Copy secret"
+                          >
+                            <Copy className="h-3 w-3" />
+                          </Button>
+                        </>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0"
+                        disabled={pendingId === trigger.id}
+                        onClick={() => handleRotate(trigger)}
+                        title="Rotate secret"
+                      >
+                        <RefreshCw className="h-3 w-3" />
+                      </Button>
+                    </div>
+                    <details className="text-muted-foreground">
+                      <summary className="cursor-pointer">How to sign requests</summary>
+                      <p className="mt-1">
+                        Send <code>X-Workflow-Timestamp</code> (unix seconds, within 5 minutes) and{" "}
+                        <code>X-Workflow-Signature: sha256=&lt;hex HMAC-SHA256 of "timestamp.body"&gt;</code>.
+                        Each signed request is accepted once. A JSON object body becomes the run's <code>input_data</code>.
+                      </p>
+                      <pre className="mt-1 overflow-x-auto rounded bg-muted p-2 text-[10px]">{signingExample(trigger)}</pre>
+                    </details>
+                  </div>
+                )}
+
+                {(trigger.last_triggered_at || trigger.last_error) && (
+                  <p className={trigger.last_error ? "text-xs text-destructive" : "text-xs text-muted-foreground"}>
+                    {trigger.last_triggered_at && `Last triggered ${new Date(trigger.last_triggered_at).toLocaleString()}`}
+                    {trigger.last_error && `${trigger.last_triggered_at ? " — " : ""}${trigger.last_error}`}
+                  </p>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="rounded-md border border-dashed p-3 space-y-3">
+          <p className="text-sm font-medium">Add trigger</p>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="trigger-type">Type</Label>
+              <Select value={triggerType} onValueChange={value => setTriggerType(value as WorkflowTriggerType)}>
+                <SelectTrigger id="trigger-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="cron">Schedule (cron)</SelectItem>
+                  <SelectItem value="webhook">Webhook</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="trigger-name">Name</Label>
+              <Input
+                id="trigger-name"
+                value={name}
+                onChange={e => setName(e.target.value)}
+                placeholder={triggerType === "cron" ? "Weekday digest" : "Inbound orders"}
+              />
+            </div>
+          </div>
+
+          {triggerType === "cron" && (
+            <>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Label htmlFor="trigger-cron">Cron expression</Label>
+                  <Input
+                    id="trigger-cron"
+                    value={cronExpression}
+                    onChange={e => setCronExpression(e.target.value)}
+                    placeholder="0 8 * * 1-5"
+                    className="font-mono"
+                  />
+                  <p className="text-[10px] text-muted-foreground">minute hour day month weekday, e.g. 0 8 * * 1-5 for weekdays at 8:00</p>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="trigger-timezone">Timezone</Label>
+                  <Input
+                    id="trigger-timezone"
+                    value={timezone}
+                    onChange={e => setTimezone(e.target.value)}
+                    placeholder="Europe/London"
+                  />
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="trigger-input">Input data (JSON, optional)</Label>
+                <Textarea
+                  id="trigger-input"
+                  value={inputJson}
+                  onChange={e => setInputJson(e.target.value)}
+                  placeholder='{"symbols": ["AAPL", "MSFT"]}'
+                  className="font-mono text-xs"
+                  rows={3}
+                />
+              </div>
+            </>
+          )}
+
+          <Button
+            onClick={handleCreate}
+            disabled={isCreating || (triggerType === "cron" && !cronExpression.trim())}
+            size="sm"
+          >
+            {isCreating ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Plus className="h-3 w-3 mr-1" />}
+            Add {triggerType === "cron" ? "schedule" : "webhook"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,321 @@
+import { useEffect, useMemo, useState } from "react";
+import { Loader2, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { cn } from "@/lib/utils";
+import { listWorkflowVersions, restoreWorkflowVersion } from "@/lib/workflows/client";
+import { diffWorkflowGraphs } from "@/lib/workflows/versions";
+import type { WorkflowGraphChange, WorkflowGraphDiff, WorkflowVersion } from "@/lib/workflows/types";
+
+interface WorkflowVersionsDialogProps {
+  workflowId: string | null;
+  onClose: () => void;
+  /** Called with the new version after a rollback; the builder reloads the graph. */
+  onRestored: (version: WorkflowVersion) => void;
+}
+
+const changeStyles: Record<WorkflowGraphChange, { text: string; fill: string; stroke: string; sign: string }> = {
+  added: { text: "text-emerald-600 dark:text-emerald-400", fill: "#d1fae5", stroke: "#10b981", sign: "+" },
+  removed: { text: "text-red-600 dark:text-red-400", fill: "#fee2e2", stroke: "#ef4444", sign: "−" },
+  changed: { text: "text-amber-600 dark:text-amber-400", fill: "#fef3c7", stroke: "#f59e0b", sign: "~" },
+};
+
+const NODE_WIDTH = 140;
+const NODE_HEIGHT = 36;
+
+// Both versions' nodes on one canvas at their saved positions, coloured by change
+function GraphDiffPreview({ before, after, diff }: { before: WorkflowVersion; after: WorkflowVersion; diff: WorkflowGraphDiff }) {
+  const nodeChanges = new Map(diff.nodes.map(entry => [entry.node.id, entry.change]));
+  const edgeChanges = new Map(
+    diff.edges.map(entry => [`${entry.edge.source_node_id}->${entry.edge.target_node_id}`, entry.change]),
+  );
+  const nodes = [
+    ...after.graph.nodes,
+    ...diff.nodes.filter(entry => entry.change === "removed").map(entry => entry.node),
+  ];
+  const edges = [
+    ...after.graph.edges,
+    ...diff.edges.filter(entry => entry.change === "removed").map(entry => entry.edge),
+  ];
+  if (nodes.length === 0) {
+    return <p className="text-sm text-muted-foreground">Both versions are empty.</p>;
+  }
+
+  const positions = new Map(nodes.map(node => [node.id, { x: Number(node.position_x), y: Number(node.position_y) }]));
+  const xs = [...positions.values()].map(position => position.x);
+  const ys = [...positions.values()].map(position => position.y);
+  const minX = Math.min(...xs) - 20;
+  const minY = Math.min(...ys) - 20;
+  const width = Math.max(...xs) - minX + NODE_WIDTH + 20;
+  const height = Math.max(...ys) - minY + NODE_HEIGHT + 20;
+
+  return (
+    <svg viewBox={`${minX} ${minY} ${width} ${height}`} className="w-full max-h-72 rounded-md border bg-muted/30">
+      {edges.map(edge => {
+        const source = positions.get(edge.source_node_id);
+        const target = positions.get(edge.target_node_id);
+        if (!source || !target) return null;
+        const change = edgeChanges.get(`${edge.source_node_id}->${edge.target_node_id}`);
+        return (
+          <line
+            key={`${edge.source_node_id}->${edge.target_node_id}`}
+            x1={source.x + NODE_WIDTH / 2}
+            y1={source.y + NODE_HEIGHT}
+            x2={target.x + NODE_WIDTH / 2}
+            y2={target.y}
+            stroke={change ? changeStyles[change].stroke : "#94a3b8"}
+            strokeWidth={change ? 3 : 1.5}
+            strokeDasharray={change === "removed" ? "6 4" : undefined}
+          />
+        );
+      })}
+      {nodes.map(node => {
+        const position = positions.get(node.id)!;
+        const change = nodeChanges.get(node.id);
+        return (
+          <g key={node.id} opacity={change === "removed" ? 0.7 : 1}>
+            <rect
+              x={position.x}
+              y={position.y}
+              width={NODE_WIDTH}
+              height={NODE_HEIGHT}
+              rx={6}
+              fill={change ? changeStyles[change].fill : "#ffffff"}
+              stroke={change ? changeStyles[change].stroke : "#cbd5e1"}
+              strokeWidth={change ? 2.5 : 1}
+              strokeDasharray={change === "removed" ? "6 4" : undefined}
+            />
+            <text
+              x={position.x + NODE_WIDTH / 2}
+              y={position.y + NODE_HEIGHT / 2 + 4}
+              textAnchor="middle"
+              fontSize={12}
+              fill="#0f172a"
+            >
+              {node.label.length > 18 ? `${node.label.slice(0, 17)}…` : node.label}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+export function WorkflowVersionsDialog({ workflowId, onClose, onRestored }: WorkflowVersionsDialogProps) {
+  const { toast } = useToast();
+  const [versions, setVersions] = useState<WorkflowVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    if (!workflowId) return;
+    let cancelled = false;
+    setIsLoading(true);
+    setVersions([]);
+    listWorkflowVersions(workflowId)
+      .then(data => {
+        if (cancelled) return;
+        setVersions(data);
+        // Newest version against the one before it
+        setSelectedId(data[0]?.id ?? null);
+        setCompareId(data[1]?.id ?? null);
+      })
+      .catch(error => {
+        console.error("Failed to load workflow versions:", error);
+        if (!cancelled) {
+          toast({
+            title: "Error",
+            description: error instanceof Error ? error.message : "Failed to load versions",
+            variant: "destructive",
+          });
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [workflowId, toast]);
+
+  const selected = versions.find(version => version.id === selectedId) ?? null;
+  const compared = versions.find(version => version.id === compareId) ?? null;
+  const latest = versions[0] ?? null;
+
+  // Older version first, so "added" means added since the older one
+  const [before, after] = selected && compared && compared.version > selected.version
+    ? [selected, compared]
+    : [compared, selected];
+  const diff = useMemo(
+    () => (before && after ? diffWorkflowGraphs(before.graph, after.graph) : null),
+    [before, after],
+  );
+
+  const selectVersion = (version: WorkflowVersion) => {
+    setSelectedId(version.id);
+    // Default comparison: the version right before it
+    const previous = versions.find(candidate => candidate.version < version.version);
+    setCompareId(previous?.id ?? null);
+  };
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    if (!confirm(`Restore version ${selected.version}? The current graph is kept as version ${latest?.version}.`)) return;
+    setIsRestoring(true);
+    try {
+      const restored = await restoreWorkflowVersion(selected);
+      setVersions(current => [restored, ...current]);
+      setSelectedId(restored.id);
+      setCompareId(latest?.id ?? null);
+      toast({ title: "Version restored", description: `Saved as version ${restored.version}` });
+      onRestored(restored);
+    } catch (error) {
+      console.error("Failed to restore workflow version:", error);
+      toast({
+        title: "Restore failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  // Labels for edge endpoints, from whichever version still has the node
+  const labelOf = (nodeId: string) =>
+    after?.graph.nodes.find(node => node.id === nodeId)?.label ??
+    before?.graph.nodes.find(node => node.id === nodeId)?.label ??
+    nodeId.slice(0, 8);
+
+  return (
+    <Dialog open={!!workflowId} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Version history</DialogTitle>
+          <DialogDescription>
+            Every save is kept as a version. Compare two versions, or restore one as the newest version.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4">No versions yet. Save the workflow to create one.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-[200px_1fr] gap-4">
+            <div className="space-y-1 md:max-h-[60vh] md:overflow-y-auto">
+              {versions.map(version => (
+                <button
+                  key={version.id}
+                  type="button"
+                  onClick={() => selectVersion(version)}
+                  className={cn(
+                    "w-full text-left rounded-md border px-3 py-2 text-sm hover:bg-muted/50",
+                    version.id === selectedId && "border-primary bg-muted",
+                  )}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium">Version {version.version}</span>
+                    {version.id === latest?.id && <Badge variant="secondary" className="text-xs">current</Badge>}
+                  </div>
+                  <div className="text-xs text-muted-foreground">{new Date(version.created_at).toLocaleString()}</div>
+                  {version.restored_from_version && (
+                    <div className="text-xs text-muted-foreground">Restored from version {version.restored_from_version}</div>
+                  )}
+                </button>
+              ))}
+            </div>
+
+            {selected && (
+              <div className="space-y-4 min-w-0">
+                <div className="flex flex-wrap items-end justify-between gap-2">
+                  <div className="space-y-1">
+                    <Label className="text-xs">Compare version {selected.version} with</Label>
+                    <Select value={compareId ?? "none"} onValueChange={value => setCompareId(value === "none" ? null : value)}>
+                      <SelectTrigger className="w-48">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Nothing</SelectItem>
+                        {versions
+                          .filter(version => version.id !== selected.id)
+                          .map(version => (
+                            <SelectItem key={version.id} value={version.id}>
+                              Version {version.version}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {selected.id !== latest?.id && (
+                    <Button variant="outline" size="sm" disabled={isRestoring} onClick={handleRestore}>
+                      {isRestoring ? (
+                        <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                      ) : (
+                        <RotateCcw className="h-3 w-3 mr-1" />
+                      )}
+                      Restore version {selected.version}
+                    </Button>
+                  )}
+                </div>
+
+                {!diff || !before || !after ? (
+                  <p className="text-sm text-muted-foreground">
+                    {selected.graph.nodes.length} nodes, {selected.graph.edges.length} connections. Pick a version to compare with.
+                  </p>
+                ) : diff.nodes.length === 0 && diff.edges.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    Versions {before.version} and {after.version} have the same graph.
+                  </p>
+                ) : (
+                  <>
+                    <p className="text-xs text-muted-foreground">
+                      Changes from version {before.version} to version {after.version}
+                    </p>
+                    <GraphDiffPreview before={before} after={after} diff={diff} />
+                    <div className="space-y-1">
+                      {diff.nodes.map(entry => (
+                        <div key={`node-${entry.node.id}`} className={cn("text-sm flex gap-2", changeStyles[entry.change].text)}>
+                          <span className="font-mono w-3">{changeStyles[entry.change].sign}</span>
+                          <span>
+                            {entry.node.label} <span className="text-muted-foreground">({entry.node.node_type})</span>
+                            {entry.fields.length > 0 && (
+                              <span className="text-muted-foreground"> — {entry.fields.join(", ")}</span>
+                            )}
+                          </span>
+                        </div>
+                      ))}
+                      {diff.edges.map(entry => (
+                        <div
+                          key={`edge-${entry.edge.source_node_id}-${entry.edge.target_node_id}`}
+                          className={cn("text-sm flex gap-2", changeStyles[entry.change].text)}
+                        >
+                          <span className="font-mono w-3">{changeStyles[entry.change].sign}</span>
+                          <span>
+                            {labelOf(entry.edge.source_node_id)} → {labelOf(entry.edge.target_node_id)}
+                            {entry.edge.condition && <span className="text-muted-foreground"> [{entry.edge.condition}]</span>}
+                            {entry.fields.length > 0 && (
+                              <span className="text-muted-foreground"> — {entry.fields.join(", ")}</span>
+                            )}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
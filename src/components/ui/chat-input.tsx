@@ -13,6 +13,7 @@ import { useToast } from "@/components/ui/use-toast";
 import { transcribeAudio } from "@/lib/voice";
 import type { McpRegistryEntry } from "@/lib/mcp/types";
 import { MCP_PROVIDER_PRESETS } from "@/lib/mcp/presets";
+import { buildDynamicServerDefinition } from "@/lib/mcp/registry";
 import type { UploadJob, JobStatus, StageHistoryEntry } from "@/types/uploads";
 import { parseStageMetadata } from "@/types/uploads";
 import type { McpEvent } from "@/components/McpEventLog";
@@ -365,6 +366,22 @@ export function ChatInput({
             description: `Invoke ${server.name} tools with ${value}<tool_name>`,
           });
         }
+
+        // Tools discovered via MCP tools/list (e.g. /my-server search_docs)
+        for (const command of buildDynamicServerDefinition(server).commands) {
+          const toolValue = `/${server.name} ${command.name}`;
+          if (map.has(toolValue)) continue;
+          const requiredArgs = (command.parameters ?? [])
+            .filter(parameter => parameter.required)
+            .map(parameter => `${parameter.name}=…`)
+            .join(" ");
+          const summary = command.description.split("\n")[0].slice(0, 120);
+          map.set(toolValue, {
+            value: toolValue,
+            label: toolValue,
+            description: [summary, requiredArgs && `(e.g., ${requiredArgs})`].filter(Boolean).join(" ") || `${server.name} tool`,
+          });
+        }
       }
     }
 
@@ -891,7 +908,11 @@ export function ChatInput({
                      file.name.toLowerCase().endsWith(".tsv") ||
                      file.type === "text/csv" ||
                      file.type === "application/vnd.ms-excel";
-        const targetAnalysis = isCsv ? "document-analysis" : analysisTarget;
+        // Audio and video are transcribed by the document worker and indexed like documents
+        const isMedia = /\.(mp3|mpga|m4a|wav|ogg|oga|flac|mp4|mpeg|webm)$/i.test(file.name) ||
+                       file.type.startsWith("audio/") ||
+                       file.type.startsWith("video/");
+        const targetAnalysis = isCsv || isMedia ? "document-analysis" : analysisTarget;
         
         console.log("[ChatInput] Calling registerUploadJob", { targetAnalysis });
         const uploadStartTime = Date.now();
@@ -943,7 +964,7 @@ export function ChatInput({
         const newJob: UploadJob = {
           id: response.jobId,
           fileName: file.name,
-          status: response.uploadUrl ? "uploading" : "queued",
+          status: response.deduplicated ? "completed" : response.uploadUrl ? "uploading" : "queued",
           message: response.message ?? null,
           error: null,
           stage: "registered",
@@ -964,6 +985,14 @@ export function ChatInput({
         }
         setIsRegisteringUpload(false);
 
+        if (response.deduplicated) {
+          toast({
+            title: "Already uploaded",
+            description: `${file.name} matches a document you already uploaded. Reusing its extracted text.`,
+          });
+          return;
+        }
+
         if (!response.uploadUrl) {
           toast({
             title: "Upload registered",
@@ -1005,8 +1034,11 @@ export function ChatInput({
           let visionError: string | null = null;
 
           try {
-            visionProviderUsed = await triggerVision(response.jobId);
-            visionSucceeded = true;
+            // Vision models cannot read recordings
+            if (!isMedia) {
+              visionProviderUsed = await triggerVision(response.jobId);
+              visionSucceeded = true;
+            }
           } catch (error) {
             visionError = error instanceof Error ? error.message : "Vision analysis failed";
             console.error("Vision analysis failed", error);
@@ -1022,7 +1054,7 @@ export function ChatInput({
           }
 
           const shouldRunOCR =
-            analysisTarget === "document-analysis" || analysisTarget === "image-ocr";
+            isMedia || analysisTarget === "document-analysis" || analysisTarget === "image-ocr";
           let ocrSucceeded = false;
 
           if (shouldRunOCR) {
@@ -1031,7 +1063,8 @@ export function ChatInput({
               
               // Poll for job completion with timeout
               const POLL_INTERVAL_MS = 2000; // Check every 2 seconds
-              const POLL_TIMEOUT_MS = 300_000; // 5 minutes max
+              // Long recordings are transcribed in several parts
+              const POLL_TIMEOUT_MS = isMedia ? 1_800_000 : 300_000; // 30 or 5 minutes max
               const pollStartTime = Date.now();
               let pollAttempts = 0;
               let statusResponse = await fetchJobStatus(response.jobId);
@@ -10,7 +10,15 @@ import {
   isErrorResult,
   McpClientNotConfiguredError,
 } from "@/lib/mcp/client";
-import { listMcpServers, registerMcpServer, removeMcpServer } from "@/lib/mcp/registryClient";
+import {
+  listMcpServers,
+  MCP_OAUTH_RESULT_KEY,
+  type McpOAuthResult,
+  refreshMcpServerTools,
+  registerMcpServer,
+  removeMcpServer,
+  startMcpServerAuthorization,
+} from "@/lib/mcp/registryClient";
 import type { RegisterMcpServerPayload } from "@/lib/mcp/registryClient";
 import { findProviderPreset, MCP_PROVIDER_PRESETS, MCP_PROVIDER_COMMANDS } from "@/lib/mcp/presets";
 import type { McpInvocation, McpInvocationResult, McpRegistryEntry } from "@/lib/mcp/types";
@@ -177,6 +185,8 @@ const SLASH_MCP_HELP = `Usage:
 /slashmcp add <name> <https://gateway-url> [auth=none|api_key|oauth] [key=TOKEN] [header=Header-Name]
 /slashmcp add <provider> [name=CustomName] [key=TOKEN]
 /slashmcp remove <name|serverId>
+/slashmcp refresh [name|serverId]
+/slashmcp auth <name|serverId>     (authorize an auth=oauth server)
 /slashmcp login email=user@example.com password=secret
 
 Available providers:
@@ -226,11 +236,20 @@ type SlashMcpCommand =
   | { kind: "addCustom"; payload: RegisterMcpServerPayload }
   | { kind: "addPreset"; presetId: string; options: Record<string, string> }
   | { kind: "remove"; identifier: { serverId?: string; name?: string } }
+  | { kind: "refresh"; identifier?: string }
+  | { kind: "authorize"; identifier: string }
   | { kind: "loginPrompt" }
   | { kind: "login"; email: string; password: string }
   | { kind: "error"; message: string };
 
-const AUTH_REQUIRED_COMMANDS: Array<SlashMcpCommand["kind"]> = ["list", "addCustom", "addPreset", "remove"];
+const AUTH_REQUIRED_COMMANDS: Array<SlashMcpCommand["kind"]> = [
+  "list",
+  "addCustom",
+  "addPreset",
+  "remove",
+  "refresh",
+  "authorize",
+];
 
 function commandRequiresSession(command: SlashMcpCommand): boolean {
   return AUTH_REQUIRED_COMMANDS.includes(command.kind);
@@ -271,6 +290,12 @@ function matchProviderShortcut(rawInput: string): SlashMcpCommand | null {
   return { kind: "addPreset", presetId: preset.id, options };
 }
 
+function formatDiscoveredTools(tools?: Array<{ name: string }> | null): string {
+  if (!tools?.length) return "";
+  const names = tools.slice(0, 10).map(tool => tool.name).join(", ");
+  return ` Tools discovered (${tools.length}): ${names}${tools.length > 10 ? ", …" : ""}.`;
+}
+
 function normalizeAuthType(value: string | undefined, fallback: "none" | "api_key" | "oauth" = "none"): "none" | "api_key" | "oauth" {
   if (!value) return fallback;
   const normalized = value.toLowerCase();
@@ -441,6 +466,16 @@ function parseSlashMcpCommand(rawInput: string): SlashMcpCommand | null {
 
       return { kind: "remove", identifier: { serverId, name } };
     }
+    case "refresh": {
+      return { kind: "refresh", identifier: parts[0] };
+    }
+    case "auth":
+    case "authorize": {
+      if (parts.length === 0) {
+        return { kind: "error", message: "Usage: /slashmcp auth <name|serverId>" };
+      }
+      return { kind: "authorize", identifier: parts[0] };
+    }
     default:
       return { kind: "error", message: `Unknown /slashmcp command: ${action}` };
   }
@@ -1332,6 +1367,27 @@ export function useChat() {
     };
   }, [session]);
 
+  // Report the outcome of an MCP server OAuth authorization once we're back from OAuthCallback.
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    const raw = sessionStorage.getItem(MCP_OAUTH_RESULT_KEY);
+    if (!raw) return;
+    sessionStorage.removeItem(MCP_OAUTH_RESULT_KEY);
+    try {
+      const result = JSON.parse(raw) as McpOAuthResult;
+      appendAssistantText(
+        result.error
+          ? `❌ Authorization for "${result.name}" failed: ${result.error}`
+          : `🔓 Authorized "${result.name}".` +
+              formatDiscoveredTools(result.tools) +
+              (result.discoveryMessage ? ` ${result.discoveryMessage}` : "") +
+              ` Invoke MCP tools with /${result.name} <tool_name> key=value`,
+      );
+    } catch {
+      // Ignore malformed results
+    }
+  }, [appendAssistantText]);
+
   const signInWithGoogle = useCallback(async (): Promise<boolean> => {
     if (typeof window === "undefined") {
       toast({
@@ -1809,6 +1865,13 @@ export function useChat() {
         return;
       }
 
+      // OAuth servers are authorized in the browser; OAuthCallback brings the user back.
+      const redirectToAuthorization = async (serverId: string) => {
+        const { authorizationUrl, name } = await startMcpServerAuthorization(serverId);
+        appendAssistantText(`🔐 Redirecting to authorize "${name}"…`);
+        window.location.assign(authorizationUrl);
+      };
+
       setIsLoading(true);
       try {
         switch (command.kind) {
@@ -1824,7 +1887,10 @@ export function useChat() {
                   ? new Date(server.last_health_check).toLocaleString()
                   : "never";
                 const auth = server.auth_type === "none" ? "no auth" : server.auth_type;
-                return `• ${server.name} (${server.id}) — ${status}, auth: ${auth}, last check: ${last}`;
+                const tools = server.tools?.length
+                  ? `, tools: ${server.tools.map(tool => tool.name).join(", ")}`
+                  : "";
+                return `• ${server.name} (${server.id}) — ${status}, auth: ${auth}, last check: ${last}${tools}`;
               });
               appendAssistantText(`Registered MCP servers:\n${lines.join("\n")}`);
             }
@@ -1870,7 +1936,7 @@ export function useChat() {
             break;
           }
           case "addCustom": {
-            if (command.payload.authType !== "none" && !command.payload.authSecret) {
+            if (command.payload.authType === "api_key" && !command.payload.authSecret) {
               appendAssistantText("This gateway requires credentials. Provide key=YOUR_TOKEN when adding it.");
               break;
             }
@@ -1879,9 +1945,12 @@ export function useChat() {
             setRegistry(updated);
             appendAssistantText(
               `✅ Registered MCP server "${result.name ?? command.payload.name}" (id: ${result.id ?? "unknown"}).` +
-                (result.toolCount ? ` Tools reported: ${result.toolCount}.` : "") +
-                ` Invoke MCP tools with /${result.id ?? command.payload.name}:tool_name`,
+                formatDiscoveredTools(result.tools) +
+                ` Invoke MCP tools with /${result.name ?? command.payload.name} <tool_name> key=value`,
             );
+            if (result.authorizationRequired) {
+              await redirectToAuthorization(result.id);
+            }
             break;
           }
           case "addPreset": {
@@ -1925,9 +1994,12 @@ export function useChat() {
             setRegistry(updated);
             appendAssistantText(
               `✅ Registered ${preset.label} as "${result.name ?? name}" (id: ${result.id ?? "unknown"}).` +
-                (result.toolCount ? ` Tools reported: ${result.toolCount}.` : "") +
-                ` Try /${result.id ?? name}:tool_name to invoke tools.`,
+                formatDiscoveredTools(result.tools) +
+                ` Try /${result.name ?? name} <tool_name> key=value to invoke tools.`,
             );
+            if (result.authorizationRequired) {
+              await redirectToAuthorization(result.id);
+            }
             break;
           }
           case "remove": {
@@ -1939,6 +2011,30 @@ export function useChat() {
             appendAssistantText(`🗑️ Removed MCP server "${removedName}".`);
             break;
           }
+          case "refresh": {
+            const results = await refreshMcpServerTools(command.identifier);
+            const updated = await listMcpServers();
+            setRegistry(updated);
+            if (!results.length) {
+              appendAssistantText(
+                command.identifier
+                  ? `No registered MCP server matches "${command.identifier}".`
+                  : "No MCP servers registered yet. Use /slashmcp add <name> <https://gateway> to add one.",
+              );
+            } else {
+              const lines = results.map(result =>
+                result.ok
+                  ? `• ${result.name} — ${result.toolCount} tool(s) discovered`
+                  : `• ${result.name} — discovery failed: ${result.error ?? "unknown error"}`,
+              );
+              appendAssistantText(`🔄 Refreshed MCP tools:\n${lines.join("\n")}`);
+            }
+            break;
+          }
+          case "authorize": {
+            await redirectToAuthorization(command.identifier);
+            break;
+          }
         }
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
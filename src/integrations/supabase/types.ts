@@ -63,6 +63,10 @@ export type Database = {
           analysis_target: string
           status: string
           metadata: Json | null
+          content_hash: string | null
+          document_id: string | null
+          version: number
+          previous_version_id: string | null
           created_at: string
           updated_at: string
         }
@@ -76,6 +80,10 @@ export type Database = {
           analysis_target: string
           status?: string
           metadata?: Json | null
+          content_hash?: string | null
+          document_id?: string | null
+          version?: number
+          previous_version_id?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -89,6 +97,10 @@ export type Database = {
           analysis_target?: string
           status?: string
           metadata?: Json | null
+          content_hash?: string | null
+          document_id?: string | null
+          version?: number
+          previous_version_id?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -98,8 +110,11 @@ export type Database = {
           id: string
           job_id: string
           chunk_text: string
-          embedding: number[] // Vector(1536) stored as array - text-embedding-3-small
+          embedding: number[] // Vector(1536) stored as array, zero-padded for smaller models
+          embedding_model: string
+          embedding_dimensions: number
           chunk_index: number
+          content_hash: string | null
           metadata: Json | null
           created_at: string
         }
@@ -108,7 +123,10 @@ export type Database = {
           job_id: string
           chunk_text: string
           embedding: number[] | string // Can be array or string representation
+          embedding_model: string
+          embedding_dimensions: number
           chunk_index: number
+          content_hash?: string | null
           metadata?: Json | null
           created_at?: string
         }
@@ -117,11 +135,118 @@ export type Database = {
           job_id?: string
           chunk_text?: string
           embedding?: number[] | string
+          embedding_model?: string
+          embedding_dimensions?: number
           chunk_index?: number
+          content_hash?: string | null
           metadata?: Json | null
           created_at?: string
         }
       }
+      document_tables: {
+        Row: {
+          id: string
+          job_id: string
+          table_index: number
+          page_number: number | null
+          title: string | null
+          columns: Json
+          rows: Json
+          row_count: number
+          source: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          job_id: string
+          table_index: number
+          page_number?: number | null
+          title?: string | null
+          columns?: Json
+          rows?: Json
+          row_count?: number
+          source: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          job_id?: string
+          table_index?: number
+          page_number?: number | null
+          title?: string | null
+          columns?: Json
+          rows?: Json
+          row_count?: number
+          source?: string
+          created_at?: string
+        }
+      }
+      document_collections: {
+        Row: {
+          id: string
+          owner_id: string
+          name: string
+          description: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          owner_id: string
+          name: string
+          description?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          owner_id?: string
+          name?: string
+          description?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      document_collection_items: {
+        Row: {
+          collection_id: string
+          job_id: string
+          added_at: string
+        }
+        Insert: {
+          collection_id: string
+          job_id: string
+          added_at?: string
+        }
+        Update: {
+          collection_id?: string
+          job_id?: string
+          added_at?: string
+        }
+      }
+      document_collection_shares: {
+        Row: {
+          collection_id: string
+          shared_with: string
+          shared_with_email: string
+          permission: string
+          created_at: string
+        }
+        Insert: {
+          collection_id: string
+          shared_with: string
+          shared_with_email: string
+          permission?: string
+          created_at?: string
+        }
+        Update: {
+          collection_id?: string
+          shared_with?: string
+          shared_with_email?: string
+          permission?: string
+          created_at?: string
+        }
+      }
     }
     Views: {
       [_ in never]: never
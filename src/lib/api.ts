@@ -7,6 +7,11 @@ export interface UploadJobResponse {
   storagePath: string;
   uploadUrl: string | null;
   message?: string;
+  /** True when identical content was already processed; jobId is that job and nothing needs uploading. */
+  deduplicated?: boolean;
+  /** Version of the document this job holds (1 for a new document). */
+  version?: number;
+  previousVersionId?: string | null;
 }
 
 const textractFunctionPath = "/textract-worker";
@@ -139,11 +144,27 @@ if (!FUNCTIONS_URL) {
   console.log("[api.ts] FUNCTIONS_URL configured:", FUNCTIONS_URL);
 }
 
+// Larger files are registered without a content hash rather than read into memory
+const MAX_HASHED_FILE_BYTES = 256 * 1024 * 1024;
+
+/** Hex SHA-256 of the file contents, used to skip re-processing identical uploads. */
+export async function hashFile(file: File): Promise<string | undefined> {
+  if (file.size > MAX_HASHED_FILE_BYTES || typeof crypto === "undefined" || !crypto.subtle) {
+    return undefined;
+  }
+  const digest = await crypto.subtle.digest("SHA-256", await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
 export async function registerUploadJob(params: {
   file: File;
   analysisTarget: AnalysisTarget;
   metadata?: Record<string, unknown>;
   userId?: string;
+  /** Register the upload as the next version of this job's document. */
+  previousVersionId?: string;
 }): Promise<UploadJobResponse> {
   console.log("[registerUploadJob] Starting upload registration", {
     fileName: params.file.name,
@@ -171,6 +192,11 @@ export async function registerUploadJob(params: {
     throw error;
   }
 
+  const contentHash = await hashFile(params.file).catch((hashError) => {
+    console.warn("[registerUploadJob] Could not hash file, skipping de-duplication", hashError);
+    return undefined;
+  });
+
   const body = {
     fileName: params.file.name,
     fileType: params.file.type || "application/octet-stream",
@@ -178,6 +204,8 @@ export async function registerUploadJob(params: {
     analysisTarget: params.analysisTarget,
     metadata: params.metadata ?? {},
     userId: params.userId,
+    contentHash,
+    previousVersionId: params.previousVersionId,
   };
 
   console.log("[registerUploadJob] Request body prepared", { body: { ...body, metadata: "..." } });
@@ -296,6 +324,8 @@ export async function registerUploadJob(params: {
     console.log("[registerUploadJob] Success", {
       jobId: responseData.jobId,
       hasUploadUrl: !!responseData.uploadUrl,
+      deduplicated: !!responseData.deduplicated,
+      version: responseData.version,
       storagePath: responseData.storagePath,
     });
     
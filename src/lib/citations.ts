@@ -0,0 +1,55 @@
+// Inline document citations in assistant answers, e.g. "[report.pdf p.12]", "[notes.docx]"
+// or, for transcribed recordings, "[standup.mp3 @12:34]".
+// doc-context emits them per chunk and the chat prompt asks the model to repeat them verbatim.
+
+export interface DocumentCitation {
+  fileName: string;
+  /** First page of the cited range, when the source chunk had page metadata. */
+  page?: number;
+  /** Seconds into a transcribed recording, when the citation carries a timestamp. */
+  time?: number;
+}
+
+export type CitationSegment = string | { citation: DocumentCitation; raw: string };
+
+const CITATION_PATTERN =
+  /\[([^[\]\n]+?\.(?:pdf|docx?|xlsx|pptx|csv|tsv|txt|md|markdown|html?|png|jpe?g|gif|webp|tiff?|mp3|mpga|m4a|wav|ogg|oga|flac|mp4|mpeg|webm))(?:,?\s+p(?:p|age)?\.?\s*(\d+)(?:\s*[-–]\s*\d+)?|\s+@\s*((?:\d+:)?\d{1,2}:\d{2}))?\]/gi;
+
+// "12:34" or "1:02:03" to seconds
+function parseTimestamp(value: string): number {
+  return value.split(":").reduce((total, part) => total * 60 + Number(part), 0);
+}
+
+/** Seconds as "12:34", or "1:02:03" past the first hour, matching transcript citations. */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, "0");
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, "0")}:${secs}` : `${minutes}:${secs}`;
+}
+
+/** Splits text into plain strings and citations, preserving order. */
+export function splitCitations(text: string): CitationSegment[] {
+  const segments: CitationSegment[] = [];
+  let lastIndex = 0;
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      segments.push(text.slice(lastIndex, index));
+    }
+    segments.push({
+      raw: match[0],
+      citation: {
+        fileName: match[1].trim(),
+        page: match[2] ? Number(match[2]) : undefined,
+        time: match[3] ? parseTimestamp(match[3]) : undefined,
+      },
+    });
+    lastIndex = index + match[0].length;
+  }
+  if (lastIndex < text.length) {
+    segments.push(text.slice(lastIndex));
+  }
+  return segments;
+}
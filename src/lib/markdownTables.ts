@@ -0,0 +1,51 @@
+// Markdown pipe tables in assistant answers, e.g. the `markdown` returned by the
+// query_document_table tool or a formatted MCP table result. Both render as McpTableResult.
+
+import type { McpTableResult } from "@/lib/mcp/types";
+
+export type TableSegment = string | McpTableResult;
+
+const DELIMITER_ROW = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+function splitRow(line: string): string[] {
+  const trimmed = line.trim().replace(/^\|/, "").replace(/(?<!\\)\|$/, "");
+  return trimmed.split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, "|"));
+}
+
+/** Splits text into plain strings and tables, preserving order. */
+export function splitMarkdownTables(text: string): TableSegment[] {
+  const lines = text.split("\n");
+  const segments: TableSegment[] = [];
+  let plain: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const header = lines[i];
+    const delimiter = lines[i + 1];
+    if (!header.includes("|") || delimiter === undefined || !DELIMITER_ROW.test(delimiter)) {
+      plain.push(header);
+      continue;
+    }
+
+    const columns = splitRow(header);
+    if (splitRow(delimiter).length !== columns.length) {
+      plain.push(header);
+      continue;
+    }
+
+    const rows: string[][] = [];
+    let next = i + 2;
+    while (next < lines.length && lines[next].includes("|") && lines[next].trim()) {
+      const cells = splitRow(lines[next]);
+      rows.push(columns.map((_, index) => cells[index] ?? ""));
+      next++;
+    }
+
+    if (plain.length > 0) segments.push(plain.join("\n"));
+    plain = [];
+    segments.push({ type: "table", columns, rows });
+    i = next - 1;
+  }
+
+  if (plain.length > 0) segments.push(plain.join("\n"));
+  return segments;
+}
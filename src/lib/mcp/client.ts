@@ -78,10 +78,9 @@ export async function invokeMcpCommand(
 
     const body = isDynamicServer
       ? {
+          // mcp-proxy runs this as an MCP JSON-RPC tools/call against the server.
           serverId: invocation.serverId,
-          path: "mcp/invoke", // Standard MCP protocol endpoint
-          method: "POST",
-          body: invocation,
+          invocation,
         }
       : invocation;
 
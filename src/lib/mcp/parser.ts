@@ -1,4 +1,5 @@
 import { findServerDefinition } from "./registry";
+import { formatValidationErrors, validateMcpInvocation } from "./validator";
 import type { McpInvocation, McpServerId, McpRegistryEntry } from "./types";
 
 export interface ParseMcpCommandResult {
@@ -171,20 +172,17 @@ export function parseMcpCommand(rawInput: string, registry?: McpRegistryEntry[])
       invocation.command = "agent_executor";
       console.log("[MCP Parser] Auto-detected command: agent_executor for langchain-agent");
     } else {
-      // Check static registry for available commands
-      const server = findServerDefinition(serverId);
-      // Also check user registry
-      const registryServer = registry?.find(
-        entry => entry.id === serverId || entry.name === serverId
-      );
+      // Check static registry and the user's registered servers (with their
+      // discovered tools) for available commands
+      const server = findServerDefinition(serverId, registry);
       
-      if (server || registryServer) {
+      if (server) {
         return {
           invocation,
           isMcpCommand: true,
-          validationMessage: server
+          validationMessage: server.commands.length > 0
             ? `Available commands: ${server.commands.map(cmd => cmd.name).join(", ")}. Usage: /${serverId} <command> <params>`
-            : `Server found but no command specified. Usage: /${serverId} <command> <params>`,
+            : `Server found but no tools have been discovered yet. Run /slashmcp refresh ${server.label} or specify a command: /${serverId} <command> <params>`,
         };
       }
       
@@ -194,6 +192,18 @@ export function parseMcpCommand(rawInput: string, registry?: McpRegistryEntry[])
     }
   }
 
-  return { invocation, isMcpCommand: true };
+  const validation = validateMcpInvocation(invocation, registry);
+  if (validation.warnings.length > 0) {
+    console.warn("[MCP Parser] Validation warnings:", validation.warnings);
+  }
+  if (!validation.valid) {
+    return {
+      invocation: validation.invocation,
+      isMcpCommand: true,
+      validationMessage: formatValidationErrors(validation, registry),
+    };
+  }
+
+  return { invocation: validation.invocation, isMcpCommand: true };
 }
 
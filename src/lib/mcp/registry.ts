@@ -1,4 +1,10 @@
-import type { McpServerDefinition } from "./types";
+import type {
+  McpCommandDefinition,
+  McpDiscoveredTool,
+  McpParameterDefinition,
+  McpRegistryEntry,
+  McpServerDefinition,
+} from "./types";
 
 export const MCP_SERVER_REGISTRY: McpServerDefinition[] = [
   {
@@ -25,12 +31,16 @@ export const MCP_SERVER_REGISTRY: McpServerDefinition[] = [
             name: "interval",
             description: "Chart resolution (1day, 1wk, 1mo).",
             required: false,
+            type: "enum",
+            options: ["1day", "1wk", "1mo"],
             example: "1wk",
           },
           {
             name: "range",
             description: "Time range window (1M, 3M, 6M, 1Y).",
             required: false,
+            type: "enum",
+            options: ["1M", "3M", "6M", "1Y"],
             example: "3M",
           },
         ],
@@ -97,6 +107,7 @@ export const MCP_SERVER_REGISTRY: McpServerDefinition[] = [
             name: "limit",
             description: "Maximum number of results.",
             required: false,
+            type: "number",
             example: "5",
           },
         ],
@@ -169,12 +180,14 @@ export const MCP_SERVER_REGISTRY: McpServerDefinition[] = [
             name: "temperature",
             description: "Sampling temperature between 0 and 1 (defaults to service preset).",
             required: false,
+            type: "number",
             example: "0.6",
           },
           {
             name: "max_output_tokens",
             description: "Maximum tokens to return (capped at 8192).",
             required: false,
+            type: "number",
             example: "1024",
           },
         ],
@@ -253,6 +266,7 @@ export const MCP_SERVER_REGISTRY: McpServerDefinition[] = [
             name: "max_results",
             description: "Maximum number of results to return (default: 5).",
             required: false,
+            type: "number",
             example: "3",
           },
         ],
@@ -337,6 +351,7 @@ export const MCP_SERVER_REGISTRY: McpServerDefinition[] = [
             name: "fullPage",
             description: "Capture full scrollable page (true/false).",
             required: false,
+            type: "boolean",
             example: "true",
           },
         ],
@@ -523,7 +538,82 @@ export const MCP_SERVER_REGISTRY: McpServerDefinition[] = [
   },
 ];
 
-export function findServerDefinition(serverId: string) {
-  return MCP_SERVER_REGISTRY.find(server => server.id === serverId);
+function schemaTypeToParameterType(schema: Record<string, unknown>): McpParameterDefinition["type"] {
+  if (Array.isArray(schema.enum)) return "enum";
+  const type = Array.isArray(schema.type) ? schema.type.find(t => t !== "null") : schema.type;
+  if (type === "number" || type === "integer") return "number";
+  if (type === "boolean") return "boolean";
+  return "string";
+}
+
+function exampleFromSchema(schema: Record<string, unknown>): string | undefined {
+  const candidate = Array.isArray(schema.examples) ? schema.examples[0] : schema.default;
+  if (candidate === undefined || candidate === null) return undefined;
+  return typeof candidate === "string" ? candidate : JSON.stringify(candidate);
+}
+
+/**
+ * Convert a tool discovered via MCP tools/list into the same command shape
+ * used by the static registry, so the UI can treat both alike.
+ */
+export function toolToCommandDefinition(tool: McpDiscoveredTool): McpCommandDefinition {
+  const schema = tool.inputSchema ?? {};
+  const properties = (schema.properties ?? {}) as Record<string, Record<string, unknown>>;
+  const required = new Set(Array.isArray(schema.required) ? (schema.required as string[]) : []);
+
+  const parameters: McpParameterDefinition[] = Object.entries(properties).map(([name, property]) => ({
+    name,
+    description: typeof property?.description === "string" ? property.description : "",
+    required: required.has(name),
+    type: schemaTypeToParameterType(property ?? {}),
+    options: Array.isArray(property?.enum) ? property.enum.map(value => String(value)) : undefined,
+    example: exampleFromSchema(property ?? {}),
+  }));
+
+  return {
+    name: tool.name,
+    title: tool.name.replace(/[_-]+/g, " ").replace(/\b\w/g, char => char.toUpperCase()),
+    description: tool.description ?? "",
+    parameters,
+    inputSchema: tool.inputSchema,
+  };
+}
+
+/**
+ * Build a server definition for a user-registered server from its cached tools.
+ */
+export function buildDynamicServerDefinition(entry: McpRegistryEntry): McpServerDefinition {
+  const commands = (entry.tools ?? []).map(toolToCommandDefinition);
+  const firstCommand = commands[0];
+  if (firstCommand && !firstCommand.example) {
+    const requiredArgs = (firstCommand.parameters ?? [])
+      .filter(parameter => parameter.required)
+      .map(parameter => `${parameter.name}=${parameter.example ?? "..."}`);
+    firstCommand.example = [`/${entry.name}`, firstCommand.name, ...requiredArgs].join(" ");
+  }
+
+  return {
+    id: entry.id,
+    label: entry.name,
+    description: (entry.metadata?.description as string | undefined) ?? `User-registered MCP server at ${entry.gateway_url}`,
+    category: "custom",
+    install: "Registered via /slashmcp add",
+    commands,
+  };
+}
+
+/**
+ * Look up a server definition, checking the static registry first and then
+ * the user's registered servers (by id or name).
+ */
+export function findServerDefinition(serverId: string, registry?: McpRegistryEntry[]) {
+  const staticMatch = MCP_SERVER_REGISTRY.find(server => server.id === serverId);
+  if (staticMatch) return staticMatch;
+
+  const lower = serverId.toLowerCase();
+  const entry = registry?.find(
+    candidate => candidate.id.toLowerCase() === lower || candidate.name.toLowerCase() === lower,
+  );
+  return entry ? buildDynamicServerDefinition(entry) : undefined;
 }
 
@@ -97,3 +97,101 @@ export async function removeMcpServer(identifier: { serverId?: string; name?: st
 
   return response.json();
 }
+
+export interface RefreshMcpToolsResult {
+  id: string;
+  name: string;
+  ok: boolean;
+  toolCount: number;
+  error?: string;
+}
+
+export async function refreshMcpServerTools(serverId?: string): Promise<RefreshMcpToolsResult[]> {
+  const response = await callFunction("mcp-refresh-tools", {
+    method: "POST",
+    body: JSON.stringify(serverId ? { serverId } : { force: true }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error?.error || "Failed to refresh MCP server tools");
+  }
+
+  const data = (await response.json()) as { refreshed?: RefreshMcpToolsResult[] };
+  return data.refreshed ?? [];
+}
+
+// sessionStorage keys for the MCP server OAuth redirect round trip.
+export const MCP_OAUTH_PENDING_KEY = "mcp_oauth_pending";
+export const MCP_OAUTH_RESULT_KEY = "mcp_oauth_result";
+
+export interface McpOAuthPending {
+  state: string;
+  serverId: string;
+  name: string;
+  returnTo: string;
+}
+
+export interface McpOAuthResult {
+  serverId: string;
+  name: string;
+  toolCount?: number;
+  tools?: Array<{ name: string }>;
+  discoveryMessage?: string | null;
+  error?: string;
+}
+
+/**
+ * Begin the OAuth authorization flow for a registered server. Returns the URL
+ * to send the browser to; OAuthCallback finishes the flow on the way back.
+ */
+export async function startMcpServerAuthorization(serverId: string): Promise<{ authorizationUrl: string; name: string }> {
+  const response = await callFunction("mcp-oauth", {
+    method: "POST",
+    body: JSON.stringify({
+      action: "start",
+      serverId,
+      redirectUri: `${window.location.origin}/auth/callback`,
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error?.error || "Failed to start MCP server authorization");
+  }
+
+  const data = (await response.json()) as { authorizationUrl: string; state: string; serverId: string; name: string };
+  const pending: McpOAuthPending = {
+    state: data.state,
+    serverId: data.serverId,
+    name: data.name,
+    returnTo: window.location.pathname,
+  };
+  sessionStorage.setItem(MCP_OAUTH_PENDING_KEY, JSON.stringify(pending));
+  return { authorizationUrl: data.authorizationUrl, name: data.name };
+}
+
+export async function completeMcpServerAuthorization(params: {
+  state: string;
+  code?: string | null;
+  error?: string | null;
+  errorDescription?: string | null;
+}): Promise<McpOAuthResult> {
+  const response = await callFunction("mcp-oauth", {
+    method: "POST",
+    body: JSON.stringify({
+      action: "callback",
+      state: params.state,
+      code: params.code ?? undefined,
+      error: params.error ?? undefined,
+      errorDescription: params.errorDescription ?? undefined,
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error?.error || "Failed to complete MCP server authorization");
+  }
+
+  return response.json();
+}
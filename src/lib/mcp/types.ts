@@ -11,10 +11,20 @@ export interface McpRegistryEntry {
   is_active: boolean;
   last_health_check: string | null;
   metadata: Record<string, unknown> | null;
+  tools?: McpDiscoveredTool[] | null;
+  tools_refreshed_at?: string | null;
+  tools_error?: string | null;
   created_at: string;
   updated_at: string;
 }
 
+// Tool descriptor as reported by an MCP server's tools/list (cached server-side).
+export interface McpDiscoveredTool {
+  name: string;
+  description?: string;
+  inputSchema?: Record<string, unknown>;
+}
+
 export interface McpProviderPreset {
   id: string;
   label: string;
@@ -44,23 +54,36 @@ export interface McpCommandDefinition {
   parameters?: McpParameterDefinition[];
   example?: string;
   defaultParams?: Record<string, string>;
+  // JSON Schema for the arguments, when discovered from a dynamic server.
+  inputSchema?: Record<string, unknown>;
 }
 
 export interface McpServerDefinition {
   id: McpServerId;
   label: string;
   description: string;
-  category: "financial" | "prediction" | "knowledge" | "design" | "automation";
+  category: "financial" | "prediction" | "knowledge" | "design" | "automation" | "custom";
   install: string;
   docUrl?: string;
   environment?: string[];
   commands: McpCommandDefinition[];
 }
 
+// Argument value after coercion against the command's parameter schema.
+export type McpArgumentValue =
+  | string
+  | number
+  | boolean
+  | null
+  | McpArgumentValue[]
+  | { [key: string]: McpArgumentValue };
+
 export interface McpInvocation {
   serverId: McpServerId;
   command?: string;
   args: Record<string, string>;
+  // Set once the invocation has been validated; forwarded to MCP servers as tool arguments.
+  typedArgs?: Record<string, McpArgumentValue>;
   positionalArgs: string[];
   rawInput: string;
 }
@@ -0,0 +1,342 @@
+import { findServerDefinition } from "./registry";
+import type {
+  McpArgumentValue,
+  McpCommandDefinition,
+  McpInvocation,
+  McpParameterDefinition,
+  McpRegistryEntry,
+} from "./types";
+
+export interface McpArgumentIssue {
+  // Argument name, or undefined for issues about the command itself.
+  argument?: string;
+  message: string;
+  suggestion?: string;
+}
+
+export interface McpValidationResult {
+  valid: boolean;
+  invocation: McpInvocation;
+  errors: McpArgumentIssue[];
+  warnings: McpArgumentIssue[];
+}
+
+type JsonSchema = Record<string, unknown>;
+
+const TRUE_VALUES = new Set(["true", "yes", "y", "1", "on"]);
+const FALSE_VALUES = new Set(["false", "no", "n", "0", "off"]);
+
+function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j += 1) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+/**
+ * Closest candidate to `value`, if it is near enough to be a plausible typo.
+ */
+export function suggestClosest(value: string, candidates: string[]): string | undefined {
+  const needle = value.toLowerCase();
+  let best: { candidate: string; distance: number } | undefined;
+  for (const candidate of candidates) {
+    const lower = candidate.toLowerCase();
+    const distance = lower.startsWith(needle) || needle.startsWith(lower) ? 1 : levenshtein(needle, lower);
+    if (!best || distance < best.distance) {
+      best = { candidate, distance };
+    }
+  }
+  if (!best) return undefined;
+  const threshold = Math.max(2, Math.floor(best.candidate.length / 3));
+  return best.distance <= threshold ? best.candidate : undefined;
+}
+
+function schemaType(schema: JsonSchema): string | undefined {
+  if (Array.isArray(schema.type)) {
+    return (schema.type as string[]).find(type => type !== "null");
+  }
+  return typeof schema.type === "string" ? schema.type : undefined;
+}
+
+/**
+ * JSON Schema for a command: the discovered schema for dynamic servers, or
+ * one derived from the static parameter definitions.
+ */
+function commandSchema(command: McpCommandDefinition): JsonSchema {
+  if (command.inputSchema) return command.inputSchema;
+
+  const properties: Record<string, JsonSchema> = {};
+  for (const parameter of command.parameters ?? []) {
+    properties[parameter.name] = parameterToSchema(parameter);
+  }
+  return {
+    type: "object",
+    properties,
+    required: (command.parameters ?? []).filter(parameter => parameter.required).map(parameter => parameter.name),
+  };
+}
+
+function parameterToSchema(parameter: McpParameterDefinition): JsonSchema {
+  switch (parameter.type) {
+    case "number":
+      return { type: "number" };
+    case "boolean":
+      return { type: "boolean" };
+    case "enum":
+      return { type: "string", enum: parameter.options ?? [] };
+    default:
+      return { type: "string" };
+  }
+}
+
+function describeExpected(schema: JsonSchema): string {
+  if (Array.isArray(schema.enum)) {
+    return `one of ${(schema.enum as unknown[]).map(value => String(value)).join(", ")}`;
+  }
+  const type = schemaType(schema);
+  if (type === "integer") return "a whole number";
+  if (type === "number") return "a number";
+  if (type === "boolean") return "true or false";
+  if (type === "array") return "a list (JSON array or comma-separated values)";
+  if (type === "object") return "a JSON object";
+  return "text";
+}
+
+/**
+ * Coerce a raw string argument to the type the schema expects.
+ * Returns an error message instead of a value when coercion fails.
+ */
+function coerceValue(raw: string, schema: JsonSchema): { value: McpArgumentValue } | { error: string; suggestion?: string } {
+  const type = schemaType(schema);
+
+  if (Array.isArray(schema.enum)) {
+    const options = (schema.enum as unknown[]).map(option => String(option));
+    const exact = options.find(option => option === raw) ?? options.find(option => option.toLowerCase() === raw.toLowerCase());
+    if (exact === undefined) {
+      return { error: `must be ${describeExpected(schema)}`, suggestion: suggestClosest(raw, options) };
+    }
+    if (type === "number" || type === "integer") return { value: Number(exact) };
+    if (type === "boolean") return { value: exact === "true" };
+    return { value: exact };
+  }
+
+  switch (type) {
+    case "number":
+    case "integer": {
+      const parsed = raw.trim() === "" ? Number.NaN : Number(raw);
+      if (!Number.isFinite(parsed)) {
+        return { error: `must be ${describeExpected(schema)}, got "${raw}"` };
+      }
+      if (type === "integer" && !Number.isInteger(parsed)) {
+        return { error: `must be a whole number, got "${raw}"` };
+      }
+      if (typeof schema.minimum === "number" && parsed < schema.minimum) {
+        return { error: `must be at least ${schema.minimum}` };
+      }
+      if (typeof schema.maximum === "number" && parsed > schema.maximum) {
+        return { error: `must be at most ${schema.maximum}` };
+      }
+      return { value: parsed };
+    }
+    case "boolean": {
+      const lower = raw.trim().toLowerCase();
+      if (TRUE_VALUES.has(lower)) return { value: true };
+      if (FALSE_VALUES.has(lower)) return { value: false };
+      return { error: `must be true or false, got "${raw}"` };
+    }
+    case "array": {
+      let items: unknown[];
+      const trimmed = raw.trim();
+      if (trimmed.startsWith("[")) {
+        try {
+          const parsed = JSON.parse(trimmed);
+          if (!Array.isArray(parsed)) throw new Error("not an array");
+          items = parsed;
+        } catch {
+          return { error: `is not a valid JSON array` };
+        }
+      } else {
+        items = trimmed === "" ? [] : trimmed.split(",").map(item => item.trim());
+      }
+
+      const itemSchema = (schema.items ?? {}) as JsonSchema;
+      const coercedItems: McpArgumentValue[] = [];
+      for (const [index, item] of items.entries()) {
+        if (typeof item !== "string") {
+          coercedItems.push(item as McpArgumentValue);
+          continue;
+        }
+        const coerced = coerceValue(item, itemSchema);
+        if ("error" in coerced) {
+          return { error: `item ${index + 1} ${coerced.error}`, suggestion: coerced.suggestion };
+        }
+        coercedItems.push(coerced.value);
+      }
+      if (typeof schema.minItems === "number" && coercedItems.length < schema.minItems) {
+        return { error: `needs at least ${schema.minItems} item(s)` };
+      }
+      return { value: coercedItems };
+    }
+    case "object": {
+      try {
+        const parsed = JSON.parse(raw);
+        if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) throw new Error("not an object");
+        return { value: parsed as McpArgumentValue };
+      } catch {
+        return { error: `must be a JSON object, e.g. {"key":"value"}` };
+      }
+    }
+    default: {
+      if (typeof schema.minLength === "number" && raw.length < schema.minLength) {
+        return { error: `must be at least ${schema.minLength} characters` };
+      }
+      if (typeof schema.maxLength === "number" && raw.length > schema.maxLength) {
+        return { error: `must be at most ${schema.maxLength} characters` };
+      }
+      if (typeof schema.pattern === "string") {
+        try {
+          if (!new RegExp(schema.pattern).test(raw)) {
+            return { error: `does not match the expected format (${schema.pattern})` };
+          }
+        } catch {
+          // Ignore patterns JavaScript can't compile.
+        }
+      }
+      return { value: raw };
+    }
+  }
+}
+
+function stringifyArgument(value: McpArgumentValue): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * Validate an invocation against its command definition (static registry or
+ * tools discovered on a registered server), applying defaults and coercing
+ * argument types.
+ *
+ * Invocations for servers or commands without a known definition are passed
+ * through unchanged so the gateway can still decide.
+ */
+export function validateMcpInvocation(
+  invocation: McpInvocation,
+  registry?: McpRegistryEntry[],
+): McpValidationResult {
+  const errors: McpArgumentIssue[] = [];
+  const warnings: McpArgumentIssue[] = [];
+  const passThrough = (): McpValidationResult => ({ valid: errors.length === 0, invocation, errors, warnings });
+
+  const server = findServerDefinition(invocation.serverId, registry);
+  if (!server || !invocation.command || server.commands.length === 0) {
+    return passThrough();
+  }
+
+  const command = server.commands.find(candidate => candidate.name === invocation.command);
+  if (!command) {
+    const suggestion = suggestClosest(invocation.command, server.commands.map(candidate => candidate.name));
+    // Static definitions document the common commands but gateways may accept
+    // more; only block when the tool list is authoritative or it looks like a typo.
+    if (server.category === "custom" || suggestion) {
+      errors.push({
+        message: `Unknown command "${invocation.command}" for ${server.label}. Available: ${server.commands
+          .map(candidate => candidate.name)
+          .join(", ")}`,
+        suggestion,
+      });
+    }
+    return passThrough();
+  }
+
+  const schema = commandSchema(command);
+  const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+  const propertyNames = Object.keys(properties);
+  const required = Array.isArray(schema.required) ? (schema.required as string[]) : [];
+
+  const rawArgs: Record<string, string> = { ...(command.defaultParams ?? {}), ...invocation.args };
+
+  // Positional values fill the declared parameters that weren't named, in order.
+  const remainingPositional = [...invocation.positionalArgs];
+  for (const name of [...required, ...propertyNames.filter(name => !required.includes(name))]) {
+    if (remainingPositional.length === 0) break;
+    if (rawArgs[name] === undefined) {
+      rawArgs[name] = remainingPositional.shift()!;
+    }
+  }
+
+  const typedArgs: Record<string, McpArgumentValue> = {};
+  for (const [name, raw] of Object.entries(rawArgs)) {
+    const propertySchema = properties[name];
+    if (!propertySchema) {
+      const suggestion = suggestClosest(name, propertyNames.filter(candidate => rawArgs[candidate] === undefined));
+      const issue = {
+        argument: name,
+        message: `Unknown argument "${name}"`,
+        suggestion,
+      };
+      if (suggestion || schema.additionalProperties === false) {
+        errors.push(issue);
+      } else {
+        warnings.push(issue);
+        typedArgs[name] = raw;
+      }
+      continue;
+    }
+
+    const coerced = coerceValue(raw, propertySchema);
+    if ("error" in coerced) {
+      errors.push({ argument: name, message: `"${name}" ${coerced.error}`, suggestion: coerced.suggestion });
+      continue;
+    }
+    typedArgs[name] = coerced.value;
+  }
+
+  for (const name of required) {
+    if (rawArgs[name] === undefined || rawArgs[name] === "") {
+      const description = properties[name]?.description;
+      errors.push({
+        argument: name,
+        message: `Missing required argument "${name}"${typeof description === "string" && description ? ` (${description})` : ""}`,
+      });
+    }
+  }
+
+  const args: Record<string, string> = {};
+  for (const [name, value] of Object.entries(typedArgs)) {
+    args[name] = stringifyArgument(value);
+  }
+
+  return {
+    valid: errors.length === 0,
+    invocation: { ...invocation, args, typedArgs },
+    errors,
+    warnings,
+  };
+}
+
+/**
+ * Render validation errors as a chat-friendly message.
+ */
+export function formatValidationErrors(result: McpValidationResult, registry?: McpRegistryEntry[]): string {
+  const { invocation } = result;
+  const server = findServerDefinition(invocation.serverId, registry);
+  const lines = result.errors.map(issue => {
+    const hint = issue.suggestion ? ` Did you mean "${issue.suggestion}"?` : "";
+    return `• ${issue.message}.${hint}`;
+  });
+
+  const definition = server?.commands.find(command => command.name === invocation.command);
+  const usage = definition?.example ? `\nExample: ${definition.example}` : "";
+  return `❌ Invalid arguments for /${invocation.serverId}${invocation.command ? ` ${invocation.command}` : ""}:\n${lines.join("\n")}${usage}`;
+}
@@ -35,6 +35,21 @@ async function getAuthHeaders(): Promise<Record<string, string>> {
   return headers;
 }
 
+/** How doc-context ranks chunks: vector similarity, Postgres full-text, or both fused (hybrid). */
+export type SearchMode = "vector" | "keyword" | "hybrid";
+
+/** Second-stage scoring of the candidate pool: none, a local cross-encoder, or an LLM. */
+export type RerankProvider = "none" | "local" | "llm";
+
+export interface SearchRerankOptions {
+  /** Overrides the server's RERANK_PROVIDER. */
+  rerank?: RerankProvider;
+  /** Candidates retrieved before reranking and diversity selection (server default 30, max 100). */
+  candidatePoolSize?: number;
+  /** MMR trade-off between relevance (1) and diversity (0); server default 0.5. */
+  mmrLambda?: number;
+}
+
 export interface DocumentChunk {
   id: string;
   job_id: string;
@@ -45,24 +60,48 @@ export interface DocumentChunk {
   metadata?: Record<string, unknown>;
 }
 
+/** A retrieved chunk; location fields are set for documents indexed with page/section metadata. */
+export interface DocumentContextChunk {
+  id: string;
+  content: string;
+  similarity?: number;
+  keywordRank?: number;
+  score?: number;
+  /** Reranker relevance in [0, 1], when a reranker scored this chunk. */
+  rerankScore?: number;
+  pageNumber?: number;
+  pageEnd?: number;
+  sectionPath?: string[];
+  boundingBoxes?: Array<{ page: number; left: number; top: number; width: number; height: number }>;
+  hasTable?: boolean;
+  /** Inline citation, e.g. "[report.pdf p.12]". */
+  citation?: string;
+}
+
 export interface DocumentContext {
   jobId: string;
   fileName: string;
   stage: string | null;
   token: string;
   rawMetadata: Record<string, unknown> | null;
-  chunks: Array<{ id: string; content: string; similarity?: number }>;
+  chunks: DocumentContextChunk[];
   summary: string | null;
   metadata: {
     textLength?: number;
-    searchMode: "vector" | "legacy";
+    searchMode: SearchMode | "legacy";
+    rerank?: RerankProvider;
     visionMetadata?: Record<string, unknown> | null;
   };
 }
 
 export interface SearchDocumentsResponse {
   contexts: DocumentContext[];
-  searchMode: "vector" | "legacy";
+  /** Mode actually used; hybrid degrades to keyword when no query embedding is available. */
+  searchMode: SearchMode | "legacy";
+  /** Reranker actually applied; "none" when disabled or when reranking failed. */
+  rerank?: RerankProvider;
+  /** Collection the search was limited to, when one was requested. */
+  collection?: { id: string; name: string; role: DocumentCollectionRole } | null;
 }
 
 /**
@@ -94,6 +133,11 @@ export async function uploadAndProcessDocument(
     userId,
   });
 
+  // Identical content was already processed; its job already has text and embeddings
+  if (response.deduplicated) {
+    return response.jobId;
+  }
+
   // Upload the file to S3 using the presigned URL
   if (response.uploadUrl) {
     const uploadResponse = await fetch(response.uploadUrl, {
@@ -133,20 +177,30 @@ export async function uploadAndProcessDocument(
  * @param query The search query string.
  * @param jobIds Optional array of job IDs to limit the search to specific documents.
  * @param limit Maximum number of chunks to return (default: 10).
- * @param similarityThreshold Minimum similarity threshold for vector search (default: 0.7).
+ * @param similarityThreshold Minimum cosine similarity for vector candidates (server default: 0.7 in vector mode, none in hybrid).
+ * @param searchMode "hybrid" (default) fuses keyword and vector rankings; "vector" or "keyword" use one ranking only.
+ * @param rerankOptions Optional reranker, candidate pool size and MMR diversity overrides.
+ * @param collection Optional collection name or ID; only its documents are searched, including shared ones.
  * @returns A list of relevant document contexts with chunks.
  */
 export async function searchDocuments(
   query: string,
   jobIds?: string[],
   limit: number = 10,
-  similarityThreshold: number = 0.7,
+  similarityThreshold?: number,
+  searchMode: SearchMode = "hybrid",
+  rerankOptions: SearchRerankOptions = {},
+  collection?: string,
 ): Promise<SearchDocumentsResponse> {
   if (!FUNCTIONS_URL) {
     throw new Error("Functions URL is not configured");
   }
 
-  if (!query || query.trim().length < 10) {
+  // Short queries (tickers, invoice numbers) are fine for keyword matching but too vague to embed
+  if (!query || !query.trim()) {
+    throw new Error("Query is required");
+  }
+  if (searchMode === "vector" && query.trim().length < 10) {
     throw new Error("Query must be at least 10 characters long for semantic search");
   }
 
@@ -159,6 +213,9 @@ export async function searchDocuments(
       jobIds: jobIds || [],
       limit,
       similarity_threshold: similarityThreshold,
+      searchMode,
+      ...rerankOptions,
+      ...(collection ? { collection } : {}),
     }),
   });
 
@@ -219,3 +276,186 @@ export async function getQueryableDocumentJobs(userId?: string): Promise<string[
     .map((job) => job.id);
 }
 
+export interface ReembedDocumentsResponse {
+  provider: string;
+  model: string;
+  /** Chunks re-embedded by this call. */
+  reembedded: number;
+  /** Jobs whose chunks all use `model` now. */
+  jobsCompleted: string[];
+  /** More chunks still use another model; call again to continue. */
+  remaining: boolean;
+}
+
+/**
+ * Re-embeds the user's document chunks with the server's current embedding provider.
+ * Processes one batch per call; repeat while `remaining` is true.
+ * @param jobIds Optional array of job IDs to limit re-embedding to specific documents.
+ */
+export async function reembedDocuments(jobIds?: string[]): Promise<ReembedDocumentsResponse> {
+  if (!FUNCTIONS_URL) {
+    throw new Error("Functions URL is not configured");
+  }
+
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${FUNCTIONS_URL}/document-reembed`, {
+    method: "POST",
+    headers,
+    body: JSON.stringify({ jobIds: jobIds || [] }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error?.error || `Failed to re-embed documents: ${response.status}`);
+  }
+
+  return (await response.json()) as ReembedDocumentsResponse;
+}
+
+/** "owner" for the user's own collections, "viewer" for collections shared with them (read-only). */
+export type DocumentCollectionRole = "owner" | "viewer";
+
+export interface DocumentCollectionShare {
+  userId: string;
+  email: string;
+  permission: "read";
+  createdAt: string;
+}
+
+export interface DocumentCollection {
+  id: string;
+  name: string;
+  description: string | null;
+  ownerId: string;
+  role: DocumentCollectionRole;
+  /** Processing job IDs of the documents in the collection. */
+  jobIds: string[];
+  /** Users the collection is shared with; only listed for the owner. */
+  shares: DocumentCollectionShare[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+async function callDocumentCollections<T>(action: string, payload: Record<string, unknown> = {}): Promise<T> {
+  if (!FUNCTIONS_URL) {
+    throw new Error("Functions URL is not configured");
+  }
+
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${FUNCTIONS_URL}/document-collections`, {
+    method: "POST",
+    headers,
+    body: JSON.stringify({ action, ...payload }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error?.error || `Collection request failed: ${response.status}`);
+  }
+
+  return (await response.json()) as T;
+}
+
+/** Lists the user's collections followed by collections shared with them. */
+export async function listDocumentCollections(): Promise<DocumentCollection[]> {
+  const data = await callDocumentCollections<{ collections: DocumentCollection[] }>("list");
+  return data.collections;
+}
+
+/**
+ * Creates a collection, optionally with initial documents.
+ * @param jobIds Documents to add; documents uploaded by other users are ignored.
+ */
+export async function createDocumentCollection(
+  name: string,
+  description?: string,
+  jobIds: string[] = [],
+): Promise<{ id: string; name: string; jobIds: string[] }> {
+  const data = await callDocumentCollections<{ collection: { id: string; name: string; jobIds: string[] } }>(
+    "create",
+    { name, description, jobIds },
+  );
+  return data.collection;
+}
+
+export async function updateDocumentCollection(
+  collectionId: string,
+  changes: { name?: string; description?: string | null },
+): Promise<void> {
+  await callDocumentCollections("update", { collectionId, ...changes });
+}
+
+/** Deletes the collection; its documents are kept. */
+export async function deleteDocumentCollection(collectionId: string): Promise<void> {
+  await callDocumentCollections("delete", { collectionId });
+}
+
+export async function addToDocumentCollection(collectionId: string, jobIds: string[]): Promise<void> {
+  await callDocumentCollections("add", { collectionId, jobIds });
+}
+
+export async function removeFromDocumentCollection(collectionId: string, jobIds: string[]): Promise<void> {
+  await callDocumentCollections("remove", { collectionId, jobIds });
+}
+
+/**
+ * Shares the collection read-only with the user registered under `email`. Succeeds
+ * whether or not anyone is, so it does not reveal which addresses have accounts.
+ */
+export async function shareDocumentCollection(collectionId: string, email: string): Promise<void> {
+  await callDocumentCollections("share", { collectionId, email });
+}
+
+export async function unshareDocumentCollection(collectionId: string, email: string): Promise<void> {
+  await callDocumentCollections("unshare", { collectionId, email });
+}
+
+export interface DocumentSectionSummary {
+  title: string;
+  pageStart?: number;
+  pageEnd?: number;
+  chunkCount: number;
+  summary: string;
+}
+
+/** Summary stored in `analysis_results.summary` by the document-summarize function. */
+export type DocumentSummary =
+  | {
+    status: "ready";
+    summary: string;
+    sections: DocumentSectionSummary[];
+    model: string;
+    chunkCount: number;
+    contentHash: string;
+    generatedAt: string;
+  }
+  | { status: "pending"; startedAt: string }
+  | { status: "failed"; error: string; failedAt: string };
+
+/**
+ * Builds the whole-document summary of an indexed document, or returns the cached one.
+ * Without `wait` the summary is built in the background and `{ status: "pending" }` is returned.
+ * @param refresh Rebuild even if the cached summary is current.
+ */
+export async function summarizeDocument(
+  jobId: string,
+  options: { refresh?: boolean; wait?: boolean } = {},
+): Promise<DocumentSummary> {
+  if (!FUNCTIONS_URL) {
+    throw new Error("Functions URL is not configured");
+  }
+
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${FUNCTIONS_URL}/document-summarize`, {
+    method: "POST",
+    headers,
+    body: JSON.stringify({ jobId, refresh: options.refresh ?? false, wait: options.wait ?? false }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error?.error || `Failed to summarize document: ${response.status}`);
+  }
+
+  return (await response.json()) as DocumentSummary;
+}
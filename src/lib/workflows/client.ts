@@ -8,6 +8,13 @@ import type {
   WorkflowWithGraph,
   ExecuteWorkflowRequest,
   ExecuteWorkflowResponse,
+  WorkflowExecution,
+  WorkflowVersion,
+  WorkflowApproval,
+  WorkflowApprovalDecision,
+  WorkflowTrigger,
+  WorkflowTriggerInput,
+  WorkflowTriggerType,
 } from "./types";
 
 const FUNCTIONS_URL =
@@ -149,8 +156,9 @@ export async function deleteWorkflow(workflowId: string): Promise<void> {
   if (error) throw error;
 }
 
-// Save workflow graph (nodes and edges)
-// Nodes should have temporary IDs that we'll map to database IDs
+// Save workflow graph (nodes and edges) and record it as a new version, in one
+// transaction. Nodes may carry temporary IDs; the returned map resolves them (and any
+// client-side ids the database replaced) to database IDs
 export async function saveWorkflowGraph(
   workflowId: string,
   nodes: Array<Omit<WorkflowNode, "workflow_id" | "created_at" | "updated_at"> & { temp_id?: string }>,
@@ -158,86 +166,63 @@ export async function saveWorkflowGraph(
     source_temp_id?: string; 
     target_temp_id?: string;
   }>,
-): Promise<{ nodeIdMap: Map<string, string> }> {
-  // Delete existing nodes and edges
-  await supabaseClient.from("workflow_edges").delete().eq("workflow_id", workflowId);
-  await supabaseClient.from("workflow_nodes").delete().eq("workflow_id", workflowId);
+  options: { restoredFromVersion?: number } = {},
+): Promise<{ nodeIdMap: Map<string, string>; version: WorkflowVersion }> {
+  // Nodes that still exist keep their ids (which versions, runs and approvals refer
+  // to); edges reference nodes by the same keys the nodes are sent with
+  const { data, error } = await supabaseClient.rpc("save_workflow_graph", {
+    p_workflow_id: workflowId,
+    p_nodes: nodes.map(({ temp_id, id, ...node }) => ({ ...node, id: temp_id ?? id })),
+    p_edges: edges.map(({ source_temp_id, target_temp_id, ...edge }) => ({
+      ...edge,
+      source_node_id: source_temp_id ?? edge.source_node_id,
+      target_node_id: target_temp_id ?? edge.target_node_id,
+    })),
+    p_restored_from_version: options.restoredFromVersion ?? null,
+  });
+
+  if (error) throw error;
 
+  const { version, node_ids: nodeIds } = data as { version: WorkflowVersion; node_ids: Record<string, string> };
   const nodeIdMap = new Map<string, string>();
+  nodes.forEach(node => {
+    const key = node.temp_id ?? node.id;
+    const id = nodeIds[key];
+    if (!id) return;
+    if (key !== id) nodeIdMap.set(key, id);
+    // Also map by label as fallback
+    nodeIdMap.set(node.label, id);
+  });
 
-  // Insert new nodes
-  if (nodes.length > 0) {
-    const nodesToInsert = nodes.map(({ temp_id, id, ...node }) => {
-      const nodeData: any = {
-        ...node,
-        workflow_id: workflowId,
-      };
-      // Use existing id if it's a UUID, otherwise let DB generate
-      if (id && id.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)) {
-        nodeData.id = id;
-      }
-      return nodeData;
-    });
-
-    const { data: insertedNodes, error: nodesError } = await supabaseClient
-      .from("workflow_nodes")
-      .insert(nodesToInsert)
-      .select("id, label");
-
-    if (nodesError) throw nodesError;
-
-    // Map temp IDs to real IDs
-    insertedNodes?.forEach((inserted, index) => {
-      const original = nodes[index];
-      if (original.temp_id) {
-        nodeIdMap.set(original.temp_id, inserted.id);
-      }
-      // Also map by label as fallback
-      nodeIdMap.set(original.label, inserted.id);
-    });
-  }
+  return { nodeIdMap, version };
+}
 
-  // Insert new edges
-  if (edges.length > 0) {
-    const edgesToInsert = edges
-      .map(edge => {
-        // Try to resolve source and target IDs
-        let sourceId = edge.source_node_id;
-        let targetId = edge.target_node_id;
-
-        // If edge uses temp IDs, resolve them
-        if (edge.source_temp_id && nodeIdMap.has(edge.source_temp_id)) {
-          sourceId = nodeIdMap.get(edge.source_temp_id)!;
-        }
-        if (edge.target_temp_id && nodeIdMap.has(edge.target_temp_id)) {
-          targetId = nodeIdMap.get(edge.target_temp_id)!;
-        }
-
-        // If still using temp IDs, try to resolve by label
-        if (!sourceId || !targetId) {
-          return null;
-        }
-
-        return {
-          workflow_id: workflowId,
-          source_node_id: sourceId,
-          target_node_id: targetId,
-          condition: edge.condition,
-          data_mapping: edge.data_mapping,
-        };
-      })
-      .filter((e): e is NonNullable<typeof e> => e !== null);
-
-    if (edgesToInsert.length > 0) {
-      const { error: edgesError } = await supabaseClient
-        .from("workflow_edges")
-        .insert(edgesToInsert);
-
-      if (edgesError) throw edgesError;
-    }
-  }
+// List a workflow's versions, newest first
+export async function listWorkflowVersions(workflowId: string): Promise<WorkflowVersion[]> {
+  const { data, error } = await supabaseClient
+    .from("workflow_versions")
+    .select("*")
+    .eq("workflow_id", workflowId)
+    .order("version", { ascending: false });
 
-  return { nodeIdMap };
+  if (error) throw error;
+  return data || [];
+}
+
+// Roll back: save an earlier version's graph as the newest version
+export async function restoreWorkflowVersion(version: WorkflowVersion): Promise<WorkflowVersion> {
+  const { version: restored } = await saveWorkflowGraph(
+    version.workflow_id,
+    version.graph.nodes.map(({ workflow_id, created_at, updated_at, ...node }) => node),
+    version.graph.edges.map(edge => ({
+      source_node_id: edge.source_node_id,
+      target_node_id: edge.target_node_id,
+      condition: edge.condition,
+      data_mapping: edge.data_mapping,
+    })),
+    { restoredFromVersion: version.version },
+  );
+  return restored;
 }
 
 // Execute a workflow
@@ -257,3 +242,136 @@ export async function executeWorkflow(
   return response.json();
 }
 
+
+// Resume a failed, cancelled or orphaned run from its last completed nodes
+export async function resumeWorkflowExecution(
+  executionId: string,
+): Promise<ExecuteWorkflowResponse> {
+  const response = await callFunction("workflow-execute", {
+    method: "POST",
+    body: JSON.stringify({ action: "resume", execution_id: executionId }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error?.error || "Failed to resume workflow execution");
+  }
+
+  return response.json();
+}
+
+// Cancel a pending or running execution; in-flight nodes are stopped
+export async function cancelWorkflowExecution(executionId: string): Promise<WorkflowExecution> {
+  const response = await callFunction(`workflow-execution/${executionId}/cancel`, {
+    method: "POST",
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error?.error || "Failed to cancel workflow execution");
+  }
+
+  const { execution } = await response.json();
+  return execution;
+}
+
+async function callTriggersFunction<T>(body: Record<string, unknown>, fallbackError: string): Promise<T> {
+  const response = await callFunction("workflow-triggers", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error?.error || fallbackError);
+  }
+
+  return response.json();
+}
+
+// List the current user's triggers, optionally for one workflow
+export async function listWorkflowTriggers(workflowId?: string): Promise<WorkflowTrigger[]> {
+  const { triggers } = await callTriggersFunction<{ triggers: WorkflowTrigger[] }>(
+    { action: "list", workflow_id: workflowId },
+    "Failed to load workflow triggers",
+  );
+  return triggers;
+}
+
+// Create a cron (schedule) or webhook trigger; webhook triggers get a generated signing secret
+export async function createWorkflowTrigger(
+  workflowId: string,
+  triggerType: WorkflowTriggerType,
+  input: WorkflowTriggerInput,
+): Promise<WorkflowTrigger> {
+  const { trigger } = await callTriggersFunction<{ trigger: WorkflowTrigger }>(
+    { action: "create", workflow_id: workflowId, trigger_type: triggerType, ...input },
+    "Failed to create workflow trigger",
+  );
+  return trigger;
+}
+
+// Update a trigger; changing a schedule or re-enabling it recomputes the next run
+export async function updateWorkflowTrigger(
+  triggerId: string,
+  updates: WorkflowTriggerInput,
+): Promise<WorkflowTrigger> {
+  const { trigger } = await callTriggersFunction<{ trigger: WorkflowTrigger }>(
+    { action: "update", trigger_id: triggerId, ...updates },
+    "Failed to update workflow trigger",
+  );
+  return trigger;
+}
+
+// Replace a webhook trigger's signing secret; requests signed with the old one are rejected
+export async function rotateWorkflowTriggerSecret(triggerId: string): Promise<WorkflowTrigger> {
+  const { trigger } = await callTriggersFunction<{ trigger: WorkflowTrigger }>(
+    { action: "rotate_secret", trigger_id: triggerId },
+    "Failed to rotate webhook secret",
+  );
+  return trigger;
+}
+
+// Delete a trigger; runs it started are kept
+export async function deleteWorkflowTrigger(triggerId: string): Promise<void> {
+  await callTriggersFunction({ action: "delete", trigger_id: triggerId }, "Failed to delete workflow trigger");
+}
+
+async function callApprovalsFunction<T>(body: Record<string, unknown>, fallbackError: string): Promise<T> {
+  const response = await callFunction("workflow-approvals", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error?.error || fallbackError);
+  }
+
+  return response.json();
+}
+
+// List the current user's open approval requests, optionally for one run
+export async function listWorkflowApprovals(executionId?: string): Promise<WorkflowApproval[]> {
+  const { approvals } = await callApprovalsFunction<{ approvals: WorkflowApproval[] }>(
+    { action: "list", execution_id: executionId },
+    "Failed to load workflow approvals",
+  );
+  return approvals;
+}
+
+// Approve (optionally with an edited payload) or reject a request; approving continues the run
+export async function decideWorkflowApproval(
+  approvalId: string,
+  decision: WorkflowApprovalDecision,
+  options: { payload?: Record<string, unknown>; comment?: string } = {},
+): Promise<WorkflowApproval> {
+  const { approval, error } = await callApprovalsFunction<{ approval: WorkflowApproval; error?: string }>(
+    { action: "decide", approval_id: approvalId, decision, ...options },
+    "Failed to record decision",
+  );
+  if (error) {
+    throw new Error(`Approved, but the run could not be continued: ${error}`);
+  }
+  return approval;
+}
@@ -0,0 +1,92 @@
+// Save-time validation for condition, data, loop and sub-workflow node expressions.
+// The language itself lives with the executor so both sides parse identically.
+
+import { validateExpression } from "../../../supabase/functions/_shared/workflowExpression.ts";
+import type { NodeType } from "./types";
+
+export {
+  evaluateExpression,
+  isTruthy,
+  validateExpression,
+  WorkflowExpressionError,
+  type ExpressionScope,
+} from "../../../supabase/functions/_shared/workflowExpression.ts";
+
+export interface WorkflowExpressionIssue {
+  /** Node the expression belongs to (the source node for edge conditions). */
+  nodeId: string;
+  label: string;
+  /** Config field holding the expression, e.g. "condition", "mapping.total" or "edge condition". */
+  field: string;
+  message: string;
+}
+
+interface ExpressionNodeLike {
+  id: string;
+  label: string;
+  node_type: NodeType;
+  config: Record<string, unknown>;
+}
+
+interface ExpressionEdgeLike {
+  source_node_id: string;
+  condition?: string;
+}
+
+// Edge conditions may also be the branch labels "true"/"false"/"error" (and "each" from loop nodes)
+const BRANCH_LABELS = new Set(["true", "false", "error", "each"]);
+
+export function collectExpressionIssues(
+  nodes: ExpressionNodeLike[],
+  edges: ExpressionEdgeLike[] = [],
+): WorkflowExpressionIssue[] {
+  const issues: WorkflowExpressionIssue[] = [];
+
+  const check = (node: ExpressionNodeLike, field: string, value: unknown) => {
+    if (typeof value !== "string" || !value.trim()) return;
+    const message = validateExpression(value);
+    if (message) {
+      issues.push({ nodeId: node.id, label: node.label, field, message });
+    }
+  };
+
+  for (const node of nodes) {
+    if (node.node_type === "condition") {
+      check(node, "condition", node.config.condition);
+    } else if (node.node_type === "data") {
+      check(node, "expression", node.config.expression);
+      const mapping = node.config.mapping;
+      if (mapping && typeof mapping === "object") {
+        for (const [key, value] of Object.entries(mapping as Record<string, unknown>)) {
+          check(node, `mapping.${key}`, value);
+        }
+      }
+    } else if (node.node_type === "loop") {
+      check(node, "items", node.config.items);
+    } else if (node.node_type === "subworkflow") {
+      const inputMapping = node.config.input_mapping;
+      if (inputMapping && typeof inputMapping === "object") {
+        for (const [key, value] of Object.entries(inputMapping as Record<string, unknown>)) {
+          check(node, `input_mapping.${key}`, value);
+        }
+      }
+    }
+  }
+
+  for (const edge of edges) {
+    const condition = edge.condition?.trim();
+    if (!condition || BRANCH_LABELS.has(condition.toLowerCase())) continue;
+    const message = validateExpression(condition);
+    if (message) {
+      const source = nodes.find(node => node.id === edge.source_node_id);
+      issues.push({
+        nodeId: edge.source_node_id,
+        label: source?.label ?? edge.source_node_id,
+        field: "edge condition",
+        message,
+      });
+    }
+  }
+
+  return issues;
+}
@@ -1,8 +1,18 @@
 // TypeScript types for workflow data model
 
-export type NodeType = "agent" | "tool" | "data" | "condition" | "merge" | "start" | "end";
+export type NodeType =
+  | "agent"
+  | "tool"
+  | "data"
+  | "condition"
+  | "merge"
+  | "loop"
+  | "subworkflow"
+  | "approval"
+  | "start"
+  | "end";
 
-export type ExecutionStatus = "pending" | "running" | "completed" | "failed" | "cancelled" | "skipped";
+export type ExecutionStatus = "pending" | "running" | "waiting" | "completed" | "failed" | "cancelled" | "skipped";
 
 export interface Workflow {
   id: string;
@@ -49,6 +59,15 @@ export interface WorkflowExecution {
   input_data?: Record<string, unknown>;
   output_data?: Record<string, unknown>;
   error_message?: string;
+  parameters?: Record<string, string | number | boolean>;
+  checkpoint?: { nodes?: Record<string, { status: "completed" | "skipped"; output?: Record<string, unknown> }> };
+  heartbeat_at?: string; // refreshed while the executor is alive; stale runs are failed by the sweeper
+  trigger_id?: string | null;
+  triggered_by?: "manual" | "cron" | "webhook" | "workflow";
+  parent_execution_id?: string | null; // Run whose sub-workflow node started this one
+  parent_node_id?: string | null;
+  depth?: number; // Sub-workflow nesting level; 0 for top-level runs
+  version_id?: string | null; // Workflow version the run executes (null for runs from before versioning)
   started_at?: string;
   completed_at?: string;
   created_at: string;
@@ -59,12 +78,15 @@ export interface NodeExecution {
   execution_id: string;
   node_id: string;
   status: ExecutionStatus;
+  attempt: number; // 1-based; retried nodes have one row per attempt
   input_data?: Record<string, unknown>;
   output_data?: Record<string, unknown>;
   error_message?: string;
   started_at?: string;
   completed_at?: string;
   latency_ms?: number;
+  loop_node_id?: string | null; // Set on rows of nodes that ran inside a loop body
+  iteration?: number | null; // 0-based loop item index
   created_at: string;
 }
 
@@ -75,6 +97,44 @@ export interface WorkflowWithGraph {
   edges: WorkflowEdge[];
 }
 
+// Immutable snapshot of a workflow graph, recorded on every save
+export interface WorkflowVersion {
+  id: string;
+  workflow_id: string;
+  user_id: string;
+  version: number; // 1-based, increasing per workflow
+  graph: { nodes: WorkflowNode[]; edges: WorkflowEdge[] };
+  restored_from_version?: number | null; // Set when the save was a rollback to that version
+  created_at: string;
+}
+
+export type WorkflowGraphChange = "added" | "removed" | "changed";
+
+// Difference between two versions; see diffWorkflowGraphs in lib/workflows/versions.ts
+export interface WorkflowGraphDiff {
+  nodes: Array<{
+    change: WorkflowGraphChange;
+    node: WorkflowNode; // The node as it is in the newer version (the older one when removed)
+    fields: string[]; // Changed fields, for "changed"
+  }>;
+  edges: Array<{
+    change: WorkflowGraphChange;
+    edge: WorkflowEdge;
+    fields: string[];
+  }>;
+}
+
+// Retry, timeout and error handling for a node (stored as config.policy on any node type)
+export interface NodeExecutionPolicy {
+  max_retries?: number; // Extra attempts after the first failure (default 0)
+  backoff_ms?: number; // Delay before the first retry (default 1000)
+  backoff_multiplier?: number; // Growth factor per retry (default 2)
+  max_backoff_ms?: number; // Upper bound for the delay (default 30000)
+  timeout_ms?: number; // Per-attempt timeout
+  on_error?: "fail" | "continue" | "error_branch"; // continue: emit default_output; error_branch: follow "error" edges only
+  default_output?: Record<string, unknown>;
+}
+
 // Node configuration types based on node type
 export interface AgentNodeConfig {
   mcp_server_id: string;
@@ -89,14 +149,15 @@ export interface ToolNodeConfig {
   parameters: Record<string, string | number | boolean>;
 }
 
+// Expressions use the workflow expression language (see lib/workflows/expressions.ts)
 export interface DataNodeConfig {
   operation: "transform" | "filter" | "merge" | "split";
-  expression?: string;
-  mapping?: Record<string, string>;
+  expression?: string; // transform/merge: result expression; filter: predicate over array elements (`@`)
+  mapping?: Record<string, string>; // Output key -> expression
 }
 
 export interface ConditionNodeConfig {
-  condition: string; // JavaScript expression or template
+  condition: string; // Expression evaluated against node input and workflow parameters
   true_path?: string; // Node ID for true branch
   false_path?: string; // Node ID for false branch
 }
@@ -106,9 +167,87 @@ export interface MergeNodeConfig {
   input_count: number;
 }
 
+// Runs the nodes behind the loop's "each" edges once per item; outputs { [output_key]: results, count }
+export interface LoopNodeConfig {
+  items: string; // Expression for the list to iterate, e.g. $.tickers
+  item_key?: string; // Input key holding the current item in the body (default "item")
+  max_parallel?: number; // Iterations running at the same time (default 1)
+  output_key?: string; // Output key for the collected results (default "results")
+}
+
+// Runs another saved workflow and waits for it; its output_data becomes this node's output
+export interface SubworkflowNodeConfig {
+  workflow_id: string;
+  input_mapping?: Record<string, string>; // Child input key -> expression; without it the node input is passed through
+}
+
+// Pauses the run ("waiting") until the owner approves, edits or rejects the node input
+export interface ApprovalNodeConfig {
+  message?: string; // Instructions shown to the reviewer
+  expires_in_minutes?: number; // Undecided requests expire and fail the run (default 1440)
+}
+
+export type WorkflowApprovalStatus = "pending" | "approved" | "rejected" | "expired";
+
+// Review request raised by an approval node (managed by the workflow-approvals function)
+export interface WorkflowApproval {
+  id: string;
+  execution_id: string;
+  workflow_id: string;
+  workflow_name?: string | null;
+  node_id: string;
+  node_label?: string | null;
+  user_id: string;
+  status: WorkflowApprovalStatus;
+  message?: string | null;
+  payload: Record<string, unknown>; // Node input awaiting review
+  approved_payload?: Record<string, unknown> | null; // What the run continues with
+  comment?: string | null;
+  expires_at: string;
+  decided_at?: string | null;
+  created_at: string;
+}
+
+export type WorkflowApprovalDecision = "approve" | "reject";
+
+// Starts a workflow on a schedule or from a signed webhook (managed by the workflow-triggers function)
+export type WorkflowTriggerType = "cron" | "webhook";
+
+export interface WorkflowTrigger {
+  id: string;
+  workflow_id: string;
+  user_id: string;
+  trigger_type: WorkflowTriggerType;
+  name?: string | null;
+  enabled: boolean;
+  cron_expression?: string | null; // Five fields: minute hour day-of-month month day-of-week
+  timezone: string; // IANA name the cron expression is evaluated in
+  next_run_at?: string | null;
+  webhook_secret?: string | null; // Signs X-Workflow-Signature; only returned when created or rotated
+  webhook_url?: string;
+  input_data: Record<string, unknown>; // Webhook runs use the request payload instead
+  parameters: Record<string, string | number | boolean>;
+  last_triggered_at?: string | null;
+  last_execution_id?: string | null;
+  last_error?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WorkflowTriggerInput {
+  name?: string | null;
+  enabled?: boolean;
+  cron_expression?: string;
+  timezone?: string;
+  input_data?: Record<string, unknown>;
+  parameters?: Record<string, string | number | boolean>;
+}
+
 // Workflow execution request
 export interface ExecuteWorkflowRequest {
-  workflow_id: string;
+  action?: "start" | "resume"; // resume continues a failed or cancelled run from its checkpoint
+  workflow_id?: string;
+  execution_id?: string; // required when resuming
   input_data?: Record<string, unknown>;
   parameters?: Record<string, string | number | boolean>;
 }
@@ -118,5 +257,6 @@ export interface ExecuteWorkflowResponse {
   execution_id: string;
   status: ExecutionStatus;
   workflow_id: string;
+  resumed?: boolean;
 }
 
@@ -0,0 +1,82 @@
+// Comparison of two workflow versions for the builder's history view.
+
+import type { WorkflowEdge, WorkflowGraphDiff, WorkflowNode, WorkflowVersion } from "./types";
+
+type Graph = WorkflowVersion["graph"];
+
+// JSON with object keys sorted, so equal configs compare equal whatever their key order
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === "" ||
+    (typeof value === "object" && Object.keys(value as object).length === 0);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return (isEmpty(a) && isEmpty(b)) || stableStringify(a) === stableStringify(b);
+}
+
+function changedNodeFields(before: WorkflowNode, after: WorkflowNode): string[] {
+  const fields: string[] = (["label", "node_type", "mcp_server_id", "mcp_command_name", "config"] as const)
+    .filter(field => !sameValue(before[field], after[field]));
+  if (Number(before.position_x) !== Number(after.position_x) || Number(before.position_y) !== Number(after.position_y)) {
+    fields.push("position");
+  }
+  return fields;
+}
+
+// Edges are re-created on every save, so they are matched by their endpoints rather than id
+function edgeKey(edge: WorkflowEdge): string {
+  return `${edge.source_node_id}->${edge.target_node_id}`;
+}
+
+/**
+ * What changed from `before` to `after`. Nodes are matched by id; edges by the
+ * nodes they connect, so a changed branch label shows as a changed edge.
+ */
+export function diffWorkflowGraphs(before: Graph, after: Graph): WorkflowGraphDiff {
+  const diff: WorkflowGraphDiff = { nodes: [], edges: [] };
+
+  const beforeNodes = new Map(before.nodes.map(node => [node.id, node]));
+  const afterNodeIds = new Set(after.nodes.map(node => node.id));
+  for (const node of after.nodes) {
+    const previous = beforeNodes.get(node.id);
+    if (!previous) {
+      diff.nodes.push({ change: "added", node, fields: [] });
+      continue;
+    }
+    const fields = changedNodeFields(previous, node);
+    if (fields.length > 0) diff.nodes.push({ change: "changed", node, fields });
+  }
+  for (const node of before.nodes) {
+    if (!afterNodeIds.has(node.id)) diff.nodes.push({ change: "removed", node, fields: [] });
+  }
+
+  const beforeEdges = new Map(before.edges.map(edge => [edgeKey(edge), edge]));
+  const afterEdgeKeys = new Set(after.edges.map(edgeKey));
+  for (const edge of after.edges) {
+    const previous = beforeEdges.get(edgeKey(edge));
+    if (!previous) {
+      diff.edges.push({ change: "added", edge, fields: [] });
+      continue;
+    }
+    const fields = (["condition", "data_mapping"] as const).filter(field => !sameValue(previous[field], edge[field]));
+    if (fields.length > 0) diff.edges.push({ change: "changed", edge, fields });
+  }
+  for (const edge of before.edges) {
+    if (!afterEdgeKeys.has(edgeKey(edge))) diff.edges.push({ change: "removed", edge, fields: [] });
+  }
+
+  return diff;
+}
@@ -1,7 +1,8 @@
 import { ChatMessage } from "@/components/ChatMessage";
 import { ChatInput } from "@/components/ui/chat-input";
 import { FileUploadStatus } from "@/components/FileUploadStatus";
-import { DocumentsSidebar } from "@/components/DocumentsSidebar";
+import { DocumentsSidebar, type DocumentFocusRequest } from "@/components/DocumentsSidebar";
+import type { DocumentCitation } from "@/lib/citations";
 import { DocumentsSidebarTest } from "@/components/DocumentsSidebar.test";
 import { DocumentsSidebarMinimalTest } from "@/components/DocumentsSidebarMinimalTest";
 import { useChat } from "@/hooks/useChat";
@@ -26,6 +27,7 @@ import { cn } from "@/lib/utils";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { McpEventLog } from "@/components/McpEventLog";
+import { WorkflowApprovalsPanel } from "@/components/WorkflowApprovals";
 import { Footer } from "@/components/Footer";
 import { PageHeader } from "@/components/PageHeader";
 import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from "@/components/ui/resizable";
@@ -84,6 +86,7 @@ const Index = () => {
   const [isRegisteringUpload, setIsRegisteringUpload] = useState(false);
   const [documentsSidebarRefreshTrigger, setDocumentsSidebarRefreshTrigger] = useState(0);
   const [documentCount, setDocumentCount] = useState(0); // Track document count for conditional rendering
+  const [documentFocus, setDocumentFocus] = useState<DocumentFocusRequest | null>(null); // Citation clicked in chat
   const refreshTimeoutRef = useRef<NodeJS.Timeout | null>(null); // Debounce refresh triggers
   
   // Manual reset function for stuck uploads
@@ -95,6 +98,11 @@ const Index = () => {
       description: "You can try uploading again.",
     });
   }, [toast]);
+
+  // Citation badges in answers open the document in the sidebar
+  const handleCitationClick = useCallback((citation: DocumentCitation) => {
+    setDocumentFocus({ fileName: citation.fileName, page: citation.page, time: citation.time, nonce: Date.now() });
+  }, []);
   const { enabled: voicePlaybackEnabled, toggle: toggleVoicePlayback, speak, stop, isSpeaking } = useVoicePlayback();
   const hasPendingUploads = useMemo(
     () => isRegisteringUpload || uploadJobs.some(job => ["uploading", "queued", "processing"].includes(job.status)),
@@ -503,6 +511,7 @@ const Index = () => {
                     onDocumentsChange={(count) => {
                       setDocumentCount(count);
                     }}
+                    focusRequest={documentFocus}
                   />
                 </div>
               </ResizablePanel>
@@ -578,8 +587,10 @@ const Index = () => {
                     {renderModelMenu("compact")}
                   </div>
                 )}
+                {/* Workflow runs paused at an approval node */}
+                {session && <WorkflowApprovalsPanel className="mb-4" />}
                 {(session || guestMode) && messages.map((message, index) => (
-                  <ChatMessage key={index} message={message} />
+                  <ChatMessage key={index} message={message} onCitationClick={handleCitationClick} />
                 ))}
                 {(session || guestMode) && isLoading && (() => {
                   // Get the latest progress message from MCP events
@@ -1,12 +1,78 @@
 import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabaseClient } from '../lib/supabaseClient';
+import {
+  completeMcpServerAuthorization,
+  MCP_OAUTH_PENDING_KEY,
+  MCP_OAUTH_RESULT_KEY,
+  type McpOAuthPending,
+  type McpOAuthResult,
+} from '../lib/mcp/registryClient';
+
+// Finish an MCP server authorization (started by startMcpServerAuthorization)
+// and hand the outcome back to the page that started it.
+async function finishMcpServerAuthorization(
+  pendingRaw: string,
+  params: URLSearchParams,
+  setStatus: (status: string) => void,
+) {
+  sessionStorage.removeItem(MCP_OAUTH_PENDING_KEY);
+
+  let pending: McpOAuthPending | null = null;
+  try {
+    pending = JSON.parse(pendingRaw);
+  } catch {
+    // Treated as a state mismatch below
+  }
+
+  const state = params.get('state');
+  let result: McpOAuthResult;
+  if (!pending || !state || pending.state !== state) {
+    result = {
+      serverId: pending?.serverId ?? '',
+      name: pending?.name ?? 'MCP server',
+      error: 'Authorization state mismatch. Please run /slashmcp auth again.',
+    };
+  } else {
+    setStatus(`Connecting ${pending.name}...`);
+    try {
+      result = await completeMcpServerAuthorization({
+        state,
+        code: params.get('code'),
+        error: params.get('error'),
+        errorDescription: params.get('error_description'),
+      });
+    } catch (error) {
+      result = {
+        serverId: pending.serverId,
+        name: pending.name,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  sessionStorage.setItem(MCP_OAUTH_RESULT_KEY, JSON.stringify(result));
+  setStatus(result.error ? `Authorization failed: ${result.error}` : `${result.name} connected. Redirecting...`);
+  setTimeout(() => {
+    window.location.href = pending?.returnTo || '/';
+  }, result.error ? 2000 : 500);
+}
 
 export default function OAuthCallback() {
   const navigate = useNavigate();
   const [status, setStatus] = useState<string>('Processing OAuth callback...');
 
   useEffect(() => {
+    // MCP server authorization comes back with ?code=...&state=... rather than a Supabase hash
+    const pendingMcpAuthorization = typeof window !== 'undefined' ? sessionStorage.getItem(MCP_OAUTH_PENDING_KEY) : null;
+    if (pendingMcpAuthorization) {
+      const searchParams = new URLSearchParams(window.location.search);
+      if (searchParams.has('state')) {
+        void finishMcpServerAuthorization(pendingMcpAuthorization, searchParams, setStatus);
+        return;
+      }
+    }
+
     // DON'T clear the hash yet - Supabase needs it with detectSessionInUrl: true
     // We'll clear it after the session is established
     const hasHash = typeof window !== 'undefined' && window.location.hash && window.location.hash.includes('access_token');
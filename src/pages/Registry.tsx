@@ -1,6 +1,6 @@
 import { useState, useEffect, useMemo } from "react";
 import { useNavigate } from "react-router-dom";
-import { Search, Server, CheckCircle2, XCircle, Clock, ExternalLink, Plus, Filter } from "lucide-react";
+import { Search, Server, CheckCircle2, XCircle, Clock, ExternalLink, Plus, Filter, RefreshCw, KeyRound } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -8,8 +8,15 @@ import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { MCP_SERVER_REGISTRY, findServerDefinition } from "@/lib/mcp/registry";
-import { listMcpServers, type McpRegistryEntry } from "@/lib/mcp/registryClient";
+import { MCP_SERVER_REGISTRY, buildDynamicServerDefinition, findServerDefinition } from "@/lib/mcp/registry";
+import {
+  listMcpServers,
+  MCP_OAUTH_RESULT_KEY,
+  refreshMcpServerTools,
+  startMcpServerAuthorization,
+  type McpOAuthResult,
+  type McpRegistryEntry,
+} from "@/lib/mcp/registryClient";
 import { supabaseClient } from "@/lib/supabaseClient";
 import { useToast } from "@/components/ui/use-toast";
 import { PageHeader } from "@/components/PageHeader";
@@ -25,6 +32,7 @@ type ServerWithStatus = {
   lastHealthCheck?: string | null;
   gatewayUrl?: string;
   authType?: string;
+  toolsError?: string | null;
   commands?: Array<{
     name: string;
     title: string;
@@ -48,6 +56,8 @@ export function Registry() {
   const [userServers, setUserServers] = useState<McpRegistryEntry[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [authReady, setAuthReady] = useState(false);
+  const [refreshingId, setRefreshingId] = useState<string | null>(null);
+  const [authorizingId, setAuthorizingId] = useState<string | null>(null);
 
   // Check auth status
   useEffect(() => {
@@ -71,6 +81,23 @@ export function Registry() {
     });
   }, []);
 
+  // Outcome of an OAuth authorization started from this page (see OAuthCallback)
+  useEffect(() => {
+    const raw = sessionStorage.getItem(MCP_OAUTH_RESULT_KEY);
+    if (!raw) return;
+    sessionStorage.removeItem(MCP_OAUTH_RESULT_KEY);
+    try {
+      const result = JSON.parse(raw) as McpOAuthResult;
+      toast(
+        result.error
+          ? { title: `Authorization for ${result.name} failed`, description: result.error, variant: "destructive" }
+          : { title: `${result.name} authorized`, description: `${result.toolCount ?? 0} tool(s) discovered` },
+      );
+    } catch {
+      // Ignore malformed results
+    }
+  }, [toast]);
+
   const loadUserServers = async () => {
     try {
       setIsLoading(true);
@@ -88,6 +115,51 @@ export function Registry() {
     }
   };
 
+  const handleRefreshTools = async (serverId: string) => {
+    try {
+      setRefreshingId(serverId);
+      const [result] = await refreshMcpServerTools(serverId);
+      if (result && !result.ok) {
+        toast({
+          title: "Tool discovery failed",
+          description: result.error ?? "The server did not answer tools/list",
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Tools refreshed",
+          description: `${result?.toolCount ?? 0} tool(s) discovered`,
+        });
+      }
+      setUserServers(await listMcpServers());
+    } catch (error) {
+      console.error("Failed to refresh tools:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to refresh tools",
+        variant: "destructive",
+      });
+    } finally {
+      setRefreshingId(null);
+    }
+  };
+
+  const handleAuthorize = async (serverId: string) => {
+    try {
+      setAuthorizingId(serverId);
+      const { authorizationUrl } = await startMcpServerAuthorization(serverId);
+      window.location.assign(authorizationUrl);
+    } catch (error) {
+      console.error("Failed to start authorization:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to start authorization",
+        variant: "destructive",
+      });
+      setAuthorizingId(null);
+    }
+  };
+
   // Combine preset and user servers
   const allServers = useMemo<ServerWithStatus[]>(() => {
     const presetServers: ServerWithStatus[] = MCP_SERVER_REGISTRY.map(preset => ({
@@ -103,17 +175,19 @@ export function Registry() {
 
     const userServerEntries: ServerWithStatus[] = userServers.map(server => {
       const preset = findServerDefinition(server.id);
+      const discovered = buildDynamicServerDefinition(server);
       return {
         id: server.id,
         name: server.name,
-        description: preset?.description,
+        description: preset?.description ?? discovered.description,
         category: preset?.category || "custom",
         isPreset: false,
         isActive: server.is_active,
         lastHealthCheck: server.last_health_check || null,
         gatewayUrl: server.gateway_url,
         authType: server.auth_type,
-        commands: preset?.commands,
+        toolsError: server.tools_error ?? null,
+        commands: preset?.commands ?? discovered.commands,
         healthStatus: server.is_active
           ? server.last_health_check
             ? new Date(server.last_health_check).getTime() > Date.now() - 5 * 60 * 1000
@@ -321,6 +395,9 @@ export function Registry() {
                   ) : (
                     <div className="text-sm text-muted-foreground py-4">
                       No tools available
+                      {server.toolsError && (
+                        <div className="text-xs text-red-500 mt-1">Discovery failed: {server.toolsError}</div>
+                      )}
                     </div>
                   )}
                   <div className="mt-4 pt-4 border-t flex items-center justify-between">
@@ -334,14 +411,38 @@ export function Registry() {
                         <span>Preset server</span>
                       )}
                     </div>
-                    {server.gatewayUrl && (
-                      <Button variant="ghost" size="sm" asChild>
-                        <a href={server.gatewayUrl} target="_blank" rel="noopener noreferrer">
-                          <ExternalLink className="h-3 w-3 mr-1" />
-                          Gateway
-                        </a>
-                      </Button>
-                    )}
+                    <div className="flex items-center gap-1">
+                      {!server.isPreset && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRefreshTools(server.id)}
+                          disabled={refreshingId === server.id}
+                        >
+                          <RefreshCw className={cn("h-3 w-3 mr-1", refreshingId === server.id && "animate-spin")} />
+                          Refresh
+                        </Button>
+                      )}
+                      {!server.isPreset && server.authType === "oauth" && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleAuthorize(server.id)}
+                          disabled={authorizingId === server.id}
+                        >
+                          <KeyRound className="h-3 w-3 mr-1" />
+                          Authorize
+                        </Button>
+                      )}
+                      {server.gatewayUrl && (
+                        <Button variant="ghost" size="sm" asChild>
+                          <a href={server.gatewayUrl} target="_blank" rel="noopener noreferrer">
+                            <ExternalLink className="h-3 w-3 mr-1" />
+                            Gateway
+                          </a>
+                        </Button>
+                      )}
+                    </div>
                   </div>
                 </CardContent>
               </Card>
@@ -16,7 +16,22 @@ import {
   Position,
 } from "@xyflow/react";
 import "@xyflow/react/dist/style.css";
-import { ArrowLeft, Save, Play, Plus, Trash2, AlertCircle, GitMerge, GitBranch, BookOpen, Sparkles } from "lucide-react";
+import {
+  ArrowLeft,
+  Save,
+  Play,
+  Plus,
+  Trash2,
+  AlertCircle,
+  GitMerge,
+  GitBranch,
+  BookOpen,
+  Sparkles,
+  Repeat,
+  Workflow as WorkflowIcon,
+  UserCheck,
+  History,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -25,13 +40,22 @@ import { useToast } from "@/components/ui/use-toast";
 import { cn } from "@/lib/utils";
 import { MCP_SERVER_REGISTRY } from "@/lib/mcp/registry";
 import { WorkflowExecutionViewer } from "@/components/WorkflowExecutionViewer";
+import { WorkflowVersionsDialog } from "@/components/WorkflowVersionsDialog";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription } from "@/components/ui/sheet";
 import { supabaseClient } from "@/lib/supabaseClient";
 import { PageHeader } from "@/components/PageHeader";
 import { Footer } from "@/components/Footer";
 import type { Workflow } from "@/lib/workflows/types";
-import type { NodeType } from "@/lib/workflows/types";
+import type {
+  ApprovalNodeConfig,
+  DataNodeConfig,
+  LoopNodeConfig,
+  NodeExecutionPolicy,
+  NodeType,
+  SubworkflowNodeConfig,
+} from "@/lib/workflows/types";
+import { collectExpressionIssues } from "@/lib/workflows/expressions";
 import {
   getWorkflow,
   createWorkflow,
@@ -60,6 +84,9 @@ function WorkflowNode({ data, selected }: { data: {
     data: "bg-amber-500",
     condition: "bg-orange-500",
     merge: "bg-cyan-500",
+    loop: "bg-indigo-500",
+    subworkflow: "bg-teal-500",
+    approval: "bg-yellow-500",
   };
 
   // Generate dynamic title based on configuration
@@ -84,6 +111,9 @@ function WorkflowNode({ data, selected }: { data: {
       const condition = String(data.config.condition);
       return condition.length > 20 ? condition.substring(0, 20) + "..." : condition;
     }
+    if (data.nodeType === "loop" && data.config?.items) {
+      return `each of ${String(data.config.items)}`;
+    }
     return null;
   };
 
@@ -270,12 +300,24 @@ export function WorkflowBuilder() {
   const [nodes, setNodes, onNodesChange] = useNodesState(initialNodes);
   const [edges, setEdges, onEdgesChange] = useEdgesState(initialEdges);
   const [selectedNode, setSelectedNode] = useState<Node | null>(null);
+  const [selectedEdge, setSelectedEdge] = useState<Edge | null>(null);
   const [executionId, setExecutionId] = useState<string | null>(null);
   const [configPanelOpen, setConfigPanelOpen] = useState(false);
   const reactFlowWrapper = useRef<HTMLDivElement>(null);
   const [reactFlowInstance, setReactFlowInstance] = useState<any>(null);
   const [nodeErrors, setNodeErrors] = useState<Map<string, string>>(new Map());
   const [templateLibraryOpen, setTemplateLibraryOpen] = useState(false);
+  const [savedWorkflows, setSavedWorkflows] = useState<Workflow[]>([]);
+  const [versionsOpen, setVersionsOpen] = useState(false);
+  // Bumped to reload the graph from the database, e.g. after a rollback
+  const [graphRevision, setGraphRevision] = useState(0);
+
+  // Workflows a sub-workflow node can call
+  useEffect(() => {
+    listWorkflows()
+      .then(setSavedWorkflows)
+      .catch(error => console.error("Failed to load workflows:", error));
+  }, []);
 
   // Load workflow if editing
   useEffect(() => {
@@ -333,6 +375,8 @@ export function WorkflowBuilder() {
             source: edge.source_node_id,
             target: edge.target_node_id,
             type: "smoothstep",
+            label: edge.condition || undefined,
+            data: { condition: edge.condition },
           }));
 
           setEdges(flowEdges);
@@ -347,7 +391,7 @@ export function WorkflowBuilder() {
         })
         .finally(() => setIsLoading(false));
     }
-  }, [id, setNodes, setEdges, toast]);
+  }, [id, graphRevision, setNodes, setEdges, toast]);
 
   const onConnect = useCallback(
     (params: Connection) => {
@@ -359,11 +403,50 @@ export function WorkflowBuilder() {
     [setEdges, nodes],
   );
 
+  // Update a node's config, keeping the open config panel in sync
+  const updateNodeConfig = useCallback(
+    (nodeId: string, patch: Record<string, unknown>) => {
+      const apply = (n: Node) =>
+        n.id === nodeId ? { ...n, data: { ...n.data, config: { ...(n.data.config as Record<string, unknown>), ...patch } } } : n;
+      setNodes(nds => nds.map(apply));
+      setSelectedNode(prev => (prev ? apply(prev) : prev));
+    },
+    [setNodes],
+  );
+
+  const updateNodePolicy = useCallback(
+    (nodeId: string, patch: Partial<NodeExecutionPolicy>) => {
+      const apply = (n: Node) => {
+        if (n.id !== nodeId) return n;
+        const config = (n.data.config || {}) as Record<string, unknown>;
+        const policy = { ...(config.policy as NodeExecutionPolicy | undefined), ...patch };
+        return { ...n, data: { ...n.data, config: { ...config, policy } } };
+      };
+      setNodes(nds => nds.map(apply));
+      setSelectedNode(prev => (prev ? apply(prev) : prev));
+    },
+    [setNodes],
+  );
+
   const onNodeClick = useCallback((_event: React.MouseEvent, node: Node) => {
     setSelectedNode(node);
+    setSelectedEdge(null);
+    setConfigPanelOpen(true);
+  }, []);
+
+  const onEdgeClick = useCallback((_event: React.MouseEvent, edge: Edge) => {
+    setSelectedEdge(edge);
+    setSelectedNode(null);
     setConfigPanelOpen(true);
   }, []);
 
+  const updateEdgeCondition = (edgeId: string, condition: string) => {
+    const apply = (e: Edge) =>
+      e.id === edgeId ? { ...e, label: condition.trim() || undefined, data: { ...e.data, condition } } : e;
+    setEdges(eds => eds.map(apply));
+    setSelectedEdge(prev => (prev ? apply(prev) : prev));
+  };
+
   // Drag and drop handlers
   const onDragOver = useCallback((event: React.DragEvent) => {
     event.preventDefault();
@@ -421,6 +504,31 @@ export function WorkflowBuilder() {
       return;
     }
 
+    // Catch expression syntax errors before anything is written
+    const expressionIssues = collectExpressionIssues(
+      nodes
+        .filter(node => node.type !== "junction")
+        .map(node => ({
+          id: node.id,
+          label: String(node.data.label || node.id),
+          node_type: (node.data.nodeType || "tool") as NodeType,
+          config: (node.data.config || {}) as Record<string, unknown>,
+        })),
+      edges.map(edge => ({ source_node_id: edge.source, condition: edge.data?.condition as string | undefined })),
+    );
+    if (expressionIssues.length > 0) {
+      setNodeErrors(new Map(expressionIssues.map(issue => [issue.nodeId, `${issue.field}: ${issue.message}`])));
+      const [first] = expressionIssues;
+      toast({
+        title: "Invalid expression",
+        description:
+          `${first.label} (${first.field}): ${first.message}` +
+          (expressionIssues.length > 1 ? ` (+${expressionIssues.length - 1} more)` : ""),
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsSaving(true);
     try {
       let workflowId = id;
@@ -471,13 +579,20 @@ export function WorkflowBuilder() {
       const workflowEdges = edges.map(edge => ({
         source_node_id: edge.source,
         target_node_id: edge.target,
-        condition: undefined,
+        condition: ((edge.data?.condition as string | undefined) || "").trim() || undefined,
         data_mapping: {},
         source_temp_id: edge.source,
         target_temp_id: edge.target,
       }));
 
-      await saveWorkflowGraph(workflowId, workflowNodes, workflowEdges);
+      const { nodeIdMap } = await saveWorkflowGraph(workflowId, workflowNodes, workflowEdges);
+
+      // Keep the canvas on the saved ids so the next save updates these nodes in place
+      // (versions are compared by node id)
+      const savedId = (nodeId: string) => nodeIdMap.get(nodeId) ?? nodeId;
+      setNodes(nds => nds.map(node => ({ ...node, id: savedId(node.id) })));
+      setEdges(eds => eds.map(edge => ({ ...edge, source: savedId(edge.source), target: savedId(edge.target) })));
+      setSelectedNode(prev => (prev ? { ...prev, id: savedId(prev.id) } : prev));
 
       toast({
         title: "Success",
@@ -571,12 +686,15 @@ export function WorkflowBuilder() {
         const data = await response.json();
         const { node_executions, execution } = data;
 
-        // Update node errors based on execution results
+        // Update node errors based on execution results; a later successful
+        // attempt clears an earlier failure
         const errors = new Map<string, string>();
         if (node_executions) {
           node_executions.forEach((nodeExec: { node_id: string; status: string; error_message?: string }) => {
             if (nodeExec.status === "failed" && nodeExec.error_message) {
               errors.set(nodeExec.node_id, nodeExec.error_message);
+            } else if (nodeExec.status === "completed") {
+              errors.delete(nodeExec.node_id);
             }
           });
         }
@@ -698,6 +816,15 @@ export function WorkflowBuilder() {
           <BookOpen className="h-4 w-4 mr-2" />
           Templates
         </Button>
+        <Button
+          variant="outline"
+          onClick={() => setVersionsOpen(true)}
+          disabled={!id || id === "new"}
+          className="hidden md:flex"
+        >
+          <History className="h-4 w-4 mr-2" />
+          History
+        </Button>
         <Button variant="outline" onClick={handleSave} disabled={isSaving} className="hidden sm:flex">
           <Save className="h-4 w-4 mr-2" />
           {isSaving ? "Saving..." : "Save"}
@@ -796,6 +923,39 @@ export function WorkflowBuilder() {
                   <Plus className="h-4 w-4 mr-2" />
                   Merge Node
                 </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full justify-start cursor-grab active:cursor-grabbing"
+                  draggable
+                  onDragStart={(e) => onDragStart(e, "loop")}
+                  onClick={() => handleAddNode("loop")}
+                >
+                  <Repeat className="h-4 w-4 mr-2" />
+                  Loop Node
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full justify-start cursor-grab active:cursor-grabbing"
+                  draggable
+                  onDragStart={(e) => onDragStart(e, "subworkflow")}
+                  onClick={() => handleAddNode("subworkflow")}
+                >
+                  <WorkflowIcon className="h-4 w-4 mr-2" />
+                  Sub-workflow Node
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full justify-start cursor-grab active:cursor-grabbing"
+                  draggable
+                  onDragStart={(e) => onDragStart(e, "approval")}
+                  onClick={() => handleAddNode("approval")}
+                >
+                  <UserCheck className="h-4 w-4 mr-2" />
+                  Approval Node
+                </Button>
                 <div className="border-t my-2 pt-2">
                   <Label className="text-xs text-muted-foreground">Junction Nodes</Label>
                   <Button
@@ -835,6 +995,7 @@ export function WorkflowBuilder() {
             onEdgesChange={onEdgesChange}
             onConnect={onConnect}
             onNodeClick={onNodeClick}
+            onEdgeClick={onEdgeClick}
             onDrop={onDrop}
             onDragOver={onDragOver}
             onInit={setReactFlowInstance}
@@ -853,11 +1014,29 @@ export function WorkflowBuilder() {
       <Sheet open={configPanelOpen} onOpenChange={setConfigPanelOpen}>
         <SheetContent>
           <SheetHeader>
-            <SheetTitle>Node Configuration</SheetTitle>
+            <SheetTitle>{selectedEdge ? "Connection Configuration" : "Node Configuration"}</SheetTitle>
             <SheetDescription>
-              Configure the selected node settings and properties.
+              {selectedEdge
+                ? "Choose when data flows along this connection."
+                : "Configure the selected node settings and properties."}
             </SheetDescription>
           </SheetHeader>
+          {selectedEdge && (
+            <div className="mt-6 space-y-2">
+              <Label>Condition</Label>
+              <Input
+                value={(selectedEdge.data?.condition as string) || ""}
+                onChange={e => updateEdgeCondition(selectedEdge.id, e.target.value)}
+                placeholder="Always"
+              />
+              <p className="text-xs text-muted-foreground">
+                From a condition node use true or false to pick the branch; use error for the path taken when the
+                source node fails. From a loop node use each for the nodes repeated per item. Otherwise enter an
+                expression over the source node's output (e.g. result.count &gt; 0). Nodes on branches that aren't
+                taken are skipped.
+              </p>
+            </div>
+          )}
           {selectedNode && (
             <div className="mt-6 space-y-4">
               <div className="flex items-center justify-between">
@@ -982,25 +1161,175 @@ export function WorkflowBuilder() {
                   <Label>Condition Expression</Label>
                   <Textarea
                     value={selectedNode.data.config?.condition as string || ""}
-                    onChange={e => {
-                      setNodes(nds =>
-                        nds.map(n =>
-                          n.id === selectedNode.id
-                            ? { ...n, data: { ...n.data, config: { ...n.data.config, condition: e.target.value } } }
-                            : n,
-                        ),
-                      );
-                    }}
-                    placeholder="e.g., $result > 0"
+                    onChange={e => updateNodeConfig(selectedNode.id, { condition: e.target.value })}
+                    placeholder="e.g., $result > 0 && params.mode == 'full'"
+                    rows={3}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Use $ or input for the node input, params for workflow parameters.
+                  </p>
+                </div>
+              )}
+
+              {/* Data Node Configuration */}
+              {selectedNode.data.nodeType === "data" && (
+                <div className="mt-4 space-y-2">
+                  <Label>Operation</Label>
+                  <select
+                    className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                    value={(selectedNode.data.config as DataNodeConfig | undefined)?.operation || "transform"}
+                    onChange={e => updateNodeConfig(selectedNode.id, { operation: e.target.value })}
+                  >
+                    <option value="transform">Transform</option>
+                    <option value="filter">Filter</option>
+                    <option value="merge">Merge</option>
+                    <option value="split">Split</option>
+                  </select>
+                  <Label>Expression</Label>
+                  <Textarea
+                    value={(selectedNode.data.config as DataNodeConfig | undefined)?.expression || ""}
+                    onChange={e => updateNodeConfig(selectedNode.id, { expression: e.target.value })}
+                    placeholder={
+                      (selectedNode.data.config as DataNodeConfig | undefined)?.operation === "filter"
+                        ? "e.g., price > 10 && contains(tags, 'sale')"
+                        : "e.g., $.items[?price > 10].name"
+                    }
+                    rows={3}
+                  />
+                  <Label>Output Mapping</Label>
+                  <DataMappingEditor
+                    key={selectedNode.id}
+                    mapping={(selectedNode.data.config as DataNodeConfig | undefined)?.mapping || {}}
+                    onChange={mapping => updateNodeConfig(selectedNode.id, { mapping })}
+                  />
+                </div>
+              )}
+
+              {/* Loop Node Configuration */}
+              {selectedNode.data.nodeType === "loop" && (
+                <div className="mt-4 space-y-2">
+                  <Label>Items</Label>
+                  <Input
+                    value={(selectedNode.data.config as LoopNodeConfig | undefined)?.items || ""}
+                    onChange={e => updateNodeConfig(selectedNode.id, { items: e.target.value })}
+                    placeholder="e.g., $.tickers"
+                  />
+                  <Label>Item Key</Label>
+                  <Input
+                    value={(selectedNode.data.config as LoopNodeConfig | undefined)?.item_key || ""}
+                    onChange={e => updateNodeConfig(selectedNode.id, { item_key: e.target.value })}
+                    placeholder="item"
+                  />
+                  <Label>Parallel Iterations</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={10}
+                    value={(selectedNode.data.config as LoopNodeConfig | undefined)?.max_parallel ?? ""}
+                    onChange={e =>
+                      updateNodeConfig(selectedNode.id, {
+                        max_parallel: e.target.value === "" ? undefined : Number(e.target.value),
+                      })
+                    }
+                    placeholder="1"
+                  />
+                  <Label>Output Key</Label>
+                  <Input
+                    value={(selectedNode.data.config as LoopNodeConfig | undefined)?.output_key || ""}
+                    onChange={e => updateNodeConfig(selectedNode.id, { output_key: e.target.value })}
+                    placeholder="results"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Connect the nodes to repeat with connections labelled each; they receive the current item under
+                    the item key. The outputs of their last nodes are collected, in order, under the output key.
+                  </p>
+                </div>
+              )}
+
+              {/* Sub-workflow Node Configuration */}
+              {selectedNode.data.nodeType === "subworkflow" && (
+                <div className="mt-4 space-y-2">
+                  <Label>Workflow</Label>
+                  <select
+                    className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                    value={(selectedNode.data.config as SubworkflowNodeConfig | undefined)?.workflow_id || ""}
+                    onChange={e => updateNodeConfig(selectedNode.id, { workflow_id: e.target.value })}
+                  >
+                    <option value="">Select workflow...</option>
+                    {savedWorkflows.map(workflow => (
+                      <option key={workflow.id} value={workflow.id}>
+                        {workflow.name}
+                        {workflow.id === id ? " (this workflow)" : ""}
+                      </option>
+                    ))}
+                  </select>
+                  <Label>Input Mapping</Label>
+                  <DataMappingEditor
+                    key={selectedNode.id}
+                    mapping={(selectedNode.data.config as SubworkflowNodeConfig | undefined)?.input_mapping || {}}
+                    onChange={input_mapping => updateNodeConfig(selectedNode.id, { input_mapping })}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    The workflow runs with these inputs (or this node&apos;s input when empty) and the same parameters;
+                    its output is passed on once it finishes.
+                  </p>
+                </div>
+              )}
+
+              {/* Approval Node Configuration */}
+              {selectedNode.data.nodeType === "approval" && (
+                <div className="mt-4 space-y-2">
+                  <Label>Message</Label>
+                  <Textarea
+                    value={(selectedNode.data.config as ApprovalNodeConfig | undefined)?.message || ""}
+                    onChange={e => updateNodeConfig(selectedNode.id, { message: e.target.value })}
+                    placeholder="e.g., Check the draft email before it is sent"
                     rows={3}
                   />
+                  <Label>Expires After (minutes)</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={(selectedNode.data.config as ApprovalNodeConfig | undefined)?.expires_in_minutes ?? ""}
+                    onChange={e =>
+                      updateNodeConfig(selectedNode.id, {
+                        expires_in_minutes: e.target.value === "" ? undefined : Number(e.target.value),
+                      })
+                    }
+                    placeholder="1440"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    The run pauses here and its input is shown to you in chat. Approving (optionally after editing
+                    it) passes it on; rejecting, or not deciding before it expires, fails the run.
+                  </p>
                 </div>
               )}
+
+              {/* Error Handling (retries, timeout, on-error policy) */}
+              {["tool", "agent", "data", "condition", "subworkflow"].includes(selectedNode.data.nodeType as string) && (
+                <NodePolicyEditor
+                  nodeId={selectedNode.id}
+                  policy={(selectedNode.data.config as { policy?: NodeExecutionPolicy } | undefined)?.policy ?? {}}
+                  onChange={patch => updateNodePolicy(selectedNode.id, patch)}
+                />
+              )}
             </div>
           )}
         </SheetContent>
       </Sheet>
 
+      {/* Version History */}
+      <WorkflowVersionsDialog
+        workflowId={versionsOpen && id && id !== "new" ? id : null}
+        onClose={() => setVersionsOpen(false)}
+        onRestored={() => {
+          setSelectedNode(null);
+          setSelectedEdge(null);
+          setConfigPanelOpen(false);
+          setGraphRevision(revision => revision + 1);
+        }}
+      />
+
       {/* Template Library Sheet */}
       <Sheet open={templateLibraryOpen} onOpenChange={setTemplateLibraryOpen}>
         <SheetContent className="w-full sm:max-w-2xl overflow-y-auto">
@@ -1152,6 +1481,157 @@ export function WorkflowBuilder() {
   );
 }
 
+// Edits a data node mapping as "key = expression" lines
+function DataMappingEditor({
+  mapping,
+  onChange,
+}: {
+  mapping: Record<string, string>;
+  onChange: (mapping: Record<string, string>) => void;
+}) {
+  const [text, setText] = useState(() =>
+    Object.entries(mapping)
+      .map(([key, expression]) => `${key} = ${expression}`)
+      .join("\n"),
+  );
+
+  const handleChange = (value: string) => {
+    setText(value);
+    const next: Record<string, string> = {};
+    for (const line of value.split("\n")) {
+      const separator = line.indexOf("=");
+      if (separator <= 0) continue;
+      const key = line.slice(0, separator).trim();
+      const expression = line.slice(separator + 1).trim();
+      if (key && expression) next[key] = expression;
+    }
+    onChange(next);
+  };
+
+  return (
+    <Textarea
+      value={text}
+      onChange={e => handleChange(e.target.value)}
+      placeholder={"total = sum($.items[*].price)\nname = upper(user.name)"}
+      rows={4}
+      className="font-mono text-xs"
+    />
+  );
+}
+
+// Retry, timeout and on-error settings shared by all executable nodes
+function NodePolicyEditor({
+  nodeId,
+  policy,
+  onChange,
+}: {
+  nodeId: string;
+  policy: NodeExecutionPolicy;
+  onChange: (patch: Partial<NodeExecutionPolicy>) => void;
+}) {
+  const numberOrUndefined = (value: string) => (value === "" ? undefined : Math.max(0, Number(value)));
+
+  return (
+    <div className="mt-4 space-y-2 border-t pt-4">
+      <Label>Error Handling</Label>
+      <div className="grid grid-cols-3 gap-2">
+        <div className="space-y-1">
+          <span className="text-xs text-muted-foreground">Retries</span>
+          <Input
+            type="number"
+            min={0}
+            max={10}
+            value={policy.max_retries ?? ""}
+            onChange={e => onChange({ max_retries: numberOrUndefined(e.target.value) })}
+            placeholder="0"
+          />
+        </div>
+        <div className="space-y-1">
+          <span className="text-xs text-muted-foreground">Backoff (ms)</span>
+          <Input
+            type="number"
+            min={0}
+            value={policy.backoff_ms ?? ""}
+            onChange={e => onChange({ backoff_ms: numberOrUndefined(e.target.value) })}
+            placeholder="1000"
+          />
+        </div>
+        <div className="space-y-1">
+          <span className="text-xs text-muted-foreground">Timeout (ms)</span>
+          <Input
+            type="number"
+            min={0}
+            value={policy.timeout_ms ?? ""}
+            onChange={e => onChange({ timeout_ms: numberOrUndefined(e.target.value) })}
+            placeholder="None"
+          />
+        </div>
+      </div>
+      <span className="text-xs text-muted-foreground">On failure</span>
+      <select
+        className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+        value={policy.on_error || "fail"}
+        onChange={e =>
+          onChange({ on_error: e.target.value as NodeExecutionPolicy["on_error"] })
+        }
+      >
+        <option value="fail">Fail the workflow</option>
+        <option value="continue">Continue with default output</option>
+        <option value="error_branch">Follow "error" connections</option>
+      </select>
+      {policy.on_error === "continue" && (
+        <DefaultOutputEditor
+          key={nodeId}
+          value={policy.default_output}
+          onChange={default_output => onChange({ default_output })}
+        />
+      )}
+    </div>
+  );
+}
+
+// Edits the JSON object a node emits when it fails with on_error = "continue"
+function DefaultOutputEditor({
+  value,
+  onChange,
+}: {
+  value?: Record<string, unknown>;
+  onChange: (value: Record<string, unknown> | undefined) => void;
+}) {
+  const [text, setText] = useState(() => (value ? JSON.stringify(value, null, 2) : ""));
+  const [invalid, setInvalid] = useState(false);
+
+  const handleChange = (next: string) => {
+    setText(next);
+    if (!next.trim()) {
+      setInvalid(false);
+      onChange(undefined);
+      return;
+    }
+    try {
+      const parsed = JSON.parse(next);
+      const isObject = parsed !== null && typeof parsed === "object" && !Array.isArray(parsed);
+      setInvalid(!isObject);
+      if (isObject) onChange(parsed);
+    } catch {
+      setInvalid(true);
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <Textarea
+        value={text}
+        onChange={e => handleChange(e.target.value)}
+        placeholder={'{ "result": null }'}
+        rows={3}
+        className="font-mono text-xs"
+      />
+      {invalid && <p className="text-xs text-red-500">Default output must be a JSON object</p>}
+    </div>
+  );
+}
+
 // Template Library Component
 function TemplateLibrary({
   onSelectTemplate,
@@ -1,16 +1,29 @@
 import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
-import { Plus, Play, Trash2, Edit, Copy, Clock, LogIn, AlertCircle } from "lucide-react";
+import { Plus, Play, Trash2, Edit, Copy, Clock, LogIn, AlertCircle, Zap } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/components/ui/use-toast";
-import { listWorkflows, deleteWorkflow } from "@/lib/workflows/client";
-import type { Workflow } from "@/lib/workflows/types";
+import { listWorkflows, deleteWorkflow, listWorkflowTriggers } from "@/lib/workflows/client";
+import type { Workflow, WorkflowTrigger } from "@/lib/workflows/types";
 import { supabaseClient } from "@/lib/supabaseClient";
 import { cn } from "@/lib/utils";
 import { PageHeader } from "@/components/PageHeader";
 import { Footer } from "@/components/Footer";
+import { WorkflowTriggersDialog } from "@/components/WorkflowTriggersDialog";
+
+// "2 active triggers • next run 10/20/2026, 8:00:00 AM", or null without enabled triggers
+function triggerSummary(triggers: WorkflowTrigger[] = []): string | null {
+  const active = triggers.filter(trigger => trigger.enabled);
+  if (active.length === 0) return null;
+  const nextRun = active
+    .map(trigger => trigger.next_run_at)
+    .filter((value): value is string => !!value)
+    .sort()[0];
+  return `${active.length} active trigger${active.length === 1 ? "" : "s"}` +
+    (nextRun ? ` • next run ${new Date(nextRun).toLocaleString()}` : "");
+}
 
 export function Workflows() {
   const navigate = useNavigate();
@@ -19,6 +32,8 @@ export function Workflows() {
   const [isLoading, setIsLoading] = useState(true);
   const [authReady, setAuthReady] = useState(false);
   const [isAuthLoading, setIsAuthLoading] = useState(false);
+  const [triggersByWorkflow, setTriggersByWorkflow] = useState<Record<string, WorkflowTrigger[]>>({});
+  const [triggerWorkflow, setTriggerWorkflow] = useState<Workflow | null>(null); // Workflow whose triggers are being edited
 
   useEffect(() => {
     supabaseClient.auth.getSession().then(({ data: { session } }) => {
@@ -46,6 +61,16 @@ export function Workflows() {
       setIsLoading(true);
       const data = await listWorkflows(false);
       setWorkflows(data);
+      // Trigger summaries are optional; the list still works without them
+      listWorkflowTriggers()
+        .then(triggers => {
+          const grouped: Record<string, WorkflowTrigger[]> = {};
+          for (const trigger of triggers) {
+            (grouped[trigger.workflow_id] ??= []).push(trigger);
+          }
+          setTriggersByWorkflow(grouped);
+        })
+        .catch(error => console.error("Failed to load workflow triggers:", error));
     } catch (error) {
       console.error("Failed to load workflows:", error);
       toast({
@@ -212,6 +237,12 @@ export function Workflows() {
                       Updated {new Date(workflow.updated_at).toLocaleDateString()}
                     </span>
                   </div>
+                  {triggerSummary(triggersByWorkflow[workflow.id]) && (
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground -mt-2 mb-4">
+                      <Zap className="h-3 w-3" />
+                      <span>{triggerSummary(triggersByWorkflow[workflow.id])}</span>
+                    </div>
+                  )}
                   <div className="flex gap-2 mt-auto">
                     <Button
                       variant="outline"
@@ -222,6 +253,14 @@ export function Workflows() {
                       <Edit className="h-3 w-3 mr-1" />
                       Edit
                     </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setTriggerWorkflow(workflow)}
+                      title="Schedules and webhooks"
+                    >
+                      <Zap className="h-3 w-3" />
+                    </Button>
                     <Button
                       variant="outline"
                       size="sm"
@@ -244,6 +283,13 @@ export function Workflows() {
         )}
       </div>
       
+      <WorkflowTriggersDialog
+        workflow={triggerWorkflow}
+        onClose={() => setTriggerWorkflow(null)}
+        onTriggersChange={(workflowId, triggers) =>
+          setTriggersByWorkflow(prev => ({ ...prev, [workflowId]: triggers }))}
+      />
+
       {/* Footer */}
       <Footer />
     </div>
@@ -0,0 +1,75 @@
+/**
+ * Storage helpers for the key manager's `api_keys` table
+ *
+ * Values are stored as envelopes (see secretCrypto.ts). Rows written before
+ * envelope encryption still hold a pgcrypto ciphertext in `encrypted_key`
+ * until `secrets-rotate` migrates them, so reads fall back to that format.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  currentMasterKeyVersion,
+  decryptSecret,
+  encryptSecret,
+  isSecretEnvelope,
+} from "./secretCrypto.ts";
+
+/**
+ * Associated data for a key's envelope: binds the ciphertext to its row and
+ * owner, so an envelope copied into another row fails to decrypt.
+ */
+export function apiKeySecretContext(key: { id: string; user_id: string }): string {
+  return `api_keys.key:${key.id}:${key.user_id}`;
+}
+
+// Only used to read rows that predate envelope encryption.
+const LEGACY_ENCRYPTION_KEY = Deno.env.get("ENCRYPTION_KEY") ?? "default-encryption-key-change-in-production";
+
+export interface StoredApiKey {
+  id: string;
+  user_id: string;
+  encrypted_key?: unknown;
+  key_envelope?: unknown;
+}
+
+/**
+ * Columns to write for a new or updated key value. New rows need their id
+ * chosen up front, since it is part of the encryption context.
+ */
+export async function sealApiKeyValue(key: { id: string; user_id: string }, value: string) {
+  return {
+    key_envelope: await encryptSecret(value, apiKeySecretContext(key)),
+    key_version: currentMasterKeyVersion(),
+    encrypted_key: null,
+  };
+}
+
+export async function decryptLegacyApiKey(supabase: SupabaseClient, encryptedKey: unknown): Promise<string | null> {
+  const { data, error } = await supabase.rpc("decrypt_key_value", {
+    encrypted_value: encryptedKey,
+    encryption_key: LEGACY_ENCRYPTION_KEY,
+  });
+  if (error) {
+    console.error("Legacy key decryption error:", error);
+    return null;
+  }
+  return (data as string | null) ?? null;
+}
+
+/**
+ * Decrypt a stored key value, whichever format the row is in.
+ * Returns null when the value can't be decrypted.
+ */
+export async function openApiKeyValue(supabase: SupabaseClient, row: StoredApiKey): Promise<string | null> {
+  try {
+    if (isSecretEnvelope(row.key_envelope)) {
+      return await decryptSecret(row.key_envelope, apiKeySecretContext(row));
+    }
+    if (row.encrypted_key) {
+      return await decryptLegacyApiKey(supabase, row.encrypted_key);
+    }
+  } catch (error) {
+    console.error("Failed to decrypt API key:", error);
+  }
+  return null;
+}
@@ -0,0 +1,187 @@
+/**
+ * Five-field cron expressions ("minute hour day-of-month month day-of-week")
+ * evaluated in an IANA timezone, for scheduled workflow triggers.
+ *
+ * Fields accept `*`, lists, ranges, steps and month/day names, e.g.
+ * "0 8 * * MON-FRI" or "0,30 9-17 1,15 * *". The @hourly, @daily, @weekly,
+ * @monthly and @yearly shortcuts are also recognised. As in
+ * classic cron, when both day fields are restricted a day matching either runs.
+ */
+
+export class CronExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CronExpressionError";
+  }
+}
+
+interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Whether the day-of-month / day-of-week field was "*". */
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const SHORTCUTS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+const MONTH_NAMES = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+const DAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+// Scheduling more than this far ahead means the expression can never fire (e.g. "0 0 30 2 *")
+const MAX_SEARCH_DAYS = 366 * 5;
+
+function parseValue(value: string, names: string[] | null, offset: number, field: string): number {
+  const index = names ? names.indexOf(value.toUpperCase()) : -1;
+  if (index >= 0) return index + offset;
+  if (!/^\d+$/.test(value)) {
+    throw new CronExpressionError(`Invalid ${field} value "${value}"`);
+  }
+  return Number(value);
+}
+
+function parseField(
+  source: string,
+  field: string,
+  min: number,
+  max: number,
+  names: string[] | null = null,
+  nameOffset = 0,
+): Set<number> {
+  const values = new Set<number>();
+  for (const part of source.split(",")) {
+    const [range, stepSource] = part.split("/");
+    const step = stepSource === undefined ? 1 : Number(stepSource);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new CronExpressionError(`Invalid step in ${field} field "${part}"`);
+    }
+
+    let start = min;
+    let end = max;
+    if (range !== "*") {
+      const [from, to] = range.split("-");
+      start = parseValue(from, names, nameOffset, field);
+      // "5/10" means every 10 starting at 5
+      end = to !== undefined ? parseValue(to, names, nameOffset, field) : stepSource !== undefined ? max : start;
+    }
+    if (start < min || end > max || start > end) {
+      throw new CronExpressionError(`${field} field "${part}" is out of range ${min}-${max}`);
+    }
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+  return values;
+}
+
+/** Parses and validates an expression; throws CronExpressionError when it is invalid. */
+export function parseCronExpression(expression: string): CronSchedule {
+  const normalized = SHORTCUTS[expression.trim().toLowerCase()] ?? expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new CronExpressionError(`Expected 5 fields (minute hour day month weekday), got ${fields.length}`);
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  const daysOfWeek = parseField(dayOfWeek, "day-of-week", 0, 7, DAY_NAMES);
+  // 7 is Sunday too
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes: parseField(minute, "minute", 0, 59),
+    hours: parseField(hour, "hour", 0, 23),
+    daysOfMonth: parseField(dayOfMonth, "day-of-month", 1, 31),
+    months: parseField(month, "month", 1, 12, MONTH_NAMES, 1),
+    daysOfWeek,
+    anyDayOfMonth: dayOfMonth === "*",
+    anyDayOfWeek: dayOfWeek === "*",
+  };
+}
+
+/** Throws a RangeError for unknown IANA timezone names. */
+export function assertValidTimezone(timezone: string): void {
+  new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+}
+
+// The wall-clock time in `timezone`, expressed as a UTC timestamp
+function toWallClock(date: Date, timezone: string): number {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+    })
+      .formatToParts(date)
+      .map((part) => [part.type, part.value]),
+  );
+  return Date.UTC(Number(parts.year), Number(parts.month) - 1, Number(parts.day), Number(parts.hour), Number(parts.minute));
+}
+
+// The instant at which the clock in `timezone` shows `wallClock`. A time repeated when
+// clocks go back resolves to its first occurrence; one skipped when they go forward
+// resolves to the same distance past the gap (02:30 becomes 03:30).
+function fromWallClock(wallClock: number, timezone: string): Date {
+  const offsetAt = (instant: number) => toWallClock(new Date(instant), timezone) - instant;
+  const first = wallClock - offsetAt(wallClock);
+  const second = wallClock - offsetAt(first);
+  const valid = [first, second].filter((instant) => toWallClock(new Date(instant), timezone) === wallClock);
+  return new Date(valid.length > 0 ? Math.min(...valid) : Math.max(first, second));
+}
+
+function matchesDay(schedule: CronSchedule, wall: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(wall.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(wall.getUTCDay());
+  if (schedule.anyDayOfMonth) return dayOfWeek;
+  if (schedule.anyDayOfWeek) return dayOfMonth;
+  return dayOfMonth || dayOfWeek;
+}
+
+/** The first time after `after` (exclusive) at which the expression fires in `timezone`. */
+export function nextCronRun(expression: string, timezone: string, after: Date = new Date()): Date {
+  const schedule = parseCronExpression(expression);
+  assertValidTimezone(timezone);
+
+  // Search wall-clock minutes, skipping whole months, days and hours that cannot match
+  const wall = new Date(toWallClock(after, timezone) + 60_000);
+  const limit = wall.getTime() + MAX_SEARCH_DAYS * 86_400_000;
+  while (wall.getTime() < limit) {
+    if (!schedule.months.has(wall.getUTCMonth() + 1)) {
+      wall.setUTCMonth(wall.getUTCMonth() + 1, 1);
+      wall.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, wall)) {
+      wall.setUTCDate(wall.getUTCDate() + 1);
+      wall.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(wall.getUTCHours())) {
+      wall.setUTCHours(wall.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(wall.getUTCMinutes())) {
+      wall.setUTCMinutes(wall.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+
+    const run = fromWallClock(wall.getTime(), timezone);
+    // Clocks set back repeat an hour; don't fire twice for the same wall-clock minute
+    if (run.getTime() > after.getTime()) return run;
+    wall.setUTCMinutes(wall.getUTCMinutes() + 1, 0, 0);
+  }
+
+  throw new CronExpressionError(`"${expression}" never fires`);
+}
@@ -58,6 +58,10 @@ export interface Database {
           analysis_target: string;
           status: string;
           metadata: Json | null;
+          content_hash: string | null;
+          document_id: string | null;
+          version: number;
+          previous_version_id: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -71,6 +75,10 @@ export interface Database {
           analysis_target: string;
           status?: string;
           metadata?: Json | null;
+          content_hash?: string | null;
+          document_id?: string | null;
+          version?: number;
+          previous_version_id?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -84,6 +92,10 @@ export interface Database {
           analysis_target?: string;
           status?: string;
           metadata?: Json | null;
+          content_hash?: string | null;
+          document_id?: string | null;
+          version?: number;
+          previous_version_id?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -93,9 +105,13 @@ export interface Database {
           id: string;
           job_id: string;
           chunk_text: string;
-          embedding: number[]; // Vector(1536) stored as array - text-embedding-3-small
+          embedding: number[]; // Vector(1536) stored as array, zero-padded for smaller models
+          embedding_model: string;
+          embedding_dimensions: number;
           chunk_index: number;
+          content_hash: string | null;
           metadata: Json | null;
+          fts: string | null; // Generated tsvector of chunk_text for keyword/hybrid search
           created_at: string;
         };
         Insert: {
@@ -103,7 +119,10 @@ export interface Database {
           job_id: string;
           chunk_text: string;
           embedding: number[] | string; // Can be array or string representation
+          embedding_model: string;
+          embedding_dimensions: number;
           chunk_index: number;
+          content_hash?: string | null;
           metadata?: Json | null;
           created_at?: string;
         };
@@ -112,11 +131,118 @@ export interface Database {
           job_id?: string;
           chunk_text?: string;
           embedding?: number[] | string;
+          embedding_model?: string;
+          embedding_dimensions?: number;
           chunk_index?: number;
+          content_hash?: string | null;
           metadata?: Json | null;
           created_at?: string;
         };
       };
+      document_tables: {
+        Row: {
+          id: string;
+          job_id: string;
+          table_index: number;
+          page_number: number | null;
+          title: string | null;
+          columns: Json;
+          rows: Json;
+          row_count: number;
+          source: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          job_id: string;
+          table_index: number;
+          page_number?: number | null;
+          title?: string | null;
+          columns?: Json;
+          rows?: Json;
+          row_count?: number;
+          source: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          job_id?: string;
+          table_index?: number;
+          page_number?: number | null;
+          title?: string | null;
+          columns?: Json;
+          rows?: Json;
+          row_count?: number;
+          source?: string;
+          created_at?: string;
+        };
+      };
+      document_collections: {
+        Row: {
+          id: string;
+          owner_id: string;
+          name: string;
+          description: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          owner_id: string;
+          name: string;
+          description?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          owner_id?: string;
+          name?: string;
+          description?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      document_collection_items: {
+        Row: {
+          collection_id: string;
+          job_id: string;
+          added_at: string;
+        };
+        Insert: {
+          collection_id: string;
+          job_id: string;
+          added_at?: string;
+        };
+        Update: {
+          collection_id?: string;
+          job_id?: string;
+          added_at?: string;
+        };
+      };
+      document_collection_shares: {
+        Row: {
+          collection_id: string;
+          shared_with: string;
+          shared_with_email: string;
+          permission: string;
+          created_at: string;
+        };
+        Insert: {
+          collection_id: string;
+          shared_with: string;
+          shared_with_email: string;
+          permission?: string;
+          created_at?: string;
+        };
+        Update: {
+          collection_id?: string;
+          shared_with?: string;
+          shared_with_email?: string;
+          permission?: string;
+          created_at?: string;
+        };
+      };
       user_memory: {
         Row: {
           id: string;
@@ -0,0 +1,100 @@
+/**
+ * Document collections: named groups of a user's documents that scope search
+ * and can be shared read-only with other users.
+ *
+ * Edge functions use the service role, which bypasses RLS, so every lookup here
+ * checks that the user owns the collection or has it shared with them.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type CollectionRole = "owner" | "viewer";
+
+export interface CollectionSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  ownerId: string;
+  role: CollectionRole;
+  jobIds: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export class CollectionAccessError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CollectionAccessError";
+  }
+}
+
+type CollectionRow = {
+  id: string;
+  name: string;
+  description: string | null;
+  owner_id: string;
+  created_at: string;
+  updated_at: string;
+  document_collection_items: Array<{ job_id: string }> | null;
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Collections the user owns, then those shared with them, each with its document ids. */
+export async function listAccessibleCollections(
+  supabase: SupabaseClient,
+  userId: string,
+): Promise<CollectionSummary[]> {
+  const { data: shares, error: sharesError } = await supabase
+    .from("document_collection_shares")
+    .select("collection_id")
+    .eq("shared_with", userId);
+  if (sharesError) throw sharesError;
+  const sharedIds = (shares ?? []).map((share: { collection_id: string }) => share.collection_id);
+
+  let collectionsQuery = supabase
+    .from("document_collections")
+    .select("id, name, description, owner_id, created_at, updated_at, document_collection_items(job_id)");
+  collectionsQuery = sharedIds.length > 0
+    ? collectionsQuery.or(`owner_id.eq.${userId},id.in.(${sharedIds.join(",")})`)
+    : collectionsQuery.eq("owner_id", userId);
+  const { data: collections, error } = await collectionsQuery.order("name", { ascending: true });
+  if (error) throw error;
+
+  return ((collections ?? []) as CollectionRow[])
+    .map((collection) => ({
+      id: collection.id,
+      name: collection.name,
+      description: collection.description ?? null,
+      ownerId: collection.owner_id,
+      role: (collection.owner_id === userId ? "owner" : "viewer") as CollectionRole,
+      jobIds: (collection.document_collection_items ?? []).map((item) => item.job_id),
+      createdAt: collection.created_at,
+      updatedAt: collection.updated_at,
+    }))
+    .sort((a, b) => (a.role === b.role ? 0 : a.role === "owner" ? -1 : 1));
+}
+
+/**
+ * Finds a collection the user can read by id or by name (case-insensitive).
+ * Owned collections win over shared ones with the same name.
+ */
+export async function resolveCollection(
+  supabase: SupabaseClient,
+  userId: string,
+  collection: string,
+): Promise<CollectionSummary> {
+  const wanted = collection.trim();
+  const collections = await listAccessibleCollections(supabase, userId);
+  const match = UUID_PATTERN.test(wanted)
+    ? collections.find((candidate) => candidate.id === wanted)
+    : collections.find((candidate) => candidate.name.toLowerCase() === wanted.toLowerCase());
+  if (!match) {
+    throw new CollectionAccessError(
+      collections.length > 0
+        ? `Collection "${wanted}" not found. Available collections: ${collections.map((candidate) => candidate.name).join(", ")}`
+        : `Collection "${wanted}" not found. No collections have been created yet.`,
+    );
+  }
+  return match;
+}
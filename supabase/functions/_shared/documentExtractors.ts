@@ -0,0 +1,968 @@
+/**
+ * In-process text extraction for documents Textract can't read well
+ *
+ * DOCX, XLSX and PPTX are unpacked from their ZIP containers and walked as
+ * XML; HTML is walked as markup; Markdown, CSV and plain text pass through.
+ * Structure is kept as Markdown (headings, pipe tables, one section per
+ * sheet or slide) so the chunker can break on section boundaries.
+ *
+ * No Deno or network APIs are used, so extractors can be exercised on raw
+ * bytes without S3 or Textract.
+ */
+
+import { toTable, type ExtractedTable } from "./documentTables.ts";
+
+export type NativeFormat = "docx" | "xlsx" | "pptx" | "html" | "markdown" | "csv" | "text";
+
+export interface ExtractedDocument {
+  text: string;
+  /** Extractor that produced `text`; recorded on processing_jobs.metadata. */
+  extractor: NativeFormat;
+  /** Structural counts (headings, tables, sheets, slides) for diagnostics. */
+  details: Record<string, unknown>;
+  /** Character ranges of `text` per page, for formats with pages (PPTX: one per slide). */
+  pages?: Array<{ page: number; start: number; end: number }>;
+  /** Structured rows for CSV files and XLSX sheets, stored in document_tables. */
+  tables?: ExtractedTable[];
+}
+
+export class DocumentExtractionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DocumentExtractionError";
+  }
+}
+
+const FORMAT_SIGNATURES: Record<NativeFormat, { extensions: string[]; mimeTypes: string[] }> = {
+  docx: {
+    extensions: [".docx"],
+    mimeTypes: ["application/vnd.openxmlformats-officedocument.wordprocessingml.document"],
+  },
+  xlsx: {
+    extensions: [".xlsx"],
+    mimeTypes: ["application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"],
+  },
+  pptx: {
+    extensions: [".pptx"],
+    mimeTypes: ["application/vnd.openxmlformats-officedocument.presentationml.presentation"],
+  },
+  html: {
+    extensions: [".html", ".htm", ".xhtml"],
+    mimeTypes: ["text/html", "application/xhtml+xml"],
+  },
+  markdown: {
+    extensions: [".md", ".markdown"],
+    mimeTypes: ["text/markdown", "text/x-markdown"],
+  },
+  // Browsers on Windows report .csv uploads as application/vnd.ms-excel
+  csv: {
+    extensions: [".csv", ".tsv"],
+    mimeTypes: ["text/csv", "text/tab-separated-values", "application/vnd.ms-excel"],
+  },
+  text: {
+    extensions: [".txt", ".text", ".log"],
+    mimeTypes: ["text/plain"],
+  },
+};
+
+// Guards against ZIP bombs and runaway spreadsheets
+const MAX_ENTRY_BYTES = 50 * 1024 * 1024;
+const MAX_SHEET_ROWS = 5_000;
+// Cells further right are dropped; a cell's column comes from its reference ("ZZZZZZ1"
+// would otherwise make the row hundreds of millions of cells wide)
+const MAX_SHEET_COLUMNS = 1_000;
+
+/**
+ * Pick the native extractor for an upload, or null when it should go to
+ * Textract. The file extension wins over the MIME type, which browsers often
+ * leave empty or generic.
+ */
+export function detectNativeFormat(fileType: string | null | undefined, fileName: string | null | undefined): NativeFormat | null {
+  const name = (fileName ?? "").toLowerCase();
+  const formats = Object.keys(FORMAT_SIGNATURES) as NativeFormat[];
+  const byExtension = formats.find(format => FORMAT_SIGNATURES[format].extensions.some(ext => name.endsWith(ext)));
+  if (byExtension) return byExtension;
+
+  const mimeType = (fileType ?? "").toLowerCase().split(";")[0].trim();
+  return formats.find(format => FORMAT_SIGNATURES[format].mimeTypes.includes(mimeType)) ?? null;
+}
+
+export async function extractNativeDocument(format: NativeFormat, bytes: Uint8Array): Promise<ExtractedDocument> {
+  switch (format) {
+    case "docx":
+      return extractDocx(await openZip(bytes));
+    case "xlsx":
+      return extractXlsx(await openZip(bytes));
+    case "pptx":
+      return extractPptx(await openZip(bytes));
+    case "html":
+      return extractHtml(decodeText(bytes));
+    case "markdown": {
+      const text = normalizeNewlines(decodeText(bytes));
+      return { text, extractor: "markdown", details: { headings: (text.match(/^#{1,6}\s/gm) ?? []).length } };
+    }
+    case "csv": {
+      const text = normalizeNewlines(decodeText(bytes));
+      const table = toTable(parseDelimitedRows(text), 1, { source: "csv" });
+      return {
+        text,
+        extractor: "csv",
+        details: { rows: table?.rows.length ?? 0 },
+        ...(table ? { tables: [table] } : {}),
+      };
+    }
+    case "text":
+      return { text: normalizeNewlines(decodeText(bytes)), extractor: format, details: {} };
+  }
+}
+
+function decodeText(bytes: Uint8Array): string {
+  return new TextDecoder("utf-8").decode(bytes);
+}
+
+function normalizeNewlines(text: string): string {
+  return text.replace(/\r\n?/g, "\n");
+}
+
+/** Split CSV or TSV text into rows, honouring quoted fields that contain delimiters, quotes or newlines. */
+function parseDelimitedRows(text: string): string[][] {
+  const firstLine = text.slice(0, text.indexOf("\n") >= 0 ? text.indexOf("\n") : text.length);
+  const delimiter = (firstLine.match(/\t/g) ?? []).length > (firstLine.match(/,/g) ?? []).length ? "\t" : ",";
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length && rows.length <= MAX_SHEET_ROWS; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n") {
+      row.push(field);
+      if (row.some(value => value.trim())) rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  if (row.some(value => value.trim())) rows.push(row);
+  return rows;
+}
+
+// ---------------------------------------------------------------------------
+// ZIP container (Office Open XML)
+// ---------------------------------------------------------------------------
+
+interface ZipArchive {
+  /** UTF-8 contents of an entry, or null when the archive doesn't contain it. */
+  readText(path: string): Promise<string | null>;
+}
+
+async function openZip(bytes: Uint8Array): Promise<ZipArchive> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // End of central directory record: last 22 bytes plus an optional comment
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65_557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new DocumentExtractionError("File is not a valid Office document (ZIP directory not found)");
+  }
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  if (offset === 0xffffffff || entryCount === 0xffff) {
+    throw new DocumentExtractionError("ZIP64 archives are not supported");
+  }
+
+  const entries = new Map<string, { method: number; compressedSize: number; size: number; headerOffset: number }>();
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > bytes.length || view.getUint32(offset, true) !== 0x02014b50) {
+      throw new DocumentExtractionError("Corrupt ZIP central directory");
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = new TextDecoder().decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      size: view.getUint32(offset + 24, true),
+      headerOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return {
+    async readText(path) {
+      const entry = entries.get(path);
+      if (!entry) return null;
+      if (entry.size > MAX_ENTRY_BYTES) {
+        throw new DocumentExtractionError(`${path} is too large to extract`);
+      }
+
+      const header = entry.headerOffset;
+      if (view.getUint32(header, true) !== 0x04034b50) {
+        throw new DocumentExtractionError(`Corrupt ZIP entry: ${path}`);
+      }
+      const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+      const data = bytes.subarray(start, start + entry.compressedSize);
+
+      if (entry.method === 0) return decodeText(data);
+      if (entry.method !== 8) {
+        throw new DocumentExtractionError(`Unsupported ZIP compression method ${entry.method} for ${path}`);
+      }
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+      return decodeText(await readInflated(stream, path));
+    },
+  };
+}
+
+/**
+ * Inflate an entry, giving up once it outgrows MAX_ENTRY_BYTES: the size in the
+ * central directory is only what the archive claims, so a crafted entry could
+ * otherwise expand far beyond it.
+ */
+async function readInflated(stream: ReadableStream<Uint8Array>, path: string): Promise<Uint8Array> {
+  const reader = stream.getReader();
+  const parts: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.byteLength;
+    if (length > MAX_ENTRY_BYTES) {
+      await reader.cancel();
+      throw new DocumentExtractionError(`${path} is too large to extract`);
+    }
+    parts.push(value);
+  }
+
+  const bytes = new Uint8Array(length);
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.byteLength;
+  }
+  return bytes;
+}
+
+/** Resolve a relationship target against the part that owns the .rels file. */
+function resolvePartPath(baseDir: string, target: string): string {
+  if (target.startsWith("/")) return target.slice(1);
+  const segments = `${baseDir}/${target}`.split("/");
+  const resolved: string[] = [];
+  for (const segment of segments) {
+    if (segment === "..") resolved.pop();
+    else if (segment && segment !== ".") resolved.push(segment);
+  }
+  return resolved.join("/");
+}
+
+/** Relationship id -> { target, type } from a .rels part. */
+async function readRelationships(zip: ZipArchive, relsPath: string): Promise<Map<string, { target: string; type: string }>> {
+  const relationships = new Map<string, { target: string; type: string }>();
+  const xml = await zip.readText(relsPath);
+  if (!xml) return relationships;
+  scanMarkup(xml, {
+    onOpen(name, attrs) {
+      if (name === "Relationship" && attrs.Id && attrs.Target) {
+        relationships.set(attrs.Id, { target: attrs.Target, type: attrs.Type ?? "" });
+      }
+    },
+  });
+  return relationships;
+}
+
+// ---------------------------------------------------------------------------
+// Markup scanning
+// ---------------------------------------------------------------------------
+
+interface MarkupHandlers {
+  onOpen?(name: string, attrs: Record<string, string>, selfClosing: boolean): void;
+  onClose?(name: string): void;
+  onText?(text: string): void;
+}
+
+const MARKUP_PATTERN =
+  /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<[?!][^>]*>|<(\/?)([A-Za-z_][\w:.-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>|([^<]+)/g;
+const ATTRIBUTE_PATTERN = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>/]+))/g;
+
+/**
+ * Minimal streaming scanner shared by the XML and HTML extractors. Tag names
+ * are passed through as written (namespace prefixes included); entities in
+ * text and attribute values are decoded.
+ */
+function scanMarkup(source: string, handlers: MarkupHandlers): void {
+  for (const match of source.matchAll(MARKUP_PATTERN)) {
+    const [, cdata, closing, name, rawAttrs, text] = match;
+    if (cdata !== undefined) {
+      handlers.onText?.(cdata);
+    } else if (text !== undefined) {
+      handlers.onText?.(decodeEntities(text));
+    } else if (name !== undefined) {
+      if (closing) {
+        handlers.onClose?.(name);
+        continue;
+      }
+      const selfClosing = rawAttrs.trimEnd().endsWith("/");
+      const attrs: Record<string, string> = {};
+      for (const [, key, doubleQuoted, singleQuoted, bare] of rawAttrs.matchAll(ATTRIBUTE_PATTERN)) {
+        attrs[key] = decodeEntities(doubleQuoted ?? singleQuoted ?? bare ?? "");
+      }
+      handlers.onOpen?.(name, attrs, selfClosing);
+      if (selfClosing) handlers.onClose?.(name);
+    }
+  }
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  hellip: "…",
+  bull: "•",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  euro: "€",
+  pound: "£",
+  yen: "¥",
+  cent: "¢",
+  deg: "°",
+  times: "×",
+  divide: "÷",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, body: string) => {
+    if (body[0] === "#") {
+      const code = body[1] === "x" || body[1] === "X" ? parseInt(body.slice(2), 16) : parseInt(body.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[body.toLowerCase()] ?? entity;
+  });
+}
+
+/** Render rows as a Markdown pipe table; the first row is the header. */
+function renderTable(rows: string[][]): string {
+  const width = Math.max(0, ...rows.map(row => row.length));
+  if (rows.length === 0 || width === 0) return "";
+  const cell = (value: string | undefined) => (value ?? "").replace(/\s*\n\s*/g, " ").replace(/\|/g, "\\|").trim();
+  const [header, ...body] = rows.map(row => Array.from({ length: width }, (_, i) => cell(row[i])));
+  return [
+    `| ${header.join(" | ")} |`,
+    `| ${header.map(() => "---").join(" | ")} |`,
+    ...body.map(row => `| ${row.join(" | ")} |`),
+  ].join("\n");
+}
+
+/** Collects table rows while a walker is inside table markup; tables may nest. */
+class TableBuilder {
+  private stack: Array<{ rows: string[][]; row: string[] | null; cell: string[] | null }> = [];
+
+  get active(): boolean {
+    return this.stack.length > 0;
+  }
+
+  openTable() {
+    this.stack.push({ rows: [], row: null, cell: null });
+  }
+
+  openRow() {
+    const table = this.stack[this.stack.length - 1];
+    if (table) table.row = [];
+  }
+
+  openCell() {
+    const table = this.stack[this.stack.length - 1];
+    if (table) table.cell = [];
+  }
+
+  /** Add a paragraph (or inline text) to the current cell. */
+  addText(text: string) {
+    const table = this.stack[this.stack.length - 1];
+    if (table?.cell && text.trim()) table.cell.push(text.trim());
+  }
+
+  closeCell() {
+    const table = this.stack[this.stack.length - 1];
+    if (table?.row && table.cell) table.row.push(table.cell.join(" "));
+    if (table) table.cell = null;
+  }
+
+  closeRow() {
+    const table = this.stack[this.stack.length - 1];
+    if (table?.cell) this.closeCell();
+    if (table?.row) table.rows.push(table.row);
+    if (table) table.row = null;
+  }
+
+  /** Returns the rendered table when the outermost table closes; nested tables are flattened into their cell. */
+  closeTable(): string | null {
+    const table = this.stack[this.stack.length - 1];
+    if (!table) return null;
+    if (table.row) this.closeRow();
+    this.stack.pop();
+    if (this.stack.length > 0) {
+      this.addText(table.rows.map(row => row.join(", ")).join("; "));
+      return null;
+    }
+    return renderTable(table.rows);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// DOCX
+// ---------------------------------------------------------------------------
+
+async function extractDocx(zip: ZipArchive): Promise<ExtractedDocument> {
+  const xml = await zip.readText("word/document.xml");
+  if (!xml) {
+    throw new DocumentExtractionError("DOCX is missing word/document.xml");
+  }
+
+  const blocks: string[] = [];
+  const tables = new TableBuilder();
+  let paragraph: { text: string; style: string; list: boolean; level: number } | null = null;
+  let inText = false;
+  let headings = 0;
+  let tableCount = 0;
+
+  scanMarkup(xml, {
+    onOpen(name, attrs, selfClosing) {
+      switch (name) {
+        case "w:p":
+          paragraph = { text: "", style: "", list: false, level: 0 };
+          break;
+        case "w:pStyle":
+          if (paragraph) paragraph.style = attrs["w:val"] ?? "";
+          break;
+        case "w:numPr":
+          if (paragraph) paragraph.list = true;
+          break;
+        case "w:ilvl":
+          if (paragraph) paragraph.level = Number(attrs["w:val"]) || 0;
+          break;
+        case "w:t":
+          inText = !selfClosing;
+          break;
+        case "w:tab":
+          if (paragraph) paragraph.text += "\t";
+          break;
+        case "w:br":
+        case "w:cr":
+          if (paragraph) paragraph.text += "\n";
+          break;
+        case "w:tbl":
+          tables.openTable();
+          break;
+        case "w:tr":
+          tables.openRow();
+          break;
+        case "w:tc":
+          tables.openCell();
+          break;
+      }
+    },
+    onText(text) {
+      if (inText && paragraph) paragraph.text += text;
+    },
+    onClose(name) {
+      switch (name) {
+        case "w:t":
+          inText = false;
+          break;
+        case "w:p": {
+          const current = paragraph;
+          paragraph = null;
+          if (!current || !current.text.trim()) break;
+          if (tables.active) {
+            tables.addText(current.text);
+            break;
+          }
+          const headingLevel = /^Title$/i.test(current.style)
+            ? 1
+            : Number(/^Heading\s?(\d)$/i.exec(current.style)?.[1] ?? 0);
+          if (headingLevel > 0) {
+            headings += 1;
+            blocks.push(`${"#".repeat(Math.min(headingLevel, 6))} ${current.text.trim()}`);
+          } else if (current.list || /^List/i.test(current.style)) {
+            blocks.push(`${"  ".repeat(current.level)}- ${current.text.trim()}`);
+          } else {
+            blocks.push(current.text.trim());
+          }
+          break;
+        }
+        case "w:tc":
+          tables.closeCell();
+          break;
+        case "w:tr":
+          tables.closeRow();
+          break;
+        case "w:tbl": {
+          const rendered = tables.closeTable();
+          if (rendered) {
+            tableCount += 1;
+            blocks.push(rendered);
+          }
+          break;
+        }
+      }
+    },
+  });
+
+  return {
+    text: joinBlocks(blocks),
+    extractor: "docx",
+    details: { paragraphs: blocks.length, headings, tables: tableCount },
+  };
+}
+
+/** Consecutive list items stay on adjacent lines; everything else is separated by a blank line. */
+function joinBlocks(blocks: string[]): string {
+  let text = "";
+  blocks.forEach((block, index) => {
+    if (index > 0) {
+      const isListItem = (value: string) => /^\s*- /.test(value);
+      text += isListItem(block) && isListItem(blocks[index - 1]) ? "\n" : "\n\n";
+    }
+    text += block;
+  });
+  return text;
+}
+
+// ---------------------------------------------------------------------------
+// XLSX
+// ---------------------------------------------------------------------------
+
+async function extractXlsx(zip: ZipArchive): Promise<ExtractedDocument> {
+  const workbookXml = await zip.readText("xl/workbook.xml");
+  if (!workbookXml) {
+    throw new DocumentExtractionError("XLSX is missing xl/workbook.xml");
+  }
+
+  const sharedStrings = await readSharedStrings(zip);
+  const relationships = await readRelationships(zip, "xl/_rels/workbook.xml.rels");
+
+  const sheets: Array<{ name: string; path: string }> = [];
+  scanMarkup(workbookXml, {
+    onOpen(name, attrs) {
+      if (name !== "sheet") return;
+      const relationship = relationships.get(attrs["r:id"] ?? "");
+      if (relationship) {
+        sheets.push({ name: attrs.name ?? `Sheet ${sheets.length + 1}`, path: resolvePartPath("xl", relationship.target) });
+      }
+    },
+  });
+
+  const sections: string[] = [];
+  const tables: ExtractedTable[] = [];
+  const sheetDetails: Array<{ name: string; rows: number; truncated: boolean }> = [];
+  for (const sheet of sheets) {
+    const xml = await zip.readText(sheet.path);
+    if (!xml) continue;
+    const { rows, truncated } = readSheetRows(xml, sharedStrings);
+    sheetDetails.push({ name: sheet.name, rows: rows.length, truncated });
+    if (rows.length === 0) continue;
+    let section = `## Sheet: ${sheet.name}\n\n${renderTable(rows)}`;
+    if (truncated) section += `\n\n[... sheet truncated after ${MAX_SHEET_ROWS} rows ...]`;
+    sections.push(section);
+    const table = toTable(rows, 1, { source: "xlsx", title: sheet.name });
+    if (table) tables.push(table);
+  }
+
+  return { text: sections.join("\n\n"), extractor: "xlsx", details: { sheets: sheetDetails }, tables };
+}
+
+async function readSharedStrings(zip: ZipArchive): Promise<string[]> {
+  const xml = await zip.readText("xl/sharedStrings.xml");
+  if (!xml) return [];
+
+  const strings: string[] = [];
+  let current: string | null = null;
+  let inText = false;
+  let inPhonetic = false;
+  scanMarkup(xml, {
+    onOpen(name, _attrs, selfClosing) {
+      if (name === "si") current = "";
+      else if (name === "rPh") inPhonetic = !selfClosing;
+      else if (name === "t") inText = !selfClosing;
+    },
+    onText(text) {
+      if (inText && !inPhonetic && current !== null) current += text;
+    },
+    onClose(name) {
+      if (name === "t") inText = false;
+      else if (name === "rPh") inPhonetic = false;
+      else if (name === "si") {
+        strings.push(current ?? "");
+        current = null;
+      }
+    },
+  });
+  return strings;
+}
+
+/** Zero-based column index from a cell reference such as "AB12". */
+function columnIndex(reference: string): number {
+  let index = 0;
+  for (const char of reference.toUpperCase()) {
+    if (char < "A" || char > "Z") break;
+    index = index * 26 + (char.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function readSheetRows(xml: string, sharedStrings: string[]): { rows: string[][]; truncated: boolean } {
+  const rows: string[][] = [];
+  let row: string[] | null = null;
+  let cell: { column: number; type: string; value: string } | null = null;
+  let inValue = false;
+  let truncated = false;
+
+  scanMarkup(xml, {
+    onOpen(name, attrs, selfClosing) {
+      if (name === "row") {
+        if (rows.length >= MAX_SHEET_ROWS) {
+          truncated = true;
+          row = null;
+          return;
+        }
+        row = [];
+      } else if (name === "c" && row) {
+        cell = { column: attrs.r ? columnIndex(attrs.r) : row.length, type: attrs.t ?? "n", value: "" };
+      } else if ((name === "v" || name === "t") && cell) {
+        inValue = !selfClosing;
+      }
+    },
+    onText(text) {
+      if (inValue && cell) cell.value += text;
+    },
+    onClose(name) {
+      if (name === "v" || name === "t") {
+        inValue = false;
+      } else if (name === "c" && row && cell) {
+        const current = cell;
+        cell = null;
+        let value = current.value;
+        if (current.type === "s") value = sharedStrings[Number(value)] ?? "";
+        else if (current.type === "b") value = value === "1" ? "TRUE" : "FALSE";
+        if (current.column >= 0 && current.column < MAX_SHEET_COLUMNS) row[current.column] = value;
+      } else if (name === "row" && row) {
+        const current = row;
+        row = null;
+        // Trailing empty cells would only widen the rendered table
+        let width = current.length;
+        while (width > 0 && !current[width - 1]?.trim()) width--;
+        if (width > 0) {
+          rows.push(Array.from({ length: width }, (_, index) => current[index] ?? ""));
+        }
+      }
+    },
+  });
+
+  return { rows, truncated };
+}
+
+// ---------------------------------------------------------------------------
+// PPTX
+// ---------------------------------------------------------------------------
+
+async function extractPptx(zip: ZipArchive): Promise<ExtractedDocument> {
+  const presentationXml = await zip.readText("ppt/presentation.xml");
+  if (!presentationXml) {
+    throw new DocumentExtractionError("PPTX is missing ppt/presentation.xml");
+  }
+
+  const relationships = await readRelationships(zip, "ppt/_rels/presentation.xml.rels");
+  const slidePaths: string[] = [];
+  scanMarkup(presentationXml, {
+    onOpen(name, attrs) {
+      if (name !== "p:sldId") return;
+      const relationship = relationships.get(attrs["r:id"] ?? "");
+      if (relationship) slidePaths.push(resolvePartPath("ppt", relationship.target));
+    },
+  });
+
+  const sections: string[] = [];
+  const pages: Array<{ page: number; start: number; end: number }> = [];
+  let offset = 0;
+  let withNotes = 0;
+  for (const [index, path] of slidePaths.entries()) {
+    const xml = await zip.readText(path);
+    if (!xml) continue;
+    const slide = readSlide(xml);
+
+    // Speaker notes hang off the slide's own relationships
+    const fileName = path.slice(path.lastIndexOf("/") + 1);
+    const slideDir = path.slice(0, path.lastIndexOf("/"));
+    const slideRels = await readRelationships(zip, `${slideDir}/_rels/${fileName}.rels`);
+    const notesRel = [...slideRels.values()].find(rel => rel.type.endsWith("/notesSlide"));
+    const notesXml = notesRel ? await zip.readText(resolvePartPath(slideDir, notesRel.target)) : null;
+    const notes = notesXml
+      ? readSlide(notesXml, { bodyOnly: true }).blocks.join("\n").replace(/^\s*- /gm, "")
+      : "";
+
+    const parts = [`## Slide ${index + 1}${slide.title ? `: ${slide.title}` : ""}`, ...slide.blocks];
+    if (notes.trim()) {
+      withNotes += 1;
+      parts.push(`Notes: ${notes.trim()}`);
+    }
+    const section = parts.join("\n\n");
+    pages.push({ page: index + 1, start: offset, end: offset + section.length });
+    offset += section.length + 2;
+    sections.push(section);
+  }
+
+  return {
+    text: sections.join("\n\n"),
+    extractor: "pptx",
+    details: { slides: sections.length, withNotes },
+    pages,
+  };
+}
+
+/**
+ * Text of one slide (or notes page): the title placeholder separately, then one
+ * block per shape (bullet lines indented by paragraph level) or table.
+ * Notes pages repeat the slide image and number; `bodyOnly` keeps just the body text.
+ */
+function readSlide(xml: string, options: { bodyOnly?: boolean } = {}): { title: string; blocks: string[] } {
+  const blocks: string[] = [];
+  const tables = new TableBuilder();
+  let title = "";
+  let shape: { placeholder: string | null; paragraphs: string[] } | null = null;
+  let paragraph: { text: string; level: number } | null = null;
+  let inText = false;
+
+  scanMarkup(xml, {
+    onOpen(name, attrs, selfClosing) {
+      switch (name) {
+        case "p:sp":
+          shape = { placeholder: null, paragraphs: [] };
+          break;
+        case "p:ph":
+          if (shape) shape.placeholder = attrs.type ?? "body";
+          break;
+        case "a:p":
+          paragraph = { text: "", level: 0 };
+          break;
+        case "a:pPr":
+          if (paragraph) paragraph.level = Number(attrs.lvl) || 0;
+          break;
+        case "a:t":
+          inText = !selfClosing;
+          break;
+        case "a:br":
+          if (paragraph) paragraph.text += "\n";
+          break;
+        case "a:tbl":
+          tables.openTable();
+          break;
+        case "a:tr":
+          tables.openRow();
+          break;
+        case "a:tc":
+          tables.openCell();
+          break;
+      }
+    },
+    onText(text) {
+      if (inText && paragraph) paragraph.text += text;
+    },
+    onClose(name) {
+      switch (name) {
+        case "a:t":
+          inText = false;
+          break;
+        case "a:p": {
+          const current = paragraph;
+          paragraph = null;
+          if (!current || !current.text.trim()) break;
+          if (tables.active) tables.addText(current.text);
+          else if (shape) shape.paragraphs.push(`${"  ".repeat(current.level)}- ${current.text.trim()}`);
+          break;
+        }
+        case "p:sp": {
+          const current = shape;
+          shape = null;
+          if (!current || current.paragraphs.length === 0) break;
+          const placeholder = current.placeholder;
+          if (placeholder === "title" || placeholder === "ctrTitle") {
+            if (!options.bodyOnly) title = current.paragraphs.map(line => line.replace(/^\s*- /, "")).join(" ");
+          } else if (!options.bodyOnly || placeholder === "body") {
+            if (placeholder !== "sldNum" && placeholder !== "dt" && placeholder !== "ftr") {
+              blocks.push(current.paragraphs.join("\n"));
+            }
+          }
+          break;
+        }
+        case "a:tc":
+          tables.closeCell();
+          break;
+        case "a:tr":
+          tables.closeRow();
+          break;
+        case "a:tbl": {
+          const rendered = tables.closeTable();
+          if (rendered) blocks.push(rendered);
+          break;
+        }
+      }
+    },
+  });
+
+  return { title, blocks };
+}
+
+// ---------------------------------------------------------------------------
+// HTML
+// ---------------------------------------------------------------------------
+
+// Content of these elements is never document text
+const HTML_SKIPPED = new Set(["script", "style", "noscript", "template", "svg", "iframe", "object", "head"]);
+const HTML_BLOCKS = new Set([
+  "p", "div", "section", "article", "main", "header", "footer", "aside", "nav", "blockquote",
+  "ul", "ol", "dl", "dt", "dd", "figure", "figcaption", "form", "fieldset", "address", "hr",
+]);
+
+function extractHtml(html: string): ExtractedDocument {
+  const out: string[] = [];
+  const tables = new TableBuilder();
+  let skipDepth = 0;
+  let preDepth = 0;
+  let inTitle = false;
+  let title = "";
+  let headings = 0;
+  let tableCount = 0;
+  let cellText = "";
+
+  const breakBlock = () => out.push("\n\n");
+
+  scanMarkup(html, {
+    onOpen(rawName, _attrs, selfClosing) {
+      const name = rawName.toLowerCase();
+      if (name === "title") {
+        inTitle = !selfClosing;
+        return;
+      }
+      if (HTML_SKIPPED.has(name)) {
+        if (!selfClosing) skipDepth += 1;
+        return;
+      }
+      if (skipDepth > 0) return;
+
+      if (/^h[1-6]$/.test(name)) {
+        headings += 1;
+        breakBlock();
+        out.push(`${"#".repeat(Number(name[1]))} `);
+      } else if (name === "li") {
+        out.push("\n- ");
+      } else if (name === "br") {
+        if (tables.active) cellText += " ";
+        else out.push("\n");
+      } else if (name === "pre") {
+        preDepth += 1;
+        breakBlock();
+      } else if (name === "table") {
+        if (!tables.active) breakBlock();
+        tables.openTable();
+      } else if (name === "tr") {
+        tables.openRow();
+      } else if (name === "td" || name === "th") {
+        cellText = "";
+        tables.openCell();
+      } else if (HTML_BLOCKS.has(name)) {
+        breakBlock();
+      }
+    },
+    onText(text) {
+      if (inTitle) {
+        title += text;
+        return;
+      }
+      if (skipDepth > 0) return;
+      if (tables.active) {
+        cellText += text;
+        return;
+      }
+      out.push(preDepth > 0 ? text : text.replace(/\s+/g, " "));
+    },
+    onClose(rawName) {
+      const name = rawName.toLowerCase();
+      if (name === "title") {
+        inTitle = false;
+        return;
+      }
+      if (HTML_SKIPPED.has(name)) {
+        skipDepth = Math.max(0, skipDepth - 1);
+        return;
+      }
+      if (skipDepth > 0) return;
+
+      if (/^h[1-6]$/.test(name) || HTML_BLOCKS.has(name)) {
+        breakBlock();
+      } else if (name === "pre") {
+        preDepth = Math.max(0, preDepth - 1);
+        breakBlock();
+      } else if (name === "td" || name === "th") {
+        tables.addText(cellText.replace(/\s+/g, " "));
+        cellText = "";
+        tables.closeCell();
+      } else if (name === "tr") {
+        tables.closeRow();
+      } else if (name === "table") {
+        const rendered = tables.closeTable();
+        if (rendered) {
+          tableCount += 1;
+          out.push(rendered);
+          breakBlock();
+        }
+      }
+    },
+  });
+
+  let text = out
+    .join("")
+    .split("\n")
+    // Whitespace collapsing leaves a single leading space after block breaks
+    .map(line => line.replace(/[ \t]+$/, "").replace(/^ (?=\S)/, ""))
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+  const cleanTitle = title.replace(/\s+/g, " ").trim();
+  if (cleanTitle && !/^# /.test(text)) {
+    text = `# ${cleanTitle}\n\n${text}`;
+  }
+
+  return { text, extractor: "html", details: { headings, tables: tableCount } };
+}
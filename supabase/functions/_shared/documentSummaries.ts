@@ -0,0 +1,341 @@
+/**
+ * Whole-document summaries built with map-reduce.
+ *
+ * Retrieval only ever sees the top-k chunks, so "summarize my 200-page PDF" needs
+ * its own pipeline: indexed chunks are grouped by top-level section (or by page
+ * range when the document has no headings), each group is summarized (map), and
+ * the group summaries are combined a few at a time until one remains (reduce).
+ *
+ * The result is cached in analysis_results.summary together with a hash of the
+ * chunk contents, so it is only regenerated when the indexed text changes.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export interface SectionSummary {
+  title: string;
+  pageStart?: number;
+  pageEnd?: number;
+  chunkCount: number;
+  summary: string;
+}
+
+export type StoredSummary =
+  | {
+    status: "ready";
+    summary: string;
+    sections: SectionSummary[];
+    model: string;
+    chunkCount: number;
+    /** Hash of the chunk hashes the summary was built from. */
+    contentHash: string;
+    generatedAt: string;
+  }
+  | { status: "pending"; startedAt: string }
+  | { status: "failed"; error: string; failedAt: string };
+
+export interface SummaryChunk {
+  text: string;
+  pageStart?: number;
+  pageEnd?: number;
+  section?: string;
+}
+
+/** Summarizes text; `instructions` says what kind of summary to write. */
+export type Summarizer = (instructions: string, text: string) => Promise<string>;
+
+export class SummaryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SummaryError";
+  }
+}
+
+// Characters of chunk text per map call, and summaries combined per reduce call
+export const SUMMARY_GROUP_CHARS = 12_000;
+export const SUMMARY_REDUCE_FAN_IN = 8;
+// Map calls in flight at once
+const MAP_CONCURRENCY = 4;
+// A pending summary older than this is assumed to have died with its worker
+export const SUMMARY_PENDING_TIMEOUT_MS = 10 * 60 * 1000;
+
+const MAP_INSTRUCTIONS =
+  "Summarize this part of a document in 3-6 sentences. Keep names, figures, dates and decisions. Do not add anything that is not in the text.";
+const SECTION_INSTRUCTIONS =
+  "These are summaries of consecutive parts of a document. Combine them into one summary in 3-6 sentences, keeping key names, figures and decisions.";
+const DOCUMENT_INSTRUCTIONS =
+  "These are summaries of consecutive sections of one document. Write a summary of the whole document: one short overview paragraph, then the main points as a bulleted list. Keep key names, figures and decisions.";
+
+export interface ChunkGroup {
+  title: string;
+  pageStart?: number;
+  pageEnd?: number;
+  chunkCount: number;
+  text: string;
+}
+
+/**
+ * Splits chunks (in document order) into groups of at most `maxChars` that never
+ * span two sections. Documents without headings are grouped by size alone.
+ */
+export function groupChunks(chunks: SummaryChunk[], maxChars = SUMMARY_GROUP_CHARS): ChunkGroup[] {
+  const groups: ChunkGroup[] = [];
+  let current: ChunkGroup | null = null;
+
+  for (const chunk of chunks) {
+    const title = chunk.section ?? "";
+    const fits = current && current.title === title && current.text.length + chunk.text.length <= maxChars;
+    if (!current || !fits) {
+      current = { title, pageStart: chunk.pageStart, pageEnd: chunk.pageEnd, chunkCount: 0, text: "" };
+      groups.push(current);
+    }
+    current.text = current.text ? `${current.text}\n\n${chunk.text}` : chunk.text;
+    current.chunkCount++;
+    if (chunk.pageStart !== undefined) current.pageStart ??= chunk.pageStart;
+    if (chunk.pageEnd !== undefined) current.pageEnd = chunk.pageEnd;
+  }
+
+  // Untitled groups are named after the pages they cover
+  return groups.map((group, index) => ({
+    ...group,
+    title: group.title ||
+      (group.pageStart !== undefined
+        ? group.pageStart === group.pageEnd || group.pageEnd === undefined
+          ? `Page ${group.pageStart}`
+          : `Pages ${group.pageStart}-${group.pageEnd}`
+        : `Part ${index + 1}`),
+  }));
+}
+
+function numbered(summaries: string[]): string {
+  return summaries.map((summary, index) => `[${index + 1}] ${summary}`).join("\n\n");
+}
+
+/** One reduce step: combines each run of `fanIn` summaries into one. */
+async function reduceLevel(
+  summaries: string[],
+  summarize: Summarizer,
+  instructions: string,
+  fanIn: number,
+): Promise<string[]> {
+  const batches: string[][] = [];
+  for (let i = 0; i < summaries.length; i += fanIn) {
+    batches.push(summaries.slice(i, i + fanIn));
+  }
+  return await Promise.all(
+    batches.map((batch) => batch.length === 1 ? Promise.resolve(batch[0]) : summarize(instructions, numbered(batch))),
+  );
+}
+
+/** Combines summaries `fanIn` at a time until one remains. */
+export async function reduceSummaries(
+  summaries: string[],
+  summarize: Summarizer,
+  instructions: string,
+  fanIn = SUMMARY_REDUCE_FAN_IN,
+): Promise<string> {
+  if (summaries.length === 0) {
+    throw new SummaryError("Nothing to summarize");
+  }
+  let level = summaries;
+  while (level.length > 1) {
+    level = await reduceLevel(level, summarize, instructions, fanIn);
+  }
+  return level[0];
+}
+
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
+
+/**
+ * Summarizes chunk groups, merges consecutive groups of the same section into a
+ * section summary, then reduces the section summaries into the document summary.
+ */
+export async function summarizeChunks(
+  chunks: SummaryChunk[],
+  summarize: Summarizer,
+): Promise<{ summary: string; sections: SectionSummary[] }> {
+  const groups = groupChunks(chunks);
+  if (groups.length === 0) {
+    throw new SummaryError("Document has no indexed text to summarize");
+  }
+
+  const partials = await mapWithConcurrency(groups, MAP_CONCURRENCY, (group) => summarize(MAP_INSTRUCTIONS, group.text));
+
+  const sectionGroups: Array<{ groups: ChunkGroup[]; partials: string[] }> = [];
+  groups.forEach((group, index) => {
+    const last = sectionGroups[sectionGroups.length - 1];
+    if (last && last.groups[0].title === group.title) {
+      last.groups.push(group);
+      last.partials.push(partials[index]);
+    } else {
+      sectionGroups.push({ groups: [group], partials: [partials[index]] });
+    }
+  });
+
+  const sections: SectionSummary[] = [];
+  for (const section of sectionGroups) {
+    const first = section.groups[0];
+    const last = section.groups[section.groups.length - 1];
+    sections.push({
+      title: first.title,
+      pageStart: first.pageStart,
+      pageEnd: last.pageEnd ?? first.pageEnd,
+      chunkCount: section.groups.reduce((sum, group) => sum + group.chunkCount, 0),
+      summary: await reduceSummaries(section.partials, summarize, SECTION_INSTRUCTIONS),
+    });
+  }
+
+  // Long documents are reduced in levels until one final call sees every remaining summary
+  let level = sections.map((section) => `${section.title}: ${section.summary}`);
+  while (level.length > SUMMARY_REDUCE_FAN_IN) {
+    level = await reduceLevel(level, summarize, SECTION_INSTRUCTIONS, SUMMARY_REDUCE_FAN_IN);
+  }
+  const summary = await summarize(DOCUMENT_INSTRUCTIONS, numbered(level));
+
+  return { summary, sections };
+}
+
+export function getSummaryModel(): string {
+  return Deno.env.get("SUMMARY_MODEL") ?? "gpt-4o-mini";
+}
+
+/** Summarizer backed by an OpenAI chat model (SUMMARY_MODEL, default gpt-4o-mini). */
+export function createOpenAISummarizer(apiKey: string, model = getSummaryModel()): Summarizer {
+  return async (instructions, text) => {
+    const response = await fetch("https://api.openai.com/v1/chat/completions", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({
+        model,
+        temperature: 0.2,
+        messages: [
+          { role: "system", content: instructions },
+          { role: "user", content: text },
+        ],
+      }),
+    });
+    if (!response.ok) {
+      throw new SummaryError(`Summary request failed (${response.status}): ${await response.text()}`);
+    }
+    const data = await response.json();
+    const content = data?.choices?.[0]?.message?.content;
+    if (typeof content !== "string" || !content.trim()) {
+      throw new SummaryError("Summary model returned no text");
+    }
+    return content.trim();
+  };
+}
+
+type ChunkRow = {
+  chunk_text: string;
+  content_hash: string | null;
+  metadata: { pageNumber?: number; pageEnd?: number; sectionPath?: string[] } | null;
+};
+
+async function sha256Hex(payload: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(payload));
+  return Array.from(new Uint8Array(digest)).map((byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/** The job's indexed chunks in document order, plus a hash that changes when any chunk does. */
+export async function loadSummaryChunks(
+  supabase: SupabaseClient,
+  jobId: string,
+): Promise<{ chunks: SummaryChunk[]; contentHash: string }> {
+  const { data, error } = await supabase
+    .from("document_embeddings")
+    .select("chunk_text, content_hash, metadata")
+    .eq("job_id", jobId)
+    .order("chunk_index", { ascending: true });
+  if (error) throw error;
+
+  const rows = (data ?? []) as ChunkRow[];
+  const chunks = rows.map((row) => ({
+    text: row.chunk_text,
+    pageStart: row.metadata?.pageNumber,
+    pageEnd: row.metadata?.pageEnd ?? row.metadata?.pageNumber,
+    // Top-level sections keep the number of section summaries manageable
+    section: row.metadata?.sectionPath?.[0],
+  }));
+  const contentHash = await sha256Hex(
+    rows.map((row) => row.content_hash ?? row.chunk_text).join("\n"),
+  );
+  return { chunks, contentHash };
+}
+
+export async function loadStoredSummary(supabase: SupabaseClient, jobId: string): Promise<StoredSummary | null> {
+  const { data, error } = await supabase
+    .from("analysis_results")
+    .select("summary")
+    .eq("job_id", jobId)
+    .maybeSingle();
+  if (error) throw error;
+  const summary = (data as { summary: StoredSummary | null } | null)?.summary;
+  return summary && typeof summary === "object" && "status" in summary ? summary : null;
+}
+
+export async function saveSummary(supabase: SupabaseClient, jobId: string, summary: StoredSummary): Promise<void> {
+  const { error } = await supabase.from("analysis_results").update({ summary }).eq("job_id", jobId);
+  if (error) throw error;
+}
+
+export function isSummaryPending(summary: StoredSummary | null): boolean {
+  return summary?.status === "pending" &&
+    Date.now() - new Date(summary.startedAt).getTime() < SUMMARY_PENDING_TIMEOUT_MS;
+}
+
+/**
+ * Returns the cached summary when the indexed text is unchanged, otherwise builds
+ * and stores a new one. Failures are stored too, so callers can report them.
+ */
+export async function summarizeDocument(
+  supabase: SupabaseClient,
+  jobId: string,
+  summarize: Summarizer,
+  options: { refresh?: boolean; model?: string } = {},
+): Promise<Extract<StoredSummary, { status: "ready" }>> {
+  const { chunks, contentHash } = await loadSummaryChunks(supabase, jobId);
+  if (chunks.length === 0) {
+    throw new SummaryError("Document has not been indexed yet, so it cannot be summarized");
+  }
+
+  const cached = await loadStoredSummary(supabase, jobId);
+  if (!options.refresh && cached?.status === "ready" && cached.contentHash === contentHash) {
+    return cached;
+  }
+
+  await saveSummary(supabase, jobId, { status: "pending", startedAt: new Date().toISOString() });
+  try {
+    const { summary, sections } = await summarizeChunks(chunks, summarize);
+    const result: Extract<StoredSummary, { status: "ready" }> = {
+      status: "ready",
+      summary,
+      sections,
+      model: options.model ?? getSummaryModel(),
+      chunkCount: chunks.length,
+      contentHash,
+      generatedAt: new Date().toISOString(),
+    };
+    await saveSummary(supabase, jobId, result);
+    return result;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await saveSummary(supabase, jobId, { status: "failed", error: message, failedAt: new Date().toISOString() })
+      .catch((saveError) => console.error(`[documentSummaries] Failed to record failure for ${jobId}:`, saveError));
+    throw error;
+  }
+}
@@ -0,0 +1,361 @@
+/**
+ * Structured tables extracted from documents
+ *
+ * textract-worker stores every table it finds in document_tables: Textract
+ * AnalyzeDocument TABLES (PDFs and images), key/value FORMS as a single
+ * "Form fields" table, and for CSV/XLSX uploads the rows read in-process.
+ * The query_document_table agent tool then filters and aggregates a stored
+ * table with queryTable, so totals are computed rather than estimated by the
+ * model from flattened text.
+ *
+ * No Deno or network APIs are used.
+ */
+
+export type TableSource = "textract" | "textract-forms" | "csv" | "xlsx";
+
+export interface ExtractedTable {
+  /** Caption, sheet name or "Form fields". */
+  title?: string;
+  /** 1-based page the table starts on, when the source has pages. */
+  page?: number;
+  columns: string[];
+  rows: string[][];
+  source: TableSource;
+}
+
+/** Same shape as McpTableResult so chat renders both alike. */
+export interface TableResult {
+  type: "table";
+  columns: string[];
+  rows: string[][];
+  summary?: string;
+}
+
+export class TableQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TableQueryError";
+  }
+}
+
+// Stored rows per table; larger tables are cut and flagged in the title
+export const MAX_TABLE_ROWS = 5_000;
+
+// ---------------------------------------------------------------------------
+// Textract AnalyzeDocument blocks
+// ---------------------------------------------------------------------------
+
+/** The Block fields read here; see the Textract Block data type. */
+export interface TextractBlock {
+  Id: string;
+  BlockType: string;
+  Text?: string;
+  Page?: number;
+  RowIndex?: number;
+  ColumnIndex?: number;
+  EntityTypes?: string[];
+  SelectionStatus?: string;
+  Relationships?: Array<{ Type: string; Ids?: string[] }>;
+}
+
+function childIds(block: TextractBlock, type = "CHILD"): string[] {
+  return (block.Relationships ?? [])
+    .filter((relationship) => relationship.Type === type)
+    .flatMap((relationship) => relationship.Ids ?? []);
+}
+
+/** Text of a CELL, KEY or VALUE block: its WORD children, with ticked checkboxes as "[x]". */
+function blockText(block: TextractBlock, byId: Map<string, TextractBlock>): string {
+  return childIds(block)
+    .map((id) => byId.get(id))
+    .map((child) => {
+      if (child?.BlockType === "WORD") return child.Text ?? "";
+      if (child?.BlockType === "SELECTION_ELEMENT") return child.SelectionStatus === "SELECTED" ? "[x]" : "[ ]";
+      return "";
+    })
+    .filter(Boolean)
+    .join(" ")
+    .trim();
+}
+
+/** Header names, made unique and non-empty so every column can be addressed. */
+function normalizeColumns(header: string[], width: number): string[] {
+  const seen = new Map<string, number>();
+  return Array.from({ length: width }, (_, index) => {
+    const name = header[index]?.trim() || `Column ${index + 1}`;
+    const count = (seen.get(name.toLowerCase()) ?? 0) + 1;
+    seen.set(name.toLowerCase(), count);
+    return count > 1 ? `${name} (${count})` : name;
+  });
+}
+
+/**
+ * Split a grid into header and body. Textract marks header cells with the
+ * COLUMN_HEADER entity type; multi-row headers are joined per column. Without
+ * markers the first row is the header.
+ */
+export function toTable(
+  grid: string[][],
+  headerRowCount: number,
+  meta: Omit<ExtractedTable, "columns" | "rows">,
+): ExtractedTable | null {
+  const width = Math.max(0, ...grid.map((row) => row.length));
+  if (grid.length === 0 || width === 0) return null;
+
+  const headerRows = grid.slice(0, Math.max(1, headerRowCount));
+  const header = Array.from({ length: width }, (_, column) =>
+    headerRows.map((row) => row[column]?.trim() ?? "").filter(Boolean).join(" "),
+  );
+  let rows = grid
+    .slice(headerRows.length)
+    .map((row) => Array.from({ length: width }, (_, column) => row[column]?.trim() ?? ""))
+    .filter((row) => row.some(Boolean));
+
+  let title = meta.title;
+  if (rows.length > MAX_TABLE_ROWS) {
+    title = `${title ?? "Table"} (first ${MAX_TABLE_ROWS} rows)`;
+    rows = rows.slice(0, MAX_TABLE_ROWS);
+  }
+  return { ...meta, ...(title ? { title } : {}), columns: normalizeColumns(header, width), rows };
+}
+
+/** Tables from AnalyzeDocument / GetDocumentAnalysis blocks, in document order. */
+export function readTextractTables(blocks: TextractBlock[]): ExtractedTable[] {
+  const byId = new Map<string, TextractBlock>(blocks.map((block) => [block.Id, block]));
+  const tables: ExtractedTable[] = [];
+
+  for (const block of blocks) {
+    if (block.BlockType !== "TABLE") continue;
+
+    const grid: string[][] = [];
+    let headerRowCount = 0;
+    const rowIsHeader = new Map<number, boolean>();
+    for (const cell of childIds(block).map((id) => byId.get(id))) {
+      if (cell?.BlockType !== "CELL") continue;
+      const row = (cell.RowIndex ?? 1) - 1;
+      const column = (cell.ColumnIndex ?? 1) - 1;
+      (grid[row] ??= [])[column] = blockText(cell, byId);
+      const isHeader = Array.isArray(cell.EntityTypes) && cell.EntityTypes.includes("COLUMN_HEADER");
+      rowIsHeader.set(row, (rowIsHeader.get(row) ?? true) && isHeader);
+    }
+    for (let row = 0; row < grid.length; row++) {
+      grid[row] = Array.from(grid[row] ?? [], (value) => value ?? "");
+    }
+    while (rowIsHeader.get(headerRowCount)) headerRowCount++;
+
+    const title = childIds(block, "TABLE_TITLE")
+      .map((id) => byId.get(id))
+      .map((titleBlock) => (titleBlock ? blockText(titleBlock, byId) : ""))
+      .filter(Boolean)
+      .join(" ");
+
+    const table = toTable(grid, headerRowCount, {
+      source: "textract",
+      ...(title ? { title } : {}),
+      // AnalyzeDocument (single image) omits Page
+      page: typeof block.Page === "number" ? block.Page : 1,
+    });
+    if (table) tables.push(table);
+  }
+  return tables;
+}
+
+/** FORMS key/value pairs as one "Form fields" table, or null when there are none. */
+export function readTextractFormFields(blocks: TextractBlock[]): ExtractedTable | null {
+  const byId = new Map<string, TextractBlock>(blocks.map((block) => [block.Id, block]));
+  const rows: string[][] = [];
+  let firstPage: number | undefined;
+
+  for (const block of blocks) {
+    if (block.BlockType !== "KEY_VALUE_SET" || !block.EntityTypes?.includes("KEY")) continue;
+    const key = blockText(block, byId);
+    if (!key) continue;
+    const value = childIds(block, "VALUE")
+      .map((id) => byId.get(id))
+      .map((valueBlock) => (valueBlock ? blockText(valueBlock, byId) : ""))
+      .filter(Boolean)
+      .join(" ");
+    const page = typeof block.Page === "number" ? block.Page : 1;
+    firstPage ??= page;
+    rows.push([key.replace(/:\s*$/, ""), value, String(page)]);
+  }
+
+  if (rows.length === 0) return null;
+  return toTable([["Field", "Value", "Page"], ...rows], 1, { source: "textract-forms", title: "Form fields", page: firstPage });
+}
+
+// ---------------------------------------------------------------------------
+// Querying
+// ---------------------------------------------------------------------------
+
+export type FilterOperator = "=" | "!=" | ">" | ">=" | "<" | "<=" | "contains";
+export type AggregateFunction = "sum" | "avg" | "min" | "max" | "count";
+
+export interface TableFilter {
+  column: string;
+  op: FilterOperator;
+  value: string | number;
+}
+
+export interface TableQuery {
+  /** Columns to return; all when omitted. Ignored when aggregating. */
+  columns?: string[];
+  filters?: TableFilter[];
+  aggregate?: { fn: AggregateFunction; column?: string };
+  groupBy?: string;
+  limit?: number;
+}
+
+/**
+ * Numeric value of a cell as printed in financial statements: currency
+ * symbols, thousands separators, "%" and accounting negatives like "(1,234)".
+ * Returns null for text and for dashes used as "nil".
+ */
+export function parseNumericCell(value: string): number | null {
+  let text = value.trim().replace(/[$€£¥\s]|USD|EUR|GBP/g, "").replace(/%$/, "");
+  if (!text || /^[-–—]+$/.test(text)) return null;
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.endsWith("-")) {
+    negative = true;
+    text = text.slice(0, -1);
+  }
+  text = text.replace(/,/g, "");
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)$/.test(text)) return null;
+  const number = Number(text);
+  return negative ? -number : number;
+}
+
+/** Index of a column by exact name (case-insensitive), else by a unique partial match. */
+export function resolveColumn(columns: string[], name: string): number {
+  const wanted = name.trim().toLowerCase();
+  const exact = columns.findIndex((column) => column.toLowerCase() === wanted);
+  if (exact >= 0) return exact;
+  const partial = columns
+    .map((column, index) => (column.toLowerCase().includes(wanted) ? index : -1))
+    .filter((index) => index >= 0);
+  if (partial.length === 1) return partial[0];
+  throw new TableQueryError(
+    partial.length > 1
+      ? `Column "${name}" is ambiguous: ${partial.map((index) => columns[index]).join(", ")}`
+      : `Unknown column "${name}". Columns: ${columns.join(", ")}`,
+  );
+}
+
+function matches(cell: string, filter: TableFilter): boolean {
+  const cellNumber = parseNumericCell(cell);
+  const filterNumber = typeof filter.value === "number" ? filter.value : parseNumericCell(filter.value);
+  if (filter.op === "contains") {
+    return cell.toLowerCase().includes(String(filter.value).toLowerCase());
+  }
+  // Compare as numbers when both sides are numeric, otherwise as case-insensitive text
+  const comparison =
+    cellNumber !== null && filterNumber !== null
+      ? cellNumber - filterNumber
+      : cell.trim().toLowerCase().localeCompare(String(filter.value).trim().toLowerCase());
+  switch (filter.op) {
+    case "=":
+      return comparison === 0;
+    case "!=":
+      return comparison !== 0;
+    case ">":
+      return comparison > 0;
+    case ">=":
+      return comparison >= 0;
+    case "<":
+      return comparison < 0;
+    case "<=":
+      return comparison <= 0;
+    default:
+      throw new TableQueryError(`Unknown filter operator: ${filter.op}`);
+  }
+}
+
+function aggregate(fn: AggregateFunction, values: string[]): number | null {
+  if (fn === "count") return values.filter((value) => value.trim()).length;
+  const numbers = values.map(parseNumericCell).filter((value): value is number => value !== null);
+  if (numbers.length === 0) return null;
+  switch (fn) {
+    case "sum":
+      return numbers.reduce((sum, value) => sum + value, 0);
+    case "avg":
+      return numbers.reduce((sum, value) => sum + value, 0) / numbers.length;
+    case "min":
+      return Math.min(...numbers);
+    case "max":
+      return Math.max(...numbers);
+  }
+}
+
+function formatNumber(value: number | null): string {
+  if (value === null) return "";
+  // Trim floating point noise from sums of decimals
+  return String(Math.round(value * 1e6) / 1e6);
+}
+
+/** Filter, then either aggregate (optionally per group) or return the matching rows. */
+export function queryTable(table: Pick<ExtractedTable, "columns" | "rows">, query: TableQuery = {}): TableResult {
+  const filters = (query.filters ?? []).map((filter) => ({ index: resolveColumn(table.columns, filter.column), filter }));
+  const rows = table.rows.filter((row) => filters.every(({ index, filter }) => matches(row[index] ?? "", filter)));
+  const filterNote = filters.length > 0 ? ` matching ${filters.length} filter${filters.length === 1 ? "" : "s"}` : "";
+
+  if (query.aggregate) {
+    const { fn, column } = query.aggregate;
+    if (fn !== "count" && !column) {
+      throw new TableQueryError(`${fn} needs a column`);
+    }
+    const valueIndex = column ? resolveColumn(table.columns, column) : -1;
+    const label = column ? `${fn}(${table.columns[valueIndex]})` : "count";
+    const valuesOf = (group: string[][]) => group.map((row) => (valueIndex >= 0 ? row[valueIndex] ?? "" : "x"));
+
+    if (query.groupBy) {
+      const groupIndex = resolveColumn(table.columns, query.groupBy);
+      const groups = new Map<string, string[][]>();
+      for (const row of rows) {
+        const key = row[groupIndex] ?? "";
+        groups.set(key, [...(groups.get(key) ?? []), row]);
+      }
+      return {
+        type: "table",
+        columns: [table.columns[groupIndex], label],
+        rows: [...groups].map(([key, group]) => [key, formatNumber(aggregate(fn, valuesOf(group)))]),
+        summary: `${label} by ${table.columns[groupIndex]} over ${rows.length} rows${filterNote}`,
+      };
+    }
+
+    const result = aggregate(fn, valuesOf(rows));
+    return {
+      type: "table",
+      columns: [label],
+      rows: [[formatNumber(result)]],
+      summary:
+        result === null
+          ? `No numeric values in ${table.columns[valueIndex]} across ${rows.length} rows${filterNote}`
+          : `${label} = ${formatNumber(result)} over ${rows.length} rows${filterNote}`,
+    };
+  }
+
+  const selected = query.columns?.length
+    ? query.columns.map((column) => resolveColumn(table.columns, column))
+    : table.columns.map((_, index) => index);
+  const limit = Math.max(1, Math.min(query.limit ?? 50, 500));
+  return {
+    type: "table",
+    columns: selected.map((index) => table.columns[index]),
+    rows: rows.slice(0, limit).map((row) => selected.map((index) => row[index] ?? "")),
+    summary: `${Math.min(rows.length, limit)} of ${rows.length} rows${filterNote}`,
+  };
+}
+
+/** Markdown pipe table for a result, for the model to repeat in its answer. */
+export function renderTableMarkdown(result: TableResult): string {
+  const cell = (value: string) => value.replace(/\s*\n\s*/g, " ").replace(/\|/g, "\\|");
+  return [
+    `| ${result.columns.map(cell).join(" | ")} |`,
+    `| ${result.columns.map(() => "---").join(" | ")} |`,
+    ...result.rows.map((row) => `| ${row.map(cell).join(" | ")} |`),
+  ].join("\n");
+}
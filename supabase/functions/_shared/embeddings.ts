@@ -0,0 +1,312 @@
+/**
+ * Embedding providers for document indexing and search.
+ *
+ * EMBEDDING_PROVIDER selects the provider used by textract-worker, doc-context and
+ * document-reembed: "openai" (default), "gemini", or "local" (a CPU-only ONNX model
+ * run in-process with transformers.js, so document text never leaves the project).
+ *
+ * document_embeddings.embedding is a vector(1536) column. Smaller embeddings are
+ * zero-padded to that width, which leaves cosine similarity unchanged; every chunk
+ * records its embedding_model and embedding_dimensions so searches only compare
+ * vectors from the same model at the same width.
+ */
+
+export type EmbeddingProviderName = "openai" | "gemini" | "local";
+
+export type EmbeddingInputType = "document" | "query";
+
+export interface EmbeddingProvider {
+  name: EmbeddingProviderName;
+  /** Stored per chunk as embedding_model; chunks from other models are re-embedded. */
+  model: string;
+  /** Stored per chunk as embedding_dimensions; changing it also re-embeds chunks. */
+  dimensions: number;
+  /** Inputs per request. */
+  batchSize: number;
+  /** USD per 1K tokens, for job cost reporting. */
+  costPer1kTokens: number;
+  embed(texts: string[], inputType: EmbeddingInputType, signal?: AbortSignal): Promise<number[][]>;
+}
+
+/** Width of document_embeddings.embedding. */
+export const EMBEDDING_STORAGE_DIMENSIONS = 1536;
+
+export class EmbeddingProviderError extends Error {
+  constructor(
+    message: string,
+    /** Set for rate limiting; the caller waits this long before retrying. */
+    readonly retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = "EmbeddingProviderError";
+  }
+}
+
+function createOpenAIProvider(apiKey: string): EmbeddingProvider {
+  const model = Deno.env.get("OPENAI_EMBEDDING_MODEL") ?? "text-embedding-3-small";
+  const dimensions = Number(Deno.env.get("OPENAI_EMBEDDING_DIMENSIONS") ?? EMBEDDING_STORAGE_DIMENSIONS);
+
+  return {
+    name: "openai",
+    model,
+    dimensions,
+    batchSize: 100, // OpenAI allows up to 2048 inputs per request, but we'll use smaller batches
+    costPer1kTokens: model === "text-embedding-3-small" ? 0.00002 : 0.00013,
+    async embed(texts, _inputType, signal) {
+      const response = await fetch("https://api.openai.com/v1/embeddings", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${apiKey}`,
+        },
+        // Only the text-embedding-3 models accept a reduced output width
+        body: JSON.stringify(
+          model.startsWith("text-embedding-3") ? { model, input: texts, dimensions } : { model, input: texts },
+        ),
+        signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        if (response.status === 429) {
+          const retryAfter = response.headers.get("retry-after");
+          throw new EmbeddingProviderError(
+            `OpenAI API rate limited: ${errorText}`,
+            retryAfter ? parseInt(retryAfter, 10) * 1000 : 1000,
+          );
+        }
+        throw new EmbeddingProviderError(`OpenAI API error: ${response.status} ${errorText}`);
+      }
+
+      const data = await response.json();
+      if (!data.data || !Array.isArray(data.data)) {
+        throw new EmbeddingProviderError("Invalid response format from OpenAI API");
+      }
+
+      return data.data
+        .sort((a: { index: number }, b: { index: number }) => a.index - b.index)
+        .map((item: { embedding: number[] }) => item.embedding);
+    },
+  };
+}
+
+function createGeminiProvider(apiKey: string): EmbeddingProvider {
+  const model = Deno.env.get("GEMINI_EMBEDDING_MODEL") ?? "text-embedding-004";
+  const dimensions = Number(Deno.env.get("GEMINI_EMBEDDING_DIMENSIONS") ?? 768);
+  const apiBase = Deno.env.get("GEMINI_API_BASE") ?? "https://generativelanguage.googleapis.com/v1beta";
+
+  return {
+    name: "gemini",
+    model,
+    dimensions,
+    batchSize: 100, // batchEmbedContents limit
+    costPer1kTokens: 0,
+    async embed(texts, inputType, signal) {
+      const response = await fetch(`${apiBase}/models/${model}:batchEmbedContents?key=${apiKey}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          requests: texts.map((text) => ({
+            model: `models/${model}`,
+            content: { parts: [{ text }] },
+            taskType: inputType === "query" ? "RETRIEVAL_QUERY" : "RETRIEVAL_DOCUMENT",
+            outputDimensionality: dimensions,
+          })),
+        }),
+        signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        if (response.status === 429) {
+          throw new EmbeddingProviderError(`Gemini API rate limited: ${errorText}`, 1000);
+        }
+        throw new EmbeddingProviderError(`Gemini API error: ${response.status} ${errorText}`);
+      }
+
+      const data = await response.json();
+      if (!Array.isArray(data.embeddings)) {
+        throw new EmbeddingProviderError("Invalid response format from Gemini API");
+      }
+      return data.embeddings.map((item: { values: number[] }) => item.values);
+    },
+  };
+}
+
+type FeatureExtractor = (
+  texts: string[],
+  options: { pooling: "mean"; normalize: boolean },
+) => Promise<{ tolist(): number[][] }>;
+
+// Loaded on first use and kept for the lifetime of the isolate
+let localExtractor: Promise<FeatureExtractor> | null = null;
+
+function createLocalProvider(): EmbeddingProvider {
+  const model = Deno.env.get("LOCAL_EMBEDDING_MODEL") ?? "Xenova/all-MiniLM-L6-v2";
+  const dimensions = Number(Deno.env.get("LOCAL_EMBEDDING_DIMENSIONS") ?? 384);
+
+  return {
+    name: "local",
+    model,
+    dimensions,
+    batchSize: 16, // Keeps peak memory low on the CPU
+    costPer1kTokens: 0,
+    async embed(texts) {
+      if (!localExtractor) {
+        localExtractor = (async () => {
+          const { pipeline, env } = await import("https://esm.sh/@xenova/transformers@2.17.2");
+          // Model weights are fetched once from the Hugging Face hub; inference runs on the CPU here
+          env.useBrowserCache = false;
+          env.allowLocalModels = false;
+          return await pipeline("feature-extraction", model, { quantized: true }) as unknown as FeatureExtractor;
+        })();
+        localExtractor.catch(() => {
+          localExtractor = null;
+        });
+      }
+
+      const extractor = await localExtractor;
+      const output = await extractor(texts, { pooling: "mean", normalize: true });
+      return output.tolist();
+    },
+  };
+}
+
+/**
+ * Returns the configured provider, or null when its credentials are missing.
+ * Throws for an unknown EMBEDDING_PROVIDER or a model wider than the vector column.
+ */
+export function getEmbeddingProvider(
+  name: string = Deno.env.get("EMBEDDING_PROVIDER") ?? "openai",
+): EmbeddingProvider | null {
+  let provider: EmbeddingProvider | null;
+  switch (name) {
+    case "openai": {
+      const apiKey = Deno.env.get("OPENAI_API_KEY");
+      provider = apiKey ? createOpenAIProvider(apiKey) : null;
+      break;
+    }
+    case "gemini": {
+      const apiKey = Deno.env.get("GEMINI_API_KEY");
+      provider = apiKey ? createGeminiProvider(apiKey) : null;
+      break;
+    }
+    case "local":
+      provider = createLocalProvider();
+      break;
+    default:
+      throw new EmbeddingProviderError(`Unknown embedding provider: ${name}`);
+  }
+
+  if (provider && (!Number.isInteger(provider.dimensions) || provider.dimensions > EMBEDDING_STORAGE_DIMENSIONS)) {
+    throw new EmbeddingProviderError(
+      `${provider.model} embeddings must have at most ${EMBEDDING_STORAGE_DIMENSIONS} dimensions (got ${provider.dimensions})`,
+    );
+  }
+  return provider;
+}
+
+/** pgvector literal for the embedding column, zero-padded to its fixed width. */
+export function toVectorLiteral(embedding: number[]): string {
+  const padded = embedding.length < EMBEDDING_STORAGE_DIMENSIONS
+    ? embedding.concat(new Array(EMBEDDING_STORAGE_DIMENSIONS - embedding.length).fill(0))
+    : embedding;
+  return `[${padded.join(",")}]`;
+}
+
+export interface GenerateEmbeddingsOptions {
+  inputType?: EmbeddingInputType;
+  maxRetries?: number;
+  startTime?: number;
+  totalTimeoutMs?: number;
+  batchTimeoutMs?: number;
+}
+
+/** Embeds texts in provider-sized batches with per-batch timeouts and retry with backoff. */
+export async function generateEmbeddings(
+  provider: EmbeddingProvider,
+  texts: string[],
+  {
+    inputType = "document",
+    maxRetries = 3,
+    startTime,
+    totalTimeoutMs = 300_000, // 5 minutes total timeout
+    batchTimeoutMs = 30_000, // 30 seconds per batch
+  }: GenerateEmbeddingsOptions = {},
+): Promise<number[][]> {
+  if (texts.length === 0) return [];
+
+  const embeddings: number[][] = [];
+  const batchSize = provider.batchSize;
+  const processStartTime = startTime ?? Date.now();
+
+  for (let i = 0; i < texts.length; i += batchSize) {
+    // Check overall timeout before processing each batch
+    const elapsed = Date.now() - processStartTime;
+    if (elapsed > totalTimeoutMs) {
+      console.warn(`Embedding generation exceeded total timeout (${totalTimeoutMs}ms), processed ${i}/${texts.length} chunks`);
+      throw new Error(`Embedding generation timeout: processed ${i}/${texts.length} chunks in ${elapsed}ms`);
+    }
+
+    const batch = texts.slice(i, i + batchSize);
+    let retries = 0;
+    let success = false;
+
+    while (retries < maxRetries && !success) {
+      const abortController = new AbortController();
+      const timeoutId = setTimeout(() => {
+        abortController.abort();
+      }, batchTimeoutMs);
+
+      try {
+        const batchEmbeddings = await provider.embed(batch, inputType, abortController.signal);
+        clearTimeout(timeoutId);
+
+        if (batchEmbeddings.length !== batch.length) {
+          throw new EmbeddingProviderError(
+            `${provider.model} returned ${batchEmbeddings.length} embeddings for ${batch.length} inputs`,
+          );
+        }
+        const wrongWidth = batchEmbeddings.find((embedding) => embedding.length !== provider.dimensions);
+        if (wrongWidth) {
+          throw new EmbeddingProviderError(
+            `${provider.model} returned ${wrongWidth.length}-dimension embeddings, expected ${provider.dimensions}`,
+          );
+        }
+
+        embeddings.push(...batchEmbeddings);
+        success = true;
+
+        // Small delay between batches to avoid rate limits
+        if (i + batchSize < texts.length && provider.name !== "local") {
+          await new Promise((resolve) => setTimeout(resolve, 100));
+        }
+      } catch (error) {
+        clearTimeout(timeoutId);
+        if (error instanceof Error && error.name === "AbortError") {
+          console.error(`Embedding batch ${i / batchSize + 1} timed out after ${batchTimeoutMs}ms`);
+          throw new Error(`Embedding batch timeout: batch ${i / batchSize + 1} exceeded ${batchTimeoutMs}ms`);
+        }
+        retries++;
+        if (retries >= maxRetries) {
+          throw error;
+        }
+        const delay = error instanceof EmbeddingProviderError && error.retryAfterMs !== undefined
+          ? Math.max(error.retryAfterMs, Math.pow(2, retries - 1) * 1000)
+          : Math.pow(2, retries) * 1000;
+        console.error(`Embedding generation error, retrying in ${delay}ms:`, error);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+
+    // Log progress for large documents
+    if ((i + batchSize) % 500 === 0 || i + batchSize >= texts.length) {
+      const done = Math.min(i + batchSize, texts.length);
+      const progress = (done / texts.length * 100).toFixed(1);
+      const elapsed = Date.now() - processStartTime;
+      console.log(`Embedding progress: ${done}/${texts.length} chunks (${progress}%) in ${elapsed}ms`);
+    }
+  }
+
+  return embeddings;
+}
@@ -0,0 +1,544 @@
+/**
+ * Minimal MCP client for Supabase Edge Functions
+ *
+ * Speaks JSON-RPC 2.0 to third-party MCP servers using the Streamable HTTP
+ * transport (protocol revision 2025-03-26), falling back to the legacy
+ * HTTP+SSE transport (2024-11-05) when the server does not accept POSTs on
+ * its endpoint. Also maps MCP tool results back into SlashMCP result shapes.
+ */
+
+export const MCP_PROTOCOL_VERSION = "2025-03-26";
+export const MCP_LEGACY_PROTOCOL_VERSION = "2024-11-05";
+
+const CLIENT_INFO = { name: "slashmcp-proxy", version: "1.0.0" };
+const DEFAULT_TIMEOUT_MS = 110_000;
+
+export type McpTransportKind = "streamable-http" | "sse";
+
+export interface JsonRpcError {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+interface JsonRpcResponse {
+  jsonrpc: "2.0";
+  id: number | string | null;
+  result?: unknown;
+  error?: JsonRpcError;
+}
+
+export interface McpToolDescriptor {
+  name: string;
+  description?: string;
+  inputSchema?: Record<string, unknown>;
+}
+
+export type McpContentItem =
+  | { type: "text"; text: string }
+  | { type: "image"; data: string; mimeType: string }
+  | { type: "audio"; data: string; mimeType: string }
+  | {
+      type: "resource";
+      resource: { uri: string; mimeType?: string; text?: string; blob?: string };
+    }
+  | { type: string; [key: string]: unknown };
+
+export interface McpToolCallResult {
+  content?: McpContentItem[];
+  structuredContent?: unknown;
+  isError?: boolean;
+}
+
+export type McpProxyResult =
+  | { type: "text" | "markdown"; content: string }
+  | { type: "json"; data: unknown; summary?: string }
+  | { type: "binary"; contentType: string; data: string; filename?: string; note?: string }
+  | { type: "error"; message: string; details?: unknown };
+
+export class McpProtocolError extends Error {
+  readonly code?: number;
+  readonly status?: number;
+  readonly data?: unknown;
+
+  constructor(message: string, options: { code?: number; status?: number; data?: unknown } = {}) {
+    super(message);
+    this.name = "McpProtocolError";
+    this.code = options.code;
+    this.status = options.status;
+    this.data = options.data;
+  }
+}
+
+export interface McpClientOptions {
+  endpoint: string;
+  headers?: HeadersInit;
+  /** Session id from a previous handshake with the same server, if any. */
+  sessionId?: string | null;
+  /** Protocol version that handshake negotiated; sent with requests on its session. */
+  protocolVersion?: string | null;
+  /** Transport that worked last time; skips Streamable HTTP probing for SSE-only servers. */
+  transport?: McpTransportKind;
+  timeoutMs?: number;
+}
+
+export interface McpClient {
+  readonly transport: McpTransportKind;
+  readonly sessionId: string | null;
+  readonly protocolVersion: string | null;
+  initialize(): Promise<void>;
+  listTools(): Promise<McpToolDescriptor[]>;
+  callTool(name: string, args: Record<string, unknown>): Promise<McpToolCallResult>;
+  close(): Promise<void>;
+}
+
+interface SseEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * Parse a `text/event-stream` body incrementally, yielding complete events.
+ */
+async function* readSseEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<SseEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let eventName = "message";
+  let dataLines: string[] = [];
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let newlineIndex: number;
+      while ((newlineIndex = buffer.search(/\r?\n/)) !== -1) {
+        const line = buffer.slice(0, newlineIndex);
+        buffer = buffer.slice(newlineIndex + (buffer[newlineIndex] === "\r" ? 2 : 1));
+
+        if (line === "") {
+          if (dataLines.length > 0) {
+            yield { event: eventName, data: dataLines.join("\n") };
+          }
+          eventName = "message";
+          dataLines = [];
+          continue;
+        }
+        if (line.startsWith(":")) continue;
+
+        const colonIndex = line.indexOf(":");
+        const field = colonIndex === -1 ? line : line.slice(0, colonIndex);
+        const fieldValue = colonIndex === -1 ? "" : line.slice(colonIndex + 1).replace(/^ /, "");
+        if (field === "event") eventName = fieldValue;
+        if (field === "data") dataLines.push(fieldValue);
+      }
+    }
+    if (dataLines.length > 0) {
+      yield { event: eventName, data: dataLines.join("\n") };
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function isJsonRpcResponse(value: unknown, id: number): value is JsonRpcResponse {
+  if (!value || typeof value !== "object") return false;
+  const message = value as Partial<JsonRpcResponse>;
+  return message.id === id && ("result" in message || "error" in message);
+}
+
+function findResponse(payload: unknown, id: number): JsonRpcResponse | null {
+  const messages = Array.isArray(payload) ? payload : [payload];
+  return (messages.find(message => isJsonRpcResponse(message, id)) as JsonRpcResponse | undefined) ?? null;
+}
+
+function unwrapResponse(response: JsonRpcResponse): unknown {
+  if (response.error) {
+    throw new McpProtocolError(response.error.message || "MCP server returned an error", {
+      code: response.error.code,
+      data: response.error.data,
+    });
+  }
+  return response.result;
+}
+
+/**
+ * Create an MCP client bound to a single server endpoint.
+ *
+ * The client is cheap to create; the network handshake happens in
+ * `initialize()` (called implicitly by `listTools`/`callTool`).
+ */
+export function createMcpClient(options: McpClientOptions): McpClient {
+  const endpoint = options.endpoint;
+  const baseHeaders = new Headers(options.headers ?? {});
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  let transport: McpTransportKind = options.transport ?? "streamable-http";
+  let sessionId: string | null = options.sessionId ?? null;
+  let protocolVersion: string | null = sessionId ? options.protocolVersion ?? null : null;
+  let initialized = Boolean(sessionId) && transport === "streamable-http";
+  let nextId = 1;
+
+  // Legacy SSE transport state: one long-lived GET stream, POSTs go to the
+  // endpoint URL the server announces in its first `endpoint` event.
+  let sseController: AbortController | null = null;
+  let sseEvents: AsyncGenerator<SseEvent> | null = null;
+  let ssePostUrl: string | null = null;
+
+  function buildHeaders(extra: Record<string, string>): Headers {
+    const headers = new Headers(baseHeaders);
+    for (const [key, value] of Object.entries(extra)) {
+      headers.set(key, value);
+    }
+    return headers;
+  }
+
+  async function fetchWithTimeout(url: string, init: RequestInit): Promise<Response> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort("timeout"), timeoutMs);
+    try {
+      return await fetch(url, { ...init, signal: controller.signal });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new McpProtocolError(`MCP server did not respond within ${Math.round(timeoutMs / 1000)}s`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  async function postStreamable(method: string, params: unknown, isNotification: boolean): Promise<unknown> {
+    const id = nextId++;
+    const message = isNotification
+      ? { jsonrpc: "2.0", method, params }
+      : { jsonrpc: "2.0", id, method, params };
+
+    const extra: Record<string, string> = {
+      "Content-Type": "application/json",
+      Accept: "application/json, text/event-stream",
+    };
+    if (sessionId) extra["Mcp-Session-Id"] = sessionId;
+    if (protocolVersion && method !== "initialize") extra["MCP-Protocol-Version"] = protocolVersion;
+
+    const response = await fetchWithTimeout(endpoint, {
+      method: "POST",
+      headers: buildHeaders(extra),
+      body: JSON.stringify(message),
+    });
+
+    const returnedSession = response.headers.get("Mcp-Session-Id");
+    if (returnedSession) sessionId = returnedSession;
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => "");
+      throw new McpProtocolError(`MCP server responded with HTTP ${response.status}`, {
+        status: response.status,
+        data: text.slice(0, 1000),
+      });
+    }
+
+    if (isNotification) {
+      await response.body?.cancel().catch(() => undefined);
+      return undefined;
+    }
+
+    const contentType = response.headers.get("Content-Type") ?? "";
+    if (contentType.includes("text/event-stream") && response.body) {
+      for await (const event of readSseEvents(response.body)) {
+        if (event.event !== "message") continue;
+        let payload: unknown;
+        try {
+          payload = JSON.parse(event.data);
+        } catch {
+          continue;
+        }
+        const match = findResponse(payload, id);
+        if (match) return unwrapResponse(match);
+      }
+      throw new McpProtocolError(`MCP server closed the stream without answering ${method}`);
+    }
+
+    const text = await response.text();
+    let payload: unknown;
+    try {
+      payload = JSON.parse(text);
+    } catch {
+      throw new McpProtocolError("MCP server returned a non-JSON response", { data: text.slice(0, 1000) });
+    }
+    const match = findResponse(payload, id);
+    if (!match) {
+      throw new McpProtocolError(`MCP server response did not contain a reply to ${method}`, { data: payload });
+    }
+    return unwrapResponse(match);
+  }
+
+  async function openSseStream(): Promise<void> {
+    const controller = new AbortController();
+    sseController = controller;
+    // Only connecting is timed; the stream then stays open for the responses
+    const timer = setTimeout(() => controller.abort("timeout"), timeoutMs);
+    try {
+      const response = await fetch(endpoint, {
+        method: "GET",
+        headers: buildHeaders({ Accept: "text/event-stream" }),
+        signal: controller.signal,
+      });
+      if (!response.ok || !response.body) {
+        throw new McpProtocolError(`Legacy SSE endpoint responded with HTTP ${response.status}`, {
+          status: response.status,
+        });
+      }
+
+      // Iterate with next() rather than for-await so the generator (and the
+      // underlying stream) stays open for the responses that follow.
+      sseEvents = readSseEvents(response.body);
+      while (true) {
+        const { value, done } = await sseEvents.next();
+        if (done) break;
+        if (value.event === "endpoint") {
+          ssePostUrl = new URL(value.data.trim(), endpoint).toString();
+          return;
+        }
+      }
+      throw new McpProtocolError("Legacy SSE stream closed before announcing a message endpoint");
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new McpProtocolError(
+          `Legacy SSE endpoint did not announce a message endpoint within ${Math.round(timeoutMs / 1000)}s`,
+        );
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  async function postLegacy(method: string, params: unknown, isNotification: boolean): Promise<unknown> {
+    if (!ssePostUrl || !sseEvents) {
+      throw new McpProtocolError("Legacy SSE transport is not connected");
+    }
+    const id = nextId++;
+    const message = isNotification
+      ? { jsonrpc: "2.0", method, params }
+      : { jsonrpc: "2.0", id, method, params };
+
+    const response = await fetchWithTimeout(ssePostUrl, {
+      method: "POST",
+      headers: buildHeaders({ "Content-Type": "application/json" }),
+      body: JSON.stringify(message),
+    });
+    await response.body?.cancel().catch(() => undefined);
+    if (!response.ok) {
+      throw new McpProtocolError(`MCP server responded with HTTP ${response.status}`, {
+        status: response.status,
+      });
+    }
+    if (isNotification) return undefined;
+
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+      let timer: number | undefined;
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new McpProtocolError(`MCP server did not respond within ${Math.round(timeoutMs / 1000)}s`)),
+          deadline - Date.now(),
+        );
+      });
+      const { value, done } = await Promise.race([sseEvents.next(), timeout]).finally(() => clearTimeout(timer));
+      if (done) break;
+      if (value.event !== "message") continue;
+      let payload: unknown;
+      try {
+        payload = JSON.parse(value.data);
+      } catch {
+        continue;
+      }
+      const match = findResponse(payload, id);
+      if (match) return unwrapResponse(match);
+    }
+    throw new McpProtocolError(`MCP server did not answer ${method} on the SSE stream`);
+  }
+
+  function send(method: string, params: unknown, isNotification = false): Promise<unknown> {
+    return transport === "sse"
+      ? postLegacy(method, params, isNotification)
+      : postStreamable(method, params, isNotification);
+  }
+
+  async function handshake(requestedVersion: string): Promise<void> {
+    const result = (await send("initialize", {
+      protocolVersion: requestedVersion,
+      capabilities: {},
+      clientInfo: CLIENT_INFO,
+    })) as { protocolVersion?: string } | undefined;
+    protocolVersion = result?.protocolVersion ?? requestedVersion;
+    await send("notifications/initialized", {}, true);
+    initialized = true;
+  }
+
+  async function initialize(): Promise<void> {
+    if (initialized) return;
+
+    if (transport === "streamable-http") {
+      try {
+        await handshake(MCP_PROTOCOL_VERSION);
+        return;
+      } catch (error) {
+        // Per the spec, a 4xx on the initial POST means the server only
+        // speaks the older HTTP+SSE transport.
+        const status = error instanceof McpProtocolError ? error.status : undefined;
+        if (!status || status < 400 || status >= 500 || status === 401 || status === 403) {
+          throw error;
+        }
+        console.log(`[mcpClient] Streamable HTTP rejected (${status}), falling back to legacy SSE transport`);
+        transport = "sse";
+        sessionId = null;
+      }
+    }
+
+    await openSseStream();
+    await handshake(MCP_LEGACY_PROTOCOL_VERSION);
+  }
+
+  /**
+   * Send a request, re-running the handshake once if the server has
+   * expired our session (HTTP 404 with a session id attached).
+   */
+  async function request(method: string, params: unknown): Promise<unknown> {
+    await initialize();
+    try {
+      return await send(method, params);
+    } catch (error) {
+      const expired =
+        transport === "streamable-http" && error instanceof McpProtocolError && error.status === 404 && sessionId;
+      if (!expired) throw error;
+      console.log("[mcpClient] Session expired, re-initializing");
+      sessionId = null;
+      initialized = false;
+      await initialize();
+      return await send(method, params);
+    }
+  }
+
+  return {
+    get transport() {
+      return transport;
+    },
+    get sessionId() {
+      return sessionId;
+    },
+    get protocolVersion() {
+      return protocolVersion;
+    },
+    initialize,
+    async listTools() {
+      const tools: McpToolDescriptor[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = (await request("tools/list", cursor ? { cursor } : {})) as
+          | { tools?: McpToolDescriptor[]; nextCursor?: string }
+          | undefined;
+        tools.push(...(page?.tools ?? []));
+        cursor = page?.nextCursor;
+      } while (cursor);
+      return tools;
+    },
+    async callTool(name, args) {
+      return ((await request("tools/call", { name, arguments: args })) ?? {}) as McpToolCallResult;
+    },
+    async close() {
+      sseController?.abort();
+      sseController = null;
+      sseEvents = null;
+    },
+  };
+}
+
+function extensionForMimeType(mimeType: string): string {
+  const subtype = mimeType.split("/")[1]?.split(/[+;]/)[0];
+  return subtype ? `.${subtype}` : "";
+}
+
+function textFromContent(item: McpContentItem): string | null {
+  if (item.type === "text" && typeof item.text === "string") return item.text;
+  if (item.type === "resource") {
+    const resource = (item as { resource?: { text?: string } }).resource;
+    if (typeof resource?.text === "string") return resource.text;
+  }
+  return null;
+}
+
+/**
+ * Map an MCP `tools/call` result onto the SlashMCP `McpInvocationResult`
+ * variants the chat UI knows how to render.
+ */
+export function mapToolResult(result: McpToolCallResult): McpProxyResult {
+  const content = Array.isArray(result.content) ? result.content : [];
+  const texts = content.map(textFromContent).filter((text): text is string => text !== null);
+  const joinedText = texts.join("\n\n");
+
+  if (result.isError) {
+    return {
+      type: "error",
+      message: joinedText || "MCP tool reported an error",
+      details: content.length > 0 ? content : undefined,
+    };
+  }
+
+  if (result.structuredContent !== undefined) {
+    return { type: "json", data: result.structuredContent, summary: joinedText || undefined };
+  }
+
+  const binaries = content.filter(
+    item =>
+      item.type === "image" ||
+      item.type === "audio" ||
+      (item.type === "resource" && typeof (item as { resource?: { blob?: string } }).resource?.blob === "string"),
+  );
+
+  if (binaries.length === 1 && content.length - binaries.length <= texts.length) {
+    const item = binaries[0];
+    if (item.type === "resource") {
+      const resource = (item as { resource: { uri: string; mimeType?: string; blob: string } }).resource;
+      const contentType = resource.mimeType ?? "application/octet-stream";
+      return {
+        type: "binary",
+        contentType,
+        data: resource.blob,
+        filename: resource.uri.split("/").pop() || undefined,
+        note: joinedText || undefined,
+      };
+    }
+    const media = item as { type: string; data: string; mimeType: string };
+    return {
+      type: "binary",
+      contentType: media.mimeType,
+      data: media.data,
+      filename: `${media.type}${extensionForMimeType(media.mimeType)}`,
+      note: joinedText || undefined,
+    };
+  }
+
+  if (binaries.length === 0 && texts.length === content.length) {
+    if (texts.length === 1) {
+      const trimmed = texts[0].trim();
+      if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+        try {
+          return { type: "json", data: JSON.parse(trimmed) };
+        } catch {
+          // Not JSON after all; fall through to text.
+        }
+      }
+    }
+    const isMarkdown = content.some(
+      item => item.type === "resource" && (item as { resource?: { mimeType?: string } }).resource?.mimeType === "text/markdown",
+    );
+    return { type: isMarkdown ? "markdown" : "text", content: joinedText };
+  }
+
+  // Mixed or unknown content types: hand the raw items to the UI as JSON.
+  return { type: "json", data: content, summary: joinedText || undefined };
+}
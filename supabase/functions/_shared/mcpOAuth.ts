@@ -0,0 +1,331 @@
+/**
+ * OAuth 2.1 authorization for MCP servers (MCP spec "Authorization")
+ *
+ * Covers protected resource / authorization server metadata discovery
+ * (RFC 9728, RFC 8414), dynamic client registration (RFC 7591), PKCE (S256)
+ * and the token endpoint grants. Persistence lives in mcpServers.ts.
+ */
+
+import { MCP_PROTOCOL_VERSION } from "./mcpClient.ts";
+
+const OAUTH_TIMEOUT_MS = 15_000;
+const CLIENT_NAME = "SlashMCP";
+
+export class McpOAuthError extends Error {
+  constructor(message: string, readonly status?: number, readonly data?: unknown) {
+    super(message);
+    this.name = "McpOAuthError";
+  }
+}
+
+/** Non-secret OAuth configuration, kept in `mcp_servers.metadata.oauth`. */
+export interface McpOAuthServerConfig {
+  issuer?: string;
+  authorizationEndpoint: string;
+  tokenEndpoint: string;
+  registrationEndpoint?: string;
+  /** Canonical resource URI sent as the RFC 8707 `resource` parameter. */
+  resource: string;
+  scope?: string;
+  clientId?: string;
+  tokenEndpointAuthMethod?: "none" | "client_secret_post" | "client_secret_basic";
+  /** Redirect URI the client was registered with. */
+  redirectUri?: string;
+}
+
+/** Token set, stored encrypted as the server's credential. */
+export interface McpOAuthTokens {
+  accessToken: string;
+  refreshToken?: string;
+  /** Epoch milliseconds. */
+  expiresAt?: number;
+  tokenType?: string;
+  scope?: string;
+  clientSecret?: string;
+}
+
+interface ProtectedResourceMetadata {
+  resource?: string;
+  authorization_servers?: string[];
+  scopes_supported?: string[];
+}
+
+interface AuthorizationServerMetadata {
+  issuer?: string;
+  authorization_endpoint?: string;
+  token_endpoint?: string;
+  registration_endpoint?: string;
+  scopes_supported?: string[];
+  code_challenge_methods_supported?: string[];
+  token_endpoint_auth_methods_supported?: string[];
+}
+
+async function fetchWithTimeout(url: string, init: RequestInit = {}): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), OAUTH_TIMEOUT_MS);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function fetchJsonDocument<T>(url: string): Promise<T | null> {
+  try {
+    const response = await fetchWithTimeout(url, {
+      headers: { Accept: "application/json", "MCP-Protocol-Version": MCP_PROTOCOL_VERSION },
+    });
+    if (!response.ok) return null;
+    return (await response.json()) as T;
+  } catch {
+    return null;
+  }
+}
+
+/** `/.well-known/<suffix>` URLs for an issuer or resource, path-inserted first (RFC 8414 §3.1). */
+function wellKnownUrls(base: URL, suffix: string): string[] {
+  const path = base.pathname.replace(/\/$/, "");
+  const urls = [];
+  if (path) urls.push(`${base.origin}/.well-known/${suffix}${path}`);
+  urls.push(`${base.origin}/.well-known/${suffix}`);
+  return urls;
+}
+
+function resourceMetadataFromChallenge(header: string | null): string | null {
+  const match = header?.match(/resource_metadata="([^"]+)"/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * The canonical URI of an MCP server for use as an RFC 8707 resource indicator.
+ */
+export function canonicalResourceUri(mcpUrl: string): string {
+  const url = new URL(mcpUrl);
+  url.hash = "";
+  url.search = "";
+  return url.toString().replace(/\/$/, "");
+}
+
+/**
+ * Discover where and how to authorize against an MCP server.
+ *
+ * Follows the protected resource metadata advertised in the server's 401
+ * challenge (or at its well-known URL), then the authorization server
+ * metadata. Servers without any metadata fall back to the default endpoints
+ * at the server's origin, as the 2025-03-26 spec allows.
+ */
+export async function discoverOAuthServerConfig(mcpUrl: string): Promise<McpOAuthServerConfig> {
+  const serverUrl = new URL(mcpUrl);
+  let resource = canonicalResourceUri(mcpUrl);
+
+  let resourceMetadataUrl: string | null = null;
+  try {
+    const probe = await fetchWithTimeout(mcpUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        "MCP-Protocol-Version": MCP_PROTOCOL_VERSION,
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 0, method: "ping" }),
+    });
+    resourceMetadataUrl = resourceMetadataFromChallenge(probe.headers.get("WWW-Authenticate"));
+    await probe.body?.cancel();
+  } catch {
+    // Unreachable or not speaking HTTP POST; the well-known lookups below may still work.
+  }
+
+  let protectedResource: ProtectedResourceMetadata | null = null;
+  for (const url of resourceMetadataUrl
+    ? [resourceMetadataUrl]
+    : wellKnownUrls(serverUrl, "oauth-protected-resource")) {
+    protectedResource = await fetchJsonDocument<ProtectedResourceMetadata>(url);
+    if (protectedResource) break;
+  }
+
+  if (protectedResource?.resource) {
+    resource = protectedResource.resource;
+  }
+  const issuer = new URL(protectedResource?.authorization_servers?.[0] ?? serverUrl.origin);
+
+  let metadata: AuthorizationServerMetadata | null = null;
+  for (const url of [
+    ...wellKnownUrls(issuer, "oauth-authorization-server"),
+    ...wellKnownUrls(issuer, "openid-configuration"),
+  ]) {
+    metadata = await fetchJsonDocument<AuthorizationServerMetadata>(url);
+    if (metadata?.authorization_endpoint && metadata.token_endpoint) break;
+    metadata = null;
+  }
+
+  if (metadata?.code_challenge_methods_supported && !metadata.code_challenge_methods_supported.includes("S256")) {
+    throw new McpOAuthError("Authorization server does not support PKCE with S256");
+  }
+
+  const scopes = protectedResource?.scopes_supported ?? metadata?.scopes_supported;
+  return {
+    issuer: metadata?.issuer ?? issuer.origin,
+    authorizationEndpoint: metadata?.authorization_endpoint ?? `${issuer.origin}/authorize`,
+    tokenEndpoint: metadata?.token_endpoint ?? `${issuer.origin}/token`,
+    registrationEndpoint: metadata ? metadata.registration_endpoint : `${issuer.origin}/register`,
+    resource,
+    scope: scopes && scopes.length > 0 ? scopes.join(" ") : undefined,
+  };
+}
+
+/**
+ * Register SlashMCP as a public client with the authorization server (RFC 7591).
+ */
+export async function registerOAuthClient(
+  config: McpOAuthServerConfig,
+  redirectUri: string,
+): Promise<{ clientId: string; clientSecret?: string; tokenEndpointAuthMethod: McpOAuthServerConfig["tokenEndpointAuthMethod"] }> {
+  if (!config.registrationEndpoint) {
+    throw new McpOAuthError(
+      "Authorization server does not support dynamic client registration; re-register the server with metadata.oauthClientId",
+    );
+  }
+
+  const response = await fetchWithTimeout(config.registrationEndpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "application/json" },
+    body: JSON.stringify({
+      client_name: CLIENT_NAME,
+      redirect_uris: [redirectUri],
+      grant_types: ["authorization_code", "refresh_token"],
+      response_types: ["code"],
+      token_endpoint_auth_method: "none",
+      ...(config.scope ? { scope: config.scope } : {}),
+    }),
+  });
+  const payload = await response.json().catch(() => null);
+  if (!response.ok || typeof payload?.client_id !== "string") {
+    throw new McpOAuthError(
+      `Client registration failed (${response.status})${payload?.error_description ? `: ${payload.error_description}` : ""}`,
+      response.status,
+      payload,
+    );
+  }
+
+  return {
+    clientId: payload.client_id,
+    clientSecret: typeof payload.client_secret === "string" ? payload.client_secret : undefined,
+    tokenEndpointAuthMethod: payload.token_endpoint_auth_method ?? (payload.client_secret ? "client_secret_post" : "none"),
+  };
+}
+
+function base64Url(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach(b => (binary += String.fromCharCode(b)));
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function randomUrlSafeString(byteLength = 32): string {
+  return base64Url(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+export async function createPkcePair(): Promise<{ codeVerifier: string; codeChallenge: string }> {
+  const codeVerifier = randomUrlSafeString(32);
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(codeVerifier));
+  return { codeVerifier, codeChallenge: base64Url(new Uint8Array(digest)) };
+}
+
+export function buildAuthorizationUrl(
+  config: McpOAuthServerConfig,
+  params: { clientId: string; redirectUri: string; state: string; codeChallenge: string },
+): string {
+  const url = new URL(config.authorizationEndpoint);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("client_id", params.clientId);
+  url.searchParams.set("redirect_uri", params.redirectUri);
+  url.searchParams.set("state", params.state);
+  url.searchParams.set("code_challenge", params.codeChallenge);
+  url.searchParams.set("code_challenge_method", "S256");
+  url.searchParams.set("resource", config.resource);
+  if (config.scope) url.searchParams.set("scope", config.scope);
+  return url.toString();
+}
+
+async function requestTokens(
+  config: McpOAuthServerConfig,
+  grant: Record<string, string>,
+  clientSecret?: string,
+): Promise<McpOAuthTokens> {
+  if (!config.clientId) {
+    throw new McpOAuthError("OAuth client is not registered for this server");
+  }
+
+  const body = new URLSearchParams({ ...grant, resource: config.resource });
+  const headers: Record<string, string> = {
+    "Content-Type": "application/x-www-form-urlencoded",
+    Accept: "application/json",
+  };
+  if (clientSecret && config.tokenEndpointAuthMethod === "client_secret_basic") {
+    headers.Authorization = `Basic ${btoa(`${encodeURIComponent(config.clientId)}:${encodeURIComponent(clientSecret)}`)}`;
+  } else {
+    body.set("client_id", config.clientId);
+    if (clientSecret) body.set("client_secret", clientSecret);
+  }
+
+  const response = await fetchWithTimeout(config.tokenEndpoint, { method: "POST", headers, body });
+  const payload = await response.json().catch(() => null);
+  if (!response.ok || typeof payload?.access_token !== "string") {
+    throw new McpOAuthError(
+      `Token request failed (${response.status})${payload?.error ? `: ${payload.error_description ?? payload.error}` : ""}`,
+      response.status,
+      payload,
+    );
+  }
+
+  return {
+    accessToken: payload.access_token,
+    refreshToken: typeof payload.refresh_token === "string" ? payload.refresh_token : grant.refresh_token,
+    expiresAt: typeof payload.expires_in === "number" ? Date.now() + payload.expires_in * 1000 : undefined,
+    tokenType: payload.token_type,
+    scope: payload.scope,
+    clientSecret,
+  };
+}
+
+export function exchangeAuthorizationCode(
+  config: McpOAuthServerConfig,
+  params: { code: string; codeVerifier: string; redirectUri: string; clientSecret?: string },
+): Promise<McpOAuthTokens> {
+  return requestTokens(
+    config,
+    {
+      grant_type: "authorization_code",
+      code: params.code,
+      code_verifier: params.codeVerifier,
+      redirect_uri: params.redirectUri,
+    },
+    params.clientSecret,
+  );
+}
+
+export function refreshOAuthTokens(config: McpOAuthServerConfig, tokens: McpOAuthTokens): Promise<McpOAuthTokens> {
+  if (!tokens.refreshToken) {
+    throw new McpOAuthError("No refresh token available; authorize the server again", 401);
+  }
+  return requestTokens(config, { grant_type: "refresh_token", refresh_token: tokens.refreshToken }, tokens.clientSecret);
+}
+
+/**
+ * Parse a stored OAuth credential. Returns null for plain bearer tokens
+ * saved before the server was authorized through the OAuth flow.
+ */
+export function parseOAuthTokens(secret: string | null): McpOAuthTokens | null {
+  if (!secret || !secret.trimStart().startsWith("{")) return null;
+  try {
+    const parsed = JSON.parse(secret);
+    return typeof parsed?.accessToken === "string" ? (parsed as McpOAuthTokens) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function readOAuthServerConfig(metadata: Record<string, unknown> | null): McpOAuthServerConfig | null {
+  const candidate = metadata?.oauth as McpOAuthServerConfig | undefined;
+  if (!candidate?.authorizationEndpoint || !candidate.tokenEndpoint || !candidate.resource) return null;
+  return candidate;
+}
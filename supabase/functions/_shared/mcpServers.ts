@@ -0,0 +1,248 @@
+/**
+ * Helpers for user-registered MCP servers (the `mcp_servers` table)
+ *
+ * Shared by mcp-register, mcp-proxy, mcp-oauth and mcp-refresh-tools so that
+ * credentials, auth headers and the tools/list cache are handled the same way
+ * everywhere.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createMcpClient, type McpToolDescriptor } from "./mcpClient.ts";
+import {
+  type McpOAuthTokens,
+  parseOAuthTokens,
+  readOAuthServerConfig,
+  refreshOAuthTokens,
+} from "./mcpOAuth.ts";
+import {
+  currentMasterKeyVersion,
+  decryptSecret,
+  encryptSecret,
+  isSecretEnvelope,
+  type SecretEnvelope,
+} from "./secretCrypto.ts";
+
+/** Cached tools older than this are refreshed by the sweep. */
+export const TOOLS_REFRESH_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+const DISCOVERY_TIMEOUT_MS = 20_000;
+
+/**
+ * Associated data for a server credential's envelope: binds the ciphertext to
+ * its row and owner, so an envelope copied into another row fails to decrypt.
+ */
+export function serverSecretContext(server: Pick<McpServerRecord, "id" | "user_id">): string {
+  return `mcp_servers.auth_secret:${server.id}:${server.user_id}`;
+}
+
+// Refresh OAuth access tokens this long before they expire.
+const TOKEN_REFRESH_SKEW_MS = 60_000;
+
+/**
+ * Thrown when an OAuth server has no usable token and the user has to go
+ * through the authorization flow (again).
+ */
+export class McpAuthorizationRequiredError extends Error {
+  constructor(serverName: string, reason?: string) {
+    super(`${serverName} requires authorization${reason ? ` (${reason})` : ""}. Run /slashmcp auth ${serverName}`);
+    this.name = "McpAuthorizationRequiredError";
+  }
+}
+
+export interface McpServerRecord {
+  id: string;
+  user_id: string;
+  name: string;
+  gateway_url: string;
+  auth_type: "none" | "api_key" | "oauth";
+  /** Legacy base64 credential, cleared once the row is re-encrypted. */
+  auth_secret: string | null;
+  auth_secret_envelope?: SecretEnvelope | null;
+  auth_secret_key_version?: number | null;
+  metadata: Record<string, unknown> | null;
+  is_active: boolean;
+  tools?: StoredMcpTool[] | null;
+  tools_refreshed_at?: string | null;
+}
+
+export interface StoredMcpTool {
+  name: string;
+  description?: string;
+  inputSchema?: Record<string, unknown>;
+}
+
+/**
+ * Decode a credential stored before envelope encryption (plain base64).
+ * PostgREST returns the bytea column hex-encoded (`\\x...`), so undo that first.
+ */
+export function decodeLegacySecret(secret?: string | null): string | null {
+  if (!secret) return null;
+  let encoded = secret;
+  if (encoded.startsWith("\\x")) {
+    const hex = encoded.slice(2);
+    encoded = "";
+    for (let i = 0; i < hex.length; i += 2) {
+      encoded += String.fromCharCode(Number.parseInt(hex.slice(i, i + 2), 16));
+    }
+  }
+  const binary = atob(encoded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i += 1) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Columns to write when storing a server credential. New rows need their id
+ * chosen up front, since it is part of the encryption context.
+ */
+export async function sealServerSecret(server: Pick<McpServerRecord, "id" | "user_id">, secret?: string | null) {
+  if (!secret) {
+    return { auth_secret: null, auth_secret_envelope: null, auth_secret_key_version: null };
+  }
+  return {
+    auth_secret: null,
+    auth_secret_envelope: await encryptSecret(secret, serverSecretContext(server)),
+    auth_secret_key_version: currentMasterKeyVersion(),
+  };
+}
+
+/**
+ * Decrypt a server's stored credential, whichever format the row is in.
+ */
+export async function openServerSecret(
+  server: Pick<McpServerRecord, "id" | "user_id" | "auth_secret" | "auth_secret_envelope">,
+): Promise<string | null> {
+  if (isSecretEnvelope(server.auth_secret_envelope)) {
+    return decryptSecret(server.auth_secret_envelope, serverSecretContext(server));
+  }
+  return decodeLegacySecret(server.auth_secret);
+}
+
+export async function storeServerOAuthTokens(
+  supabase: SupabaseClient,
+  server: Pick<McpServerRecord, "id" | "user_id">,
+  tokens: McpOAuthTokens,
+): Promise<void> {
+  const { error } = await supabase
+    .from("mcp_servers")
+    .update(await sealServerSecret(server, JSON.stringify(tokens)))
+    .eq("id", server.id);
+  if (error) {
+    console.error("[mcpServers] Failed to store OAuth tokens for", server.id, error);
+    throw new Error("Failed to store OAuth tokens");
+  }
+}
+
+/**
+ * The credential to send to a server. For OAuth servers this is the current
+ * access token, refreshed (and persisted) when it is about to expire or when
+ * `forceRefresh` is set after the server rejected it.
+ */
+export async function getServerCredential(
+  supabase: SupabaseClient,
+  server: Pick<McpServerRecord, "id" | "user_id" | "name" | "auth_type" | "auth_secret" | "auth_secret_envelope" | "metadata">,
+  options: { forceRefresh?: boolean } = {},
+): Promise<string | null> {
+  const secret = await openServerSecret(server);
+  if (server.auth_type !== "oauth") return secret;
+
+  const tokens = parseOAuthTokens(secret);
+  if (!tokens) {
+    // A bearer token supplied at registration is used as-is.
+    if (secret && !options.forceRefresh) return secret;
+    throw new McpAuthorizationRequiredError(server.name);
+  }
+
+  const expiring = tokens.expiresAt !== undefined && tokens.expiresAt - TOKEN_REFRESH_SKEW_MS < Date.now();
+  if (!options.forceRefresh && !expiring) return tokens.accessToken;
+
+  const config = readOAuthServerConfig(server.metadata);
+  if (!config || !tokens.refreshToken) {
+    throw new McpAuthorizationRequiredError(server.name, "access token expired");
+  }
+
+  let refreshed: McpOAuthTokens;
+  try {
+    refreshed = await refreshOAuthTokens(config, tokens);
+  } catch (error) {
+    throw new McpAuthorizationRequiredError(server.name, error instanceof Error ? error.message : String(error));
+  }
+  await storeServerOAuthTokens(supabase, server, refreshed);
+  return refreshed.accessToken;
+}
+
+/**
+ * Apply the server's stored credential to a set of outbound headers.
+ * Uses `metadata.authHeaderKey` when set, otherwise a Bearer token.
+ */
+export function applyServerAuth(
+  headers: Headers,
+  server: Pick<McpServerRecord, "auth_type" | "metadata">,
+  secret: string | null,
+): Headers {
+  if (secret && server.auth_type !== "none") {
+    const authHeaderKey = server.metadata?.authHeaderKey as string | undefined;
+    if (authHeaderKey) {
+      headers.set(authHeaderKey, secret);
+    } else {
+      headers.set("Authorization", `Bearer ${secret}`);
+    }
+  }
+  return headers;
+}
+
+function normalizeTools(tools: McpToolDescriptor[]): StoredMcpTool[] {
+  return tools
+    .filter(tool => typeof tool?.name === "string" && tool.name.trim() !== "")
+    .map(tool => ({
+      name: tool.name,
+      description: typeof tool.description === "string" ? tool.description : undefined,
+      inputSchema:
+        tool.inputSchema && typeof tool.inputSchema === "object" ? tool.inputSchema : undefined,
+    }));
+}
+
+/**
+ * Run `initialize` + `tools/list` against an MCP endpoint.
+ */
+export async function discoverTools(
+  gatewayUrl: string,
+  headers: Headers,
+): Promise<StoredMcpTool[]> {
+  const client = createMcpClient({ endpoint: gatewayUrl, headers, timeoutMs: DISCOVERY_TIMEOUT_MS });
+  try {
+    return normalizeTools(await client.listTools());
+  } finally {
+    await client.close();
+  }
+}
+
+/**
+ * Re-discover a server's tools and persist the result on its row.
+ * Failures are recorded in `tools_error`; the previous cache is kept.
+ */
+export async function refreshServerTools(
+  supabase: SupabaseClient,
+  server: McpServerRecord,
+): Promise<{ ok: boolean; tools: StoredMcpTool[]; error?: string }> {
+  try {
+    const headers = applyServerAuth(new Headers(), server, await getServerCredential(supabase, server));
+    const tools = await discoverTools(server.gateway_url, headers);
+    const now = new Date().toISOString();
+    const { error } = await supabase
+      .from("mcp_servers")
+      .update({ tools, tools_refreshed_at: now, tools_error: null, last_health_check: now })
+      .eq("id", server.id);
+    if (error) {
+      console.error("[mcpServers] Failed to store tools for", server.id, error);
+    }
+    return { ok: true, tools };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn("[mcpServers] tools/list failed for", server.id, message);
+    await supabase.from("mcp_servers").update({ tools_error: message.slice(0, 500) }).eq("id", server.id);
+    return { ok: false, tools: server.tools ?? [], error: message };
+  }
+}
@@ -13,7 +13,7 @@ import { listCommandsTool } from "./tools.ts";
 /**
  * Command Discovery Agent - knows all available MCP commands and can translate AND execute
  */
-export function createCommandDiscoveryAgent(mcpToolAgent: Agent): Agent {
+export function createCommandDiscoveryAgent(mcpToolAgent: Agent, commandsTool: Tool = listCommandsTool): Agent {
   const allCommands = `
 AVAILABLE MCP COMMANDS:
 
@@ -143,7 +143,7 @@ COMMAND TRANSLATION RULES:
       "IMPORTANT: If the user's intent is clearly to PERFORM an action (e.g., 'get stock price', 'create a design', 'search for X'), " +
       "you should hand off to MCP_Tool_Agent to execute it. Only provide instructions if they explicitly ask 'how do I...' or 'what commands...'",
     handoffs: [executeCommandHandoff],
-    tools: [listCommandsTool],
+    tools: [commandsTool],
   });
 }
 
@@ -331,7 +331,11 @@ export function createOrchestratorAgent(
   finalHandoff: Handoff,
 ): Agent {
   // Ensure tools is always an array
-  const toolsWithCommands = [...(Array.isArray(tools) ? tools : []), listCommandsTool];
+  // Keep a user-aware list_mcp_commands tool if the caller already supplied one
+  const toolsArray = Array.isArray(tools) ? tools : [];
+  const toolsWithCommands = toolsArray.some(tool => tool.name === listCommandsTool.name)
+    ? toolsArray
+    : [...toolsArray, listCommandsTool];
   
   return new Agent({
     name: "Orchestrator_Agent",
@@ -365,6 +369,12 @@ export function createOrchestratorAgent(
       "- If the user asks to list their documents (e.g., 'What documents do I have?', 'Show my documents'), " +
       "  use the `list_documents` tool directly.\n" +
       "- If the user asks about document status, use the `get_document_status` tool.\n" +
+      "- If the user names a document collection (e.g. 'in the Vendor contracts collection'), pass it as `collection` " +
+      "  to `search_documents`, `list_documents`, `query_document_table` or `summarize_document`.\n" +
+      "- For totals, averages or lookups over a table in a document (e.g. 'sum column Q3 in table 2 of report.pdf'), " +
+      "  use the `query_document_table` tool; call it without tableIndex first to see the document's tables.\n" +
+      "- To summarize or give an overview of a whole document (e.g. 'summarize my 200-page PDF'), use the `summarize_document` tool, " +
+      "  not `search_documents`, which only sees a few passages.\n" +
       "- CRITICAL: When ANY query relates to document content or uploaded files, ALWAYS try `search_documents` first. " +
       "  Even if the document is still processing, the search will return helpful information about status.\n" +
       "\n" +
@@ -17,6 +17,7 @@ export interface QueryClassification {
     mentionsUpload?: boolean;
     documentName?: string;
     isQuestion?: boolean;
+    wantsSummary?: boolean;
     keywords: string[];
   };
 }
@@ -60,6 +61,16 @@ const DOCUMENT_QUESTION_PATTERNS = [
   /summarize.*/i,
 ];
 
+/**
+ * Requests for a summary of a whole document, which top-k search cannot answer
+ */
+const SUMMARY_PATTERNS = [
+  /\bsummari[sz](e|es|ing|ation)\b/i,
+  /\bsummary\b/i,
+  /\boverview of\b/i,
+  /\b(tl;?dr|gist|key points|main points)\b/i,
+];
+
 /**
  * Classify a user query to determine intent and routing
  */
@@ -84,6 +95,8 @@ export function classifyQuery(
     pattern.test(query)
   );
   
+  const wantsSummary = SUMMARY_PATTERNS.some(pattern => pattern.test(query));
+  
   // Initialize confidence score and intent variables
   let confidence = 0;
   let intent: QueryClassification["intent"] = "unknown";
@@ -150,10 +163,10 @@ export function classifyQuery(
   // Determine intent
   if (confidence >= 0.5) {
     intent = "document";
-    suggestedTool = "search_documents";
+    suggestedTool = wantsSummary ? "summarize_document" : "search_documents";
   } else if (confidence >= 0.3) {
     intent = "hybrid";
-    suggestedTool = "search_documents"; // Try document first, fallback to web
+    suggestedTool = wantsSummary ? "summarize_document" : "search_documents"; // Try document first, fallback to web
   } else {
     // Check for other intents
     if (lowerQuery.includes("remember") || lowerQuery.includes("store") || lowerQuery.includes("save")) {
@@ -185,6 +198,7 @@ export function classifyQuery(
       mentionsUpload: lowerQuery.includes("upload") || lowerQuery.includes("uploaded"),
       documentName,
       isQuestion: query.trim().endsWith("?") || matchesQuestionPattern,
+      wantsSummary,
       keywords: words.filter(w => w.length > 2),
     },
   };
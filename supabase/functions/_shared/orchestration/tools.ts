@@ -4,6 +4,28 @@
 
 import type { Tool } from "https://esm.sh/@openai/agents@0.3.2";
 import { createMemoryService, type MemoryService } from "../memory.ts";
+import { CollectionAccessError, listAccessibleCollections, resolveCollection } from "../documentCollections.ts";
+import {
+  queryTable,
+  renderTableMarkdown,
+  type AggregateFunction,
+  type TableFilter,
+} from "../documentTables.ts";
+import {
+  createOpenAISummarizer,
+  isSummaryPending,
+  loadStoredSummary,
+  SummaryError,
+  summarizeDocument,
+} from "../documentSummaries.ts";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { Database } from "../database.types.ts";
+
+// The document_tables columns query_document_table lists
+type DocumentTableListing = Pick<
+  Database["public"]["Tables"]["document_tables"]["Row"],
+  "table_index" | "page_number" | "title" | "columns" | "row_count" | "source"
+>;
 
 /**
  * Create memory tools for agent use
@@ -170,16 +192,37 @@ export async function executeMcpCommand(
       headers["Authorization"] = authHeader;
     }
 
-    const response = await fetch(mcpGatewayUrl, {
-      method: "POST",
-      headers,
-      body: JSON.stringify({
-        serverId,
-        command: mcpCommand,
-        args,
-        positionalArgs: [],
-      }),
-    });
+    const invocation = {
+      serverId,
+      command: mcpCommand,
+      args,
+      positionalArgs: [],
+    };
+
+    // User-registered servers (srv_... ids, or names the built-in gateway
+    // doesn't know) are reached through mcp-proxy, which speaks MCP JSON-RPC.
+    const mcpProxyUrl = mcpGatewayUrl.replace(/\/mcp\/?$/, "/mcp-proxy");
+    const callProxy = () =>
+      fetch(mcpProxyUrl, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ serverId, invocation }),
+      });
+
+    let response = serverId.toLowerCase().startsWith("srv_")
+      ? await callProxy()
+      : await fetch(mcpGatewayUrl, {
+          method: "POST",
+          headers,
+          body: JSON.stringify(invocation),
+        });
+
+    if (response.status === 400 && authHeader && mcpProxyUrl !== mcpGatewayUrl) {
+      const errorText = await response.clone().text().catch(() => "");
+      if (errorText.includes("Unsupported MCP server")) {
+        response = await callProxy();
+      }
+    }
 
     if (!response.ok) {
       const errorText = await response.text().catch(() => "");
@@ -227,6 +270,44 @@ export function createMcpProxyTool(mcpGatewayUrl: string, authHeader?: string |
   };
 }
 
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Escape LIKE wildcards so a file name matches only itself
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, "\\$&");
+}
+
+/**
+ * Find the document a tool call names: by job ID, or by file name (exact match first,
+ * case-insensitive, then partial), the newest version winning. Looks in the collection
+ * when one is given, otherwise in the user's own documents.
+ */
+async function findDocumentJob(
+  supabase: SupabaseClient,
+  userId: string,
+  { jobId, fileName, scope }: { jobId?: string; fileName?: string; scope?: { jobIds: string[] } | null },
+): Promise<{ id: string; file_name: string; user_id: string | null } | null> {
+  if (jobId && !UUID_PATTERN.test(jobId)) return null;
+  const escapedName = jobId ? "" : escapeLikePattern(fileName!);
+  const patterns = jobId ? [null] : [escapedName, `%${escapedName}%`];
+  for (const pattern of patterns) {
+    let jobQuery = supabase
+      .from("processing_jobs")
+      .select("id, file_name, user_id");
+    jobQuery = scope ? jobQuery.in("id", scope.jobIds) : jobQuery.eq("user_id", userId);
+    jobQuery = pattern === null ? jobQuery.eq("id", jobId) : jobQuery.ilike("file_name", pattern);
+    const { data, error } = await jobQuery
+      .order("version", { ascending: false })
+      .order("created_at", { ascending: false })
+      .limit(1);
+    if (error) {
+      throw new Error(error.message);
+    }
+    if (data?.[0]) return data[0];
+  }
+  return null;
+}
+
 /**
  * Create RAG/document tools for agent use
  * These tools allow the orchestrator to handle document uploads, searches, and management
@@ -240,10 +321,13 @@ export function createRagTools(
     {
       name: "search_documents",
       description:
-        "Search uploaded documents using semantic search (RAG). ALWAYS use this when the user mentions documents, uploaded files, PDFs, or asks questions that could be answered by document content. " +
+        "Search uploaded documents using hybrid keyword + semantic search (RAG). ALWAYS use this when the user mentions documents, uploaded files, PDFs, or asks questions that could be answered by document content. " +
         "Examples: 'What can you tell me about the document?', 'What does my document say?', 'Tell me about the PDF I uploaded', 'Search my documents', " +
         "'What information is in my file?', 'Analyze my document', 'What's in the document?'. " +
         "This tool searches all user's uploaded and processed documents. If documents are still processing, it will indicate that. " +
+        "Each result chunk has a `citation` such as [report.pdf p.12]; cite the chunks you use inline in your answer with exactly that text. " +
+        "Transcribed audio and video recordings are searched too; their citations carry a timestamp, e.g. [standup.mp3 @12:34], and their chunks list the speakers. " +
+        "When the user names a collection (e.g. 'in the Q3 board pack'), pass it as `collection` to search only its documents, including collections shared with the user. " +
         "DO NOT say 'I can't analyze documents' - use this tool instead.",
       parameters: {
         type: "object",
@@ -257,23 +341,55 @@ export function createRagTools(
             items: { type: "string" },
             description: "Optional: Specific document job IDs to search. If not provided, searches all user documents.",
           },
+          collection: {
+            type: "string",
+            description: "Optional: Collection name or ID to search within, e.g. 'Vendor contracts'",
+          },
           limit: {
             type: "number",
             description: "Maximum number of results (default: 10)",
           },
+          searchMode: {
+            type: "string",
+            enum: ["hybrid", "vector", "keyword"],
+            description:
+              "Optional: 'hybrid' (default) combines exact keyword matches with semantic similarity; " +
+              "'keyword' for exact terms like invoice numbers, tickers or names; 'vector' for meaning-only matches.",
+          },
         },
         required: ["query"],
       },
-      async run({ query, jobIds, limit = 10 }: { query: string; jobIds?: string[]; limit?: number }) {
+      async run({
+        query,
+        jobIds,
+        collection,
+        limit = 10,
+        searchMode = "hybrid",
+      }: {
+        query: string;
+        jobIds?: string[];
+        collection?: string;
+        limit?: number;
+        searchMode?: "hybrid" | "vector" | "keyword";
+      }) {
         try {
           const { createClient } = await import("https://esm.sh/@supabase/supabase-js@2");
           const supabase = createClient(supabaseUrl, supabaseServiceKey);
           
+          // A collection may hold documents shared by another user, so it replaces the owner filter
+          let scope: { name: string; jobIds: string[] } | null = null;
+          if (collection) {
+            scope = await resolveCollection(supabase, userId, collection);
+            if (scope.jobIds.length === 0) {
+              return `The collection "${scope.name}" has no documents yet.`;
+            }
+          }
+
           // First, check document status
           let statusQuery = supabase
             .from("processing_jobs")
-            .select("id, file_name, status, metadata")
-            .eq("user_id", userId);
+            .select("id, file_name, status, metadata");
+          statusQuery = scope ? statusQuery.in("id", scope.jobIds) : statusQuery.eq("user_id", userId);
           
           if (jobIds && jobIds.length > 0) {
             statusQuery = statusQuery.in("id", jobIds);
@@ -286,7 +402,9 @@ export function createRagTools(
           }
           
           if (!docs || docs.length === 0) {
-            return "You don't have any uploaded documents yet. Please upload a document first.";
+            return scope
+              ? `None of the requested documents are in the collection "${scope.name}".`
+              : "You don't have any uploaded documents yet. Please upload a document first.";
           }
           
           // Check for processing documents
@@ -333,7 +451,7 @@ export function createRagTools(
               query,
               jobIds: readyJobIds,
               limit,
-              similarity_threshold: 0.7,
+              searchMode,
             }),
           });
 
@@ -356,18 +474,29 @@ export function createRagTools(
           const results = data.contexts.map((ctx: any) => ({
             fileName: ctx.fileName,
             chunks: ctx.chunks.map((chunk: any) => ({
+              citation: chunk.citation,
+              page: chunk.pageNumber,
+              section: Array.isArray(chunk.sectionPath) ? chunk.sectionPath.join(" > ") : undefined,
+              speakers: Array.isArray(chunk.speakers) ? chunk.speakers : undefined,
               content: chunk.content,
               similarity: chunk.similarity,
+              keywordRank: chunk.keywordRank,
+              rerankScore: chunk.rerankScore,
             })),
           }));
 
           return JSON.stringify({
             searchMode: data.searchMode,
+            rerank: data.rerank,
+            collection: scope?.name,
             totalDocuments: data.contexts.length,
             totalChunks: data.contexts.reduce((sum: number, ctx: any) => sum + ctx.chunks.length, 0),
             results,
           }, null, 2);
         } catch (error) {
+          if (error instanceof CollectionAccessError) {
+            return error.message;
+          }
           const message = error instanceof Error ? error.message : String(error);
           return `Error searching documents: ${message}`;
         }
@@ -376,7 +505,8 @@ export function createRagTools(
     {
       name: "list_documents",
       description:
-        "List all uploaded documents with their status. Use this when the user asks 'what documents do I have', 'show my documents', or wants to see their document library.",
+        "List all uploaded documents with their status, plus the user's document collections (own and shared with them). " +
+        "Use this when the user asks 'what documents do I have', 'show my documents', 'what's in the Vendor contracts collection', or wants to see their document library.",
       parameters: {
         type: "object",
         properties: {
@@ -384,20 +514,27 @@ export function createRagTools(
             type: "string",
             description: "Optional: Filter by status (queued, processing, completed, failed)",
           },
+          collection: {
+            type: "string",
+            description: "Optional: Only list documents in this collection (name or ID)",
+          },
         },
         required: [],
       },
-      async run({ status }: { status?: string }) {
+      async run({ status, collection }: { status?: string; collection?: string }) {
         try {
           const { createClient } = await import("https://esm.sh/@supabase/supabase-js@2");
           const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+          const collections = await listAccessibleCollections(supabase, userId);
+          const scope = collection ? await resolveCollection(supabase, userId, collection) : null;
           
           let query = supabase
             .from("processing_jobs")
             .select("id, file_name, file_type, file_size, status, metadata, created_at, updated_at")
-            .eq("user_id", userId)
             .eq("analysis_target", "document-analysis")
             .order("created_at", { ascending: false });
+          query = scope ? query.in("id", scope.jobIds) : query.eq("user_id", userId);
 
           if (status) {
             query = query.eq("status", status);
@@ -410,7 +547,9 @@ export function createRagTools(
           }
 
           if (!data || data.length === 0) {
-            return "No documents found. Upload documents to get started.";
+            return scope
+              ? `The collection "${scope.name}" has no documents yet.`
+              : "No documents found. Upload documents to get started.";
           }
 
           const documents = data.map((job: any) => {
@@ -423,6 +562,9 @@ export function createRagTools(
               fileSize: job.file_size,
               status: job.status,
               stage: stage || "unknown",
+              collections: collections
+                .filter((candidate) => candidate.jobIds.includes(job.id))
+                .map((candidate) => candidate.name),
               createdAt: job.created_at,
               updatedAt: job.updated_at,
             };
@@ -430,14 +572,286 @@ export function createRagTools(
 
           return JSON.stringify({
             total: documents.length,
+            collection: scope?.name,
             documents,
+            collections: collections.map((candidate) => ({
+              name: candidate.name,
+              description: candidate.description ?? undefined,
+              documentCount: candidate.jobIds.length,
+              sharedWithYou: candidate.role === "viewer",
+            })),
           }, null, 2);
         } catch (error) {
+          if (error instanceof CollectionAccessError) {
+            return error.message;
+          }
           const message = error instanceof Error ? error.message : String(error);
           return `Error listing documents: ${message}`;
         }
       },
     },
+    {
+      name: "query_document_table",
+      description:
+        "Filter and aggregate a table extracted from an uploaded document (PDF/image tables and form fields, CSV files, XLSX sheets). " +
+        "Use this instead of search_documents for totals, averages, lookups and comparisons over tabular data, e.g. " +
+        "'sum column Q3 in table 2 of report.pdf', 'average price by region in sales.xlsx', 'rows where status is overdue'. " +
+        "Call it without tableIndex first to list the document's tables and their columns. " +
+        "Show the returned `markdown` table in your answer and cite the table with its `citation`.",
+      parameters: {
+        type: "object",
+        properties: {
+          fileName: {
+            type: "string",
+            description: "Document file name, e.g. report.pdf. The latest version is used.",
+          },
+          jobId: {
+            type: "string",
+            description: "Optional: document job ID, instead of fileName",
+          },
+          collection: {
+            type: "string",
+            description: "Optional: collection (name or ID) holding the document; needed for documents shared with the user",
+          },
+          tableIndex: {
+            type: "number",
+            description: "1-based table number within the document. Omit to list the tables.",
+          },
+          filters: {
+            type: "array",
+            description: "Optional: row filters, all of which must match. Numbers like $1,234 or (12) compare numerically.",
+            items: {
+              type: "object",
+              properties: {
+                column: { type: "string" },
+                op: { type: "string", enum: ["=", "!=", ">", ">=", "<", "<=", "contains"] },
+                value: { type: "string" },
+              },
+              required: ["column", "op", "value"],
+            },
+          },
+          aggregate: {
+            type: "string",
+            enum: ["sum", "avg", "min", "max", "count"],
+            description: "Optional: aggregate the matching rows instead of returning them",
+          },
+          column: {
+            type: "string",
+            description: "Column to aggregate (required for sum, avg, min and max)",
+          },
+          groupBy: {
+            type: "string",
+            description: "Optional: column to group by when aggregating",
+          },
+          columns: {
+            type: "array",
+            items: { type: "string" },
+            description: "Optional: columns to return when not aggregating (default: all)",
+          },
+          limit: {
+            type: "number",
+            description: "Maximum rows to return when not aggregating (default: 50)",
+          },
+        },
+        required: [],
+      },
+      async run({
+        fileName,
+        jobId,
+        collection,
+        tableIndex,
+        filters,
+        aggregate,
+        column,
+        groupBy,
+        columns,
+        limit,
+      }: {
+        fileName?: string;
+        jobId?: string;
+        collection?: string;
+        tableIndex?: number;
+        filters?: TableFilter[];
+        aggregate?: AggregateFunction;
+        column?: string;
+        groupBy?: string;
+        columns?: string[];
+        limit?: number;
+      }) {
+        try {
+          const { createClient } = await import("https://esm.sh/@supabase/supabase-js@2");
+          const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+          if (!jobId && !fileName) {
+            return "Specify the document with fileName or jobId. Use list_documents to see the uploaded documents.";
+          }
+
+          const scope = collection ? await resolveCollection(supabase, userId, collection) : null;
+          const job = await findDocumentJob(supabase, userId, { jobId, fileName, scope });
+          if (!job) {
+            return `Document not found: ${jobId ?? fileName}. Use list_documents to see the uploaded documents.`;
+          }
+
+          if (tableIndex === undefined) {
+            const { data: tables, error } = await supabase
+              .from("document_tables")
+              .select("table_index, page_number, title, columns, row_count, source")
+              .eq("job_id", job.id)
+              .order("table_index", { ascending: true });
+            if (error) {
+              return `Error listing tables: ${error.message}`;
+            }
+            if (!tables || tables.length === 0) {
+              return `No tables were extracted from ${job.file_name}. Use search_documents to read its text instead.`;
+            }
+            return JSON.stringify({
+              fileName: job.file_name,
+              jobId: job.id,
+              tables: (tables as DocumentTableListing[]).map((table) => ({
+                tableIndex: table.table_index,
+                title: table.title ?? undefined,
+                page: table.page_number ?? undefined,
+                columns: table.columns,
+                rowCount: table.row_count,
+                source: table.source,
+              })),
+            }, null, 2);
+          }
+
+          const { data: table, error: tableError } = await supabase
+            .from("document_tables")
+            .select("table_index, page_number, title, columns, rows")
+            .eq("job_id", job.id)
+            .eq("table_index", tableIndex)
+            .maybeSingle();
+          if (tableError) {
+            return `Error loading table: ${tableError.message}`;
+          }
+          if (!table) {
+            return `${job.file_name} has no table ${tableIndex}. Call query_document_table without tableIndex to list its tables.`;
+          }
+
+          const result = queryTable(
+            { columns: table.columns as string[], rows: table.rows as string[][] },
+            {
+              filters,
+              columns,
+              groupBy,
+              limit,
+              ...(aggregate ? { aggregate: { fn: aggregate, column } } : {}),
+            },
+          );
+
+          return JSON.stringify({
+            fileName: job.file_name,
+            tableIndex: table.table_index,
+            title: table.title ?? undefined,
+            citation: table.page_number ? `[${job.file_name} p.${table.page_number}]` : `[${job.file_name}]`,
+            result,
+            markdown: renderTableMarkdown(result),
+          }, null, 2);
+        } catch (error) {
+          if (error instanceof CollectionAccessError) {
+            return error.message;
+          }
+          const message = error instanceof Error ? error.message : String(error);
+          return `Error querying document table: ${message}`;
+        }
+      },
+    },
+    {
+      name: "summarize_document",
+      description:
+        "Summarize a whole uploaded document, however long. Use this instead of search_documents when the user asks to summarize, " +
+        "give an overview of, or get the gist of a document: search only sees a few passages, while this returns a summary of every " +
+        "section built when the document was indexed (cached, so it is fast). Returns a document summary plus per-section summaries with pages.",
+      parameters: {
+        type: "object",
+        properties: {
+          fileName: {
+            type: "string",
+            description: "Document file name, e.g. report.pdf. The latest version is used.",
+          },
+          jobId: {
+            type: "string",
+            description: "Optional: document job ID, instead of fileName",
+          },
+          collection: {
+            type: "string",
+            description: "Optional: collection (name or ID) holding the document; needed for documents shared with the user",
+          },
+          refresh: {
+            type: "boolean",
+            description: "Optional: rebuild the summary instead of using the cached one (slow for long documents; the document's owner only)",
+          },
+        },
+        required: [],
+      },
+      async run({
+        fileName,
+        jobId,
+        collection,
+        refresh = false,
+      }: {
+        fileName?: string;
+        jobId?: string;
+        collection?: string;
+        refresh?: boolean;
+      }) {
+        try {
+          const { createClient } = await import("https://esm.sh/@supabase/supabase-js@2");
+          const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+          if (!jobId && !fileName) {
+            return "Specify the document with fileName or jobId. Use list_documents to see the uploaded documents.";
+          }
+
+          const scope = collection ? await resolveCollection(supabase, userId, collection) : null;
+          const job = await findDocumentJob(supabase, userId, { jobId, fileName, scope });
+          if (!job) {
+            return `Document not found: ${jobId ?? fileName}. Use list_documents to see the uploaded documents.`;
+          }
+          // Rebuilding spends the owner's summarization budget; collection members read the cached one
+          if (refresh && job.user_id !== userId) {
+            return `Only the owner of ${job.file_name} can rebuild its summary. Call summarize_document without refresh to read the current one.`;
+          }
+
+          const cached = await loadStoredSummary(supabase, job.id);
+          if (!refresh && isSummaryPending(cached)) {
+            return `The summary of ${job.file_name} is still being generated. Tell the user it will be ready shortly, or use search_documents for specific questions meanwhile.`;
+          }
+
+          const apiKey = Deno.env.get("OPENAI_API_KEY");
+          let summary = cached?.status === "ready" && !refresh ? cached : null;
+          if (apiKey) {
+            // Returns the cached summary unless the document's indexed text changed
+            summary = await summarizeDocument(supabase, job.id, createOpenAISummarizer(apiKey), { refresh });
+          }
+          if (!summary) {
+            return `No summary is available for ${job.file_name} and summarization is not configured. Use search_documents instead.`;
+          }
+
+          return JSON.stringify({
+            fileName: job.file_name,
+            jobId: job.id,
+            summary: summary.summary,
+            sections: summary.sections.map((section) => ({
+              title: section.title,
+              citation: section.pageStart !== undefined ? `[${job.file_name} p.${section.pageStart}]` : `[${job.file_name}]`,
+              summary: section.summary,
+            })),
+            chunkCount: summary.chunkCount,
+            generatedAt: summary.generatedAt,
+          }, null, 2);
+        } catch (error) {
+          if (error instanceof CollectionAccessError || error instanceof SummaryError) {
+            return error.message;
+          }
+          const message = error instanceof Error ? error.message : String(error);
+          return `Error summarizing document: ${message}`;
+        }
+      },
+    },
     {
       name: "get_document_status",
       description:
@@ -488,24 +902,8 @@ export function createRagTools(
   ];
 }
 
-/**
- * Tool to list available MCP commands and RAG operations
- */
-export const listCommandsTool: Tool = {
-  name: "list_mcp_commands",
-  description: "Lists all available MCP commands and their usage. Use this when users ask 'what commands are available' or 'how do I use MCP commands'.",
-  parameters: {
-    type: "object",
-    properties: {
-      category: {
-        type: "string",
-        description: "Optional category filter: financial, prediction, knowledge, design, llm, automation",
-      },
-    },
-    required: [],
-  },
-  async run({ category }: { category?: string }) {
-    const commands = `
+// Built-in servers exposed through the mcp gateway function
+const STATIC_MCP_COMMANDS = `
 AVAILABLE MCP COMMANDS:
 
 1. ALPHAVANTAGE-MCP (Financial Data)
@@ -572,16 +970,97 @@ AVAILABLE MCP COMMANDS:
     - Search: Ask questions like "What does my document say about X?"
     - List: Ask "What documents do I have?" or "Show my documents"
     - Status: Ask "What's the status of document X?"
+    - Tables: Ask "What is the total of column Q3 in table 2 of report.pdf?"
     
     The orchestrator will automatically:
     - Use semantic search when you ask questions about document content
     - Process uploaded documents in the background
     - Include relevant document context in responses
 `;
-    return commands;
+
+/**
+ * Tool to list available MCP commands and RAG operations
+ */
+export const listCommandsTool: Tool = {
+  name: "list_mcp_commands",
+  description: "Lists all available MCP commands and their usage. Use this when users ask 'what commands are available' or 'how do I use MCP commands'.",
+  parameters: {
+    type: "object",
+    properties: {
+      category: {
+        type: "string",
+        description: "Optional category filter: financial, prediction, knowledge, design, llm, automation, custom",
+      },
+    },
+    required: [],
+  },
+  async run({ category }: { category?: string }) {
+    return STATIC_MCP_COMMANDS;
   },
 };
 
+/**
+ * Create a list_mcp_commands tool that also includes the tools discovered
+ * on the user's registered MCP servers (mcp_servers.tools).
+ */
+export function createListCommandsTool(
+  supabaseUrl: string,
+  supabaseServiceKey: string,
+  userId: string,
+): Tool {
+  return {
+    ...listCommandsTool,
+    async run({ category }: { category?: string }) {
+      try {
+        const { createClient } = await import("https://esm.sh/@supabase/supabase-js@2");
+        const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+        const { data: servers, error } = await supabase
+          .from("mcp_servers")
+          .select("id, name, tools")
+          .eq("user_id", userId)
+          .eq("is_active", true)
+          .order("created_at", { ascending: true });
+
+        if (error || !servers || servers.length === 0) {
+          return STATIC_MCP_COMMANDS;
+        }
+        if (category && category !== "custom") {
+          return STATIC_MCP_COMMANDS;
+        }
+
+        return `${STATIC_MCP_COMMANDS}\n${formatRegisteredServerCommands(servers)}`;
+      } catch (error) {
+        console.error("Failed to load registered MCP servers for list_mcp_commands:", error);
+        return STATIC_MCP_COMMANDS;
+      }
+    },
+  };
+}
+
+function formatRegisteredServerCommands(
+  servers: Array<{ id: string; name: string; tools: Array<{ name: string; description?: string; inputSchema?: Record<string, unknown> }> | null }>,
+): string {
+  const sections = servers.map((server, index) => {
+    const tools = server.tools ?? [];
+    const header = `${index + 1}. ${server.name.toUpperCase()} (User-registered server, id: ${server.id})`;
+    if (tools.length === 0) {
+      return `${header}\n   - No tools discovered yet (user can run /slashmcp refresh ${server.name})`;
+    }
+    const lines = tools.map(tool => {
+      const schema = tool.inputSchema ?? {};
+      const properties = Object.keys((schema.properties ?? {}) as Record<string, unknown>);
+      const required = new Set(Array.isArray(schema.required) ? (schema.required as string[]) : []);
+      const params = properties.map(name => (required.has(name) ? `${name}=VALUE` : `[${name}=VALUE]`)).join(" ");
+      const description = tool.description ? `: ${tool.description.split("\n")[0]}` : "";
+      return `   - ${tool.name}${description}\n     Format: /${server.name} ${tool.name}${params ? ` ${params}` : ""}`;
+    });
+    return `${header}\n${lines.join("\n")}`;
+  });
+
+  return `USER-REGISTERED MCP SERVERS (tools discovered via MCP tools/list):\n\n${sections.join("\n\n")}\n`;
+}
+
 /**
  * Help tool that lists all available capabilities including RAG
  */
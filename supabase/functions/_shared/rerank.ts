@@ -0,0 +1,231 @@
+/**
+ * Second-stage ranking for document search.
+ *
+ * doc-context retrieves a candidate pool with hybrid search, optionally rescores it
+ * with a reranker, then picks the final chunks with maximal marginal relevance (MMR)
+ * so overlapping chunks from the same page do not crowd out other passages.
+ *
+ * RERANK_PROVIDER selects the reranker: "none" (default), "llm" (an OpenAI chat model
+ * scores each passage) or "local" (a cross-encoder run on the CPU with transformers.js).
+ */
+
+export type RerankProviderName = "none" | "local" | "llm";
+
+export const RERANK_PROVIDERS: RerankProviderName[] = ["none", "local", "llm"];
+
+export interface Reranker {
+  name: Exclude<RerankProviderName, "none">;
+  model: string;
+  /** Relevance of each text to the query in [0, 1], in input order. */
+  score(query: string, texts: string[]): Promise<number[]>;
+}
+
+export interface RerankCandidate {
+  text: string;
+  /** Higher is better; any scale, normalised before MMR. */
+  relevance: number;
+  jobId: string;
+  pageNumber?: number;
+}
+
+export class RerankError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RerankError";
+  }
+}
+
+// Passages are cut to this length before scoring to bound prompt and tokenizer size
+const MAX_PASSAGE_CHARS = 1500;
+
+function createLLMReranker(apiKey: string): Reranker {
+  const model = Deno.env.get("RERANK_LLM_MODEL") ?? "gpt-4o-mini";
+
+  return {
+    name: "llm",
+    model,
+    async score(query, texts) {
+      const passages = texts
+        .map((text, index) => `[${index + 1}] ${text.slice(0, MAX_PASSAGE_CHARS)}`)
+        .join("\n\n");
+
+      const response = await fetch("https://api.openai.com/v1/chat/completions", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${apiKey}`,
+        },
+        body: JSON.stringify({
+          model,
+          temperature: 0,
+          response_format: { type: "json_object" },
+          messages: [
+            {
+              role: "system",
+              content:
+                "You rate how well passages answer a search query. " +
+                'Reply with JSON {"scores": [...]} containing one score from 0 (irrelevant) to 10 ' +
+                "(directly answers the query) per passage, in passage order.",
+            },
+            { role: "user", content: `Query: ${query}\n\nPassages:\n${passages}` },
+          ],
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new RerankError(`OpenAI API error: ${response.status} ${errorText}`);
+      }
+
+      const data = await response.json();
+      let scores: unknown;
+      try {
+        scores = JSON.parse(data.choices?.[0]?.message?.content ?? "{}").scores;
+      } catch {
+        throw new RerankError("Reranker returned invalid JSON");
+      }
+      if (!Array.isArray(scores) || scores.length !== texts.length) {
+        throw new RerankError(`Reranker returned ${Array.isArray(scores) ? scores.length : 0} scores for ${texts.length} passages`);
+      }
+      return scores.map((score) => Math.min(Math.max(Number(score) || 0, 0), 10) / 10);
+    },
+  };
+}
+
+type CrossEncoder = {
+  tokenizer: (
+    queries: string[],
+    options: { text_pair: string[]; padding: boolean; truncation: boolean },
+  ) => Record<string, unknown>;
+  model: (inputs: Record<string, unknown>) => Promise<{ logits: { data: ArrayLike<number> } }>;
+};
+
+// Loaded on first use and kept for the lifetime of the isolate
+let localCrossEncoder: Promise<CrossEncoder> | null = null;
+
+function createLocalReranker(): Reranker {
+  const model = Deno.env.get("RERANK_LOCAL_MODEL") ?? "Xenova/ms-marco-MiniLM-L-6-v2";
+
+  return {
+    name: "local",
+    model,
+    async score(query, texts) {
+      if (!localCrossEncoder) {
+        localCrossEncoder = (async () => {
+          const { AutoTokenizer, AutoModelForSequenceClassification, env } = await import(
+            "https://esm.sh/@xenova/transformers@2.17.2"
+          );
+          env.useBrowserCache = false;
+          env.allowLocalModels = false;
+          const tokenizer = await AutoTokenizer.from_pretrained(model);
+          const classifier = await AutoModelForSequenceClassification.from_pretrained(model, { quantized: true });
+          return { tokenizer, model: classifier } as unknown as CrossEncoder;
+        })();
+        localCrossEncoder.catch(() => {
+          localCrossEncoder = null;
+        });
+      }
+
+      const encoder = await localCrossEncoder;
+      const scores: number[] = [];
+      // Small batches keep peak memory low on the CPU
+      for (let i = 0; i < texts.length; i += 16) {
+        const batch = texts.slice(i, i + 16).map((text) => text.slice(0, MAX_PASSAGE_CHARS));
+        const inputs = encoder.tokenizer(new Array(batch.length).fill(query), {
+          text_pair: batch,
+          padding: true,
+          truncation: true,
+        });
+        const { logits } = await encoder.model(inputs);
+        // One relevance logit per pair
+        for (const logit of Array.from(logits.data)) {
+          scores.push(1 / (1 + Math.exp(-logit)));
+        }
+      }
+      if (scores.length !== texts.length) {
+        throw new RerankError(`Cross-encoder returned ${scores.length} scores for ${texts.length} passages`);
+      }
+      return scores;
+    },
+  };
+}
+
+/**
+ * Returns the requested reranker, or null for "none" or when its credentials are missing.
+ */
+export function getReranker(
+  name: string = Deno.env.get("RERANK_PROVIDER") ?? "none",
+): Reranker | null {
+  switch (name) {
+    case "none":
+      return null;
+    case "llm": {
+      const apiKey = Deno.env.get("OPENAI_API_KEY");
+      return apiKey ? createLLMReranker(apiKey) : null;
+    }
+    case "local":
+      return createLocalReranker();
+    default:
+      throw new RerankError(`Unknown rerank provider: ${name}`);
+  }
+}
+
+// Chunks from the same page count as at least this similar, since the chunk
+// overlap makes neighbours repeat each other even when their wording differs
+const SAME_PAGE_SIMILARITY = 0.6;
+
+function tokenSet(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) ?? []);
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const token of a) {
+    if (b.has(token)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Picks `limit` candidates by maximal marginal relevance:
+ * lambda * relevance - (1 - lambda) * max similarity to an already picked candidate.
+ * lambda = 1 keeps the relevance order; lower values favour diversity.
+ */
+export function selectDiverse<T extends RerankCandidate>(candidates: T[], limit: number, lambda: number): T[] {
+  if (candidates.length <= limit || lambda >= 1) {
+    return [...candidates].sort((a, b) => b.relevance - a.relevance).slice(0, limit);
+  }
+
+  const relevances = candidates.map((candidate) => candidate.relevance);
+  const min = Math.min(...relevances);
+  const range = Math.max(...relevances) - min || 1;
+  const pool = candidates.map((candidate) => ({
+    candidate,
+    relevance: (candidate.relevance - min) / range,
+    tokens: tokenSet(candidate.text),
+  }));
+
+  const picked: typeof pool = [];
+  while (picked.length < limit && pool.length > 0) {
+    let bestIndex = 0;
+    let bestScore = -Infinity;
+    pool.forEach((entry, index) => {
+      let redundancy = 0;
+      for (const chosen of picked) {
+        const samePage = entry.candidate.jobId === chosen.candidate.jobId &&
+          entry.candidate.pageNumber !== undefined &&
+          entry.candidate.pageNumber === chosen.candidate.pageNumber;
+        const similarity = Math.max(jaccard(entry.tokens, chosen.tokens), samePage ? SAME_PAGE_SIMILARITY : 0);
+        redundancy = Math.max(redundancy, similarity);
+      }
+      const score = lambda * entry.relevance - (1 - lambda) * redundancy;
+      if (score > bestScore) {
+        bestScore = score;
+        bestIndex = index;
+      }
+    });
+    picked.push(pool.splice(bestIndex, 1)[0]);
+  }
+  return picked.map((entry) => entry.candidate);
+}
@@ -0,0 +1,200 @@
+/**
+ * Envelope encryption for secrets stored in the database
+ *
+ * Each secret is encrypted with its own random AES-256-GCM data key; the data
+ * key is in turn encrypted ("wrapped") with the project master key from the
+ * environment. Rotating the master key only requires re-wrapping data keys,
+ * never re-encrypting the secrets themselves.
+ *
+ * Environment:
+ *   SECRETS_MASTER_KEY          - current master key (base64 of 32 bytes, or any passphrase)
+ *   SECRETS_MASTER_KEY_VERSION  - integer version of the current key (default 1)
+ *   SECRETS_MASTER_KEY_V<n>     - retired keys, kept until `secrets-rotate` has re-wrapped everything
+ */
+
+const ENVELOPE_FORMAT_VERSION = 1;
+const NONCE_BYTES = 12;
+const DATA_KEY_BYTES = 32;
+
+export interface SecretEnvelope {
+  /** Envelope format version. */
+  v: typeof ENVELOPE_FORMAT_VERSION;
+  /** Version of the master key that wrapped the data key. */
+  keyVersion: number;
+  /** Data key encrypted with the master key (base64). */
+  wrappedKey: string;
+  /** Nonce used to wrap the data key (base64). */
+  wrapNonce: string;
+  /** Nonce used to encrypt the secret (base64). */
+  nonce: string;
+  /** Secret encrypted with the data key, including the GCM tag (base64). */
+  ciphertext: string;
+}
+
+export class SecretCryptoError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SecretCryptoError";
+  }
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+const masterKeyCache = new Map<number, Promise<CryptoKey>>();
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach(b => (binary += String.fromCharCode(b)));
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i += 1) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function currentMasterKeyVersion(): number {
+  const raw = Deno.env.get("SECRETS_MASTER_KEY_VERSION");
+  const version = raw ? Number.parseInt(raw, 10) : 1;
+  if (!Number.isInteger(version) || version < 1) {
+    throw new SecretCryptoError(`Invalid SECRETS_MASTER_KEY_VERSION: ${raw}`);
+  }
+  return version;
+}
+
+function masterKeyMaterial(version: number): string | undefined {
+  if (version === currentMasterKeyVersion()) {
+    return Deno.env.get("SECRETS_MASTER_KEY") ?? Deno.env.get(`SECRETS_MASTER_KEY_V${version}`);
+  }
+  return Deno.env.get(`SECRETS_MASTER_KEY_V${version}`);
+}
+
+function getMasterKey(version: number): Promise<CryptoKey> {
+  let cached = masterKeyCache.get(version);
+  if (!cached) {
+    cached = (async () => {
+      const material = masterKeyMaterial(version);
+      if (!material) {
+        throw new SecretCryptoError(`Master key version ${version} is not configured`);
+      }
+
+      // Accept a raw 256-bit key in base64; otherwise derive one from the passphrase.
+      let raw: Uint8Array | null = null;
+      try {
+        const decoded = fromBase64(material.trim());
+        if (decoded.length === DATA_KEY_BYTES) raw = decoded;
+      } catch {
+        // Not base64 - treat as passphrase.
+      }
+      if (!raw) {
+        raw = new Uint8Array(await crypto.subtle.digest("SHA-256", encoder.encode(material)));
+      }
+
+      return crypto.subtle.importKey("raw", raw, "AES-GCM", false, ["encrypt", "decrypt"]);
+    })();
+    cached.catch(() => masterKeyCache.delete(version));
+    masterKeyCache.set(version, cached);
+  }
+  return cached;
+}
+
+async function aesGcm(
+  mode: "encrypt" | "decrypt",
+  key: CryptoKey,
+  nonce: Uint8Array,
+  data: Uint8Array,
+  additionalData: string,
+): Promise<Uint8Array> {
+  const params = { name: "AES-GCM", iv: nonce, additionalData: encoder.encode(additionalData) };
+  const result = mode === "encrypt"
+    ? await crypto.subtle.encrypt(params, key, data)
+    : await crypto.subtle.decrypt(params, key, data);
+  return new Uint8Array(result);
+}
+
+function wrapAad(keyVersion: number): string {
+  return `slashmcp:data-key:v${keyVersion}`;
+}
+
+async function wrapDataKey(rawDataKey: Uint8Array, keyVersion: number) {
+  const wrapNonce = crypto.getRandomValues(new Uint8Array(NONCE_BYTES));
+  const wrapped = await aesGcm("encrypt", await getMasterKey(keyVersion), wrapNonce, rawDataKey, wrapAad(keyVersion));
+  return { keyVersion, wrappedKey: toBase64(wrapped), wrapNonce: toBase64(wrapNonce) };
+}
+
+async function unwrapDataKey(envelope: SecretEnvelope): Promise<Uint8Array> {
+  try {
+    return await aesGcm(
+      "decrypt",
+      await getMasterKey(envelope.keyVersion),
+      fromBase64(envelope.wrapNonce),
+      fromBase64(envelope.wrappedKey),
+      wrapAad(envelope.keyVersion),
+    );
+  } catch (error) {
+    if (error instanceof SecretCryptoError) throw error;
+    throw new SecretCryptoError(`Unable to unwrap data key (master key v${envelope.keyVersion})`);
+  }
+}
+
+export function isSecretEnvelope(value: unknown): value is SecretEnvelope {
+  if (!value || typeof value !== "object") return false;
+  const candidate = value as Record<string, unknown>;
+  return (
+    candidate.v === ENVELOPE_FORMAT_VERSION &&
+    typeof candidate.keyVersion === "number" &&
+    typeof candidate.wrappedKey === "string" &&
+    typeof candidate.wrapNonce === "string" &&
+    typeof candidate.nonce === "string" &&
+    typeof candidate.ciphertext === "string"
+  );
+}
+
+/**
+ * Encrypt a secret under the current master key.
+ *
+ * @param context - Bound to the ciphertext as GCM additional data (the table
+ *   and column it is stored in, plus the row id and owner), so an envelope
+ *   cannot be moved to another column or row.
+ */
+export async function encryptSecret(plaintext: string, context: string): Promise<SecretEnvelope> {
+  const rawDataKey = crypto.getRandomValues(new Uint8Array(DATA_KEY_BYTES));
+  const dataKey = await crypto.subtle.importKey("raw", rawDataKey, "AES-GCM", false, ["encrypt"]);
+  const nonce = crypto.getRandomValues(new Uint8Array(NONCE_BYTES));
+  const ciphertext = await aesGcm("encrypt", dataKey, nonce, encoder.encode(plaintext), context);
+
+  return {
+    v: ENVELOPE_FORMAT_VERSION,
+    ...(await wrapDataKey(rawDataKey, currentMasterKeyVersion())),
+    nonce: toBase64(nonce),
+    ciphertext: toBase64(ciphertext),
+  };
+}
+
+export async function decryptSecret(envelope: SecretEnvelope, context: string): Promise<string> {
+  const dataKey = await crypto.subtle.importKey("raw", await unwrapDataKey(envelope), "AES-GCM", false, ["decrypt"]);
+  try {
+    const plaintext = await aesGcm("decrypt", dataKey, fromBase64(envelope.nonce), fromBase64(envelope.ciphertext), context);
+    return decoder.decode(plaintext);
+  } catch {
+    throw new SecretCryptoError("Unable to decrypt secret (wrong context or corrupted envelope)");
+  }
+}
+
+export function needsRewrap(envelope: SecretEnvelope): boolean {
+  return envelope.keyVersion !== currentMasterKeyVersion();
+}
+
+/**
+ * Re-wrap an envelope's data key under the current master key.
+ * The encrypted secret itself is left untouched.
+ */
+export async function rewrapSecret(envelope: SecretEnvelope): Promise<SecretEnvelope> {
+  if (!needsRewrap(envelope)) return envelope;
+  const rawDataKey = await unwrapDataKey(envelope);
+  return { ...envelope, ...(await wrapDataKey(rawDataKey, currentMasterKeyVersion())) };
+}
@@ -0,0 +1,332 @@
+/**
+ * Audio and video transcription for the document index.
+ *
+ * textract-worker sends uploaded recordings to OpenAI's transcription API and
+ * indexes the transcript like any other document. Files over the API's 25 MB
+ * limit are split first: MP3 at frame boundaries and WAV at sample boundaries
+ * (other containers cannot be cut without re-encoding, so they must fit).
+ *
+ * The transcript text is one line per speaker turn, prefixed with its start
+ * time, e.g. "[12:34] Speaker A: ...". TranscriptSpan records where each turn
+ * sits in the text so chunks can carry the time range they cover.
+ *
+ * TRANSCRIPTION_MODEL selects the model: "whisper-1" (default) returns timed
+ * segments; a diarizing model such as "gpt-4o-transcribe-diarize" also labels speakers.
+ * Each part of a split recording is diarized on its own, so its labels name the part
+ * too ("A (part 2)"): speaker A of one part need not be speaker A of the next.
+ */
+
+export type MediaKind = "audio" | "video";
+
+export interface MediaFormat {
+  kind: MediaKind;
+  /** File extension sent to the API, which uses it to pick the decoder. */
+  extension: string;
+}
+
+export interface TranscriptSegment {
+  /** Seconds from the start of the recording. */
+  start: number;
+  end: number;
+  text: string;
+  speaker?: string;
+}
+
+export interface Transcript {
+  segments: TranscriptSegment[];
+  duration: number;
+  language?: string;
+  model: string;
+  /** Number of API requests the file was split into. */
+  parts: number;
+}
+
+export interface TranscriptTurn {
+  start: number;
+  end: number;
+  speaker?: string;
+  text: string;
+}
+
+/** A turn's position in the transcript text and in the recording. */
+export interface TranscriptSpan {
+  start: number;
+  end: number;
+  startSeconds: number;
+  endSeconds: number;
+  speaker?: string;
+}
+
+export class TranscriptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TranscriptionError";
+  }
+}
+
+// The transcription API rejects larger uploads; stay under it with headroom for multipart overhead
+export const MAX_TRANSCRIPTION_REQUEST_BYTES = 24 * 1024 * 1024;
+// Turns longer than this are split so a citation lands near the quoted words
+const MAX_TURN_SECONDS = 60;
+// Without speaker labels, a pause this long starts a new turn
+const TURN_PAUSE_SECONDS = 2;
+
+const MEDIA_EXTENSIONS: Record<string, MediaKind> = {
+  mp3: "audio",
+  mpga: "audio",
+  m4a: "audio",
+  wav: "audio",
+  ogg: "audio",
+  oga: "audio",
+  flac: "audio",
+  mp4: "video",
+  mpeg: "video",
+  webm: "video",
+};
+
+/** Recordings the transcription API accepts, by extension or MIME type. */
+export function detectMediaFormat(fileType: string | null | undefined, fileName: string): MediaFormat | null {
+  const extension = fileName.toLowerCase().split(".").pop() ?? "";
+  if (MEDIA_EXTENSIONS[extension]) {
+    return { kind: MEDIA_EXTENSIONS[extension], extension };
+  }
+
+  const mime = (fileType ?? "").toLowerCase().split(";")[0].trim();
+  const byMime: Record<string, MediaFormat> = {
+    "audio/mpeg": { kind: "audio", extension: "mp3" },
+    "audio/mp3": { kind: "audio", extension: "mp3" },
+    "audio/mp4": { kind: "audio", extension: "m4a" },
+    "audio/x-m4a": { kind: "audio", extension: "m4a" },
+    "audio/wav": { kind: "audio", extension: "wav" },
+    "audio/x-wav": { kind: "audio", extension: "wav" },
+    "audio/wave": { kind: "audio", extension: "wav" },
+    "audio/webm": { kind: "audio", extension: "webm" },
+    "audio/ogg": { kind: "audio", extension: "ogg" },
+    "audio/flac": { kind: "audio", extension: "flac" },
+    "video/mp4": { kind: "video", extension: "mp4" },
+    "video/mpeg": { kind: "video", extension: "mpeg" },
+    "video/webm": { kind: "video", extension: "webm" },
+  };
+  return byMime[mime] ?? null;
+}
+
+/** "12:34", or "1:02:03" past the first hour. */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, "0");
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, "0")}:${secs}` : `${minutes}:${secs}`;
+}
+
+// MP3 frames start with an 11-bit sync word; decoders resynchronise at the next one
+function nextMp3Frame(bytes: Uint8Array, from: number): number {
+  for (let i = from; i < bytes.length - 1; i++) {
+    if (bytes[i] === 0xff && (bytes[i + 1] & 0xe0) === 0xe0) return i;
+  }
+  return bytes.length;
+}
+
+function splitMp3(bytes: Uint8Array, maxBytes: number): Uint8Array[] {
+  const parts: Uint8Array[] = [];
+  let start = 0;
+  while (start < bytes.length) {
+    // Without a frame boundary near the limit, cut at the limit and let the decoder resync
+    const end = bytes.length - start <= maxBytes
+      ? bytes.length
+      : Math.min(nextMp3Frame(bytes, start + maxBytes - 4096), start + maxBytes);
+    parts.push(bytes.subarray(start, end));
+    start = end;
+  }
+  return parts;
+}
+
+function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+// Each part gets a copy of the fmt chunk and a data chunk holding whole sample frames
+function splitWav(bytes: Uint8Array, maxBytes: number): Uint8Array[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (readAscii(bytes, 0, 4) !== "RIFF" || readAscii(bytes, 8, 4) !== "WAVE") {
+    throw new TranscriptionError("WAV file has no RIFF/WAVE header");
+  }
+
+  let fmt: Uint8Array | null = null;
+  let dataStart = -1;
+  let dataLength = 0;
+  for (let offset = 12; offset + 8 <= bytes.length;) {
+    const id = readAscii(bytes, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    if (id === "fmt ") fmt = bytes.subarray(offset, offset + 8 + size);
+    if (id === "data") {
+      dataStart = offset + 8;
+      dataLength = Math.min(size, bytes.length - dataStart);
+      break;
+    }
+    offset += 8 + size + (size % 2);
+  }
+  if (!fmt || dataStart < 0) {
+    throw new TranscriptionError("WAV file is missing its fmt or data chunk");
+  }
+
+  const blockAlign = Math.max(1, new DataView(fmt.buffer, fmt.byteOffset, fmt.byteLength).getUint16(20, true));
+  const headerLength = 12 + fmt.length + 8;
+  const partData = Math.floor((maxBytes - headerLength) / blockAlign) * blockAlign;
+
+  const parts: Uint8Array[] = [];
+  for (let offset = 0; offset < dataLength; offset += partData) {
+    const data = bytes.subarray(dataStart + offset, dataStart + Math.min(offset + partData, dataLength));
+    const part = new Uint8Array(headerLength + data.length);
+    const partView = new DataView(part.buffer);
+    part.set(new TextEncoder().encode("RIFF"), 0);
+    partView.setUint32(4, part.length - 8, true);
+    part.set(new TextEncoder().encode("WAVE"), 8);
+    part.set(fmt, 12);
+    part.set(new TextEncoder().encode("data"), 12 + fmt.length);
+    partView.setUint32(16 + fmt.length, data.length, true);
+    part.set(data, headerLength);
+    parts.push(part);
+  }
+  return parts;
+}
+
+/** Splits a recording into parts the API accepts. */
+export function splitMedia(bytes: Uint8Array, format: MediaFormat, maxBytes = MAX_TRANSCRIPTION_REQUEST_BYTES): Uint8Array[] {
+  if (bytes.length <= maxBytes) return [bytes];
+  if (format.extension === "mp3" || format.extension === "mpga") return splitMp3(bytes, maxBytes);
+  if (format.extension === "wav") return splitWav(bytes, maxBytes);
+  throw new TranscriptionError(
+    `${format.extension.toUpperCase()} recordings over ${Math.floor(maxBytes / (1024 * 1024))} MB cannot be split for transcription. ` +
+      "Convert the recording to MP3 or WAV and upload it again.",
+  );
+}
+
+export function getTranscriptionModel(): string {
+  return Deno.env.get("TRANSCRIPTION_MODEL") ?? "whisper-1";
+}
+
+type TranscriptionResponse = {
+  text?: string;
+  language?: string;
+  duration?: number;
+  segments?: Array<{ start?: number; end?: number; text?: string; speaker?: string }>;
+};
+
+async function transcribePart(
+  part: Uint8Array,
+  fileName: string,
+  apiKey: string,
+  model: string,
+  language?: string,
+): Promise<TranscriptionResponse> {
+  const diarize = model.includes("diarize");
+  const form = new FormData();
+  form.append("model", model);
+  if (diarize) {
+    form.append("response_format", "diarized_json");
+    form.append("chunking_strategy", "auto");
+  } else {
+    form.append("response_format", "verbose_json");
+    form.append("timestamp_granularities[]", "segment");
+  }
+  if (language) form.append("language", language);
+  form.append("file", new Blob([part]), fileName);
+
+  const response = await fetch("https://api.openai.com/v1/audio/transcriptions", {
+    method: "POST",
+    headers: { Authorization: `Bearer ${apiKey}` },
+    body: form,
+  });
+  if (!response.ok) {
+    throw new TranscriptionError(`Transcription failed (${response.status}): ${await response.text()}`);
+  }
+  return await response.json();
+}
+
+/**
+ * Transcribes a recording, splitting it when needed. Part timestamps are shifted
+ * by the duration of the parts before them, so segments use recording time.
+ */
+export async function transcribeMedia(
+  bytes: Uint8Array,
+  fileName: string,
+  format: MediaFormat,
+  apiKey: string,
+  options: { model?: string; language?: string } = {},
+): Promise<Transcript> {
+  const model = options.model ?? getTranscriptionModel();
+  const parts = splitMedia(bytes, format);
+  const baseName = fileName.replace(/\.[^.]+$/, "");
+
+  const segments: TranscriptSegment[] = [];
+  let offset = 0;
+  let language: string | undefined;
+  for (const [index, part] of parts.entries()) {
+    const result = await transcribePart(part, `${baseName}-${index + 1}.${format.extension}`, apiKey, model, options.language);
+    language ??= result.language;
+
+    const partSegments = (result.segments ?? [])
+      .filter((segment) => typeof segment.text === "string" && segment.text.trim())
+      .map((segment) => ({
+        start: offset + (segment.start ?? 0),
+        end: offset + (segment.end ?? segment.start ?? 0),
+        text: segment.text!.trim(),
+        speaker: segment.speaker && parts.length > 1 ? `${segment.speaker} (part ${index + 1})` : segment.speaker,
+      }));
+    // Some responses carry only text; keep it as one segment for the whole part
+    if (partSegments.length === 0 && result.text?.trim()) {
+      partSegments.push({ start: offset, end: offset + (result.duration ?? 0), text: result.text.trim(), speaker: undefined });
+    }
+    segments.push(...partSegments);
+    offset += result.duration ?? (partSegments.length > 0 ? partSegments[partSegments.length - 1].end - offset : 0);
+  }
+
+  if (segments.length === 0) {
+    throw new TranscriptionError("No speech detected in recording");
+  }
+  return { segments, duration: offset, language, model, parts: parts.length };
+}
+
+/** Merges segments into speaker turns, splitting long turns and, without speaker labels, at pauses. */
+export function buildSpeakerTurns(segments: TranscriptSegment[]): TranscriptTurn[] {
+  const turns: TranscriptTurn[] = [];
+  for (const segment of segments) {
+    const last = turns[turns.length - 1];
+    const sameSpeaker = last && last.speaker === segment.speaker;
+    const paused = last && !segment.speaker && segment.start - last.end >= TURN_PAUSE_SECONDS;
+    if (last && sameSpeaker && !paused && segment.end - last.start <= MAX_TURN_SECONDS) {
+      last.text = `${last.text} ${segment.text}`;
+      last.end = segment.end;
+    } else {
+      turns.push({ start: segment.start, end: segment.end, speaker: segment.speaker, text: segment.text });
+    }
+  }
+  return turns;
+}
+
+/** Transcript text with one timestamped line per turn, and where each turn sits in it. */
+export function formatTranscript(turns: TranscriptTurn[]): { text: string; spans: TranscriptSpan[] } {
+  const lines: string[] = [];
+  const spans: TranscriptSpan[] = [];
+  let offset = 0;
+  for (const turn of turns) {
+    const line = `[${formatTimestamp(turn.start)}] ${turn.speaker ? `Speaker ${turn.speaker}: ` : ""}${turn.text}`;
+    spans.push({ start: offset, end: offset + line.length, startSeconds: turn.start, endSeconds: turn.end, speaker: turn.speaker });
+    lines.push(line);
+    offset += line.length + 2;
+  }
+  return { text: lines.join("\n\n"), spans };
+}
+
+/** Chunk metadata for the part of a transcript between two text offsets. */
+export function describeTranscriptRange(spans: TranscriptSpan[], start: number, end: number): Record<string, unknown> {
+  const covered = spans.filter((span) => span.start < end && span.end > start);
+  if (covered.length === 0) return {};
+  const speakers = [...new Set(covered.map((span) => span.speaker).filter((speaker): speaker is string => !!speaker))];
+  return {
+    timeStart: Math.min(...covered.map((span) => span.startSeconds)),
+    timeEnd: Math.max(...covered.map((span) => span.endSeconds)),
+    ...(speakers.length > 0 ? { speakers } : {}),
+  };
+}
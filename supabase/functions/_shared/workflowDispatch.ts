@@ -0,0 +1,51 @@
+/**
+ * Hands a pending workflow run to workflow-execute.
+ *
+ * Shared by workflow-triggers (cron and webhook runs), workflow-execute
+ * (sub-workflow runs) and workflow-approvals (runs continued after approval),
+ * which all create or claim a `pending` execution and then dispatch it.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const SUPABASE_URL = Deno.env.get("PROJECT_URL") ?? Deno.env.get("SUPABASE_URL");
+const SUPABASE_SERVICE_ROLE_KEY =
+  Deno.env.get("SERVICE_ROLE_KEY") ?? Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+/**
+ * Asks workflow-execute (with the service role key) to run the pending execution.
+ * Returns why the run could not be started, if it could not; the execution is then
+ * marked failed unless it already left `pending`.
+ */
+export async function dispatchExecution(supabase: SupabaseClient, executionId: string): Promise<string | null> {
+  let error: string | null = null;
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    error = "Workflow dispatch is not configured (SUPABASE_URL and SERVICE_ROLE_KEY are required)";
+  } else {
+    try {
+      const response = await fetch(`${SUPABASE_URL}/functions/v1/workflow-execute`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ action: "dispatch", execution_id: executionId }),
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        error = body?.error ?? `workflow-execute returned ${response.status}`;
+      }
+    } catch (dispatchError) {
+      error = dispatchError instanceof Error ? dispatchError.message : String(dispatchError);
+    }
+  }
+
+  if (error) {
+    await supabase
+      .from("workflow_executions")
+      .update({ status: "failed", error_message: error, completed_at: new Date().toISOString() })
+      .eq("id", executionId)
+      .eq("status", "pending");
+  }
+  return error;
+}
@@ -0,0 +1,786 @@
+/**
+ * Workflow expression language
+ *
+ * A small, sandboxed and deterministic expression language used by condition
+ * and data nodes. Expressions are parsed into an AST and interpreted - nothing
+ * is ever handed to `eval`/`Function`, only own properties of plain data are
+ * reachable, and there are no functions with side effects or that read the
+ * clock or randomness.
+ *
+ * Syntax overview:
+ *   Paths       $.user.name   $name   input.items[0]   params.limit   items[-1]
+ *   Projection  $.items[*].name          (map over an array)
+ *   Filter      $.items[?price > 10]     (`@` or bare names refer to the element)
+ *   Literals    42  1.5  'text'  "text"  true  false  null  [1, 2, 3]
+ *   Operators   + - * / %   == != < <= > >=   in   && || !   and or not   ??   a ? b : c
+ *   Functions   length(x), lower(s), contains(list, x), round(n, digits), ...
+ *
+ * Name resolution: `$` is the node input; `input` and `params` (or
+ * `parameters`) are the node input and the workflow parameters; any other bare
+ * name is looked up on the current filter element, then the node input, then
+ * the workflow parameters.
+ *
+ * This module has no runtime dependencies so the workflow builder can use it
+ * to report parse errors before a workflow is saved.
+ */
+
+const MAX_EXPRESSION_LENGTH = 4000;
+const MAX_NESTING_DEPTH = 64;
+const MAX_EVALUATION_STEPS = 100_000;
+const FORBIDDEN_KEYS = new Set(["__proto__", "prototype", "constructor"]);
+
+export class WorkflowExpressionError extends Error {
+  /** Character offset of a parse error within the expression. */
+  readonly position?: number;
+
+  constructor(message: string, position?: number) {
+    super(position === undefined ? message : `${message} at position ${position + 1}`);
+    this.name = "WorkflowExpressionError";
+    this.position = position;
+  }
+}
+
+export interface ExpressionScope {
+  /** Data flowing into the node (what `$` refers to). */
+  input: unknown;
+  /** Workflow run parameters. */
+  params?: Record<string, unknown>;
+  /** Optional element bound to `@`, as inside a filter. */
+  current?: unknown;
+}
+
+export type ExpressionNode =
+  | { type: "literal"; value: unknown }
+  | { type: "array"; items: ExpressionNode[] }
+  | { type: "root" }
+  | { type: "current" }
+  | { type: "name"; name: string }
+  | { type: "member"; object: ExpressionNode; key: string }
+  | { type: "index"; object: ExpressionNode; index: ExpressionNode }
+  | { type: "projection"; object: ExpressionNode; filter: ExpressionNode | null; rest: ExpressionNode }
+  | { type: "unary"; operator: "!" | "-"; operand: ExpressionNode }
+  | { type: "binary"; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | { type: "conditional"; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode }
+  | { type: "call"; name: string; args: ExpressionNode[] };
+
+// ---------------------------------------------------------------------------
+// Tokenizer
+// ---------------------------------------------------------------------------
+
+type TokenType = "number" | "string" | "identifier" | "variable" | "operator" | "eof";
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+const OPERATORS = [
+  "==", "!=", "<=", ">=", "&&", "||", "??",
+  "+", "-", "*", "/", "%", "<", ">", "!", "?", ":", ".", ",", "(", ")", "[", "]", "@",
+];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i += 1;
+      continue;
+    }
+
+    if (/[0-9]/.test(char)) {
+      const match = /^[0-9]+(\.[0-9]+)?([eE][+-]?[0-9]+)?/.exec(source.slice(i))!;
+      tokens.push({ type: "number", value: match[0], position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      const start = i;
+      let value = "";
+      i += 1;
+      while (i < source.length && source[i] !== char) {
+        if (source[i] === "\\" && i + 1 < source.length) {
+          const escaped = source[i + 1];
+          value += escaped === "n" ? "\n" : escaped === "t" ? "\t" : escaped;
+          i += 2;
+        } else {
+          value += source[i];
+          i += 1;
+        }
+      }
+      if (i >= source.length) {
+        throw new WorkflowExpressionError("Unterminated string", start);
+      }
+      i += 1;
+      tokens.push({ type: "string", value, position: start });
+      continue;
+    }
+
+    if (char === "$") {
+      const match = /^\$([A-Za-z_][A-Za-z0-9_]*)?/.exec(source.slice(i))!;
+      tokens.push({ type: "variable", value: match[1] ?? "", position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!;
+      tokens.push({ type: "identifier", value: match[0], position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, i));
+    if (!operator) {
+      throw new WorkflowExpressionError(`Unexpected character '${char}'`, i);
+    }
+    tokens.push({ type: "operator", value: operator, position: i });
+    i += operator.length;
+  }
+
+  tokens.push({ type: "eof", value: "", position: source.length });
+  return tokens;
+}
+
+// ---------------------------------------------------------------------------
+// Parser (recursive descent, lowest precedence first)
+// ---------------------------------------------------------------------------
+
+const WORD_OPERATORS: Record<string, string> = { and: "&&", or: "||", not: "!" };
+const RESERVED_WORDS = new Set(["true", "false", "null", "and", "or", "not", "in"]);
+
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    const node = this.expression();
+    const next = this.peek();
+    if (next.type !== "eof") {
+      throw new WorkflowExpressionError(`Unexpected '${next.value}'`, next.position);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== "eof") this.index += 1;
+    return token;
+  }
+
+  /** Operator symbol of the next token, with `and`/`or`/`not`/`in` mapped to their symbols. */
+  private peekOperator(): string | null {
+    const token = this.peek();
+    if (token.type === "operator") return token.value;
+    if (token.type === "identifier") {
+      if (Object.prototype.hasOwnProperty.call(WORD_OPERATORS, token.value)) return WORD_OPERATORS[token.value];
+      if (token.value === "in") return "in";
+    }
+    return null;
+  }
+
+  private expect(operator: string): Token {
+    const token = this.peek();
+    if (token.type !== "operator" || token.value !== operator) {
+      const found = token.type === "eof" ? "end of expression" : `'${token.value}'`;
+      throw new WorkflowExpressionError(`Expected '${operator}' but found ${found}`, token.position);
+    }
+    return this.next();
+  }
+
+  private nested<T>(parse: () => T): T {
+    this.depth += 1;
+    if (this.depth > MAX_NESTING_DEPTH) {
+      throw new WorkflowExpressionError("Expression is nested too deeply", this.peek().position);
+    }
+    try {
+      return parse();
+    } finally {
+      this.depth -= 1;
+    }
+  }
+
+  private expression(): ExpressionNode {
+    return this.nested(() => this.conditional());
+  }
+
+  private conditional(): ExpressionNode {
+    const test = this.binary(0);
+    if (this.peekOperator() !== "?") return test;
+    this.next();
+    const consequent = this.expression();
+    this.expect(":");
+    const alternate = this.expression();
+    return { type: "conditional", test, consequent, alternate };
+  }
+
+  private static readonly PRECEDENCE: string[][] = [
+    ["??"],
+    ["||"],
+    ["&&"],
+    ["==", "!="],
+    ["<", "<=", ">", ">=", "in"],
+    ["+", "-"],
+    ["*", "/", "%"],
+  ];
+
+  private binary(level: number): ExpressionNode {
+    if (level >= Parser.PRECEDENCE.length) return this.unary();
+    let left = this.binary(level + 1);
+    for (;;) {
+      const operator = this.peekOperator();
+      if (!operator || !Parser.PRECEDENCE[level].includes(operator)) return left;
+      this.next();
+      const right = this.binary(level + 1);
+      left = { type: "binary", operator, left, right };
+    }
+  }
+
+  private unary(): ExpressionNode {
+    const operator = this.peekOperator();
+    if (operator === "!" || operator === "-") {
+      this.next();
+      return { type: "unary", operator, operand: this.nested(() => this.unary()) };
+    }
+    return this.postfix(this.primary());
+  }
+
+  /**
+   * Member access, indexing and projections. After `[*]` or `[?filter]` the
+   * rest of the chain is applied to each element (JMESPath-style).
+   */
+  private postfix(object: ExpressionNode): ExpressionNode {
+    for (;;) {
+      const operator = this.peekOperator();
+      if (operator === ".") {
+        this.next();
+        const token = this.next();
+        if (token.type !== "identifier" && token.type !== "string" && token.type !== "number") {
+          throw new WorkflowExpressionError("Expected a property name after '.'", token.position);
+        }
+        object = { type: "member", object, key: token.value };
+        continue;
+      }
+      if (operator === "[") {
+        this.next();
+        const inner = this.peek();
+        if (inner.type === "operator" && (inner.value === "*" || inner.value === "?")) {
+          this.next();
+          const filter = inner.value === "?" ? this.expression() : null;
+          this.expect("]");
+          const rest = this.postfix({ type: "current" });
+          return { type: "projection", object, filter, rest };
+        }
+        const index = this.expression();
+        this.expect("]");
+        object = { type: "index", object, index };
+        continue;
+      }
+      return object;
+    }
+  }
+
+  private primary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case "number":
+        return { type: "literal", value: Number(token.value) };
+      case "string":
+        return { type: "literal", value: token.value };
+      case "variable":
+        return token.value
+          ? { type: "member", object: { type: "root" }, key: token.value }
+          : { type: "root" };
+      case "identifier": {
+        if (token.value === "true") return { type: "literal", value: true };
+        if (token.value === "false") return { type: "literal", value: false };
+        if (token.value === "null") return { type: "literal", value: null };
+        if (RESERVED_WORDS.has(token.value)) {
+          throw new WorkflowExpressionError(`Unexpected '${token.value}'`, token.position);
+        }
+        if (this.peekOperator() === "(") {
+          return this.call(token);
+        }
+        return { type: "name", name: token.value };
+      }
+      case "operator":
+        if (token.value === "(") {
+          const inner = this.expression();
+          this.expect(")");
+          return inner;
+        }
+        if (token.value === "[") {
+          const items: ExpressionNode[] = [];
+          if (this.peekOperator() !== "]") {
+            do {
+              items.push(this.expression());
+            } while (this.peekOperator() === "," && this.next());
+          }
+          this.expect("]");
+          return { type: "array", items };
+        }
+        if (token.value === "@") {
+          return { type: "current" };
+        }
+        throw new WorkflowExpressionError(`Unexpected '${token.value}'`, token.position);
+      default:
+        throw new WorkflowExpressionError("Unexpected end of expression", token.position);
+    }
+  }
+
+  private call(token: Token): ExpressionNode {
+    const fn = findFunction(token.value);
+    if (!fn) {
+      throw new WorkflowExpressionError(`Unknown function '${token.value}'`, token.position);
+    }
+    this.expect("(");
+    const args: ExpressionNode[] = [];
+    if (this.peekOperator() !== ")") {
+      do {
+        args.push(this.expression());
+      } while (this.peekOperator() === "," && this.next());
+    }
+    this.expect(")");
+    if (args.length < fn.minArgs || args.length > fn.maxArgs) {
+      const expected = fn.minArgs === fn.maxArgs ? `${fn.minArgs}` : `${fn.minArgs}-${fn.maxArgs}`;
+      throw new WorkflowExpressionError(
+        `${token.value}() expects ${expected} argument(s), got ${args.length}`,
+        token.position,
+      );
+    }
+    return { type: "call", name: token.value, args };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Values
+// ---------------------------------------------------------------------------
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null || value === undefined) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+/** Truthiness used by conditions: null, false, 0, "", [] and {} are false. */
+export function isTruthy(value: unknown): boolean {
+  if (value === null || value === undefined || value === false) return false;
+  if (typeof value === "number") return value !== 0 && !Number.isNaN(value);
+  if (typeof value === "string") return value.length > 0;
+  if (Array.isArray(value)) return value.length > 0;
+  if (isPlainObject(value)) return Object.keys(value).length > 0;
+  return true;
+}
+
+function getProperty(value: unknown, key: string): unknown {
+  if (FORBIDDEN_KEYS.has(key)) return undefined;
+  if (Array.isArray(value)) {
+    return /^-?[0-9]+$/.test(key) ? getIndex(value, Number(key)) : undefined;
+  }
+  if (isPlainObject(value) && Object.prototype.hasOwnProperty.call(value, key)) {
+    return value[key];
+  }
+  return undefined;
+}
+
+function getIndex(list: unknown[], index: number): unknown {
+  if (!Number.isInteger(index)) return undefined;
+  return list[index < 0 ? list.length + index : index];
+}
+
+/** Numbers, plus numeric strings (parameters and tool output often arrive as text). */
+function toNumber(value: unknown): number | null {
+  if (typeof value === "number") return Number.isNaN(value) ? null : value;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value);
+    return Number.isNaN(parsed) ? null : parsed;
+  }
+  return null;
+}
+
+function requireNumber(value: unknown, operator: string): number {
+  const number = toNumber(value);
+  if (number === null) {
+    throw new WorkflowExpressionError(`'${operator}' expects numbers, got ${typeOf(value)}`);
+  }
+  return number;
+}
+
+function toText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "string") return value;
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  return JSON.stringify(value);
+}
+
+function deepEqual(left: unknown, right: unknown): boolean {
+  if (left === right) return true;
+  if ((left === null || left === undefined) && (right === null || right === undefined)) return true;
+  if (typeof left === "number" || typeof right === "number") {
+    const a = toNumber(left);
+    const b = toNumber(right);
+    return a !== null && b !== null && typeof left !== "boolean" && typeof right !== "boolean" && a === b;
+  }
+  if (Array.isArray(left) && Array.isArray(right)) {
+    return left.length === right.length && left.every((item, i) => deepEqual(item, right[i]));
+  }
+  if (isPlainObject(left) && isPlainObject(right)) {
+    const keys = Object.keys(left);
+    return keys.length === Object.keys(right).length && keys.every(key => deepEqual(left[key], right[key]));
+  }
+  return false;
+}
+
+function compare(left: unknown, right: unknown, operator: string): boolean {
+  const a = toNumber(left);
+  const b = toNumber(right);
+  let order: number;
+  if (a !== null && b !== null && typeof left !== "boolean" && typeof right !== "boolean") {
+    order = a - b;
+  } else if (typeof left === "string" && typeof right === "string") {
+    order = left < right ? -1 : left > right ? 1 : 0;
+  } else {
+    // Mismatched or missing operands never satisfy an ordering comparison.
+    return false;
+  }
+  switch (operator) {
+    case "<":
+      return order < 0;
+    case "<=":
+      return order <= 0;
+    case ">":
+      return order > 0;
+    default:
+      return order >= 0;
+  }
+}
+
+function contains(haystack: unknown, needle: unknown): boolean {
+  if (Array.isArray(haystack)) return haystack.some(item => deepEqual(item, needle));
+  if (typeof haystack === "string") return haystack.includes(toText(needle));
+  if (isPlainObject(haystack)) return typeof needle === "string" && getProperty(haystack, needle) !== undefined;
+  return false;
+}
+
+function requireArray(value: unknown, fn: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new WorkflowExpressionError(`${fn}() expects an array, got ${typeOf(value)}`);
+  }
+  return value;
+}
+
+function numbersOf(value: unknown, fn: string): number[] {
+  return requireArray(value, fn).map(item => requireNumber(item, `${fn}()`));
+}
+
+// ---------------------------------------------------------------------------
+// Functions
+// ---------------------------------------------------------------------------
+
+interface ExpressionFunction {
+  minArgs: number;
+  maxArgs: number;
+  call: (...args: unknown[]) => unknown;
+}
+
+const FUNCTIONS: Record<string, ExpressionFunction> = {
+  length: {
+    minArgs: 1,
+    maxArgs: 1,
+    call: value => {
+      if (typeof value === "string" || Array.isArray(value)) return value.length;
+      if (isPlainObject(value)) return Object.keys(value).length;
+      return 0;
+    },
+  },
+  lower: { minArgs: 1, maxArgs: 1, call: value => toText(value).toLowerCase() },
+  upper: { minArgs: 1, maxArgs: 1, call: value => toText(value).toUpperCase() },
+  trim: { minArgs: 1, maxArgs: 1, call: value => toText(value).trim() },
+  contains: { minArgs: 2, maxArgs: 2, call: (haystack, needle) => contains(haystack, needle) },
+  starts_with: { minArgs: 2, maxArgs: 2, call: (value, prefix) => toText(value).startsWith(toText(prefix)) },
+  ends_with: { minArgs: 2, maxArgs: 2, call: (value, suffix) => toText(value).endsWith(toText(suffix)) },
+  replace: {
+    minArgs: 3,
+    maxArgs: 3,
+    call: (value, search, replacement) => toText(value).split(toText(search)).join(toText(replacement)),
+  },
+  split: { minArgs: 2, maxArgs: 2, call: (value, separator) => toText(value).split(toText(separator)) },
+  join: {
+    minArgs: 1,
+    maxArgs: 2,
+    call: (list, separator) => requireArray(list, "join").map(toText).join(separator === undefined ? "," : toText(separator)),
+  },
+  substring: {
+    minArgs: 2,
+    maxArgs: 3,
+    call: (value, start, end) =>
+      toText(value).slice(requireNumber(start, "substring()"), end === undefined ? undefined : requireNumber(end, "substring()")),
+  },
+  number: { minArgs: 1, maxArgs: 1, call: value => toNumber(value) },
+  string: { minArgs: 1, maxArgs: 1, call: value => toText(value) },
+  boolean: { minArgs: 1, maxArgs: 1, call: value => isTruthy(value) },
+  type: { minArgs: 1, maxArgs: 1, call: value => typeOf(value) },
+  round: {
+    minArgs: 1,
+    maxArgs: 2,
+    call: (value, digits) => {
+      const factor = 10 ** (digits === undefined ? 0 : requireNumber(digits, "round()"));
+      return Math.round(requireNumber(value, "round()") * factor) / factor;
+    },
+  },
+  floor: { minArgs: 1, maxArgs: 1, call: value => Math.floor(requireNumber(value, "floor()")) },
+  ceil: { minArgs: 1, maxArgs: 1, call: value => Math.ceil(requireNumber(value, "ceil()")) },
+  abs: { minArgs: 1, maxArgs: 1, call: value => Math.abs(requireNumber(value, "abs()")) },
+  min: {
+    minArgs: 1,
+    maxArgs: 1,
+    call: list => {
+      const numbers = numbersOf(list, "min");
+      return numbers.length ? Math.min(...numbers) : null;
+    },
+  },
+  max: {
+    minArgs: 1,
+    maxArgs: 1,
+    call: list => {
+      const numbers = numbersOf(list, "max");
+      return numbers.length ? Math.max(...numbers) : null;
+    },
+  },
+  sum: { minArgs: 1, maxArgs: 1, call: list => numbersOf(list, "sum").reduce((total, n) => total + n, 0) },
+  avg: {
+    minArgs: 1,
+    maxArgs: 1,
+    call: list => {
+      const numbers = numbersOf(list, "avg");
+      return numbers.length ? numbers.reduce((total, n) => total + n, 0) / numbers.length : null;
+    },
+  },
+  first: { minArgs: 1, maxArgs: 1, call: list => (Array.isArray(list) ? list[0] ?? null : null) },
+  last: { minArgs: 1, maxArgs: 1, call: list => (Array.isArray(list) ? list[list.length - 1] ?? null : null) },
+  sort: {
+    minArgs: 1,
+    maxArgs: 1,
+    call: list =>
+      [...requireArray(list, "sort")].sort((a, b) => (compare(a, b, "<") ? -1 : compare(a, b, ">") ? 1 : 0)),
+  },
+  unique: {
+    minArgs: 1,
+    maxArgs: 1,
+    call: list =>
+      requireArray(list, "unique").filter((item, i, all) => all.findIndex(other => deepEqual(other, item)) === i),
+  },
+  keys: { minArgs: 1, maxArgs: 1, call: value => (isPlainObject(value) ? Object.keys(value) : []) },
+  values: { minArgs: 1, maxArgs: 1, call: value => (isPlainObject(value) ? Object.values(value) : []) },
+  exists: { minArgs: 1, maxArgs: 1, call: value => value !== null && value !== undefined },
+  coalesce: {
+    minArgs: 1,
+    maxArgs: 16,
+    call: (...args) => args.find(value => value !== null && value !== undefined) ?? null,
+  },
+  json: { minArgs: 1, maxArgs: 1, call: value => JSON.stringify(value ?? null) },
+};
+
+// Own properties only, so names inherited from Object.prototype are not functions
+function findFunction(name: string): ExpressionFunction | undefined {
+  return Object.prototype.hasOwnProperty.call(FUNCTIONS, name) ? FUNCTIONS[name] : undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+interface EvaluationState {
+  scope: ExpressionScope;
+  /** Element bound by the innermost projection or filter (`@`). */
+  current: unknown;
+  inProjection: boolean;
+  steps: number;
+}
+
+function resolveName(name: string, state: EvaluationState): unknown {
+  if (state.inProjection) {
+    const fromElement = getProperty(state.current, name);
+    if (fromElement !== undefined) return fromElement;
+  }
+  if (name === "input") return state.scope.input;
+  if (name === "params" || name === "parameters") return state.scope.params ?? {};
+
+  const fromInput = getProperty(state.scope.input, name);
+  if (fromInput !== undefined) return fromInput;
+  return getProperty(state.scope.params ?? {}, name);
+}
+
+function evaluate(node: ExpressionNode, state: EvaluationState): unknown {
+  state.steps += 1;
+  if (state.steps > MAX_EVALUATION_STEPS) {
+    throw new WorkflowExpressionError("Expression exceeded the evaluation budget");
+  }
+
+  switch (node.type) {
+    case "literal":
+      return node.value;
+    case "array":
+      return node.items.map(item => evaluate(item, state));
+    case "root":
+      return state.scope.input;
+    case "current":
+      return state.current;
+    case "name":
+      return resolveName(node.name, state);
+    case "member":
+      return getProperty(evaluate(node.object, state), node.key);
+    case "index": {
+      const object = evaluate(node.object, state);
+      const index = evaluate(node.index, state);
+      if (Array.isArray(object) && typeof index === "number") return getIndex(object, index);
+      if (typeof object === "string" && typeof index === "number") return getIndex([...object], index);
+      return typeof index === "string" || typeof index === "number" ? getProperty(object, String(index)) : undefined;
+    }
+    case "projection": {
+      const object = evaluate(node.object, state);
+      const elements = Array.isArray(object) ? object : isPlainObject(object) ? Object.values(object) : null;
+      if (!elements) return null;
+      const results: unknown[] = [];
+      for (const element of elements) {
+        const inner: EvaluationState = { ...state, current: element, inProjection: true };
+        const keep = node.filter ? isTruthy(evaluate(node.filter, inner)) : true;
+        if (keep) {
+          const value = evaluate(node.rest, inner);
+          state.steps = inner.steps;
+          if (value !== null && value !== undefined) results.push(value);
+        } else {
+          state.steps = inner.steps;
+        }
+      }
+      return results;
+    }
+    case "unary": {
+      const operand = evaluate(node.operand, state);
+      return node.operator === "!" ? !isTruthy(operand) : -requireNumber(operand, "-");
+    }
+    case "conditional":
+      return isTruthy(evaluate(node.test, state))
+        ? evaluate(node.consequent, state)
+        : evaluate(node.alternate, state);
+    case "call": {
+      const fn = findFunction(node.name);
+      if (!fn) throw new WorkflowExpressionError(`Unknown function '${node.name}'`);
+      return fn.call(...node.args.map(arg => evaluate(arg, state)));
+    }
+    case "binary":
+      return evaluateBinary(node.operator, node.left, node.right, state);
+  }
+}
+
+function evaluateBinary(operator: string, leftNode: ExpressionNode, rightNode: ExpressionNode, state: EvaluationState) {
+  // Short-circuiting operators return one of their operands.
+  const left = evaluate(leftNode, state);
+  if (operator === "&&") return isTruthy(left) ? evaluate(rightNode, state) : left;
+  if (operator === "||") return isTruthy(left) ? left : evaluate(rightNode, state);
+  if (operator === "??") return left === null || left === undefined ? evaluate(rightNode, state) : left;
+
+  const right = evaluate(rightNode, state);
+  switch (operator) {
+    case "==":
+      return deepEqual(left, right);
+    case "!=":
+      return !deepEqual(left, right);
+    case "<":
+    case "<=":
+    case ">":
+    case ">=":
+      return compare(left, right, operator);
+    case "in":
+      return contains(right, left);
+    case "+":
+      if (Array.isArray(left) && Array.isArray(right)) return [...left, ...right];
+      if (typeof left === "string" || typeof right === "string") return toText(left) + toText(right);
+      return requireNumber(left, "+") + requireNumber(right, "+");
+    case "-":
+      return requireNumber(left, "-") - requireNumber(right, "-");
+    case "*":
+      return requireNumber(left, "*") * requireNumber(right, "*");
+    case "/":
+    case "%": {
+      const divisor = requireNumber(right, operator);
+      if (divisor === 0) throw new WorkflowExpressionError("Division by zero");
+      const dividend = requireNumber(left, operator);
+      return operator === "/" ? dividend / divisor : dividend % divisor;
+    }
+    default:
+      throw new WorkflowExpressionError(`Unsupported operator '${operator}'`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+const parseCache = new Map<string, ExpressionNode>();
+const PARSE_CACHE_LIMIT = 500;
+
+/**
+ * Parse an expression, throwing a WorkflowExpressionError on invalid syntax.
+ */
+export function parseExpression(source: string): ExpressionNode {
+  const cached = parseCache.get(source);
+  if (cached) return cached;
+
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new WorkflowExpressionError(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+  if (!source.trim()) {
+    throw new WorkflowExpressionError("Expression is empty");
+  }
+
+  const ast = new Parser(tokenize(source)).parse();
+  if (parseCache.size >= PARSE_CACHE_LIMIT) parseCache.clear();
+  parseCache.set(source, ast);
+  return ast;
+}
+
+/**
+ * Returns the parse error message for an expression, or null when it is valid.
+ */
+export function validateExpression(source: string): string | null {
+  try {
+    parseExpression(source);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Evaluate an expression against a node's input and the workflow parameters.
+ * Missing paths evaluate to null rather than throwing.
+ */
+export function evaluateExpression(source: string, scope: ExpressionScope): unknown {
+  const result = evaluate(parseExpression(source), {
+    scope,
+    current: scope.current,
+    inProjection: scope.current !== undefined,
+    steps: 0,
+  });
+  return result === undefined ? null : result;
+}
@@ -20,6 +20,7 @@ import {
   createRagTools,
   helpTool,
   listCommandsTool,
+  createListCommandsTool,
   classifyQuery,
   getDocumentContext,
   formatDocumentContext,
@@ -116,9 +117,13 @@ async function executeOrchestration(
     });
 
     // Build tools array
+    const commandsTool =
+      SUPABASE_URL && SUPABASE_SERVICE_ROLE_KEY && input.userId
+        ? createListCommandsTool(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, input.userId)
+        : listCommandsTool;
     const tools = [
       createMcpProxyTool(MCP_GATEWAY_URL, authHeader),
-      listCommandsTool,
+      commandsTool,
       helpTool,
     ];
     
@@ -141,7 +146,7 @@ async function executeOrchestration(
 
     // Create agents
     const mcpToolAgent = createMcpToolAgent(tools);
-    const commandDiscoveryAgent = createCommandDiscoveryAgent(mcpToolAgent);
+    const commandDiscoveryAgent = createCommandDiscoveryAgent(mcpToolAgent, commandsTool);
     const [commandDiscoveryHandoff, mcpHandoff, finalHandoff] = createHandoffs(
       mcpToolAgent,
       commandDiscoveryAgent,
@@ -194,7 +199,12 @@ async function executeOrchestration(
           enhancedInstructions += `- Query mentions documents/files - this is a DOCUMENT QUERY\n`;
         }
         
-        if (documentContext.readyDocuments > 0) {
+        if (documentContext.readyDocuments > 0 && classification.suggestedTool === "summarize_document") {
+          enhancedInstructions += `\n=== ACTION REQUIRED ===\n`;
+          enhancedInstructions += `- The user wants a summary of a whole document\n`;
+          enhancedInstructions += `- YOU MUST use the summarize_document tool${classification.context.documentName ? ` with fileName "${classification.context.documentName}"` : ""}\n`;
+          enhancedInstructions += `- DO NOT summarize from search_documents results - they only cover a few passages\n\n`;
+        } else if (documentContext.readyDocuments > 0) {
           enhancedInstructions += `\n=== ACTION REQUIRED ===\n`;
           enhancedInstructions += `- ${documentContext.readyDocuments} document(s) are ready for search\n`;
           enhancedInstructions += `- YOU MUST use the search_documents tool immediately\n`;
@@ -235,7 +245,7 @@ async function executeOrchestration(
     
     // Log for debugging
     if (classification.intent === "document") {
-      console.log(`Document query detected - injecting context and routing to search_documents`);
+      console.log(`Document query detected - injecting context and routing to ${classification.suggestedTool}`);
     }
 
     // Convert to AgentInputItem format
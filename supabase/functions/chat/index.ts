@@ -15,6 +15,7 @@ import {
   createMemoryTools,
   createMcpProxyTool,
   createRagTools,
+  createListCommandsTool,
   classifyQuery,
   getDocumentContext,
   formatDocumentContext,
@@ -182,7 +183,8 @@ type DocumentContextPayload = {
   token: string;
   stage: JobStage | null;
   rawMetadata?: Record<string, unknown> | null;
-  chunks: Array<{ id: string; content: string }>;
+  // Search modes add the chunk's similarity and inline citation
+  chunks: Array<{ id: string; content: string; similarity?: number; citation?: string }>;
   summary?: string | null;
   metadata?: {
     textLength?: number;
@@ -437,21 +439,21 @@ serve(async (req) => {
           !/^(hi|hello|hey|thanks|thank you|ok|okay|yes|no)$/i.test(userQuery.trim());
 
         let docContexts: DocumentContextPayload[] = [];
-        let searchMode: "vector" | "legacy" = "legacy";
+        let searchMode: "vector" | "keyword" | "hybrid" | "legacy" = "legacy";
         
         try {
           const requestBody: {
             jobIds: string[];
             query?: string;
             limit?: number;
-            similarity_threshold?: number;
+            searchMode?: "hybrid";
           } = { jobIds };
 
-          // Add query for vector search if appropriate
+          // Add query for hybrid (keyword + vector) search if appropriate
           if (shouldUseVectorSearch) {
             requestBody.query = userQuery;
             requestBody.limit = 10; // Get top 10 most relevant chunks
-            requestBody.similarity_threshold = 0.7; // Minimum similarity threshold
+            requestBody.searchMode = "hybrid";
           }
 
           // Add timeout to prevent hanging
@@ -489,7 +491,7 @@ serve(async (req) => {
           }
           const parsed = await response.json().catch(() => null);
           docContexts = Array.isArray(parsed?.contexts) ? (parsed.contexts as DocumentContextPayload[]) : [];
-          searchMode = parsed?.searchMode === "vector" ? "vector" : "legacy";
+          searchMode = ["vector", "keyword", "hybrid"].includes(parsed?.searchMode) ? parsed.searchMode : "legacy";
         } catch (contextError) {
           console.error("Failed to retrieve document contexts:", contextError);
         }
@@ -499,9 +501,9 @@ serve(async (req) => {
             const combinedText =
               ctx.chunks && ctx.chunks.length > 0
                 ? ctx.chunks.map(chunk => {
-                    // Include similarity score if available (vector search mode)
-                    const similarity = (chunk as any).similarity;
-                    const content = chunk.content;
+                    // Include the citation and similarity score if available (search modes)
+                    const { similarity, citation } = chunk;
+                    const content = citation ? `${citation} ${chunk.content}` : chunk.content;
                     return similarity !== undefined 
                       ? `[Similarity: ${(similarity * 100).toFixed(1)}%] ${content}`
                       : content;
@@ -512,11 +514,11 @@ serve(async (req) => {
                 ? `${combinedText.slice(0, 10000)}\n\n[... ${combinedText.length - 10000} more characters ...]`
                 : combinedText;
             const parts: string[] = [`📄 Document: "${ctx.fileName}"`];
-            if (searchMode === "vector") {
-              parts.push(`\n🔍 Retrieved via semantic search (${ctx.chunks?.length || 0} relevant chunks)`);
+            if (searchMode !== "legacy") {
+              parts.push(`\n🔍 Retrieved via ${searchMode} search (${ctx.chunks?.length || 0} relevant chunks)`);
             }
             if (preview) {
-              parts.push(`\n📝 ${searchMode === "vector" ? "Relevant Content" : "Extracted Text Preview"}:\n${preview}`);
+              parts.push(`\n📝 ${searchMode !== "legacy" ? "Relevant Content" : "Extracted Text Preview"}:\n${preview}`);
             } else if (ctx.summary) {
               parts.push(`\n👁️ Visual Summary:\n${ctx.summary}`);
             }
@@ -535,7 +537,10 @@ serve(async (req) => {
             return parts.join("");
           });
 
-          const contextBlock = `[AVAILABLE DOCUMENT CONTEXT]\n${contextSections.join("\n\n---\n\n")}`;
+          const citationHint = docContexts.some(ctx => ctx.chunks?.some(chunk => chunk.citation))
+            ? "Cite excerpts you rely on inline using the bracketed citation before each one, e.g. [report.pdf p.12].\n"
+            : "";
+          const contextBlock = `[AVAILABLE DOCUMENT CONTEXT]\n${citationHint}${contextSections.join("\n\n---\n\n")}`;
           const lastMessageIndex = augmentedMessages.length - 1;
           if (lastMessageIndex >= 0) {
             const lastMessage = augmentedMessages[lastMessageIndex];
@@ -564,7 +569,7 @@ serve(async (req) => {
                 token: ctx.token,
                 chunkCount: ctx.chunks?.length ?? 0,
                 textLength: ctx.metadata?.textLength ?? ctx.chunks?.[0]?.content?.length ?? 0,
-                avgSimilarity: searchMode === "vector" && ctx.chunks && ctx.chunks.length > 0
+                avgSimilarity: (searchMode === "vector" || searchMode === "hybrid") && ctx.chunks && ctx.chunks.length > 0
                   ? ctx.chunks.reduce((sum: number, chunk: any) => sum + (chunk.similarity || 0), 0) / ctx.chunks.length
                   : undefined,
               })),
@@ -646,12 +651,26 @@ serve(async (req) => {
 
           // Build tools array - include memory tools if available
           // Use shared orchestration module to create MCP proxy tool
-          const tools: Tool[] = [createMcpProxyTool(MCP_GATEWAY_URL, authHeader)];
+          // Signed-in users also see the discovered tools of the servers they registered
+          const commandsTool = SUPABASE_URL && SUPABASE_SERVICE_ROLE_KEY && user
+            ? createListCommandsTool(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, user.id)
+            : listCommandsTool;
+          const tools: Tool[] = [createMcpProxyTool(MCP_GATEWAY_URL, authHeader), commandsTool];
           if (memoryService) {
             const memoryTools = createMemoryTools(memoryService);
             tools.push(...memoryTools);
             console.log(`Added ${memoryTools.length} memory tools to agent`);
           }
+          // Document tools (search_documents, summarize_document, ...) the routing below asks for
+          if (SUPABASE_URL && SUPABASE_SERVICE_ROLE_KEY && user) {
+            try {
+              const ragTools = createRagTools(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, user.id);
+              tools.push(...ragTools);
+              console.log(`Added ${ragTools.length} RAG tools to agent`);
+            } catch (error) {
+              console.error("Failed to create RAG tools:", error);
+            }
+          }
 
           // Create agents dynamically with tools to avoid SDK serialization issues
           // Use shared orchestration module functions
@@ -714,7 +733,7 @@ serve(async (req) => {
 
           // Create agents using shared orchestration module
           // Create Command Discovery Agent (needs mcpToolAgent for handoff)
-          const commandDiscoveryAgent = createCommandDiscoveryAgent(currentMcpToolAgent);
+          const commandDiscoveryAgent = createCommandDiscoveryAgent(currentMcpToolAgent, commandsTool);
           
           // Create handoffs including command discovery (returns 3 handoffs)
           const [commandDiscoveryHandoff, mcpHandoff, finalHandoff] = createHandoffs(currentMcpToolAgent, commandDiscoveryAgent);
@@ -766,7 +785,12 @@ serve(async (req) => {
                       enhancedInstructions += `- Query mentions documents/files - this is a DOCUMENT QUERY\n`;
                     }
                     
-                    if (documentContext.readyDocuments > 0) {
+                    if (documentContext.readyDocuments > 0 && classification.suggestedTool === "summarize_document") {
+                      enhancedInstructions += `\n=== ACTION REQUIRED ===\n`;
+                      enhancedInstructions += `- The user wants a summary of a whole document\n`;
+                      enhancedInstructions += `- YOU MUST use the summarize_document tool${classification.context.documentName ? ` with fileName "${classification.context.documentName}"` : ""}\n`;
+                      enhancedInstructions += `- DO NOT summarize from search_documents results - they only cover a few passages\n\n`;
+                    } else if (documentContext.readyDocuments > 0) {
                       enhancedInstructions += `\n=== ACTION REQUIRED ===\n`;
                       enhancedInstructions += `- ${documentContext.readyDocuments} document(s) are ready for search\n`;
                       enhancedInstructions += `- YOU MUST use the search_documents tool immediately\n`;
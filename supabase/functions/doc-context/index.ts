@@ -1,6 +1,10 @@
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
-import type { Database } from "../_shared/database.types.ts";
+import type { Database, Json } from "../_shared/database.types.ts";
+import { CollectionAccessError, resolveCollection } from "../_shared/documentCollections.ts";
+import { generateEmbeddings, getEmbeddingProvider, toVectorLiteral } from "../_shared/embeddings.ts";
+import { getReranker, RERANK_PROVIDERS, type RerankProviderName, selectDiverse } from "../_shared/rerank.ts";
+import { formatTimestamp } from "../_shared/transcription.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -11,7 +15,6 @@ const corsHeaders = {
 const SUPABASE_URL = Deno.env.get("PROJECT_URL") ?? Deno.env.get("SUPABASE_URL");
 const SUPABASE_SERVICE_ROLE_KEY =
   Deno.env.get("SERVICE_ROLE_KEY") ?? Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
-const OPENAI_API_KEY = Deno.env.get("OPENAI_API_KEY");
 
 const supabase = SUPABASE_URL && SUPABASE_SERVICE_ROLE_KEY
   ? createClient<Database>(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
@@ -22,33 +25,55 @@ const supabase = SUPABASE_URL && SUPABASE_SERVICE_ROLE_KEY
     })
   : null;
 
-// Generate embedding for a query using OpenAI API
-async function generateQueryEmbedding(query: string, apiKey: string): Promise<number[]> {
-  const response = await fetch("https://api.openai.com/v1/embeddings", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: "text-embedding-3-small",
-      input: query,
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`OpenAI API error: ${response.status} ${errorText}`);
-  }
+// vector: cosine similarity only; keyword: Postgres full-text only;
+// hybrid: both rankings fused with reciprocal-rank fusion (the default)
+type SearchMode = "vector" | "keyword" | "hybrid";
+const SEARCH_MODES: SearchMode[] = ["vector", "keyword", "hybrid"];
+
+// A row returned by search_document_embeddings_hybrid
+interface SearchResultRow {
+  id: string;
+  job_id: string;
+  chunk_text: string;
+  chunk_index: number;
+  metadata: Record<string, unknown> | null;
+  similarity: number | null;
+  keyword_rank: number | null;
+  score: number;
+  file_name: string | null;
+}
 
-  const data = await response.json();
-  if (!data.data || !Array.isArray(data.data) || data.data.length === 0) {
-    throw new Error("Invalid response format from OpenAI API");
-  }
+// A document in the search response, with its matching chunks in ranking order
+interface SearchContext {
+  jobId: string;
+  fileName: string;
+  stage: unknown;
+  token: string;
+  rawMetadata: Json | null;
+  chunks: Array<Record<string, unknown>>;
+  summary: string | null;
+  metadata: { searchMode: SearchMode; rerank: RerankProviderName };
+}
 
-  return data.data[0].embedding as number[];
+// Inline citation shown in answers and parsed by the chat UI, e.g. "[report.pdf p.12]",
+// or "[meeting.mp3 @12:34]" for a transcript chunk starting 12 minutes 34 seconds in
+function formatCitation(fileName: string, pageNumber?: number, pageEnd?: number, timeStart?: number): string {
+  if (typeof timeStart === "number") return `[${fileName} @${formatTimestamp(timeStart)}]`;
+  if (typeof pageNumber !== "number") return `[${fileName}]`;
+  return typeof pageEnd === "number" && pageEnd > pageNumber
+    ? `[${fileName} p.${pageNumber}-${pageEnd}]`
+    : `[${fileName} p.${pageNumber}]`;
 }
 
+// Queries shorter than this are too vague to embed usefully
+const MIN_VECTOR_QUERY_LENGTH = 10;
+
+// Candidates retrieved for reranking and MMR before cutting down to `limit`
+const DEFAULT_CANDIDATE_POOL_SIZE = Number(Deno.env.get("RERANK_CANDIDATE_POOL_SIZE") ?? 30);
+const MAX_CANDIDATE_POOL_SIZE = 100;
+// MMR trade-off: 1 keeps relevance order, lower values favour diverse chunks
+const DEFAULT_MMR_LAMBDA = Number(Deno.env.get("MMR_LAMBDA") ?? 0.5);
+
 // Legacy chunking function for backward compatibility (simple character-based)
 function chunkText(text: string, size = 1200): string[] {
   const chunks: string[] = [];
@@ -170,103 +195,227 @@ serve(async (req) => {
 
   try {
     const body = await req.json().catch(() => ({}));
-    const jobIds: string[] = Array.isArray(body?.jobIds) ? body.jobIds.filter(id => typeof id === "string") : [];
+    let jobIds: string[] = Array.isArray(body?.jobIds) ? body.jobIds.filter(id => typeof id === "string") : [];
     const query: string | undefined = typeof body?.query === "string" ? body.query.trim() : undefined;
     const limit: number = typeof body?.limit === "number" ? body.limit : 5;
-    const similarityThreshold: number = typeof body?.similarity_threshold === "number" ? body.similarity_threshold : 0.7;
+    const requestedMode: SearchMode = SEARCH_MODES.includes(body?.searchMode) ? body.searchMode : "hybrid";
+    // The threshold only filters vector candidates; hybrid relies on rank fusion
+    // instead, so keyword hits are not discarded for a low cosine score.
+    const similarityThreshold: number = typeof body?.similarity_threshold === "number"
+      ? body.similarity_threshold
+      : requestedMode === "vector" ? 0.7 : 0;
+    const requestedRerank: RerankProviderName | undefined = RERANK_PROVIDERS.includes(body?.rerank)
+      ? body.rerank
+      : undefined;
+    const mmrLambda: number = typeof body?.mmrLambda === "number"
+      ? Math.min(Math.max(body.mmrLambda, 0), 1)
+      : DEFAULT_MMR_LAMBDA;
+
+    // The caller is the user behind the JWT, or body.userId when agent tools call with
+    // the service role (which may instead name the jobIds to search)
+    const accessToken = (req.headers.get("Authorization") ?? "").replace(/Bearer\s+/i, "").trim();
+    const isServiceRole = !!accessToken && accessToken === SUPABASE_SERVICE_ROLE_KEY;
+    let userId: string | null = null;
+    if (isServiceRole) {
+      userId = typeof body?.userId === "string" ? body.userId : null;
+    } else if (accessToken) {
+      const { data: { user } } = await supabase.auth.getUser(accessToken);
+      userId = user?.id ?? null;
+    }
+
+    // A collection (id or name) limits the search to its documents
+    let collectionScope: { id: string; name: string; role: string } | null = null;
+    if (typeof body?.collection === "string" && body.collection.trim()) {
+      if (!userId) {
+        return new Response(JSON.stringify({ error: "Sign in to search a collection" }), {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      try {
+        const collection = await resolveCollection(supabase, userId, body.collection);
+        collectionScope = { id: collection.id, name: collection.name, role: collection.role };
+        jobIds = jobIds.length > 0 ? jobIds.filter(id => collection.jobIds.includes(id)) : collection.jobIds;
+      } catch (error) {
+        if (error instanceof CollectionAccessError) {
+          return new Response(JSON.stringify({ error: error.message }), {
+            status: 404,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+        throw error;
+      }
+
+      // An empty job_ids filter would search every document
+      if (jobIds.length === 0) {
+        return new Response(JSON.stringify({ contexts: [], searchMode: requestedMode, collection: collectionScope }), {
+          status: 200,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+    }
+
+    if (query) {
+      if (!isServiceRole && !userId) {
+        return new Response(JSON.stringify({ error: "Sign in to search documents" }), {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
 
-    // Vector search mode: if query is provided and OpenAI API key is available
-    if (query && query.length >= 10 && OPENAI_API_KEY) {
       try {
-        // Generate embedding for the query
-        const queryEmbedding = await generateQueryEmbedding(query, OPENAI_API_KEY);
-
-        // Build the similarity search query
-        // Using cosine distance (<=>) which returns 0 for identical, 2 for opposite
-        // Similarity = 1 - (distance / 2) = 1 - (cosine_distance / 2)
-        // But actually, pgvector cosine distance gives: 1 - cosine_similarity
-        // So similarity = 1 - distance
-        const embeddingString = `[${queryEmbedding.join(",")}]`;
-
-        // Use PostgreSQL function for efficient vector similarity search
-        const embeddingString = `[${queryEmbedding.join(",")}]`;
-        const jobIdsParam = jobIds.length > 0 ? jobIds : null;
-
-        const { data: searchResults, error: vectorError } = await supabase.rpc(
-          "search_document_embeddings",
+        // Without an embedding, vector search is impossible and hybrid degrades to keyword
+        let searchMode = requestedMode;
+        let queryEmbedding: number[] | null = null;
+        const embeddingProvider = searchMode !== "keyword" ? getEmbeddingProvider() : null;
+        if (searchMode !== "keyword") {
+          if (query.length >= MIN_VECTOR_QUERY_LENGTH && embeddingProvider) {
+            queryEmbedding = await generateEmbeddings(embeddingProvider, [query], { inputType: "query", maxRetries: 1 })
+              .then(([embedding]) => embedding)
+              .catch(error => {
+                console.error("Query embedding failed:", error);
+                return null;
+              });
+          }
+          if (!queryEmbedding) {
+            if (searchMode === "vector") {
+              throw new Error("Query embedding unavailable for vector search");
+            }
+            searchMode = "keyword";
+          }
+        }
+
+        const reranker = getReranker(requestedRerank);
+        const candidatePoolSize = reranker || mmrLambda < 1
+          ? Math.min(
+            Math.max(limit, typeof body?.candidatePoolSize === "number" ? body.candidatePoolSize : DEFAULT_CANDIDATE_POOL_SIZE),
+            MAX_CANDIDATE_POOL_SIZE,
+          )
+          : limit;
+
+        const { data: searchResults, error: searchError } = await supabase.rpc(
+          "search_document_embeddings_hybrid",
           {
-            query_embedding: embeddingString,
-            job_ids: jobIdsParam,
+            query_text: query,
+            query_embedding: queryEmbedding ? toVectorLiteral(queryEmbedding) : null,
+            // Chunks embedded by another model or width are only reachable by keyword until re-embedded
+            query_embedding_model: queryEmbedding ? embeddingProvider?.model ?? null : null,
+            query_embedding_dimensions: queryEmbedding ? embeddingProvider?.dimensions ?? null : null,
+            job_ids: jobIds.length > 0 ? jobIds : null,
+            // Users only search their own documents; a collection's were checked above
+            p_user_id: collectionScope ? null : userId,
+            match_mode: searchMode,
+            result_limit: candidatePoolSize,
             similarity_threshold: similarityThreshold,
-            result_limit: limit,
           },
         );
 
-        if (vectorError) {
-          console.error("Vector search error:", vectorError);
-          throw vectorError;
+        if (searchError) {
+          console.error(`${searchMode} search error:`, searchError);
+          throw searchError;
         }
 
         if (!searchResults || searchResults.length === 0) {
-          // No embeddings found, fall back to legacy system
-          console.log("No embeddings found, falling back to legacy retrieval");
+          // No matching chunks (or no embeddings yet), fall back to legacy system
+          console.log(`No ${searchMode} search results, falling back to legacy retrieval`);
         } else {
-          const filteredResults = searchResults;
-
-          if (filteredResults.length > 0) {
-            // Get job metadata for all unique job_ids
-            const uniqueJobIds = [...new Set(filteredResults.map((r: any) => r.job_id))];
-            const { data: jobs } = await supabase
-              .from("processing_jobs")
-              .select("id, file_name, metadata")
-              .in("id", uniqueJobIds);
-
-            const jobMap = new Map((jobs || []).map((job: any) => [job.id, job]));
-
-            // Group by job_id and format response
-            const contextsMap = new Map<string, any>();
-            for (const result of filteredResults) {
-              const jobId = result.job_id;
-              const job = jobMap.get(jobId);
-              
-              if (!contextsMap.has(jobId)) {
-                contextsMap.set(jobId, {
-                  jobId,
-                  fileName: job?.file_name || result.file_name || "Unknown",
-                  stage: job?.metadata?.job_stage || null,
-                  token: `ctx://${jobId}`,
-                  rawMetadata: job?.metadata || null,
-                  chunks: [] as Array<{ id: string; content: string; similarity?: number }>,
-                  summary: null,
-                  metadata: {
-                    searchMode: "vector" as const,
-                  },
-                });
-              }
-
-              const context = contextsMap.get(jobId);
-              context.chunks.push({
-                id: `ctx://${jobId}#chunk/${result.chunk_index + 1}`,
-                content: result.chunk_text,
-                similarity: result.similarity,
+          // Rescore the pool, then keep the most relevant chunks that do not repeat each other
+          const candidates = (searchResults as SearchResultRow[]).map((result) => ({
+            result,
+            text: result.chunk_text,
+            relevance: result.score,
+            rerankScore: undefined as number | undefined,
+            jobId: result.job_id,
+            pageNumber: typeof result.metadata?.pageNumber === "number" ? result.metadata.pageNumber : undefined,
+          }));
+          let rerankUsed: RerankProviderName = "none";
+          if (reranker && candidates.length > 1) {
+            try {
+              const scores = await reranker.score(query, candidates.map((candidate) => candidate.text));
+              candidates.forEach((candidate, index) => {
+                candidate.rerankScore = scores[index];
+                candidate.relevance = scores[index];
+              });
+              rerankUsed = reranker.name;
+            } catch (rerankError) {
+              console.error(`${reranker.name} rerank failed, keeping ${searchMode} order:`, rerankError);
+            }
+          }
+          const selectedResults = selectDiverse(candidates, limit, mmrLambda).map((candidate) => ({
+            ...candidate.result,
+            rerank_score: candidate.rerankScore,
+          }));
+
+          // Get job metadata for all unique job_ids
+          const uniqueJobIds = [...new Set(selectedResults.map((r) => r.job_id))];
+          const { data: jobs } = await supabase
+            .from("processing_jobs")
+            .select("id, file_name, metadata")
+            .in("id", uniqueJobIds);
+
+          const jobMap = new Map((jobs || []).map((job) => [job.id, job]));
+
+          // Group by job_id and format response, keeping the final ranking order
+          const contextsMap = new Map<string, SearchContext>();
+          for (const result of selectedResults) {
+            const jobId = result.job_id;
+            const job = jobMap.get(jobId);
+
+            if (!contextsMap.has(jobId)) {
+              contextsMap.set(jobId, {
+                jobId,
+                fileName: job?.file_name || result.file_name || "Unknown",
+                stage: (job?.metadata as Record<string, unknown> | null | undefined)?.job_stage || null,
+                token: `ctx://${jobId}`,
+                rawMetadata: job?.metadata || null,
+                chunks: [],
+                summary: null,
+                metadata: {
+                  searchMode,
+                  rerank: rerankUsed,
+                },
               });
             }
 
-            const contexts = Array.from(contextsMap.values());
-
-            return new Response(JSON.stringify({ contexts, searchMode: "vector" }), {
-              status: 200,
-              headers: { ...corsHeaders, "Content-Type": "application/json" },
+            const context = contextsMap.get(jobId)!;
+            const chunkMetadata = result.metadata ?? {};
+            const pageNumber = typeof chunkMetadata.pageNumber === "number" ? chunkMetadata.pageNumber : undefined;
+            const pageEnd = typeof chunkMetadata.pageEnd === "number" ? chunkMetadata.pageEnd : undefined;
+            const timeStart = typeof chunkMetadata.timeStart === "number" ? chunkMetadata.timeStart : undefined;
+            context.chunks.push({
+              id: `ctx://${jobId}#chunk/${result.chunk_index + 1}`,
+              content: result.chunk_text,
+              similarity: result.similarity ?? undefined,
+              keywordRank: result.keyword_rank ?? undefined,
+              score: result.score,
+              rerankScore: result.rerank_score,
+              pageNumber,
+              pageEnd,
+              sectionPath: Array.isArray(chunkMetadata.sectionPath) ? chunkMetadata.sectionPath : undefined,
+              boundingBoxes: Array.isArray(chunkMetadata.boundingBoxes) ? chunkMetadata.boundingBoxes : undefined,
+              hasTable: chunkMetadata.hasTable === true || undefined,
+              timeStart,
+              timeEnd: typeof chunkMetadata.timeEnd === "number" ? chunkMetadata.timeEnd : undefined,
+              speakers: Array.isArray(chunkMetadata.speakers) ? chunkMetadata.speakers : undefined,
+              citation: formatCitation(context.fileName, pageNumber, pageEnd, timeStart),
             });
           }
+
+          const contexts = Array.from(contextsMap.values());
+
+          return new Response(JSON.stringify({ contexts, searchMode, rerank: rerankUsed, collection: collectionScope }), {
+            status: 200,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
         }
-      } catch (vectorError) {
-        console.error("Vector search failed, falling back to legacy:", vectorError);
+      } catch (searchError) {
+        console.error("Document search failed, falling back to legacy:", searchError);
         // Fall through to legacy retrieval
       }
     }
 
-    // Legacy retrieval mode: if no query or vector search failed
+    // Legacy retrieval mode: if no query or search failed
     if (!jobIds.length) {
       return new Response(JSON.stringify({ error: "jobIds must be a non-empty array or query must be provided" }), {
         status: 400,
@@ -0,0 +1,282 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+import type { Database } from "../_shared/database.types.ts";
+import { CollectionAccessError, listAccessibleCollections } from "../_shared/documentCollections.ts";
+
+interface CollectionsRequest {
+  action: "list" | "create" | "update" | "delete" | "add" | "remove" | "share" | "unshare";
+  collectionId?: string;
+  name?: string;
+  description?: string | null;
+  jobIds?: string[];
+  email?: string;
+}
+
+const SUPABASE_URL = Deno.env.get("PROJECT_URL") ?? Deno.env.get("SUPABASE_URL");
+const SUPABASE_SERVICE_ROLE_KEY =
+  Deno.env.get("SERVICE_ROLE_KEY") ?? Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+function jsonResponse(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// Creates and edits a user's document collections and shares them read-only.
+// Only the owner may change a collection; recipients see it through `list`.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    return jsonResponse({ error: "Server not configured" }, 500);
+  }
+
+  const authHeader = req.headers.get("Authorization") ?? "";
+  const accessToken = authHeader.replace(/Bearer\s+/i, "").trim();
+  if (!accessToken) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  const supabase = createClient<Database>(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser(accessToken);
+  if (userError || !user) {
+    return jsonResponse({ error: "Unable to authenticate user" }, 401);
+  }
+
+  let body: CollectionsRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return jsonResponse({ error: "Invalid JSON body" }, 400);
+  }
+
+  if (body.action !== "list" && body.action !== "create" && !body.collectionId) {
+    return jsonResponse({ error: "collectionId is required" }, 400);
+  }
+
+  const jobIds = Array.isArray(body.jobIds) ? body.jobIds.filter((id) => typeof id === "string") : [];
+
+  // Loads a collection the user owns, for actions that change it
+  const loadOwnedCollection = async () => {
+    const { data, error } = await supabase
+      .from("document_collections")
+      .select("id, name, owner_id")
+      .eq("id", body.collectionId!)
+      .maybeSingle();
+    if (error) throw error;
+    if (!data || data.owner_id !== user.id) {
+      throw new CollectionAccessError("Collection not found or not owned by you");
+    }
+    return data;
+  };
+
+  // Collections only hold documents their owner uploaded
+  const ownedJobIds = async (ids: string[]) => {
+    if (ids.length === 0) return [];
+    const { data, error } = await supabase
+      .from("processing_jobs")
+      .select("id")
+      .eq("user_id", user.id)
+      .in("id", ids);
+    if (error) throw error;
+    return (data ?? []).map((job) => job.id);
+  };
+
+  try {
+    switch (body.action) {
+      case "list": {
+        const collections = await listAccessibleCollections(supabase, user.id);
+        const ownedIds = collections.filter((collection) => collection.role === "owner").map((collection) => collection.id);
+        const { data: shares, error: sharesError } = ownedIds.length > 0
+          ? await supabase
+            .from("document_collection_shares")
+            .select("collection_id, shared_with, shared_with_email, permission, created_at")
+            .in("collection_id", ownedIds)
+          : { data: [], error: null };
+        if (sharesError) throw sharesError;
+
+        return jsonResponse({
+          collections: collections.map((collection) => ({
+            ...collection,
+            shares: (shares ?? [])
+              .filter((share) => share.collection_id === collection.id)
+              .map((share) => ({
+                userId: share.shared_with,
+                email: share.shared_with_email,
+                permission: share.permission,
+                createdAt: share.created_at,
+              })),
+          })),
+        }, 200);
+      }
+
+      case "create": {
+        const name = body.name?.trim();
+        if (!name) {
+          return jsonResponse({ error: "name is required" }, 400);
+        }
+        const { data: collection, error } = await supabase
+          .from("document_collections")
+          .insert({ owner_id: user.id, name, description: body.description?.trim() || null })
+          .select("id, name, description, created_at")
+          .single();
+        if (error) {
+          // Unique (owner_id, lower(name))
+          if (error.code === "23505") {
+            return jsonResponse({ error: `A collection named "${name}" already exists` }, 409);
+          }
+          throw error;
+        }
+
+        const documents = await ownedJobIds(jobIds);
+        if (documents.length > 0) {
+          const { error: itemsError } = await supabase
+            .from("document_collection_items")
+            .insert(documents.map((jobId) => ({ collection_id: collection.id, job_id: jobId })));
+          if (itemsError) throw itemsError;
+        }
+        return jsonResponse({ collection: { ...collection, jobIds: documents } }, 200);
+      }
+
+      case "update": {
+        const collection = await loadOwnedCollection();
+        const updates: Database["public"]["Tables"]["document_collections"]["Update"] = {
+          updated_at: new Date().toISOString(),
+        };
+        if (typeof body.name === "string") {
+          if (!body.name.trim()) {
+            return jsonResponse({ error: "name cannot be empty" }, 400);
+          }
+          updates.name = body.name.trim();
+        }
+        if (body.description !== undefined) {
+          updates.description = body.description?.trim() || null;
+        }
+        const { error } = await supabase.from("document_collections").update(updates).eq("id", collection.id);
+        if (error) {
+          if (error.code === "23505") {
+            return jsonResponse({ error: `A collection named "${updates.name}" already exists` }, 409);
+          }
+          throw error;
+        }
+        return jsonResponse({ success: true }, 200);
+      }
+
+      case "delete": {
+        const collection = await loadOwnedCollection();
+        // Items and shares cascade; the documents themselves are kept
+        const { error } = await supabase.from("document_collections").delete().eq("id", collection.id);
+        if (error) throw error;
+        return jsonResponse({ success: true }, 200);
+      }
+
+      case "add": {
+        const collection = await loadOwnedCollection();
+        const documents = await ownedJobIds(jobIds);
+        if (documents.length === 0) {
+          return jsonResponse({ error: "jobIds must contain documents you uploaded" }, 400);
+        }
+        const { error } = await supabase
+          .from("document_collection_items")
+          .upsert(
+            documents.map((jobId) => ({ collection_id: collection.id, job_id: jobId })),
+            { onConflict: "collection_id,job_id", ignoreDuplicates: true },
+          );
+        if (error) throw error;
+        await supabase
+          .from("document_collections")
+          .update({ updated_at: new Date().toISOString() })
+          .eq("id", collection.id);
+        return jsonResponse({ added: documents }, 200);
+      }
+
+      case "remove": {
+        const collection = await loadOwnedCollection();
+        if (jobIds.length === 0) {
+          return jsonResponse({ error: "jobIds is required" }, 400);
+        }
+        const { error } = await supabase
+          .from("document_collection_items")
+          .delete()
+          .eq("collection_id", collection.id)
+          .in("job_id", jobIds);
+        if (error) throw error;
+        await supabase
+          .from("document_collections")
+          .update({ updated_at: new Date().toISOString() })
+          .eq("id", collection.id);
+        return jsonResponse({ removed: jobIds }, 200);
+      }
+
+      case "share": {
+        const collection = await loadOwnedCollection();
+        const email = body.email?.trim().toLowerCase();
+        if (!email) {
+          return jsonResponse({ error: "email is required" }, 400);
+        }
+        const { data: recipientId, error: lookupError } = await supabase.rpc("find_user_id_by_email", { p_email: email });
+        if (lookupError) throw lookupError;
+        // Same answer whether or not the address has an account, so sharing cannot be
+        // used to probe which emails are registered
+        if (!recipientId) {
+          return jsonResponse({ success: true }, 200);
+        }
+        if (recipientId === user.id) {
+          return jsonResponse({ error: "You already own this collection" }, 400);
+        }
+        const { error } = await supabase
+          .from("document_collection_shares")
+          .upsert(
+            { collection_id: collection.id, shared_with: recipientId, shared_with_email: email, permission: "read" },
+            { onConflict: "collection_id,shared_with" },
+          );
+        if (error) throw error;
+        console.log(`[document-collections] ${collection.id} shared by ${user.id} with ${recipientId}`);
+        return jsonResponse({ success: true }, 200);
+      }
+
+      case "unshare": {
+        const collection = await loadOwnedCollection();
+        const email = body.email?.trim().toLowerCase();
+        if (!email) {
+          return jsonResponse({ error: "email is required" }, 400);
+        }
+        const { error } = await supabase
+          .from("document_collection_shares")
+          .delete()
+          .eq("collection_id", collection.id)
+          .eq("shared_with_email", email);
+        if (error) throw error;
+        return jsonResponse({ success: true }, 200);
+      }
+
+      default:
+        return jsonResponse({ error: `Unknown action: ${body.action}` }, 400);
+    }
+  } catch (error) {
+    if (error instanceof CollectionAccessError) {
+      return jsonResponse({ error: error.message }, 404);
+    }
+    console.error("[document-collections] failed", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Collection request failed" }, 500);
+  }
+});
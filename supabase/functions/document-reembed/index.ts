@@ -0,0 +1,169 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+import type { Database } from "../_shared/database.types.ts";
+import { generateEmbeddings, getEmbeddingProvider, toVectorLiteral } from "../_shared/embeddings.ts";
+
+const SUPABASE_URL = Deno.env.get("PROJECT_URL") ?? Deno.env.get("SUPABASE_URL");
+const SUPABASE_SERVICE_ROLE_KEY =
+  Deno.env.get("SERVICE_ROLE_KEY") ?? Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+// Chunks per invocation; call again while `remaining` is true.
+const BATCH_SIZE = 200;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+function jsonResponse(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// Re-embeds a user's stored chunks with the configured EMBEDDING_PROVIDER, reusing
+// chunk_text so documents are not re-extracted. Chunks already embedded by the
+// current model at its dimensions are skipped, so repeated calls make progress
+// until none remain.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    return jsonResponse({ error: "Server not configured" }, 500);
+  }
+
+  const authHeader = req.headers.get("Authorization") ?? "";
+  const accessToken = authHeader.replace(/Bearer\s+/i, "").trim();
+  if (!accessToken) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  const supabase = createClient<Database>(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  const body = await req.json().catch(() => ({}));
+
+  // Users re-embed their own corpus; operators may pass userId with the service-role key
+  let userId: string;
+  if (accessToken === SUPABASE_SERVICE_ROLE_KEY) {
+    if (typeof body?.userId !== "string") {
+      return jsonResponse({ error: "userId is required" }, 400);
+    }
+    userId = body.userId;
+  } else {
+    const {
+      data: { user },
+      error: userError,
+    } = await supabase.auth.getUser(accessToken);
+    if (userError || !user) {
+      return jsonResponse({ error: "Unable to authenticate user" }, 401);
+    }
+    userId = user.id;
+  }
+
+  try {
+    const provider = getEmbeddingProvider();
+    if (!provider) {
+      return jsonResponse({ error: "Embedding provider not configured" }, 503);
+    }
+    // Chunks from another model, or from this one at another width; quoted because
+    // model names may contain PostgREST filter characters
+    const staleChunks =
+      `embedding_model.neq.${JSON.stringify(provider.model)},embedding_dimensions.neq.${provider.dimensions}`;
+
+    // Filtered on the owner through the join rather than by listing the user's job ids,
+    // which would outgrow the request URL for a large corpus
+    let chunksQuery = supabase
+      .from("document_embeddings")
+      .select("id, job_id, chunk_text, chunk_index, processing_jobs!inner(user_id)")
+      .eq("processing_jobs.user_id", userId)
+      .or(staleChunks);
+    if (Array.isArray(body?.jobIds) && body.jobIds.length > 0) {
+      chunksQuery = chunksQuery.in("job_id", body.jobIds.filter((id: unknown) => typeof id === "string"));
+    }
+    const { data: chunks, error: chunksError } = await chunksQuery
+      .order("job_id", { ascending: true })
+      .order("chunk_index", { ascending: true })
+      .limit(BATCH_SIZE);
+    if (chunksError) throw chunksError;
+
+    const rows = chunks ?? [];
+    if (rows.length > 0) {
+      const embeddings = await generateEmbeddings(provider, rows.map((chunk) => chunk.chunk_text));
+      const { error: upsertError } = await supabase
+        .from("document_embeddings")
+        .upsert(
+          rows.map((chunk, index) => ({
+            id: chunk.id,
+            job_id: chunk.job_id,
+            chunk_text: chunk.chunk_text,
+            chunk_index: chunk.chunk_index,
+            embedding: toVectorLiteral(embeddings[index]),
+            embedding_model: provider.model,
+            embedding_dimensions: provider.dimensions,
+          })),
+          { onConflict: "id" },
+        );
+      if (upsertError) throw upsertError;
+    }
+
+    // Record the new model on jobs that have no chunks left on an older one or width
+    const touchedJobIds = [...new Set(rows.map((chunk) => chunk.job_id))];
+    const jobsCompleted: string[] = [];
+    for (const jobId of touchedJobIds) {
+      const { count, error: countError } = await supabase
+        .from("document_embeddings")
+        .select("id", { count: "exact", head: true })
+        .eq("job_id", jobId)
+        .or(staleChunks);
+      if (countError) throw countError;
+      if (count) continue;
+
+      const { data: job, error: jobError } = await supabase
+        .from("processing_jobs")
+        .select("metadata")
+        .eq("id", jobId)
+        .maybeSingle();
+      if (jobError) throw jobError;
+      const metadata = (job?.metadata && typeof job.metadata === "object" ? job.metadata : {}) as Record<string, unknown>;
+      await supabase
+        .from("processing_jobs")
+        .update({
+          metadata: {
+            ...metadata,
+            embedding_provider: provider.name,
+            embedding_model: provider.model,
+            embedding_dimensions: provider.dimensions,
+            reembedded_at: new Date().toISOString(),
+          },
+        })
+        .eq("id", jobId);
+      jobsCompleted.push(jobId);
+    }
+
+    console.log(`[document-reembed] user=${userId} model=${provider.model} reembedded=${rows.length}`);
+
+    return jsonResponse(
+      {
+        provider: provider.name,
+        model: provider.model,
+        reembedded: rows.length,
+        jobsCompleted,
+        remaining: rows.length === BATCH_SIZE,
+      },
+      200,
+    );
+  } catch (error) {
+    console.error("[document-reembed] failed", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Re-embedding failed" }, 500);
+  }
+});
@@ -0,0 +1,126 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+import type { Database } from "../_shared/database.types.ts";
+import {
+  createOpenAISummarizer,
+  isSummaryPending,
+  loadStoredSummary,
+  loadSummaryChunks,
+  SummaryError,
+  summarizeDocument,
+} from "../_shared/documentSummaries.ts";
+
+const SUPABASE_URL = Deno.env.get("PROJECT_URL") ?? Deno.env.get("SUPABASE_URL");
+const SUPABASE_SERVICE_ROLE_KEY =
+  Deno.env.get("SERVICE_ROLE_KEY") ?? Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+const OPENAI_API_KEY = Deno.env.get("OPENAI_API_KEY");
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+function jsonResponse(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// Builds (or returns the cached) map-reduce summary of one indexed document.
+// textract-worker calls this with the service-role key after indexing; users can
+// call it for their own documents, e.g. to regenerate with `refresh: true`.
+// By default the summary is built in the background and 202 is returned; pass
+// `wait: true` to get the summary in the response.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    return jsonResponse({ error: "Server not configured" }, 500);
+  }
+
+  if (!OPENAI_API_KEY) {
+    return jsonResponse({ error: "Summarization requires OPENAI_API_KEY" }, 503);
+  }
+
+  const authHeader = req.headers.get("Authorization") ?? "";
+  const accessToken = authHeader.replace(/Bearer\s+/i, "").trim();
+  if (!accessToken) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  const supabase = createClient<Database>(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  const body = await req.json().catch(() => ({}));
+  if (typeof body?.jobId !== "string") {
+    return jsonResponse({ error: "jobId is required" }, 400);
+  }
+  const jobId: string = body.jobId;
+  const refresh = body.refresh === true;
+
+  const { data: job, error: jobError } = await supabase
+    .from("processing_jobs")
+    .select("id, user_id, file_name")
+    .eq("id", jobId)
+    .maybeSingle();
+  if (jobError) {
+    return jsonResponse({ error: jobError.message }, 500);
+  }
+  if (!job) {
+    return jsonResponse({ error: "Document not found" }, 404);
+  }
+
+  if (accessToken !== SUPABASE_SERVICE_ROLE_KEY) {
+    const {
+      data: { user },
+      error: userError,
+    } = await supabase.auth.getUser(accessToken);
+    if (userError || !user) {
+      return jsonResponse({ error: "Unable to authenticate user" }, 401);
+    }
+    if (job.user_id !== user.id) {
+      return jsonResponse({ error: "Document not found" }, 404);
+    }
+  }
+
+  try {
+    const cached = await loadStoredSummary(supabase, jobId);
+    if (!refresh && isSummaryPending(cached)) {
+      return jsonResponse({ jobId, status: "pending" }, 202);
+    }
+    if (!refresh && cached?.status === "ready") {
+      const { contentHash } = await loadSummaryChunks(supabase, jobId);
+      if (cached.contentHash === contentHash) {
+        return jsonResponse({ jobId, fileName: job.file_name, ...cached }, 200);
+      }
+    }
+
+    const run = summarizeDocument(supabase, jobId, createOpenAISummarizer(OPENAI_API_KEY), { refresh });
+
+    if (body.wait === true) {
+      const summary = await run;
+      return jsonResponse({ jobId, fileName: job.file_name, ...summary }, 200);
+    }
+
+    const background = run
+      .then((summary) => console.log(`[document-summarize] Summarized ${jobId}: ${summary.sections.length} sections from ${summary.chunkCount} chunks`))
+      .catch((error) => console.error(`[document-summarize] Failed to summarize ${jobId}:`, error));
+    (globalThis as { EdgeRuntime?: { waitUntil?: (promise: Promise<unknown>) => void } }).EdgeRuntime?.waitUntil?.(background);
+    return jsonResponse({ jobId, status: "pending" }, 202);
+  } catch (error) {
+    if (error instanceof SummaryError) {
+      return jsonResponse({ error: error.message }, 422);
+    }
+    console.error("[document-summarize] failed", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Summarization failed" }, 500);
+  }
+});
@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
 import type { Database } from "../_shared/database.types.ts";
+import { openApiKeyValue, sealApiKeyValue } from "../_shared/apiKeys.ts";
 
 interface KeyManagerRequest {
   action: "add" | "list" | "get" | "update" | "delete" | "audit" | "check" | "stale";
@@ -18,7 +19,6 @@ interface KeyManagerRequest {
 const SUPABASE_URL = Deno.env.get("PROJECT_URL") ?? Deno.env.get("SUPABASE_URL");
 const SUPABASE_SERVICE_ROLE_KEY =
   Deno.env.get("SERVICE_ROLE_KEY") ?? Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
-const ENCRYPTION_KEY = Deno.env.get("ENCRYPTION_KEY") ?? "default-encryption-key-change-in-production";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -62,46 +62,19 @@ async function logAudit(
   }
 }
 
-// Encrypt key value using pgcrypto via RPC
-async function encryptKey(supabase: ReturnType<typeof createClient<Database>>, keyValue: string): Promise<bytea | null> {
+// Encrypt key value as an envelope (see _shared/secretCrypto.ts)
+async function encryptKey(
+  key: { id: string; user_id: string },
+  keyValue: string,
+): Promise<Awaited<ReturnType<typeof sealApiKeyValue>> | null> {
   try {
-    const { data, error } = await supabase.rpc("encrypt_key_value", {
-      key_value: keyValue,
-      encryption_key: ENCRYPTION_KEY,
-    });
-
-    if (error) {
-      console.error("Encryption error:", error);
-      return null;
-    }
-
-    return data;
+    return await sealApiKeyValue(key, keyValue);
   } catch (error) {
     console.error("Encryption failed:", error);
     return null;
   }
 }
 
-// Decrypt key value using pgcrypto via RPC
-async function decryptKey(supabase: ReturnType<typeof createClient<Database>>, encryptedValue: bytea): Promise<string | null> {
-  try {
-    const { data, error } = await supabase.rpc("decrypt_key_value", {
-      encrypted_value: encryptedValue,
-      encryption_key: ENCRYPTION_KEY,
-    });
-
-    if (error) {
-      console.error("Decryption error:", error);
-      return null;
-    }
-
-    return data;
-  } catch (error) {
-    console.error("Decryption failed:", error);
-    return null;
-  }
-}
-
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { status: 204, headers: corsHeaders });
@@ -198,8 +171,9 @@ serve(async (req) => {
           );
         }
 
-        // Encrypt the key
-        const encryptedKey = await encryptKey(supabase, keyValue);
+        // Encrypt the key; its id is part of the encryption context, so it is chosen here
+        const keyId = crypto.randomUUID();
+        const encryptedKey = await encryptKey({ id: keyId, user_id: user.id }, keyValue);
         if (!encryptedKey) {
           return new Response(
             JSON.stringify({ error: "Failed to encrypt key" }),
@@ -211,11 +185,12 @@ serve(async (req) => {
         const { data: keyData, error: insertError } = await supabase
           .from("api_keys")
           .insert({
+            id: keyId,
             user_id: user.id,
             name,
             provider,
             key_type: keyType,
-            encrypted_key: encryptedKey,
+            ...encryptedKey,
             expires_at: expiresAt || null,
             scope: scope || null,
             metadata: metadata || {},
@@ -271,7 +246,7 @@ serve(async (req) => {
 
         const query = supabase
           .from("api_keys")
-          .select("id, name, provider, key_type, encrypted_key, is_active, created_at, expires_at, last_used_at, usage_count, scope, metadata")
+          .select("id, name, provider, key_type, encrypted_key, key_envelope, is_active, created_at, expires_at, last_used_at, usage_count, scope, metadata")
           .eq("user_id", user.id);
 
         if (keyId) {
@@ -290,10 +265,10 @@ serve(async (req) => {
         }
 
         // Decrypt the key value (only return it if explicitly requested)
-        const decryptedValue = await decryptKey(supabase, keyData.encrypted_key as bytea);
+        const decryptedValue = await openApiKeyValue(supabase, { ...keyData, user_id: user.id });
         
         // Don't include encrypted_key in response, only decrypted if needed
-        const { encrypted_key, ...safeKeyData } = keyData;
+        const { encrypted_key, key_envelope, ...safeKeyData } = keyData;
         
         return new Response(
           JSON.stringify({
@@ -343,14 +318,14 @@ serve(async (req) => {
 
         // If keyValue is provided, re-encrypt it
         if (keyValue) {
-          const encryptedKey = await encryptKey(supabase, keyValue);
+          const encryptedKey = await encryptKey({ id: existing.id, user_id: user.id }, keyValue);
           if (!encryptedKey) {
             return new Response(
               JSON.stringify({ error: "Failed to encrypt key" }),
               { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
             );
           }
-          updateData.encrypted_key = encryptedKey;
+          Object.assign(updateData, encryptedKey);
         }
 
         const { data: updated, error: updateError } = await supabase
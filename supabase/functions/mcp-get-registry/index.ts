@@ -57,7 +57,9 @@ serve(async (req) => {
 
   const { data, error } = await supabase
     .from("mcp_servers")
-    .select("id, name, gateway_url, auth_type, is_active, last_health_check, metadata, created_at, updated_at")
+    .select(
+      "id, name, gateway_url, auth_type, is_active, last_health_check, metadata, tools, tools_refreshed_at, tools_error, created_at, updated_at",
+    )
     .eq("user_id", user.id)
     .eq("is_active", true)
     .order("created_at", { ascending: true });
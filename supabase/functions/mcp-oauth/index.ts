@@ -0,0 +1,281 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+import type { Database } from "../_shared/database.types.ts";
+import {
+  buildAuthorizationUrl,
+  createPkcePair,
+  discoverOAuthServerConfig,
+  exchangeAuthorizationCode,
+  McpOAuthError,
+  type McpOAuthServerConfig,
+  parseOAuthTokens,
+  randomUrlSafeString,
+  readOAuthServerConfig,
+  registerOAuthClient,
+} from "../_shared/mcpOAuth.ts";
+import {
+  openServerSecret,
+  refreshServerTools,
+  sealServerSecret,
+  storeServerOAuthTokens,
+  type McpServerRecord,
+} from "../_shared/mcpServers.ts";
+import { decryptSecret, encryptSecret, isSecretEnvelope } from "../_shared/secretCrypto.ts";
+
+interface OAuthRequest {
+  action: "start" | "callback";
+  /** start: server id or name. */
+  serverId?: string;
+  /** start: where the authorization server sends the browser back (the app's /auth/callback). */
+  redirectUri?: string;
+  /** callback: values from the redirect's query string. */
+  state?: string;
+  code?: string;
+  error?: string;
+  errorDescription?: string;
+}
+
+const SUPABASE_URL = Deno.env.get("PROJECT_URL") ?? Deno.env.get("SUPABASE_URL");
+const SUPABASE_SERVICE_ROLE_KEY =
+  Deno.env.get("SERVICE_ROLE_KEY") ?? Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+const STATE_CONTEXT = "mcp_oauth_states.secret";
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+const SERVER_COLUMNS =
+  "id, user_id, name, gateway_url, auth_type, auth_secret, auth_secret_envelope, metadata, is_active, tools, tools_refreshed_at";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+function jsonResponse(payload: unknown, status = 200): Response {
+  return new Response(JSON.stringify(payload), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function isAllowedRedirectUri(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === "https:" || url.hostname === "localhost" || url.hostname === "127.0.0.1";
+  } catch {
+    return false;
+  }
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    return jsonResponse({ error: "Server not configured" }, 500);
+  }
+
+  const authHeader = req.headers.get("Authorization") ?? "";
+  const accessToken = authHeader.replace(/Bearer\s+/i, "").trim();
+  if (!accessToken) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  let body: OAuthRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return jsonResponse({ error: "Invalid JSON body" }, 400);
+  }
+
+  const supabase = createClient<Database>(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser(accessToken);
+  if (userError || !user) {
+    return jsonResponse({ error: "Unable to authenticate user" }, 401);
+  }
+
+  try {
+    switch (body.action) {
+      case "start": {
+        const serverId = body.serverId?.trim();
+        const redirectUri = body.redirectUri?.trim();
+        if (!serverId || !redirectUri) {
+          return jsonResponse({ error: "serverId and redirectUri are required" }, 400);
+        }
+        if (!isAllowedRedirectUri(redirectUri)) {
+          return jsonResponse({ error: "redirectUri must be an HTTPS URL" }, 400);
+        }
+
+        const { data: server, error } = await supabase
+          .from("mcp_servers")
+          .select(SERVER_COLUMNS)
+          .eq("user_id", user.id)
+          .or(`id.eq.${serverId},name.eq.${serverId}`)
+          .maybeSingle();
+        if (error || !server) {
+          return jsonResponse({ error: "Server not found" }, 404);
+        }
+        if (server.auth_type !== "oauth") {
+          return jsonResponse({ error: `${server.name} does not use OAuth (auth type: ${server.auth_type})` }, 400);
+        }
+
+        // Discovery is cheap but not free; reuse the stored configuration
+        // unless the client was registered for a different redirect URI.
+        const metadata = (server.metadata ?? {}) as Record<string, unknown>;
+        const stored = readOAuthServerConfig(metadata);
+        let config: McpOAuthServerConfig = stored ?? (await discoverOAuthServerConfig(server.gateway_url));
+        // Confidential clients only learn their secret at registration; it is
+        // carried along with the stored tokens.
+        let clientSecret = parseOAuthTokens(await openServerSecret(server).catch(() => null))?.clientSecret;
+
+        const preconfiguredClientId = typeof metadata.oauthClientId === "string" ? metadata.oauthClientId : undefined;
+        if (preconfiguredClientId) {
+          config = { ...config, clientId: preconfiguredClientId, redirectUri, tokenEndpointAuthMethod: "none" };
+        } else if (
+          !config.clientId ||
+          config.redirectUri !== redirectUri ||
+          (config.tokenEndpointAuthMethod !== "none" && !clientSecret)
+        ) {
+          const registration = await registerOAuthClient(config, redirectUri);
+          config = {
+            ...config,
+            clientId: registration.clientId,
+            tokenEndpointAuthMethod: registration.tokenEndpointAuthMethod,
+            redirectUri,
+          };
+          clientSecret = registration.clientSecret;
+        }
+
+        if (config !== stored) {
+          const { error: updateError } = await supabase
+            .from("mcp_servers")
+            .update({ metadata: { ...metadata, oauth: config } })
+            .eq("id", server.id);
+          if (updateError) {
+            console.error("mcp/oauth metadata update error", updateError);
+            return jsonResponse({ error: "Failed to store OAuth configuration" }, 500);
+          }
+        }
+
+        await supabase.from("mcp_oauth_states").delete().lt("expires_at", new Date().toISOString());
+
+        const { codeVerifier, codeChallenge } = await createPkcePair();
+        const state = randomUrlSafeString(24);
+        const { error: stateError } = await supabase.from("mcp_oauth_states").insert({
+          state,
+          user_id: user.id,
+          server_id: server.id,
+          redirect_uri: redirectUri,
+          secret_envelope: await encryptSecret(JSON.stringify({ codeVerifier, clientSecret }), STATE_CONTEXT),
+          expires_at: new Date(Date.now() + STATE_TTL_MS).toISOString(),
+        });
+        if (stateError) {
+          console.error("mcp/oauth state insert error", stateError);
+          return jsonResponse({ error: "Failed to start authorization" }, 500);
+        }
+
+        return jsonResponse({
+          serverId: server.id,
+          name: server.name,
+          state,
+          authorizationUrl: buildAuthorizationUrl(config, {
+            clientId: config.clientId!,
+            redirectUri,
+            state,
+            codeChallenge,
+          }),
+        });
+      }
+
+      case "callback": {
+        const state = body.state?.trim();
+        if (!state) {
+          return jsonResponse({ error: "state is required" }, 400);
+        }
+
+        const { data: pending, error } = await supabase
+          .from("mcp_oauth_states")
+          .select("state, user_id, server_id, redirect_uri, secret_envelope, expires_at")
+          .eq("state", state)
+          .eq("user_id", user.id)
+          .maybeSingle();
+        if (error || !pending) {
+          return jsonResponse({ error: "Unknown or already used authorization state" }, 400);
+        }
+
+        // States are single-use regardless of the outcome.
+        await supabase.from("mcp_oauth_states").delete().eq("state", state);
+
+        if (new Date(pending.expires_at).getTime() < Date.now()) {
+          return jsonResponse({ error: "Authorization expired; please try again" }, 400);
+        }
+        if (body.error) {
+          return jsonResponse({ error: `Authorization denied: ${body.errorDescription ?? body.error}` }, 400);
+        }
+        if (!body.code) {
+          return jsonResponse({ error: "code is required" }, 400);
+        }
+
+        const { data: server, error: serverError } = await supabase
+          .from("mcp_servers")
+          .select(SERVER_COLUMNS)
+          .eq("id", pending.server_id)
+          .eq("user_id", user.id)
+          .maybeSingle();
+        const config = readOAuthServerConfig((server?.metadata ?? null) as Record<string, unknown> | null);
+        if (serverError || !server || !config) {
+          return jsonResponse({ error: "Server not found" }, 404);
+        }
+        if (!isSecretEnvelope(pending.secret_envelope)) {
+          return jsonResponse({ error: "Authorization state is corrupted" }, 400);
+        }
+
+        const { codeVerifier, clientSecret } = JSON.parse(
+          await decryptSecret(pending.secret_envelope, STATE_CONTEXT),
+        ) as { codeVerifier: string; clientSecret?: string };
+
+        const tokens = await exchangeAuthorizationCode(config, {
+          code: body.code,
+          codeVerifier,
+          redirectUri: pending.redirect_uri,
+          clientSecret,
+        });
+        await storeServerOAuthTokens(supabase, server, tokens);
+
+        // Now that the server accepts us, discover its tools.
+        const refreshed = await refreshServerTools(supabase, {
+          ...(server as McpServerRecord),
+          ...(await sealServerSecret(server, JSON.stringify(tokens))),
+        });
+
+        return jsonResponse({
+          serverId: server.id,
+          name: server.name,
+          tools: refreshed.tools,
+          toolCount: refreshed.tools.length,
+          discoveryMessage: refreshed.error ?? null,
+        });
+      }
+
+      default:
+        return jsonResponse({ error: "Invalid action" }, 400);
+    }
+  } catch (error) {
+    console.error("mcp/oauth error", error);
+    if (error instanceof McpOAuthError) {
+      return jsonResponse({ error: error.message, details: error.data ?? null }, 502);
+    }
+    return jsonResponse({ error: error instanceof Error ? error.message : "OAuth flow failed" }, 500);
+  }
+});
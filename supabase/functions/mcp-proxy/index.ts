@@ -1,15 +1,48 @@
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
 import type { Database } from "../_shared/database.types.ts";
+import {
+  createMcpClient,
+  mapToolResult,
+  McpProtocolError,
+  type McpProxyResult,
+  type McpTransportKind,
+} from "../_shared/mcpClient.ts";
+import {
+  applyServerAuth,
+  getServerCredential,
+  McpAuthorizationRequiredError,
+} from "../_shared/mcpServers.ts";
+import { SecretCryptoError } from "../_shared/secretCrypto.ts";
+
+interface McpInvocation {
+  serverId: string;
+  command?: string;
+  args?: Record<string, unknown>;
+  /** Arguments coerced by the client-side validator; preferred over `args`. */
+  typedArgs?: Record<string, unknown>;
+  positionalArgs?: string[];
+  rawInput?: string;
+}
 
 interface ProxyRequest {
   serverId?: string;
+  /** SlashMCP invocation to run as an MCP `tools/call`. */
+  invocation?: McpInvocation;
+  /** Raw passthrough mode (no invocation): forward `body` to `<gateway>/<path>`. */
   path?: string;
   method?: string;
   body?: unknown;
   headers?: Record<string, string>;
 }
 
+// Session ids survive between requests while this isolate stays warm, so
+// consecutive tool calls against the same server skip the handshake.
+const mcpSessions = new Map<
+  string,
+  { sessionId: string | null; protocolVersion: string | null; transport: McpTransportKind }
+>();
+
 const SUPABASE_URL = Deno.env.get("PROJECT_URL") ?? Deno.env.get("SUPABASE_URL");
 const SUPABASE_SERVICE_ROLE_KEY =
   Deno.env.get("SERVICE_ROLE_KEY") ?? Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
@@ -20,16 +53,6 @@ const corsHeaders = {
   "Access-Control-Allow-Methods": "POST, OPTIONS",
 };
 
-function decodeSecret(secret?: string | null): string | null {
-  if (!secret) return null;
-  const binary = atob(secret);
-  const bytes = new Uint8Array(binary.length);
-  for (let i = 0; i < binary.length; i += 1) {
-    bytes[i] = binary.charCodeAt(i);
-  }
-  return new TextDecoder().decode(bytes);
-}
-
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { status: 204, headers: corsHeaders });
@@ -94,7 +117,7 @@ serve(async (req) => {
   // Look up server by id OR name (to support friendly names like "search-mcp")
   const { data: server, error } = await supabase
     .from("mcp_servers")
-    .select("id, user_id, gateway_url, auth_type, auth_secret, metadata, is_active")
+    .select("id, user_id, name, gateway_url, auth_type, auth_secret, auth_secret_envelope, metadata, is_active")
     .eq("user_id", user.id)
     .or(`id.eq.${serverId},name.eq.${serverId}`)
     .maybeSingle();
@@ -113,8 +136,147 @@ serve(async (req) => {
     });
   }
 
+  const downstreamHeaders = new Headers(body.headers ?? {});
+
+  // For Supabase Edge Functions, include authentication headers
+  const isSupabaseFunction = server.gateway_url.includes(".supabase.co/functions/v1/");
+  if (isSupabaseFunction) {
+    // Get anon key from request headers (client sends it as 'apikey')
+    const anonKey = req.headers.get("apikey") ?? Deno.env.get("SUPABASE_ANON_KEY");
+    if (anonKey && !downstreamHeaders.has("apikey")) {
+      downstreamHeaders.set("apikey", anonKey);
+    }
+    // Also forward the Authorization header if present (for user-authenticated requests)
+    if (authHeader && !downstreamHeaders.has("Authorization")) {
+      downstreamHeaders.set("Authorization", authHeader);
+    }
+  }
+
+  // Older clients wrapped the invocation in `body`; treat that the same way.
+  const legacyBody = body.body as McpInvocation | undefined;
+  const invocation =
+    body.invocation ??
+    (legacyBody && typeof legacyBody === "object" && typeof legacyBody.command === "string" ? legacyBody : undefined);
+
+  const send = async (forceRefresh = false) => {
+    applyServerAuth(downstreamHeaders, server, await getServerCredential(supabase, server, { forceRefresh }));
+    return invocation
+      ? await invokeMcpTool(server.id, server.gateway_url, downstreamHeaders, invocation)
+      : await forwardRaw(server.gateway_url, downstreamHeaders, body);
+  };
+
+  try {
+    const response = await send();
+    // An OAuth access token can be revoked or expire early; refresh once and retry.
+    if (response.status === 401 && server.auth_type === "oauth") {
+      console.log("[mcp-proxy] 401 from", server.id, "- refreshing OAuth token");
+      return await send(true);
+    }
+    return response;
+  } catch (error) {
+    if (error instanceof McpAuthorizationRequiredError) {
+      return new Response(JSON.stringify({ error: error.message, authorizationRequired: true }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+    if (error instanceof SecretCryptoError) {
+      console.error("[mcp-proxy] Unable to decrypt credential for", server.id, error);
+      return new Response(JSON.stringify({ error: "Stored server credential could not be decrypted" }), {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+    console.error("[mcp-proxy] Request to", server.id, "failed", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "MCP proxy request failed" }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      },
+    );
+  }
+});
+
+async function invokeMcpTool(
+  serverKey: string,
+  endpoint: string,
+  headers: Headers,
+  invocation: McpInvocation,
+): Promise<Response> {
+  const startedAt = Date.now();
+  const respond = (result: McpProxyResult, raw?: unknown) =>
+    new Response(
+      JSON.stringify({
+        invocation,
+        result,
+        timestamp: new Date().toISOString(),
+        latencyMs: Date.now() - startedAt,
+        raw,
+      }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+
+  if (!invocation.command) {
+    return respond({ type: "error", message: "No tool specified. Usage: /<server> <tool> key=value" });
+  }
+
+  const cached = mcpSessions.get(serverKey);
+  const client = createMcpClient({
+    endpoint,
+    headers,
+    sessionId: cached?.sessionId,
+    protocolVersion: cached?.protocolVersion,
+    transport: cached?.transport,
+  });
+
+  try {
+    console.log("[mcp-proxy] tools/call", invocation.command, "via", client.transport, "at", endpoint);
+    const toolResult = await client.callTool(invocation.command, invocation.typedArgs ?? invocation.args ?? {});
+    mcpSessions.set(serverKey, {
+      sessionId: client.sessionId,
+      protocolVersion: client.protocolVersion,
+      transport: client.transport,
+    });
+    return respond(mapToolResult(toolResult), toolResult);
+  } catch (error) {
+    mcpSessions.delete(serverKey);
+    console.error("[mcp-proxy] MCP call failed:", error);
+
+    if (error instanceof McpProtocolError && error.status) {
+      // Transport-level failure: surface the gateway's HTTP status to the client.
+      return new Response(
+        JSON.stringify({ error: error.message, details: error.data }),
+        {
+          status: error.status === 401 || error.status === 403 ? error.status : 502,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    if (error instanceof McpProtocolError) {
+      return respond({
+        type: "error",
+        message: error.message,
+        details: error.code !== undefined ? { code: error.code, data: error.data } : error.data,
+      });
+    }
+
+    return new Response(
+      JSON.stringify({
+        error: "Failed to contact gateway",
+        details: error instanceof Error ? error.message : String(error),
+      }),
+      { status: 502, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  } finally {
+    await client.close();
+  }
+}
+
+async function forwardRaw(gatewayUrl: string, downstreamHeaders: Headers, body: ProxyRequest): Promise<Response> {
   // Normalize gateway URL (ensure it ends with /)
-  let baseUrl = server.gateway_url;
+  let baseUrl = gatewayUrl;
   if (!baseUrl.endsWith("/")) {
     baseUrl = `${baseUrl}/`;
   }
@@ -139,51 +301,11 @@ serve(async (req) => {
   console.log("[mcp-proxy] Relative path:", relativePath);
   console.log("[mcp-proxy] Target URL:", targetUrl);
 
-  const downstreamHeaders = new Headers(body.headers ?? {});
   if (!downstreamHeaders.has("Content-Type")) {
     downstreamHeaders.set("Content-Type", "application/json");
   }
 
-  // For Supabase Edge Functions, include authentication headers
-  const isSupabaseFunction = gatewayUrl.includes(".supabase.co/functions/v1/");
-  if (isSupabaseFunction) {
-    // Get anon key from request headers (client sends it as 'apikey')
-    const anonKey = req.headers.get("apikey") ?? Deno.env.get("SUPABASE_ANON_KEY");
-    if (anonKey && !downstreamHeaders.has("apikey")) {
-      downstreamHeaders.set("apikey", anonKey);
-    }
-    // Also forward the Authorization header if present (for user-authenticated requests)
-    const authHeader = req.headers.get("Authorization");
-    if (authHeader && !downstreamHeaders.has("Authorization")) {
-      downstreamHeaders.set("Authorization", authHeader);
-    }
-  }
-
-  const secret = decodeSecret(server.auth_secret);
-  if (secret && server.auth_type !== "none") {
-    const authHeaderKey = server.metadata?.authHeaderKey as string | undefined;
-    if (authHeaderKey) {
-      downstreamHeaders.set(authHeaderKey, secret);
-    } else {
-      downstreamHeaders.set("Authorization", `Bearer ${secret}`);
-    }
-  }
-
-  // Transform SlashMCP invocation format to MCP protocol format
-  // SlashMCP format: { serverId, command, args, positionalArgs, rawInput }
-  // MCP protocol format: { tool, arguments }
-  let requestBody = body.body;
-  if (requestBody && typeof requestBody === "object" && "command" in requestBody) {
-    const invocation = requestBody as { command?: string; args?: Record<string, string>; positionalArgs?: string[] };
-    if (invocation.command) {
-      // Transform to MCP protocol format
-      requestBody = {
-        tool: invocation.command,
-        arguments: invocation.args || {},
-      };
-      console.log("[mcp-proxy] Transformed SlashMCP format to MCP protocol:", JSON.stringify(requestBody).slice(0, 200));
-    }
-  }
+  const requestBody = body.body;
 
   let response: Response;
   try {
@@ -229,4 +351,4 @@ serve(async (req) => {
       "Content-Type": response.headers.get("Content-Type") ?? "application/json",
     },
   });
-});
+}
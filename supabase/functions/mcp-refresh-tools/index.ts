@@ -0,0 +1,138 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+import type { Database } from "../_shared/database.types.ts";
+import {
+  refreshServerTools,
+  TOOLS_REFRESH_INTERVAL_MS,
+  type McpServerRecord,
+} from "../_shared/mcpServers.ts";
+
+interface RefreshPayload {
+  serverId?: string;
+  /** Refresh even if the cache is still fresh (user-initiated refreshes only). */
+  force?: boolean;
+}
+
+const SUPABASE_URL = Deno.env.get("PROJECT_URL") ?? Deno.env.get("SUPABASE_URL");
+const SUPABASE_SERVICE_ROLE_KEY =
+  Deno.env.get("SERVICE_ROLE_KEY") ?? Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+// Upper bound per scheduled sweep so a single invocation stays well inside
+// the edge function time limit.
+const SWEEP_BATCH_SIZE = 25;
+
+const SERVER_COLUMNS =
+  "id, user_id, name, gateway_url, auth_type, auth_secret, auth_secret_envelope, metadata, is_active, tools, tools_refreshed_at";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    return new Response(JSON.stringify({ error: "Server not configured" }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  const authHeader = req.headers.get("Authorization") ?? "";
+  const accessToken = authHeader.replace(/Bearer\s+/i, "").trim();
+  if (!accessToken) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  let body: RefreshPayload = {};
+  try {
+    const text = await req.text();
+    body = text ? JSON.parse(text) : {};
+  } catch {
+    return new Response(JSON.stringify({ error: "Invalid JSON body" }), {
+      status: 400,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  const supabase = createClient<Database>(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  const staleBefore = new Date(Date.now() - TOOLS_REFRESH_INTERVAL_MS).toISOString();
+  let query = supabase.from("mcp_servers").select(SERVER_COLUMNS).eq("is_active", true);
+
+  // Scheduled sweep (pg_cron) authenticates with the service role key and
+  // refreshes the stalest servers across all users.
+  const isScheduledSweep = accessToken === SUPABASE_SERVICE_ROLE_KEY;
+  if (isScheduledSweep) {
+    query = query
+      .or(`tools_refreshed_at.is.null,tools_refreshed_at.lt.${staleBefore}`)
+      .order("tools_refreshed_at", { ascending: true, nullsFirst: true })
+      .limit(SWEEP_BATCH_SIZE);
+  } else {
+    const {
+      data: { user },
+      error: userError,
+    } = await supabase.auth.getUser(accessToken);
+    if (userError || !user) {
+      return new Response(JSON.stringify({ error: "Unable to authenticate user" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    query = query.eq("user_id", user.id);
+    const serverId = body.serverId?.trim();
+    if (serverId) {
+      query = query.or(`id.eq.${serverId},name.eq.${serverId}`);
+    } else if (!body.force) {
+      query = query.or(`tools_refreshed_at.is.null,tools_refreshed_at.lt.${staleBefore}`);
+    }
+  }
+
+  const { data: servers, error } = await query;
+  if (error) {
+    console.error("mcp/refresh-tools select error", error);
+    return new Response(JSON.stringify({ error: "Failed to load servers" }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  const results: Array<{ id: string; name: string; ok: boolean; toolCount: number; error?: string }> = [];
+  for (const server of (servers ?? []) as McpServerRecord[]) {
+    const outcome = await refreshServerTools(supabase, server);
+    results.push({
+      id: server.id,
+      name: server.name,
+      ok: outcome.ok,
+      toolCount: outcome.tools.length,
+      error: outcome.error,
+    });
+  }
+
+  console.log(
+    `[mcp-refresh-tools] Refreshed ${results.filter(r => r.ok).length}/${results.length} servers` +
+      (isScheduledSweep ? " (scheduled sweep)" : ""),
+  );
+
+  return new Response(JSON.stringify({ refreshed: results }), {
+    status: 200,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+});
@@ -1,6 +1,13 @@
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
 import type { Database } from "../_shared/database.types.ts";
+import { McpProtocolError } from "../_shared/mcpClient.ts";
+import {
+  applyServerAuth,
+  discoverTools,
+  sealServerSecret,
+  type StoredMcpTool,
+} from "../_shared/mcpServers.ts";
 
 interface RegisterPayload {
   name?: string;
@@ -20,14 +27,6 @@ const corsHeaders = {
   "Access-Control-Allow-Methods": "POST, OPTIONS",
 };
 
-function encodeSecret(secret?: string | null): string | null {
-  if (!secret) return null;
-  const bytes = new TextEncoder().encode(secret);
-  let binary = "";
-  bytes.forEach((b) => (binary += String.fromCharCode(b)));
-  return btoa(binary);
-}
-
 function isHttpsUrl(value: string): boolean {
   try {
     const url = new URL(value);
@@ -48,28 +47,22 @@ function isHttpsUrl(value: string): boolean {
 
 async function performHealthCheck(
   gatewayUrl: string,
-): Promise<{ ok: boolean; toolCount?: number; message?: string }> {
+  headers: Headers,
+): Promise<{ ok: boolean; tools?: StoredMcpTool[]; message?: string }> {
   try {
-    const url = new URL("listTools", gatewayUrl.endsWith("/") ? gatewayUrl : `${gatewayUrl}/`);
-    const response = await fetch(url.toString(), { method: "GET", headers: { Accept: "application/json" } });
-
-    // If the gateway responds at all, consider it reachable. We only use the
-    // status and body to populate metadata for the user; a non-2xx status
-    // shouldn't block registration (some MCP servers may not expose /listTools).
-    if (!response.ok) {
-      const text = await response.text().catch(() => "");
+    const tools = await discoverTools(gatewayUrl, headers);
+    return { ok: true, tools };
+  } catch (error) {
+    // If the gateway responds at all, consider it reachable. A failed
+    // handshake or tools/list shouldn't block registration; the refresh
+    // sweep will retry discovery later.
+    if (error instanceof McpProtocolError) {
       return {
         ok: true,
-        message: `Health check reachable but non-2xx (${response.status}): ${text?.slice(0, 200)}`,
+        message: `Gateway reachable but tool discovery failed${error.status ? ` (${error.status})` : ""}: ${error.message}`,
       };
     }
 
-    const data = await response.json().catch(() => undefined);
-    const toolCount = Array.isArray((data as { tools?: unknown[] })?.tools)
-      ? (data as { tools: unknown[] }).tools.length
-      : undefined;
-    return { ok: true, toolCount };
-  } catch (error) {
     // As a last resort, still allow localhost-style gateways to register even
     // if the health check fails entirely (e.g. server starting up).
     try {
@@ -167,7 +160,11 @@ serve(async (req) => {
     });
   }
 
-  const healthCheck = await performHealthCheck(gatewayUrl);
+  const metadata = body.metadata ?? null;
+  const healthCheck = await performHealthCheck(
+    gatewayUrl,
+    applyServerAuth(new Headers(), { auth_type: authType, metadata }, body.authSecret ?? null),
+  );
   if (!healthCheck.ok) {
     return new Response(JSON.stringify({ error: "Gateway health check failed", details: healthCheck.message }), {
       status: 400,
@@ -188,18 +185,35 @@ serve(async (req) => {
     });
   }
 
+  // The id is part of the credential's encryption context, so it is chosen here
+  const serverId = crypto.randomUUID();
+  let sealedSecret: Awaited<ReturnType<typeof sealServerSecret>>;
+  try {
+    sealedSecret = await sealServerSecret({ id: serverId, user_id: user.id }, body.authSecret);
+  } catch (error) {
+    console.error("mcp/register secret encryption error", error);
+    return new Response(JSON.stringify({ error: "Failed to encrypt server credential" }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
   const { data, error } = await supabase
     .from("mcp_servers")
     .insert({
+      id: serverId,
       user_id: user.id,
       name,
       gateway_url: gatewayUrl,
       auth_type: authType,
-      auth_secret: encodeSecret(body.authSecret),
-      metadata: body.metadata ?? null,
+      ...sealedSecret,
+      metadata,
       last_health_check: new Date().toISOString(),
+      tools: healthCheck.tools ?? [],
+      tools_refreshed_at: healthCheck.tools ? new Date().toISOString() : null,
+      tools_error: healthCheck.tools ? null : healthCheck.message ?? null,
     })
-    .select("id, name, gateway_url")
+    .select("id, name, gateway_url, tools")
     .single();
 
   if (error || !data) {
@@ -215,7 +229,12 @@ serve(async (req) => {
       id: data.id,
       name: data.name,
       gatewayUrl: data.gateway_url,
-      toolCount: healthCheck.toolCount ?? null,
+      toolCount: healthCheck.tools?.length ?? null,
+      tools: data.tools ?? [],
+      discoveryMessage: healthCheck.message ?? null,
+      // OAuth servers registered without a token still need the user to
+      // authorize SlashMCP (see mcp-oauth).
+      authorizationRequired: authType === "oauth" && !body.authSecret,
     }),
     {
       status: 200,
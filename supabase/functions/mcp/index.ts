@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
 import type { Database } from "../_shared/database.types.ts";
+import { openApiKeyValue, type StoredApiKey } from "../_shared/apiKeys.ts";
 
 type ChartRange = "1M" | "3M" | "6M" | "1Y";
 
@@ -634,7 +635,6 @@ async function getTwelveDataApiKey(userId?: string): Promise<string | null> {
     try {
       const SUPABASE_URL = Deno.env.get("PROJECT_URL") ?? Deno.env.get("SUPABASE_URL");
       const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SERVICE_ROLE_KEY") ?? Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
-      const ENCRYPTION_KEY = Deno.env.get("ENCRYPTION_KEY") ?? "default-encryption-key-change-in-production";
 
       if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
         return null;
@@ -647,7 +647,7 @@ async function getTwelveDataApiKey(userId?: string): Promise<string | null> {
       // Look for a key with provider "twelvedata" for this user
       const { data: keyData, error } = await supabase
         .from("api_keys")
-        .select("encrypted_key")
+        .select("id, user_id, encrypted_key, key_envelope")
         .eq("user_id", userId)
         .eq("provider", "twelvedata")
         .eq("is_active", true)
@@ -658,13 +658,9 @@ async function getTwelveDataApiKey(userId?: string): Promise<string | null> {
       }
 
       // Decrypt the key
-      const { data: decryptedKey, error: decryptError } = await supabase.rpc("decrypt_key_value", {
-        key_value: keyData.encrypted_key,
-        encryption_key: ENCRYPTION_KEY,
-      });
-
-      if (decryptError || !decryptedKey) {
-        console.error("Failed to decrypt key:", decryptError);
+      const decryptedKey = await openApiKeyValue(supabase, keyData);
+      if (!decryptedKey) {
+        console.error("Failed to decrypt key");
         return null;
       }
 
@@ -1422,7 +1418,6 @@ async function getGooglePlacesApiKey(userId?: string): Promise<string | null> {
     try {
       const SUPABASE_URL = Deno.env.get("PROJECT_URL") ?? Deno.env.get("SUPABASE_URL");
       const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SERVICE_ROLE_KEY") ?? Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
-      const ENCRYPTION_KEY = Deno.env.get("ENCRYPTION_KEY") ?? "default-encryption-key-change-in-production";
 
       if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
         return null;
@@ -1434,14 +1429,14 @@ async function getGooglePlacesApiKey(userId?: string): Promise<string | null> {
 
       // Look for a key with provider "google_places", "google_places_api_key", or "google_maps" for this user
       // Try multiple queries to find the key
-      let keyData: { encrypted_key: string } | null = null;
+      let keyData: StoredApiKey | null = null;
       let queryError: any = null;
       
       // First try: exact provider match
       console.log(`[Google Places] Query 1: Looking for provider="google_places_api_key"`);
       const { data: data1, error: error1 } = await supabase
         .from("api_keys")
-        .select("encrypted_key, provider, name")
+        .select("id, user_id, encrypted_key, key_envelope, provider, name")
         .eq("user_id", userId)
         .eq("provider", "google_places_api_key")
         .eq("is_active", true)
@@ -1450,14 +1445,14 @@ async function getGooglePlacesApiKey(userId?: string): Promise<string | null> {
       console.log(`[Google Places] Query 1 result:`, { found: !!data1, error: error1, data: data1 ? { provider: data1.provider, name: data1.name } : null });
       
       if (!error1 && data1) {
-        keyData = { encrypted_key: data1.encrypted_key };
+        keyData = data1;
       } else {
         queryError = error1;
         // Second try: other provider names
         console.log(`[Google Places] Query 2: Looking for provider="google_places" or "google_maps"`);
         const { data: data2, error: error2 } = await supabase
           .from("api_keys")
-          .select("encrypted_key, provider, name")
+          .select("id, user_id, encrypted_key, key_envelope, provider, name")
           .eq("user_id", userId)
           .or("provider.eq.google_places,provider.eq.google_maps")
           .eq("is_active", true)
@@ -1466,13 +1461,13 @@ async function getGooglePlacesApiKey(userId?: string): Promise<string | null> {
         console.log(`[Google Places] Query 2 result:`, { found: !!data2, error: error2, data: data2 ? { provider: data2.provider, name: data2.name } : null });
         
         if (!error2 && data2) {
-          keyData = { encrypted_key: data2.encrypted_key };
+          keyData = data2;
         } else {
           // Third try: name-based search
           console.log(`[Google Places] Query 3: Looking for name containing "google_places" or "google_maps"`);
           const { data: data3, error: error3 } = await supabase
             .from("api_keys")
-            .select("encrypted_key, provider, name")
+            .select("id, user_id, encrypted_key, key_envelope, provider, name")
             .eq("user_id", userId)
             .or("name.ilike.%google_places%,name.ilike.%google_maps%")
             .eq("is_active", true)
@@ -1482,7 +1477,7 @@ async function getGooglePlacesApiKey(userId?: string): Promise<string | null> {
           console.log(`[Google Places] Query 3 result:`, { found: !!data3, error: error3, data: data3 ? { provider: data3.provider, name: data3.name } : null });
           
           if (!error3 && data3) {
-            keyData = { encrypted_key: data3.encrypted_key };
+            keyData = data3;
           } else {
             queryError = error3 || error2 || error1;
           }
@@ -1512,7 +1507,7 @@ async function getGooglePlacesApiKey(userId?: string): Promise<string | null> {
             // Try to get this key
             const { data: foundKey, error: foundError } = await supabase
               .from("api_keys")
-              .select("encrypted_key")
+              .select("id, user_id, encrypted_key, key_envelope")
               .eq("id", googleKey.id)
               .eq("is_active", true)
               .single();
@@ -1531,13 +1526,9 @@ async function getGooglePlacesApiKey(userId?: string): Promise<string | null> {
 
       // Decrypt the key
       try {
-        const { data: decryptedKey, error: decryptError } = await supabase.rpc("decrypt_key_value", {
-          key_value: keyData.encrypted_key,
-          encryption_key: ENCRYPTION_KEY,
-        });
-
-        if (decryptError || !decryptedKey) {
-          console.error("Failed to decrypt Google Places API key:", decryptError);
+        const decryptedKey = await openApiKeyValue(supabase, keyData);
+        if (!decryptedKey) {
+          console.error("Failed to decrypt Google Places API key");
           return null;
         }
 
@@ -2329,7 +2320,7 @@ async function getCanvaCredentials(userId?: string): Promise<{ clientId: string;
         // We'll look for keys with provider "canva" or "canva_client_id", "canva_client_secret", "canva_access_token", "canva_refresh_token"
         const { data: keys, error } = await supabase
           .from("api_keys")
-          .select("name, encrypted_key")
+          .select("id, user_id, name, encrypted_key, key_envelope")
           .eq("user_id", userId)
           .or("provider.eq.canva,provider.ilike.%canva%,name.ilike.%canva%")
           .eq("is_active", true);
@@ -2338,11 +2329,9 @@ async function getCanvaCredentials(userId?: string): Promise<{ clientId: string;
           const credentials: { clientId?: string; clientSecret?: string; accessToken?: string; refreshToken?: string } = {};
           
           for (const key of keys) {
-            const { data: decryptedKey, error: decryptError } = await supabase.rpc("decrypt_key_value", {
-              key_value: key.encrypted_key,
-            });
+            const decryptedKey = await openApiKeyValue(supabase, key);
             
-            if (!decryptError && decryptedKey) {
+            if (decryptedKey) {
               const name = (key.name || "").toLowerCase();
               if (name.includes("client_id") || name.includes("clientid")) {
                 credentials.clientId = decryptedKey;
@@ -0,0 +1,262 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+import type { Database } from "../_shared/database.types.ts";
+import { apiKeySecretContext, decryptLegacyApiKey } from "../_shared/apiKeys.ts";
+import { decodeLegacySecret, serverSecretContext } from "../_shared/mcpServers.ts";
+import {
+  currentMasterKeyVersion,
+  encryptSecret,
+  isSecretEnvelope,
+  rewrapSecret,
+  type SecretEnvelope,
+} from "../_shared/secretCrypto.ts";
+
+const SUPABASE_URL = Deno.env.get("PROJECT_URL") ?? Deno.env.get("SUPABASE_URL");
+const SUPABASE_SERVICE_ROLE_KEY =
+  Deno.env.get("SERVICE_ROLE_KEY") ?? Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+// Rows per table per invocation; call again with the returned `cursor` while
+// `remaining` is true.
+const BATCH_SIZE = 100;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+interface TableOutcome {
+  migrated: number;
+  rewrapped: number;
+  /** Rows left on their old key; a later pass without a cursor retries them. */
+  failed: Array<{ id: string; error: string }>;
+  remaining: boolean;
+  /** Last id this pass looked at. Failed rows keep their old version, so the next
+   * pass starts after it rather than selecting them first again. */
+  cursor: string | null;
+}
+
+/** Where each table's pass left off, as returned by the previous call. */
+interface RotateCursor {
+  mcpServers?: string | null;
+  apiKeys?: string | null;
+  webhookSecrets?: string | null;
+}
+
+type SupabaseAdmin = ReturnType<typeof createClient<Database>>;
+
+/**
+ * Bring one row's secret up to the current master key. Rows at version 0
+ * still hold a legacy ciphertext and are encrypted from scratch; newer rows
+ * only have their data key re-wrapped.
+ */
+async function upgradeSecret(
+  keyVersion: number,
+  envelope: unknown,
+  openLegacy: () => Promise<string | null>,
+  context: string,
+): Promise<{ envelope: SecretEnvelope; migrated: boolean }> {
+  if (keyVersion > 0 && isSecretEnvelope(envelope)) {
+    return { envelope: await rewrapSecret(envelope), migrated: false };
+  }
+  const plaintext = await openLegacy();
+  if (plaintext === null) {
+    throw new Error("Legacy secret could not be decrypted");
+  }
+  return { envelope: await encryptSecret(plaintext, context), migrated: true };
+}
+
+async function rotateMcpServers(
+  supabase: SupabaseAdmin,
+  targetVersion: number,
+  after: string | null,
+): Promise<TableOutcome> {
+  const outcome: TableOutcome = { migrated: 0, rewrapped: 0, failed: [], remaining: false, cursor: after };
+  let query = supabase
+    .from("mcp_servers")
+    .select("id, user_id, auth_secret, auth_secret_envelope, auth_secret_key_version")
+    .lt("auth_secret_key_version", targetVersion)
+    .order("id", { ascending: true })
+    .limit(BATCH_SIZE);
+  if (after) query = query.gt("id", after);
+  const { data: rows, error } = await query;
+  if (error) throw error;
+
+  for (const row of rows ?? []) {
+    try {
+      const { envelope, migrated } = await upgradeSecret(
+        row.auth_secret_key_version,
+        row.auth_secret_envelope,
+        async () => decodeLegacySecret(row.auth_secret),
+        serverSecretContext(row),
+      );
+      const { error: updateError } = await supabase
+        .from("mcp_servers")
+        .update({ auth_secret: null, auth_secret_envelope: envelope, auth_secret_key_version: envelope.keyVersion })
+        .eq("id", row.id);
+      if (updateError) throw updateError;
+      if (migrated) {
+        outcome.migrated += 1;
+      } else {
+        outcome.rewrapped += 1;
+      }
+    } catch (rowError) {
+      outcome.failed.push({ id: row.id, error: rowError instanceof Error ? rowError.message : String(rowError) });
+    }
+  }
+
+  outcome.remaining = (rows?.length ?? 0) === BATCH_SIZE;
+  outcome.cursor = rows?.length ? rows[rows.length - 1].id : after;
+  return outcome;
+}
+
+// Webhook signing secrets were encrypted from the start, so they only ever need re-wrapping
+async function rotateWebhookSecrets(
+  supabase: SupabaseAdmin,
+  targetVersion: number,
+  after: string | null,
+): Promise<TableOutcome> {
+  const outcome: TableOutcome = { migrated: 0, rewrapped: 0, failed: [], remaining: false, cursor: after };
+  let query = supabase
+    .from("workflow_triggers")
+    .select("id, webhook_secret_envelope")
+    .lt("webhook_secret_key_version", targetVersion)
+    .order("id", { ascending: true })
+    .limit(BATCH_SIZE);
+  if (after) query = query.gt("id", after);
+  const { data: rows, error } = await query;
+  if (error) throw error;
+
+  for (const row of rows ?? []) {
+    try {
+      if (!isSecretEnvelope(row.webhook_secret_envelope)) {
+        throw new Error("Stored webhook secret is not an envelope");
+      }
+      const envelope = await rewrapSecret(row.webhook_secret_envelope);
+      const { error: updateError } = await supabase
+        .from("workflow_triggers")
+        .update({ webhook_secret_envelope: envelope, webhook_secret_key_version: envelope.keyVersion })
+        .eq("id", row.id);
+      if (updateError) throw updateError;
+      outcome.rewrapped += 1;
+    } catch (rowError) {
+      outcome.failed.push({ id: row.id, error: rowError instanceof Error ? rowError.message : String(rowError) });
+    }
+  }
+
+  outcome.remaining = (rows?.length ?? 0) === BATCH_SIZE;
+  outcome.cursor = rows?.length ? rows[rows.length - 1].id : after;
+  return outcome;
+}
+
+async function rotateApiKeys(
+  supabase: SupabaseAdmin,
+  targetVersion: number,
+  after: string | null,
+): Promise<TableOutcome> {
+  const outcome: TableOutcome = { migrated: 0, rewrapped: 0, failed: [], remaining: false, cursor: after };
+  let query = supabase
+    .from("api_keys")
+    .select("id, user_id, encrypted_key, key_envelope, key_version")
+    .lt("key_version", targetVersion)
+    .order("id", { ascending: true })
+    .limit(BATCH_SIZE);
+  if (after) query = query.gt("id", after);
+  const { data: rows, error } = await query;
+  if (error) throw error;
+
+  for (const row of rows ?? []) {
+    try {
+      const { envelope, migrated } = await upgradeSecret(
+        row.key_version,
+        row.key_envelope,
+        () => decryptLegacyApiKey(supabase, row.encrypted_key),
+        apiKeySecretContext(row),
+      );
+      const { error: updateError } = await supabase
+        .from("api_keys")
+        .update({ encrypted_key: null, key_envelope: envelope, key_version: envelope.keyVersion })
+        .eq("id", row.id);
+      if (updateError) throw updateError;
+      if (migrated) {
+        outcome.migrated += 1;
+      } else {
+        outcome.rewrapped += 1;
+      }
+    } catch (rowError) {
+      outcome.failed.push({ id: row.id, error: rowError instanceof Error ? rowError.message : String(rowError) });
+    }
+  }
+
+  outcome.remaining = (rows?.length ?? 0) === BATCH_SIZE;
+  outcome.cursor = rows?.length ? rows[rows.length - 1].id : after;
+  return outcome;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    return new Response(JSON.stringify({ error: "Server not configured" }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  // Operator-only: re-encrypting touches every user's secrets.
+  const authHeader = req.headers.get("Authorization") ?? "";
+  const accessToken = authHeader.replace(/Bearer\s+/i, "").trim();
+  if (accessToken !== SUPABASE_SERVICE_ROLE_KEY) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  const supabase = createClient<Database>(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  const body = (await req.json().catch(() => ({}))) as { cursor?: RotateCursor };
+  const cursor = body?.cursor ?? {};
+
+  try {
+    const keyVersion = currentMasterKeyVersion();
+    const mcpServers = await rotateMcpServers(supabase, keyVersion, cursor.mcpServers ?? null);
+    const apiKeys = await rotateApiKeys(supabase, keyVersion, cursor.apiKeys ?? null);
+    const webhookSecrets = await rotateWebhookSecrets(supabase, keyVersion, cursor.webhookSecrets ?? null);
+
+    console.log(
+      `[secrets-rotate] v${keyVersion}: mcp_servers migrated=${mcpServers.migrated} rewrapped=${mcpServers.rewrapped} failed=${mcpServers.failed.length}; ` +
+        `api_keys migrated=${apiKeys.migrated} rewrapped=${apiKeys.rewrapped} failed=${apiKeys.failed.length}; ` +
+        `workflow_triggers rewrapped=${webhookSecrets.rewrapped} failed=${webhookSecrets.failed.length}`,
+    );
+
+    return new Response(
+      JSON.stringify({
+        keyVersion,
+        mcpServers,
+        apiKeys,
+        webhookSecrets,
+        remaining: mcpServers.remaining || apiKeys.remaining || webhookSecrets.remaining,
+        cursor: { mcpServers: mcpServers.cursor, apiKeys: apiKeys.cursor, webhookSecrets: webhookSecrets.cursor },
+      }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  } catch (error) {
+    console.error("[secrets-rotate] failed", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Rotation failed" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  }
+});
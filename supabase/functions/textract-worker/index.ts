@@ -1,6 +1,24 @@
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
 import type { Database } from "../_shared/database.types.ts";
+import { detectNativeFormat, extractNativeDocument } from "../_shared/documentExtractors.ts";
+import {
+  type ExtractedTable,
+  readTextractFormFields,
+  readTextractTables,
+  type TextractBlock,
+} from "../_shared/documentTables.ts";
+import { generateEmbeddings, getEmbeddingProvider, toVectorLiteral } from "../_shared/embeddings.ts";
+import {
+  buildSpeakerTurns,
+  describeTranscriptRange,
+  detectMediaFormat,
+  formatTranscript,
+  getTranscriptionModel,
+  type MediaFormat,
+  transcribeMedia,
+  type TranscriptSpan,
+} from "../_shared/transcription.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -21,14 +39,24 @@ const AWS_ACCESS_KEY_ID = Deno.env.get("AWS_ACCESS_KEY_ID");
 const AWS_SECRET_ACCESS_KEY = Deno.env.get("AWS_SECRET_ACCESS_KEY");
 const AWS_SESSION_TOKEN = Deno.env.get("AWS_SESSION_TOKEN");
 const AWS_S3_BUCKET = Deno.env.get("AWS_S3_BUCKET");
+// AnalyzeDocument features for PDFs and images; set to "" for plain text detection,
+// which is cheaper but returns tables as flattened lines
+const TEXTRACT_FEATURE_TYPES = (Deno.env.get("TEXTRACT_FEATURE_TYPES") ?? "TABLES,FORMS")
+  .split(",")
+  .map((feature) => feature.trim().toUpperCase())
+  .filter((feature) => ["TABLES", "FORMS", "SIGNATURES", "LAYOUT"].includes(feature));
+// Build the map-reduce document summary once a document is indexed (see document-summarize)
+const SUMMARIZE_ON_INDEX = (Deno.env.get("SUMMARIZE_ON_INDEX") ?? "true").toLowerCase() !== "false";
+const OPENAI_API_KEY = Deno.env.get("OPENAI_API_KEY");
+// Recordings are held in memory while they are split and transcribed, and split WAV
+// parts are copies, so this stays well under half the edge runtime's memory limit
+const MAX_MEDIA_BYTES = Number(Deno.env.get("TRANSCRIPTION_MAX_MB") ?? "100") * 1024 * 1024;
 
 const encoder = new TextEncoder();
 const JOB_STAGES = ["registered", "uploaded", "processing", "extracted", "indexed", "injected", "failed"] as const;
 type JobStage = typeof JOB_STAGES[number];
 type StageHistoryEntry = { stage: JobStage; at: string };
 
-const OPENAI_API_KEY = Deno.env.get("OPENAI_API_KEY");
-
 // Semantic chunking function with overlap and boundary preservation
 function chunkTextSemantic(
   text: string,
@@ -66,9 +94,13 @@ function chunkTextSemantic(
     // Try to find a good breaking point
     let chunkEnd = currentPos + targetSize;
     
-    // First, try to break at paragraph boundary (double newline)
+    // First, try to break before a heading (section, sheet or slide boundary
+    // from the native extractors), then at a paragraph boundary (double newline)
+    const headingBreak = text.lastIndexOf("\n\n#", chunkEnd);
     const paragraphBreak = text.lastIndexOf("\n\n", chunkEnd);
-    if (paragraphBreak > currentPos + targetSize * 0.7) {
+    if (headingBreak > currentPos + targetSize * 0.5) {
+      chunkEnd = headingBreak + 2;
+    } else if (paragraphBreak > currentPos + targetSize * 0.7) {
       chunkEnd = paragraphBreak + 2; // Include the newlines
     } else {
       // Try to break at sentence boundary (period, exclamation, question mark followed by space)
@@ -119,112 +151,122 @@ function chunkTextSemantic(
   return chunks;
 }
 
-// Generate embeddings using OpenAI API with batching and retry logic
-async function generateEmbeddings(
-  texts: string[],
-  apiKey: string,
-  maxRetries: number = 3,
-  startTime?: number,
-  totalTimeoutMs: number = 300_000, // 5 minutes total timeout
-): Promise<number[][]> {
-  if (texts.length === 0) return [];
-
-  const embeddings: number[][] = [];
-  const batchSize = 100; // OpenAI allows up to 2048 inputs per request, but we'll use smaller batches
-  const batchTimeoutMs = 30_000; // 30 seconds per batch
-  const processStartTime = startTime ?? Date.now();
-
-  for (let i = 0; i < texts.length; i += batchSize) {
-    // Check overall timeout before processing each batch
-    const elapsed = Date.now() - processStartTime;
-    if (elapsed > totalTimeoutMs) {
-      console.warn(`Embedding generation exceeded total timeout (${totalTimeoutMs}ms), processed ${i}/${texts.length} chunks`);
-      throw new Error(`Embedding generation timeout: processed ${i}/${texts.length} chunks in ${elapsed}ms`);
-    }
-
-    const batch = texts.slice(i, i + batchSize);
-    let retries = 0;
-    let success = false;
+// Textract geometry: fractions of the page width/height, origin top-left
+type BoundingBox = { left: number; top: number; width: number; height: number };
 
-    while (retries < maxRetries && !success) {
-      // Add timeout to each API call
-      const abortController = new AbortController();
-      const timeoutId = setTimeout(() => {
-        abortController.abort();
-      }, batchTimeoutMs);
+// Where a span of the extracted text came from: a Textract LINE (page and
+// box) or, for native extractors, a whole slide
+interface TextSpan {
+  start: number;
+  end: number;
+  page: number;
+  box?: BoundingBox;
+}
 
-      try {
-        const response = await fetch("https://api.openai.com/v1/embeddings", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${apiKey}`,
-          },
-          body: JSON.stringify({
-            model: "text-embedding-3-small",
-            input: batch,
-          }),
-          signal: abortController.signal,
-        });
+// A LINE block also carries where it sits on the page
+type TextractLineBlock = TextractBlock & {
+  Geometry?: { BoundingBox?: { Left?: number; Top?: number; Width?: number; Height?: number } };
+};
 
-        clearTimeout(timeoutId);
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          // Handle rate limiting
-          if (response.status === 429) {
-            const retryAfter = response.headers.get("retry-after");
-            const delay = retryAfter ? parseInt(retryAfter, 10) * 1000 : Math.pow(2, retries) * 1000;
-            console.log(`Rate limited, waiting ${delay}ms before retry ${retries + 1}/${maxRetries}`);
-            await new Promise((resolve) => setTimeout(resolve, delay));
-            retries++;
-            continue;
-          }
-          throw new Error(`OpenAI API error: ${response.status} ${errorText}`);
-        }
+function readTextractLine(block: TextractLineBlock): { text: string; page: number; box?: BoundingBox } | null {
+  if (block.BlockType !== "LINE" || !block.Text) return null;
+  const box = block.Geometry?.BoundingBox;
+  return {
+    text: block.Text,
+    // DetectDocumentText (single image) omits Page
+    page: typeof block.Page === "number" ? block.Page : 1,
+    box: box
+      ? { left: box.Left ?? 0, top: box.Top ?? 0, width: box.Width ?? 0, height: box.Height ?? 0 }
+      : undefined,
+  };
+}
 
-        const data = await response.json();
-        if (!data.data || !Array.isArray(data.data)) {
-          throw new Error("Invalid response format from OpenAI API");
-        }
+/** Join Textract lines into the document text, remembering each line's page and position. */
+function joinTextractLines(lines: Array<{ text: string; page: number; box?: BoundingBox }>): { text: string; spans: TextSpan[] } {
+  const spans: TextSpan[] = [];
+  let offset = 0;
+  for (const line of lines) {
+    spans.push({ start: offset, end: offset + line.text.length, page: line.page, box: line.box });
+    offset += line.text.length + 1;
+  }
+  return { text: lines.map((line) => line.text).join("\n"), spans };
+}
 
-        const batchEmbeddings = data.data
-          .sort((a: { index: number }, b: { index: number }) => a.index - b.index)
-          .map((item: { embedding: number[] }) => item.embedding);
+/** Tables and form fields from AnalyzeDocument blocks; form fields come last. */
+function readAnalysisTables(blocks: TextractBlock[]): ExtractedTable[] {
+  const tables = readTextractTables(blocks);
+  const formFields = readTextractFormFields(blocks);
+  return formFields ? [...tables, formFields] : tables;
+}
 
-        embeddings.push(...batchEmbeddings);
-        success = true;
+function collectHeadings(text: string): Array<{ position: number; level: number; title: string }> {
+  return [...text.matchAll(/^(#{1,6})\s+(.+)$/gm)].map((match) => ({
+    position: match.index ?? 0,
+    level: match[1].length,
+    title: match[2].trim(),
+  }));
+}
 
-        // Small delay between batches to avoid rate limits
-        if (i + batchSize < texts.length) {
-          await new Promise((resolve) => setTimeout(resolve, 100));
-        }
-      } catch (error) {
-        if (error instanceof Error && error.name === 'AbortError') {
-          clearTimeout(timeoutId);
-          console.error(`Embedding batch ${i / batchSize + 1} timed out after ${batchTimeoutMs}ms`);
-          throw new Error(`Embedding batch timeout: batch ${i / batchSize + 1} exceeded ${batchTimeoutMs}ms`);
-        }
-        clearTimeout(timeoutId);
-        retries++;
-        if (retries >= maxRetries) {
-          throw error;
-        }
-        const delay = Math.pow(2, retries) * 1000;
-        console.error(`Embedding generation error, retrying in ${delay}ms:`, error);
-        await new Promise((resolve) => setTimeout(resolve, delay));
-      }
-    }
+/**
+ * Locate a chunk in the source text: the pages it spans, the heading path it
+ * sits under, the union of its line boxes per page and whether it holds a table.
+ * Transcript chunks also get the time range and speakers of the turns they cover.
+ */
+function describeChunk(
+  text: string,
+  chunk: { text: string; metadata: { charPosition: number } },
+  spans: TextSpan[],
+  headings: Array<{ position: number; level: number; title: string }>,
+  transcriptSpans: TranscriptSpan[] = [],
+): Record<string, unknown> {
+  // chunkTextSemantic trims chunks, so the content can start after charPosition
+  const start = Math.max(text.indexOf(chunk.text, chunk.metadata.charPosition), chunk.metadata.charPosition);
+  const end = start + chunk.text.length;
+
+  const path: Array<{ level: number; title: string }> = [];
+  for (const heading of headings) {
+    if (heading.position > start) break;
+    while (path.length > 0 && path[path.length - 1].level >= heading.level) path.pop();
+    path.push(heading);
+  }
 
-    // Log progress for large documents
-    if ((i + batchSize) % 500 === 0 || i + batchSize >= texts.length) {
-      const progress = ((i + batchSize) / texts.length * 100).toFixed(1);
-      const elapsed = Date.now() - processStartTime;
-      console.log(`Embedding progress: ${i + batchSize}/${texts.length} chunks (${progress}%) in ${elapsed}ms`);
+  const pages: number[] = [];
+  const boxes = new Map<number, BoundingBox>();
+  for (const span of spans) {
+    if (span.start >= end || span.end <= start) continue;
+    pages.push(span.page);
+    if (!span.box) continue;
+    const current = boxes.get(span.page);
+    if (!current) {
+      boxes.set(span.page, { ...span.box });
+      continue;
     }
+    const right = Math.max(current.left + current.width, span.box.left + span.box.width);
+    const bottom = Math.max(current.top + current.height, span.box.top + span.box.height);
+    current.left = Math.min(current.left, span.box.left);
+    current.top = Math.min(current.top, span.box.top);
+    current.width = right - current.left;
+    current.height = bottom - current.top;
   }
 
-  return embeddings;
+  const round = (value: number) => Math.round(value * 10_000) / 10_000;
+  return {
+    ...(pages.length > 0 ? { pageNumber: Math.min(...pages), pageEnd: Math.max(...pages) } : {}),
+    ...(path.length > 0 ? { sectionPath: path.map((heading) => heading.title) } : {}),
+    ...(boxes.size > 0
+      ? {
+          boundingBoxes: [...boxes].map(([page, box]) => ({
+            page,
+            left: round(box.left),
+            top: round(box.top),
+            width: round(box.width),
+            height: round(box.height),
+          })),
+        }
+      : {}),
+    ...(/^\|.*\|\s*$/m.test(chunk.text) ? { hasTable: true } : {}),
+    ...describeTranscriptRange(transcriptSpans, start, end),
+  };
 }
 
 function parseStageHistory(metadata?: Record<string, unknown> | null): StageHistoryEntry[] {
@@ -489,6 +531,339 @@ const supabase = SUPABASE_URL && SUPABASE_SERVICE_ROLE_KEY
     })
   : null;
 
+// Embeddings of the previous version's chunks, keyed by chunk content hash
+async function loadReusableEmbeddings(
+  previousJobId: string | null,
+  userId: string | null,
+  chunkHashes: string[],
+  embeddingModel: string,
+  embeddingDimensions: number,
+): Promise<Map<string, string>> {
+  const reusable = new Map<string, string>();
+  if (!supabase || !previousJobId || !userId) return reusable;
+
+  // Only ever copy from the same user's documents
+  const { data: previousJob, error: previousError } = await supabase
+    .from("processing_jobs")
+    .select("id")
+    .eq("id", previousJobId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (previousError || !previousJob) {
+    console.warn(`Previous version ${previousJobId} is not the job owner's; embedding every chunk`);
+    return reusable;
+  }
+
+  const uniqueHashes = [...new Set(chunkHashes)];
+  // Batched so the hash filter stays within URL length limits
+  for (let i = 0; i < uniqueHashes.length; i += 100) {
+    const { data, error } = await supabase
+      .from("document_embeddings")
+      .select("content_hash, embedding")
+      .eq("job_id", previousJobId)
+      .eq("embedding_model", embeddingModel)
+      .eq("embedding_dimensions", embeddingDimensions)
+      .in("content_hash", uniqueHashes.slice(i, i + 100));
+    if (error) {
+      console.warn(`Could not load embeddings from previous version ${previousJobId}:`, error);
+      return new Map();
+    }
+    for (const row of data ?? []) {
+      if (row.content_hash && row.embedding) {
+        reusable.set(row.content_hash, typeof row.embedding === "string" ? row.embedding : toVectorLiteral(row.embedding));
+      }
+    }
+  }
+  return reusable;
+}
+
+/** Replace the job's stored tables; table_index is 1-based in document order. */
+async function storeDocumentTables(jobId: string, tables: ExtractedTable[]) {
+  if (!supabase) return;
+  const { error: deleteError } = await supabase.from("document_tables").delete().eq("job_id", jobId);
+  if (deleteError) throw deleteError;
+  if (tables.length === 0) return;
+
+  const { error: insertError } = await supabase.from("document_tables").insert(
+    tables.map((table, index) => ({
+      job_id: jobId,
+      table_index: index + 1,
+      page_number: table.page ?? null,
+      title: table.title ?? null,
+      columns: table.columns,
+      rows: table.rows,
+      row_count: table.rows.length,
+      source: table.source,
+    })),
+  );
+  if (insertError) throw insertError;
+}
+
+/** Starts the background summary; a failure here only means the summary is built on first request. */
+async function requestDocumentSummary(jobId: string) {
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) return;
+  try {
+    const response = await fetch(`${SUPABASE_URL.replace(/\/+$/, "")}/functions/v1/document-summarize`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`,
+      },
+      body: JSON.stringify({ jobId }),
+    });
+    if (!response.ok) {
+      console.warn(`Summary request for job ${jobId} returned ${response.status}: ${await response.text()}`);
+    }
+  } catch (error) {
+    console.warn(`Summary request for job ${jobId} failed:`, error);
+  }
+}
+
+interface Extraction {
+  text: string;
+  rawResponse: unknown;
+  extractor: string;
+  details: Record<string, unknown> | null;
+  spans: TextSpan[];
+  /** Turn timings, for transcribed recordings. */
+  transcriptSpans: TranscriptSpan[];
+  tables: ExtractedTable[];
+}
+
+/**
+ * Persist the extracted text and tables, mark the job completed and index its chunks.
+ * Returns an error message if the result could not be stored (the job is marked failed);
+ * indexing failures only leave the job at the "extracted" stage.
+ */
+async function storeAndIndexExtraction(
+  job: Database["public"]["Tables"]["processing_jobs"]["Row"],
+  extraction: Extraction,
+  metadata: Record<string, unknown> | null,
+): Promise<string | null> {
+  if (!supabase) return "Server not configured";
+  const {
+    text: extractedText,
+    rawResponse,
+    extractor,
+    details: extractorDetails,
+    spans: textSpans,
+    transcriptSpans,
+    tables,
+  } = extraction;
+  let jobMetadata = metadata;
+
+  const { error: resultError } = await supabase.from("analysis_results").insert({
+    job_id: job.id,
+    ocr_text: extractedText,
+    textract_response: rawResponse as Record<string, unknown>,
+  });
+
+  if (resultError) {
+    await markJobFailed(job.id, "Failed to persist analysis result", jobMetadata);
+    console.error("Failed to insert analysis result", resultError);
+    return "Failed to persist result";
+  }
+
+  // Tables are an extra; the text is still searchable if they can't be stored
+  let tablesStored = 0;
+  try {
+    await storeDocumentTables(job.id, tables);
+    tablesStored = tables.length;
+  } catch (tableError) {
+    console.error(`Failed to store tables for job ${job.id}:`, tableError);
+  }
+
+  jobMetadata = withJobStage(jobMetadata, "extracted", {
+    extracted_at: new Date().toISOString(),
+    content_length: extractedText.length,
+    extractor,
+    table_count: tablesStored,
+    ...(extractorDetails ? { extractor_details: extractorDetails } : {}),
+  });
+
+  await supabase
+    .from("processing_jobs")
+    .update({ status: "completed", metadata: jobMetadata })
+    .eq("id", job.id);
+
+  // Indexing step: Generate embeddings and store in document_embeddings table
+  try {
+    const embeddingProvider = getEmbeddingProvider();
+    if (embeddingProvider && extractedText.trim().length > 0) {
+      console.log(`Starting indexing for job ${job.id}, text length: ${extractedText.length}`);
+
+      // Chunk the extracted text using semantic chunking
+      const chunks = chunkTextSemantic(extractedText, 2000, 150);
+      console.log(`Created ${chunks.length} chunks for indexing`);
+
+      if (chunks.length > 0) {
+        const chunkTexts = chunks.map((chunk) => chunk.text);
+        const chunkHashes = await Promise.all(chunkTexts.map((text) => sha256Hex(text)));
+
+        // A new version of a document only embeds chunks that changed
+        const reusedEmbeddings = await loadReusableEmbeddings(
+          job.previous_version_id ?? null,
+          job.user_id ?? null,
+          chunkHashes,
+          embeddingProvider.model,
+          embeddingProvider.dimensions,
+        );
+        const pendingIndexes = chunkHashes
+          .map((hash, index) => (reusedEmbeddings.has(hash) ? -1 : index))
+          .filter((index) => index >= 0);
+
+        // Generate embeddings for the remaining chunks with timeout tracking
+        const embeddingStartTime = Date.now();
+        const embeddings = await generateEmbeddings(
+          embeddingProvider,
+          pendingIndexes.map((index) => chunkTexts[index]),
+          { startTime: embeddingStartTime },
+        );
+
+        if (embeddings.length !== pendingIndexes.length) {
+          throw new Error(`Embedding count mismatch: expected ${pendingIndexes.length}, got ${embeddings.length}`);
+        }
+        const freshVectors = new Map(pendingIndexes.map((chunkIndex, i) => [chunkIndex, toVectorLiteral(embeddings[i])]));
+
+        // Prepare batch insert data; page, section and box metadata back citations
+        const headings = collectHeadings(extractedText);
+        const embeddingRows = chunks.map((chunk, index) => ({
+          job_id: job.id,
+          chunk_text: chunk.text,
+          embedding: freshVectors.get(index) ?? reusedEmbeddings.get(chunkHashes[index])!,
+          embedding_model: embeddingProvider.model,
+          embedding_dimensions: embeddingProvider.dimensions,
+          chunk_index: index,
+          content_hash: chunkHashes[index],
+          metadata: {
+            charPosition: chunk.metadata.charPosition,
+            estimatedTokens: chunk.metadata.estimatedTokens,
+            contentLength: chunk.text.length,
+            ...describeChunk(extractedText, chunk, textSpans, headings, transcriptSpans),
+          },
+        }));
+
+        // Batch insert embeddings (Supabase handles batching internally with insert)
+        const { error: embeddingError } = await supabase
+          .from("document_embeddings")
+          .insert(embeddingRows);
+
+        if (embeddingError) {
+          console.error("Failed to insert embeddings:", embeddingError);
+          // Don't fail the job, just log the error - job remains at "extracted" stage
+          // This allows fallback to old prompt injection system
+        } else {
+          // Rough estimate: ~4 chars per token; reused chunks cost nothing
+          const totalTokens = pendingIndexes.reduce((sum, index) => sum + chunks[index].metadata.estimatedTokens, 0);
+          const embeddingCost = (totalTokens / 1000) * embeddingProvider.costPer1kTokens;
+
+          // Update job stage to "indexed"
+          jobMetadata = withJobStage(jobMetadata, "indexed", {
+            indexed_at: new Date().toISOString(),
+            total_chunks: chunks.length,
+            reused_chunks: chunks.length - pendingIndexes.length,
+            embedding_cost: embeddingCost,
+            embedding_provider: embeddingProvider.name,
+            embedding_model: embeddingProvider.model,
+            embedding_dimensions: embeddingProvider.dimensions,
+          });
+
+          await supabase
+            .from("processing_jobs")
+            .update({ metadata: jobMetadata })
+            .eq("id", job.id);
+
+          console.log(
+            `Successfully indexed job ${job.id} with ${chunks.length} chunks (${chunks.length - pendingIndexes.length} reused from previous version)`,
+          );
+
+          if (SUMMARIZE_ON_INDEX) {
+            await requestDocumentSummary(job.id);
+          }
+        }
+      }
+    } else {
+      console.log(`Skipping indexing for job ${job.id}: ${!embeddingProvider ? "embedding provider not configured" : "no text extracted"}`);
+    }
+  } catch (indexingError) {
+    // Log error but don't fail the job - allow fallback to old system
+    console.error(`Indexing failed for job ${job.id}:`, indexingError);
+    // Job remains at "extracted" stage, can use old prompt injection
+  }
+
+  return null;
+}
+
+/**
+ * Transcribe an audio or video recording and index the transcript. Runs after the
+ * worker has responded, since long recordings take minutes; failures mark the job failed.
+ */
+async function transcribeAndIndex(
+  job: Database["public"]["Tables"]["processing_jobs"]["Row"],
+  format: MediaFormat,
+  metadata: Record<string, unknown> | null,
+) {
+  try {
+    if (!OPENAI_API_KEY) {
+      throw new Error("Transcription requires OPENAI_API_KEY");
+    }
+
+    const s3Url = await createPresignedGetUrl({
+      bucket: AWS_S3_BUCKET!,
+      key: job.storage_path!,
+      region: AWS_REGION!,
+      accessKeyId: AWS_ACCESS_KEY_ID!,
+      secretAccessKey: AWS_SECRET_ACCESS_KEY!,
+      sessionToken: AWS_SESSION_TOKEN ?? undefined,
+    });
+    const fileResponse = await fetch(s3Url);
+    if (!fileResponse.ok) {
+      throw new Error(`Failed to fetch file from S3: ${fileResponse.statusText}`);
+    }
+    const bytes = new Uint8Array(await fileResponse.arrayBuffer());
+    if (bytes.length > MAX_MEDIA_BYTES) {
+      throw new Error(`Recording is ${Math.ceil(bytes.length / (1024 * 1024))} MB; the limit is ${Math.floor(MAX_MEDIA_BYTES / (1024 * 1024))} MB`);
+    }
+
+    const model = getTranscriptionModel();
+    const transcript = await transcribeMedia(bytes, job.file_name, format, OPENAI_API_KEY, { model });
+    const turns = buildSpeakerTurns(transcript.segments);
+    const { text, spans } = formatTranscript(turns);
+    const speakers = new Set(turns.map((turn) => turn.speaker).filter(Boolean));
+    console.log(`Transcribed job ${job.id}: ${Math.round(transcript.duration)}s in ${transcript.parts} part(s), ${turns.length} turns`);
+
+    const persistError = await storeAndIndexExtraction(job, {
+      text,
+      rawResponse: {
+        type: "transcript",
+        model: transcript.model,
+        language: transcript.language,
+        duration: transcript.duration,
+        parts: transcript.parts,
+        turns,
+      },
+      extractor: `transcription:${transcript.model}`,
+      details: {
+        media_kind: format.kind,
+        duration_seconds: Math.round(transcript.duration),
+        ...(transcript.language ? { language: transcript.language } : {}),
+        ...(speakers.size > 0 ? { speakers: speakers.size } : {}),
+        turns: turns.length,
+      },
+      spans: [],
+      transcriptSpans: spans,
+      tables: [],
+    }, metadata);
+    if (persistError) {
+      console.error(`Failed to store transcript for job ${job.id}: ${persistError}`);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Transcription failed";
+    console.error(`Transcription failed for job ${job.id}:`, error);
+    await markJobFailed(job.id, message, metadata);
+  }
+}
+
 async function markJobFailed(jobId: string, reason: string, metadata?: Record<string, unknown> | null) {
   if (!supabase) return;
   const nextMetadata = withJobStage(metadata, "failed", {
@@ -573,13 +948,17 @@ serve(async (req) => {
       .update({ status: "processing", metadata: jobMetadata })
       .eq("id", job.id);
 
-    // Allow CSV files for document-analysis even though they don't use Textract
-    const isCsv = job.file_type === "text/csv" || 
-                  job.file_type === "application/vnd.ms-excel" ||
-                  job.file_name?.toLowerCase().endsWith(".csv") ||
-                  job.file_name?.toLowerCase().endsWith(".tsv");
-    
-    if (!isCsv && job.analysis_target !== "document-analysis" && job.analysis_target !== "image-ocr") {
+    // Office, HTML, Markdown, CSV and text files are read in-process rather than by Textract
+    const nativeFormat = detectNativeFormat(job.file_type, job.file_name);
+    // Audio and video are transcribed and indexed like any other document
+    const mediaFormat = nativeFormat ? null : detectMediaFormat(job.file_type, job.file_name);
+
+    if (
+      !nativeFormat &&
+      !mediaFormat &&
+      job.analysis_target !== "document-analysis" &&
+      job.analysis_target !== "image-ocr"
+    ) {
       await markJobFailed(job.id, `Unsupported analysis_target: ${job.analysis_target}`, jobMetadata);
       return new Response(JSON.stringify({ error: "Unsupported analysis target" }), {
         status: 400,
@@ -595,17 +974,33 @@ serve(async (req) => {
       });
     }
 
+    if (mediaFormat) {
+      const transcription = transcribeAndIndex(job, mediaFormat, jobMetadata);
+      const runtime = (globalThis as { EdgeRuntime?: { waitUntil?: (promise: Promise<unknown>) => void } }).EdgeRuntime;
+      if (runtime?.waitUntil) {
+        runtime.waitUntil(transcription);
+      } else {
+        await transcription;
+      }
+      // The client polls the job status until the transcript is indexed
+      return new Response(JSON.stringify({ status: "processing", jobId: job.id }), {
+        status: 202,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
     let extractedText = "";
     let rawResponse: unknown = null;
+    let extractor: string;
+    let extractorDetails: Record<string, unknown> | null = null;
+    let textSpans: TextSpan[] = [];
+    let tables: ExtractedTable[] = [];
+    const analyzeFeatures = TEXTRACT_FEATURE_TYPES.length > 0;
 
     const isPdf = job.file_type === "application/pdf";
-    const isCsv = job.file_type === "text/csv" || 
-                  job.file_type === "application/vnd.ms-excel" ||
-                  job.file_name?.toLowerCase().endsWith(".csv") ||
-                  job.file_name?.toLowerCase().endsWith(".tsv");
 
-    // Handle CSV/TSV files - read directly from S3
-    if (isCsv) {
+    // Handle natively supported formats - read directly from S3
+    if (nativeFormat) {
       try {
         // Get presigned URL to read the file from S3
         const s3Url = await createPresignedGetUrl({
@@ -617,23 +1012,31 @@ serve(async (req) => {
           sessionToken: AWS_SESSION_TOKEN ?? undefined,
         });
 
-        // Fetch the CSV content
+        // Fetch the file content
         const fileResponse = await fetch(s3Url);
         if (!fileResponse.ok) {
           throw new Error(`Failed to fetch file from S3: ${fileResponse.statusText}`);
         }
 
-        // Read the file content as text
-        extractedText = await fileResponse.text();
-        
+        const extracted = await extractNativeDocument(nativeFormat, new Uint8Array(await fileResponse.arrayBuffer()));
+        extractedText = extracted.text;
+        extractor = extracted.extractor;
+        extractorDetails = extracted.details;
+        textSpans = extracted.pages ?? [];
+        tables = extracted.tables ?? [];
+
         // Limit size to prevent token limits (keep first 500KB of text)
         if (extractedText.length > 500000) {
           extractedText = extractedText.slice(0, 500000) + "\n\n[... file truncated, showing first 500KB ...]";
         }
 
-        rawResponse = { type: "csv", size: extractedText.length };
+        if (!extractedText.trim()) {
+          throw new Error(`No text extracted from ${nativeFormat} document`);
+        }
+
+        rawResponse = { type: nativeFormat, size: extractedText.length, ...extracted.details };
       } catch (error) {
-        const message = error instanceof Error ? error.message : "Failed to read CSV file";
+        const message = error instanceof Error ? error.message : `Failed to read ${nativeFormat} file`;
         await markJobFailed(job.id, message, jobMetadata);
         return new Response(JSON.stringify({ error: message }), {
           status: 500,
@@ -641,13 +1044,15 @@ serve(async (req) => {
         });
       }
     } else if (isPdf) {
-      const startResponse = await textractRequest("StartDocumentTextDetection", {
+      extractor = analyzeFeatures ? "textract-analysis-async" : "textract-async";
+      const startResponse = await textractRequest(analyzeFeatures ? "StartDocumentAnalysis" : "StartDocumentTextDetection", {
         DocumentLocation: {
           S3Object: {
             Bucket: AWS_S3_BUCKET,
             Name: job.storage_path,
           },
         },
+        ...(analyzeFeatures ? { FeatureTypes: TEXTRACT_FEATURE_TYPES } : {}),
       });
 
       const jobId = startResponse.JobId;
@@ -661,12 +1066,13 @@ serve(async (req) => {
 
       let jobStatus = "IN_PROGRESS";
       let nextToken: string | undefined;
-      const lines: string[] = [];
+      const lines: Array<{ text: string; page: number; box?: BoundingBox }> = [];
+      const analysisBlocks: TextractBlock[] = [];
 
       for (let attempt = 0; attempt < 12 && jobStatus === "IN_PROGRESS"; attempt++) {
         await new Promise((resolve) => setTimeout(resolve, attempt === 0 ? 1500 : 4000));
 
-        const detectionResponse = await textractRequest("GetDocumentTextDetection", {
+        const detectionResponse = await textractRequest(analyzeFeatures ? "GetDocumentAnalysis" : "GetDocumentTextDetection", {
           JobId: jobId,
           NextToken: nextToken,
           MaxResults: 1000,
@@ -677,9 +1083,12 @@ serve(async (req) => {
 
         if (jobStatus === "SUCCEEDED") {
           detectionResponse.Blocks?.forEach((block: any) => {
-            if (block.BlockType === "LINE" && block.Text) {
-              lines.push(block.Text);
+            const line = readTextractLine(block);
+            if (line) {
+              lines.push(line);
             }
+            // Tables reference cells and words on the same page, so keep every block
+            if (analyzeFeatures) analysisBlocks.push(block);
           });
           nextToken = detectionResponse.NextToken;
           if (!nextToken) {
@@ -703,23 +1112,27 @@ serve(async (req) => {
         });
       }
 
-      extractedText = lines.join("\n");
+      ({ text: extractedText, spans: textSpans } = joinTextractLines(lines));
+      tables = readAnalysisTables(analysisBlocks);
     } else {
-      const detectResponse = await textractRequest("DetectDocumentText", {
+      extractor = analyzeFeatures ? "textract-analysis" : "textract";
+      const detectResponse = await textractRequest(analyzeFeatures ? "AnalyzeDocument" : "DetectDocumentText", {
         Document: {
           S3Object: {
             Bucket: AWS_S3_BUCKET,
             Name: job.storage_path,
           },
         },
+        ...(analyzeFeatures ? { FeatureTypes: TEXTRACT_FEATURE_TYPES } : {}),
       });
 
       rawResponse = detectResponse;
 
-      const lines: string[] = [];
+      const lines: Array<{ text: string; page: number; box?: BoundingBox }> = [];
       detectResponse.Blocks?.forEach((block: any) => {
-        if (block.BlockType === "LINE" && block.Text) {
-          lines.push(block.Text);
+        const line = readTextractLine(block);
+        if (line) {
+          lines.push(line);
         }
       });
 
@@ -731,106 +1144,26 @@ serve(async (req) => {
         });
       }
 
-      extractedText = lines.join("\n");
+      ({ text: extractedText, spans: textSpans } = joinTextractLines(lines));
+      if (analyzeFeatures) tables = readAnalysisTables(detectResponse.Blocks ?? []);
     }
 
-    const { error: resultError } = await supabase.from("analysis_results").insert({
-      job_id: job.id,
-      ocr_text: extractedText,
-      textract_response: rawResponse as Record<string, unknown>,
-    });
-
-    if (resultError) {
-      await markJobFailed(job.id, "Failed to persist analysis result", jobMetadata);
-      console.error("Failed to insert analysis result", resultError);
-      return new Response(JSON.stringify({ error: "Failed to persist result" }), {
+    const persistError = await storeAndIndexExtraction(job, {
+      text: extractedText,
+      rawResponse,
+      extractor,
+      details: extractorDetails,
+      spans: textSpans,
+      transcriptSpans: [],
+      tables,
+    }, jobMetadata);
+    if (persistError) {
+      return new Response(JSON.stringify({ error: persistError }), {
         status: 500,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
     }
 
-    jobMetadata = withJobStage(jobMetadata, "extracted", {
-      extracted_at: new Date().toISOString(),
-      content_length: extractedText.length,
-    });
-
-    await supabase
-      .from("processing_jobs")
-      .update({ status: "completed", metadata: jobMetadata })
-      .eq("id", job.id);
-
-    // Indexing step: Generate embeddings and store in document_embeddings table
-    try {
-      if (OPENAI_API_KEY && extractedText.trim().length > 0) {
-        console.log(`Starting indexing for job ${job.id}, text length: ${extractedText.length}`);
-
-        // Chunk the extracted text using semantic chunking
-        const chunks = chunkTextSemantic(extractedText, 2000, 150);
-        console.log(`Created ${chunks.length} chunks for indexing`);
-
-        if (chunks.length > 0) {
-          // Generate embeddings for all chunks with timeout tracking
-          const chunkTexts = chunks.map((chunk) => chunk.text);
-          const embeddingStartTime = Date.now();
-          const embeddings = await generateEmbeddings(chunkTexts, OPENAI_API_KEY, 3, embeddingStartTime);
-
-          if (embeddings.length !== chunks.length) {
-            throw new Error(`Embedding count mismatch: expected ${chunks.length}, got ${embeddings.length}`);
-          }
-
-          // Prepare batch insert data
-          const embeddingRows = chunks.map((chunk, index) => ({
-            job_id: job.id,
-            chunk_text: chunk.text,
-            embedding: `[${embeddings[index].join(",")}]`, // Convert array to PostgreSQL vector format
-            chunk_index: index,
-            metadata: {
-              charPosition: chunk.metadata.charPosition,
-              estimatedTokens: chunk.metadata.estimatedTokens,
-              contentLength: chunk.text.length,
-            },
-          }));
-
-          // Batch insert embeddings (Supabase handles batching internally with insert)
-          const { error: embeddingError } = await supabase
-            .from("document_embeddings")
-            .insert(embeddingRows);
-
-          if (embeddingError) {
-            console.error("Failed to insert embeddings:", embeddingError);
-            // Don't fail the job, just log the error - job remains at "extracted" stage
-            // This allows fallback to old prompt injection system
-          } else {
-            // Calculate embedding cost (text-embedding-3-small: $0.00002 per 1K tokens)
-            // Rough estimate: ~4 chars per token
-            const totalTokens = chunks.reduce((sum, chunk) => sum + chunk.metadata.estimatedTokens, 0);
-            const embeddingCost = (totalTokens / 1000) * 0.00002;
-
-            // Update job stage to "indexed"
-            jobMetadata = withJobStage(jobMetadata, "indexed", {
-              indexed_at: new Date().toISOString(),
-              total_chunks: chunks.length,
-              embedding_cost: embeddingCost,
-              embedding_model: "text-embedding-3-small",
-            });
-
-            await supabase
-              .from("processing_jobs")
-              .update({ metadata: jobMetadata })
-              .eq("id", job.id);
-
-            console.log(`Successfully indexed job ${job.id} with ${chunks.length} chunks`);
-          }
-        }
-      } else {
-        console.log(`Skipping indexing for job ${job.id}: ${!OPENAI_API_KEY ? "API key not configured" : "no text extracted"}`);
-      }
-    } catch (indexingError) {
-      // Log error but don't fail the job - allow fallback to old system
-      console.error(`Indexing failed for job ${job.id}:`, indexingError);
-      // Job remains at "extracted" stage, can use old prompt injection
-    }
-
     // Check overall timeout before returning
     const elapsed = Date.now() - workerStartTime;
     if (elapsed > WORKER_TIMEOUT_MS) {
@@ -16,7 +16,10 @@ interface UploadRequestBody {
   fileSize?: number;
   analysisTarget?: AnalysisTarget;
   metadata?: Record<string, unknown>;
-  userId?: string;
+  /** Hex SHA-256 of the file, computed by the client. */
+  contentHash?: string;
+  /** Job this upload replaces; defaults to the user's latest upload with the same file name. */
+  previousVersionId?: string;
 }
 
 const SUPABASE_URL = Deno.env.get("PROJECT_URL") ?? Deno.env.get("SUPABASE_URL");
@@ -216,6 +219,15 @@ function isValidStage(stage: unknown): stage is JobStage {
   return typeof stage === "string" && JOB_STAGES.includes(stage as JobStage);
 }
 
+/** The signed-in user behind the request's bearer token; null for anonymous (anon key) calls. */
+async function resolveRequestUserId(req: Request): Promise<string | null> {
+  if (!supabase) return null;
+  const accessToken = (req.headers.get("Authorization") ?? "").replace(/Bearer\s+/i, "").trim();
+  if (!accessToken) return null;
+  const { data, error } = await supabase.auth.getUser(accessToken);
+  return error ? null : data.user?.id ?? null;
+}
+
 serve(async (req) => {
   const requestStartTime = Date.now();
   console.log("=== Uploads Edge Function Request Start ===");
@@ -308,73 +320,165 @@ serve(async (req) => {
       );
     }
 
-    console.log("Processing POST request - parsing body...");
-    const body: UploadRequestBody = await req.json();
-    console.log("Request body parsed:", {
-      fileName: body.fileName,
-      fileType: body.fileType,
-      fileSize: body.fileSize,
-      analysisTarget: body.analysisTarget,
-      hasUserId: !!body.userId,
-    });
+    if (req.method === "POST") {
+      console.log("Processing POST request - parsing body...");
+      const body: UploadRequestBody = await req.json();
+      console.log("Request body parsed:", {
+        fileName: body.fileName,
+        fileType: body.fileType,
+        fileSize: body.fileSize,
+        analysisTarget: body.analysisTarget,
+      });
     
-    validateRequestBody(body);
-    console.log("Request body validated");
+      validateRequestBody(body);
+      console.log("Request body validated");
+
+      // Jobs, duplicates and earlier versions belong to the caller's own account only
+      const userId = await resolveRequestUserId(req);
+
+      const contentHash = typeof body.contentHash === "string" && /^[0-9a-f]{64}$/i.test(body.contentHash)
+        ? body.contentHash.toLowerCase()
+        : null;
+
+      // Identical content already processed for this user: reuse its extraction and embeddings
+      if (contentHash && userId) {
+        const { data: existing, error: existingError } = await supabase
+          .from("processing_jobs")
+          .select("id, storage_path, status, version")
+          .eq("user_id", userId)
+          .eq("content_hash", contentHash)
+          .eq("status", "completed")
+          .order("created_at", { ascending: false })
+          .limit(1)
+          .maybeSingle();
+
+        if (existingError) {
+          console.warn("Duplicate lookup failed, registering a new job", existingError);
+        } else if (existing) {
+          console.log(`Upload matches completed job ${existing.id}, skipping upload`);
+          return new Response(
+            JSON.stringify({
+              jobId: existing.id,
+              storagePath: existing.storage_path,
+              uploadUrl: null,
+              deduplicated: true,
+              version: existing.version,
+              message: "Identical file already processed. Reusing its extracted text and embeddings.",
+            }),
+            {
+              status: 200,
+              headers: { ...corsHeaders, "Content-Type": "application/json" },
+            },
+          );
+        }
+      }
 
-    const storagePath = `incoming/${crypto.randomUUID()}-${body.fileName}`;
-    console.log("Creating presigned URL for storage path:", storagePath);
-    const presignedUrlStartTime = Date.now();
+      // Changed content for a known document becomes its next version
+      let previousVersion: { id: string; document_id: string | null } | null = null;
+      if (body.previousVersionId) {
+        const { data: previous } = userId
+          ? await supabase
+            .from("processing_jobs")
+            .select("id, document_id")
+            .eq("id", body.previousVersionId)
+            .eq("user_id", userId)
+            .maybeSingle()
+          : { data: null };
+        if (!previous) {
+          return new Response(JSON.stringify({ error: "previousVersionId not found" }), {
+            status: 404,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+        previousVersion = previous;
+      } else if (userId) {
+        const { data: previous } = await supabase
+          .from("processing_jobs")
+          .select("id, document_id")
+          .eq("user_id", userId)
+          .eq("file_name", body.fileName)
+          .eq("analysis_target", body.analysisTarget)
+          .order("created_at", { ascending: false })
+          .limit(1)
+          .maybeSingle();
+        previousVersion = previous ?? null;
+      }
+
+      const jobId = crypto.randomUUID();
+      const documentId = previousVersion ? previousVersion.document_id ?? previousVersion.id : jobId;
+      let version = 1;
+      if (previousVersion) {
+        const { data: latest } = await supabase
+          .from("processing_jobs")
+          .select("version")
+          .eq("document_id", documentId)
+          .order("version", { ascending: false })
+          .limit(1)
+          .maybeSingle();
+        version = (latest?.version ?? 1) + 1;
+      }
+
+      const storagePath = `incoming/${crypto.randomUUID()}-${body.fileName}`;
+      console.log("Creating presigned URL for storage path:", storagePath);
+      const presignedUrlStartTime = Date.now();
     
-    const uploadUrl = await createPresignedPutUrl({
-      bucket: AWS_S3_BUCKET,
-      key: storagePath,
-      region: AWS_REGION,
-      accessKeyId: AWS_ACCESS_KEY_ID,
-      secretAccessKey: AWS_SECRET_ACCESS_KEY,
-      sessionToken: AWS_SESSION_TOKEN ?? undefined,
-      contentType: body.fileType,
-    });
+      const uploadUrl = await createPresignedPutUrl({
+        bucket: AWS_S3_BUCKET,
+        key: storagePath,
+        region: AWS_REGION,
+        accessKeyId: AWS_ACCESS_KEY_ID,
+        secretAccessKey: AWS_SECRET_ACCESS_KEY,
+        sessionToken: AWS_SESSION_TOKEN ?? undefined,
+        contentType: body.fileType,
+      });
     
-    const presignedUrlDuration = Date.now() - presignedUrlStartTime;
-    console.log(`Presigned URL created in ${presignedUrlDuration}ms`);
-
-    console.log("Inserting job into database...");
-    const dbInsertStartTime = Date.now();
-    const { data, error } = await supabase
-      .from("processing_jobs")
-      .insert({
-        file_name: body.fileName,
-        file_type: body.fileType,
-        file_size: body.fileSize,
-        analysis_target: body.analysisTarget,
-        status: "queued",
-        storage_path: storagePath,
-        metadata: withJobStage(body.metadata ?? null, "registered"),
-        user_id: body.userId ?? null,
-      })
-      .select("id")
-      .single();
-
-    const dbInsertDuration = Date.now() - dbInsertStartTime;
+      const presignedUrlDuration = Date.now() - presignedUrlStartTime;
+      console.log(`Presigned URL created in ${presignedUrlDuration}ms`);
+
+      console.log("Inserting job into database...");
+      const dbInsertStartTime = Date.now();
+      const { data, error } = await supabase
+        .from("processing_jobs")
+        .insert({
+          id: jobId,
+          file_name: body.fileName,
+          file_type: body.fileType,
+          file_size: body.fileSize,
+          analysis_target: body.analysisTarget,
+          status: "queued",
+          content_hash: contentHash,
+          document_id: documentId,
+          version,
+          previous_version_id: previousVersion?.id ?? null,
+          storage_path: storagePath,
+          metadata: withJobStage(body.metadata ?? null, "registered"),
+          user_id: userId,
+        })
+        .select("id")
+        .single();
+
+      const dbInsertDuration = Date.now() - dbInsertStartTime;
     
-    if (error) {
-      console.error("Failed to insert processing job", error);
-      console.error("Error details:", JSON.stringify(error, null, 2));
-      return new Response(JSON.stringify({ error: "Failed to register job", details: error.message }), {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
-    }
+      if (error) {
+        console.error("Failed to insert processing job", error);
+        console.error("Error details:", JSON.stringify(error, null, 2));
+        return new Response(JSON.stringify({ error: "Failed to register job", details: error.message }), {
+          status: 500,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
 
-    console.log(`Job inserted in ${dbInsertDuration}ms, jobId: ${data.id}`);
-    const totalDuration = Date.now() - requestStartTime;
-    console.log(`=== Uploads Edge Function Request Complete in ${totalDuration}ms ===`);
+      console.log(`Job inserted in ${dbInsertDuration}ms, jobId: ${data.id}`);
+      const totalDuration = Date.now() - requestStartTime;
+      console.log(`=== Uploads Edge Function Request Complete in ${totalDuration}ms ===`);
 
       return new Response(
         JSON.stringify({
           jobId: data.id,
           storagePath,
           uploadUrl,
+          version,
+          previousVersionId: previousVersion?.id ?? null,
           message: "Upload registered. Upload file using provided URL.",
         }),
         {
@@ -0,0 +1,246 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+import { dispatchExecution } from "../_shared/workflowDispatch.ts";
+
+const SUPABASE_URL = Deno.env.get("PROJECT_URL") ?? Deno.env.get("SUPABASE_URL");
+const SUPABASE_SERVICE_ROLE_KEY =
+  Deno.env.get("SERVICE_ROLE_KEY") ?? Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+interface ApprovalsRequest {
+  action: "list" | "decide";
+  execution_id?: string;
+  approval_id?: string;
+  decision?: "approve" | "reject";
+  payload?: Record<string, unknown>;
+  comment?: string | null;
+}
+
+interface ApprovalRow {
+  id: string;
+  execution_id: string;
+  workflow_id: string;
+  node_id: string;
+  node_label: string | null;
+  user_id: string;
+  status: "pending" | "approved" | "rejected" | "expired";
+  message: string | null;
+  payload: Record<string, unknown>;
+  approved_payload: Record<string, unknown> | null;
+  comment: string | null;
+  expires_at: string;
+  decided_at: string | null;
+  created_at: string;
+  workflows?: { name: string } | null;
+  workflow_executions?: { status: string } | null;
+}
+
+class ApprovalValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ApprovalValidationError";
+  }
+}
+
+function jsonResponse(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// Rows as returned to the owner, with the workflow name flattened
+function presentApproval({ workflows, workflow_executions, ...approval }: ApprovalRow) {
+  return { ...approval, workflow_name: workflows?.name ?? null };
+}
+
+/**
+ * Marks the run failed and its waiting approval node with it. The status guard
+ * leaves runs that were cancelled meanwhile alone.
+ */
+async function failWaitingRun(supabase: SupabaseClient, approval: ApprovalRow, reason: string): Promise<void> {
+  const completedAt = new Date().toISOString();
+  const { data: updated } = await supabase
+    .from("workflow_executions")
+    .update({ status: "failed", error_message: reason, completed_at: completedAt })
+    .eq("id", approval.execution_id)
+    .eq("status", "waiting")
+    .select("id");
+  if (!updated?.length) return;
+
+  await supabase
+    .from("node_executions")
+    .update({ status: "failed", error_message: reason, completed_at: completedAt })
+    .eq("execution_id", approval.execution_id)
+    .eq("node_id", approval.node_id)
+    .eq("status", "waiting");
+}
+
+/**
+ * Hands the paused run back to workflow-execute, which continues from its
+ * checkpoint and completes the approval node with the approved payload. Returns
+ * why the run could not be continued, if it could not (it is then marked failed).
+ */
+async function continueApprovedRun(supabase: SupabaseClient, approval: ApprovalRow): Promise<string | null> {
+  const { data: claimed } = await supabase
+    .from("workflow_executions")
+    .update({ status: "pending" })
+    .eq("id", approval.execution_id)
+    .eq("status", "waiting")
+    .select("id");
+  // Cancelled while waiting; nothing to continue
+  if (!claimed?.length) return null;
+
+  return dispatchExecution(supabase, approval.execution_id);
+}
+
+// Lists a user's open approval requests and records their decisions. Approving
+// continues the paused run with the (optionally edited) payload; rejecting fails it.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    return jsonResponse({ error: "Server not configured" }, 500);
+  }
+
+  const authHeader = req.headers.get("Authorization") ?? "";
+  const accessToken = authHeader.replace(/Bearer\s+/i, "").trim();
+  if (!accessToken) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  let body: ApprovalsRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return jsonResponse({ error: "Invalid JSON body" }, 400);
+  }
+
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser(accessToken);
+  if (userError || !user) {
+    return jsonResponse({ error: "Unable to authenticate user" }, 401);
+  }
+
+  // Requests are only open while their run is paused on them; a run cancelled
+  // meanwhile leaves its request to expire
+  const approvalColumns = "*, workflows(name), workflow_executions!inner(status)";
+
+  try {
+    switch (body.action) {
+      case "list": {
+        let query = supabase
+          .from("workflow_approvals")
+          .select(approvalColumns)
+          .eq("user_id", user.id)
+          .eq("status", "pending")
+          .eq("workflow_executions.status", "waiting")
+          .gt("expires_at", new Date().toISOString());
+        if (body.execution_id) query = query.eq("execution_id", body.execution_id);
+        const { data, error } = await query.order("created_at", { ascending: true });
+        if (error) throw error;
+        return jsonResponse({ approvals: ((data ?? []) as ApprovalRow[]).map(presentApproval) }, 200);
+      }
+
+      case "decide": {
+        if (!body.approval_id) throw new ApprovalValidationError("approval_id is required");
+        if (body.decision !== "approve" && body.decision !== "reject") {
+          throw new ApprovalValidationError('decision must be "approve" or "reject"');
+        }
+        if (body.payload !== undefined && (typeof body.payload !== "object" || body.payload === null || Array.isArray(body.payload))) {
+          throw new ApprovalValidationError("payload must be a JSON object");
+        }
+
+        const { data: approval, error: loadError } = await supabase
+          .from("workflow_approvals")
+          .select(approvalColumns)
+          .eq("id", body.approval_id)
+          .eq("user_id", user.id)
+          .maybeSingle();
+        if (loadError) throw loadError;
+        if (!approval) {
+          return jsonResponse({ error: "Approval not found" }, 404);
+        }
+        if (approval.status !== "pending") {
+          return jsonResponse({ error: `Approval is already ${approval.status}` }, 409);
+        }
+        // Decisions only apply to paused runs, which nothing else resumes
+        if (approval.workflow_executions?.status !== "waiting") {
+          return jsonResponse({ error: "The run is no longer waiting for approval" }, 409);
+        }
+
+        const decidedAt = new Date().toISOString();
+        if (new Date(approval.expires_at).getTime() <= Date.now()) {
+          // The sweeper would get to it; settle it now so the reviewer sees why
+          const { data: expired } = await supabase
+            .from("workflow_approvals")
+            .update({ status: "expired", decided_at: decidedAt })
+            .eq("id", approval.id)
+            .eq("status", "pending")
+            .select("id");
+          if (expired?.length) await failWaitingRun(supabase, approval, "Approval expired before anyone decided");
+          return jsonResponse({ error: "Approval has expired" }, 409);
+        }
+
+        const approved = body.decision === "approve";
+        // The status guard settles a race with another decision or the sweeper
+        const { data: decided, error: decideError } = await supabase
+          .from("workflow_approvals")
+          .update({
+            status: approved ? "approved" : "rejected",
+            approved_payload: approved ? body.payload ?? approval.payload : null,
+            comment: body.comment?.trim() || null,
+            decided_at: decidedAt,
+            decided_by: user.id,
+          })
+          .eq("id", approval.id)
+          .eq("status", "pending")
+          .select(approvalColumns)
+          .maybeSingle();
+        if (decideError) throw decideError;
+        if (!decided) {
+          return jsonResponse({ error: "Approval was decided meanwhile" }, 409);
+        }
+
+        let runError: string | null = null;
+        if (approved) {
+          runError = await continueApprovedRun(supabase, decided as ApprovalRow);
+        } else {
+          const comment = body.comment?.trim();
+          await failWaitingRun(supabase, decided as ApprovalRow, `Rejected at approval${comment ? `: ${comment}` : ""}`);
+        }
+
+        return jsonResponse(
+          { approval: presentApproval(decided as ApprovalRow), ...(runError ? { error: runError } : {}) },
+          200,
+        );
+      }
+
+      default:
+        return jsonResponse({ error: `Unknown action: ${body.action}` }, 400);
+    }
+  } catch (error) {
+    if (error instanceof ApprovalValidationError) {
+      return jsonResponse({ error: error.message }, 400);
+    }
+    console.error("[workflow-approvals] failed", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Approval request failed" }, 500);
+  }
+});
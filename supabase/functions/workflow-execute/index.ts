@@ -1,5 +1,11 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  evaluateExpression,
+  type ExpressionScope,
+  isTruthy,
+} from "../_shared/workflowExpression.ts";
+import { dispatchExecution } from "../_shared/workflowDispatch.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -7,7 +13,14 @@ const corsHeaders = {
 };
 
 interface ExecuteWorkflowRequest {
-  workflow_id: string;
+  /**
+   * "start" (default) begins a new run; "resume" continues a failed, cancelled or orphaned one;
+   * "dispatch" runs a pending execution created by workflow-triggers or a sub-workflow node,
+   * or continues one approved through workflow-approvals (service role only).
+   */
+  action?: "start" | "resume" | "dispatch";
+  workflow_id?: string;
+  execution_id?: string;
   input_data?: Record<string, unknown>;
   parameters?: Record<string, string | number | boolean>;
 }
@@ -37,7 +50,89 @@ interface ExecutionContext {
   workflowId: string;
   userId: string;
   nodeOutputs: Map<string, unknown>;
-  nodeStatuses: Map<string, "pending" | "running" | "completed" | "failed">;
+  /** "waiting": an approval node whose request is still open. */
+  nodeStatuses: Map<string, "pending" | "running" | "waiting" | "completed" | "failed" | "skipped">;
+  /** Errors of nodes whose on-error policy let the run continue. */
+  nodeErrors: Map<string, string>;
+}
+
+// Node config `policy`; see NodeExecutionPolicy in src/lib/workflows/types.ts
+interface NodeExecutionPolicy {
+  max_retries?: number;
+  backoff_ms?: number;
+  backoff_multiplier?: number;
+  max_backoff_ms?: number;
+  timeout_ms?: number;
+  on_error?: "fail" | "continue" | "error_branch";
+  default_output?: Record<string, unknown>;
+}
+
+const DEFAULT_BACKOFF_MS = 1000;
+const DEFAULT_BACKOFF_MULTIPLIER = 2;
+const DEFAULT_MAX_BACKOFF_MS = 30_000;
+const MAX_RETRIES_LIMIT = 10;
+
+interface ConcurrencyLimits {
+  /** Nodes of one run executing at the same time. */
+  maxConcurrency: number;
+  /** Tool/agent nodes of one run calling the same MCP server at the same time. */
+  maxConcurrencyPerServer: number;
+}
+
+const DEFAULT_MAX_CONCURRENCY = 4;
+const DEFAULT_MAX_CONCURRENCY_PER_SERVER = 2;
+
+/** The nodes a loop node runs once per item: everything reachable from its "each" edges. */
+interface LoopBody {
+  /** Body nodes in execution order. */
+  nodes: WorkflowNode[];
+  /** Edges into body nodes, including the loop's "each" edges. */
+  edges: WorkflowEdge[];
+  /** Body nodes without outgoing edges; their outputs make up an iteration's result. */
+  sinks: string[];
+}
+
+/** Tags the node_executions rows of nodes run inside a loop body. */
+interface LoopIteration {
+  loopNodeId: string;
+  iteration: number;
+}
+
+const DEFAULT_LOOP_ITEM_KEY = "item";
+const DEFAULT_LOOP_OUTPUT_KEY = "results";
+const MAX_LOOP_ITEMS = Number(Deno.env.get("WORKFLOW_MAX_LOOP_ITEMS") ?? 1000);
+const MAX_LOOP_PARALLEL = 10;
+
+// Sub-workflow nodes start child runs through the dispatch action and poll them until they finish
+const MAX_SUBWORKFLOW_DEPTH = Number(Deno.env.get("WORKFLOW_MAX_SUBWORKFLOW_DEPTH") ?? 5);
+const SUBWORKFLOW_POLL_INTERVAL_MS = 2_000;
+const SERVICE_ROLE_KEY = Deno.env.get("SERVICE_ROLE_KEY") ?? Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+// Approval requests nobody decides on within this time expire (see workflow-sweeper)
+const DEFAULT_APPROVAL_EXPIRY_MINUTES = 24 * 60;
+
+/** Progress persisted on workflow_executions.checkpoint as nodes settle. */
+interface ExecutionCheckpoint {
+  nodes?: Record<string, { status: "completed" | "skipped"; output?: Record<string, unknown>; error?: string }>;
+}
+
+// The executor updates heartbeat_at this often; runs whose heartbeat is older
+// than the orphan timeout are considered dead (see workflow-sweeper).
+const HEARTBEAT_INTERVAL_MS = 5_000;
+const ORPHAN_TIMEOUT_MS = Number(Deno.env.get("WORKFLOW_ORPHAN_TIMEOUT_MS") ?? 120_000);
+
+class WorkflowCancelledError extends Error {
+  constructor() {
+    super("Workflow execution was cancelled");
+    this.name = "WorkflowCancelledError";
+  }
+}
+
+class WorkflowGraphError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WorkflowGraphError";
+  }
 }
 
 serve(async (req) => {
@@ -56,33 +151,124 @@ serve(async (req) => {
       });
     }
 
-    const supabase = createClient(
-      Deno.env.get("SUPABASE_URL") ?? "",
-      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
-      { global: { headers: { Authorization: authHeader } } },
-    );
+    // workflow-triggers and sub-workflow nodes call back with the service-role key to run
+    // the executions they create
+    const isServiceCall = !!SERVICE_ROLE_KEY && authHeader.replace(/Bearer\s+/i, "").trim() === SERVICE_ROLE_KEY;
 
-    const {
-      data: { user },
-      error: userError,
-    } = await supabase.auth.getUser();
-    if (userError || !user) {
-      return new Response(JSON.stringify({ error: "Unauthorized" }), {
-        status: 401,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
+    const supabase = isServiceCall
+      ? createClient(Deno.env.get("SUPABASE_URL") ?? "", SERVICE_ROLE_KEY!, {
+        auth: { persistSession: false, autoRefreshToken: false },
+      })
+      : createClient(
+        Deno.env.get("SUPABASE_URL") ?? "",
+        Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+        { global: { headers: { Authorization: authHeader } } },
+      );
+
+    let userId = "";
+    if (!isServiceCall) {
+      const {
+        data: { user },
+        error: userError,
+      } = await supabase.auth.getUser();
+      if (userError || !user) {
+        return new Response(JSON.stringify({ error: "Unauthorized" }), {
+          status: 401,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+      userId = user.id;
     }
 
     // Parse request
     const body: ExecuteWorkflowRequest = await req.json();
-    const { workflow_id, input_data = {}, parameters = {} } = body;
+    const isResume = body.action === "resume";
+    const isDispatch = body.action === "dispatch";
+    if (isDispatch !== isServiceCall) {
+      return new Response(JSON.stringify({ error: "dispatch is only available to workflow-triggers" }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Resuming picks up the workflow, input and parameters of the original run
+    let resumable: {
+      id: string;
+      status: string;
+      workflow_id: string;
+      input_data: Record<string, unknown> | null;
+      parameters: Record<string, string | number | boolean> | null;
+      checkpoint: ExecutionCheckpoint | null;
+      heartbeat_at: string | null;
+      started_at: string | null;
+      version_id: string | null;
+    } | null = null;
+
+    if (isResume) {
+      const { data: previous, error: previousError } = await supabase
+        .from("workflow_executions")
+        .select("id, status, workflow_id, input_data, parameters, checkpoint, heartbeat_at, started_at, version_id")
+        .eq("id", body.execution_id ?? "")
+        .eq("user_id", userId)
+        .maybeSingle();
+
+      if (previousError || !previous) {
+        return new Response(JSON.stringify({ error: "Execution not found" }), {
+          status: 404,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      const lastSeen = new Date(previous.heartbeat_at ?? previous.started_at ?? 0).getTime();
+      const isLive = (previous.status === "running" || previous.status === "pending") &&
+        Date.now() - lastSeen < ORPHAN_TIMEOUT_MS;
+      if (previous.status === "completed" || previous.status === "waiting" || isLive) {
+        const state = previous.status === "completed"
+          ? "already completed"
+          : previous.status === "waiting"
+          ? "waiting for approval"
+          : "still running";
+        return new Response(
+          JSON.stringify({ error: `Execution is ${state}` }),
+          {
+            status: 409,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          },
+        );
+      }
+      resumable = previous;
+    }
+
+    if (isDispatch) {
+      // A pending run created by workflow-triggers; claimed below like a resume
+      const { data: pending, error: pendingError } = await supabase
+        .from("workflow_executions")
+        .select("id, status, workflow_id, user_id, input_data, parameters, checkpoint, heartbeat_at, started_at, version_id")
+        .eq("id", body.execution_id ?? "")
+        .eq("status", "pending")
+        .maybeSingle();
+
+      if (pendingError || !pending) {
+        return new Response(JSON.stringify({ error: "Pending execution not found" }), {
+          status: 404,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+      userId = pending.user_id;
+      // Runs continuing after an approval keep their progress; new runs start from scratch
+      resumable = { ...pending, checkpoint: pending.checkpoint?.nodes ? pending.checkpoint : null };
+    }
+
+    const workflow_id = resumable?.workflow_id ?? body.workflow_id;
+    const input_data = resumable ? resumable.input_data ?? {} : body.input_data ?? {};
+    const parameters = resumable ? resumable.parameters ?? {} : body.parameters ?? {};
 
     // Load workflow
     const { data: workflow, error: workflowError } = await supabase
       .from("workflows")
       .select("*")
       .eq("id", workflow_id)
-      .eq("user_id", user.id)
+      .eq("user_id", userId)
       .single();
 
     if (workflowError || !workflow) {
@@ -92,79 +278,137 @@ serve(async (req) => {
       });
     }
 
-    // Load nodes and edges
-    const { data: nodes, error: nodesError } = await supabase
-      .from("workflow_nodes")
-      .select("*")
-      .eq("workflow_id", workflow_id)
-      .order("execution_order", { ascending: true, nullsFirst: false });
-
-    if (nodesError) {
-      return new Response(JSON.stringify({ error: "Failed to load workflow nodes" }), {
+    // Load nodes and edges from a version snapshot, never the live graph, which a
+    // save may be rewriting: a run already pinned to a version keeps running that
+    // version; others run and are pinned to the latest version
+    let versionQuery = supabase.from("workflow_versions").select("id, graph");
+    versionQuery = resumable?.version_id
+      ? versionQuery.eq("id", resumable.version_id)
+      : versionQuery.eq("workflow_id", workflow_id).order("version", { ascending: false }).limit(1);
+    const { data: version, error: versionError } = await versionQuery.maybeSingle();
+
+    if (versionError) {
+      return new Response(JSON.stringify({ error: "Failed to load workflow version" }), {
         status: 500,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
     }
-
-    const { data: edges, error: edgesError } = await supabase
-      .from("workflow_edges")
-      .select("*")
-      .eq("workflow_id", workflow_id);
-
-    if (edgesError) {
-      return new Response(JSON.stringify({ error: "Failed to load workflow edges" }), {
-        status: 500,
+    if (!version) {
+      return new Response(JSON.stringify({ error: "Save the workflow before running it" }), {
+        status: 409,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
     }
+    const versionId: string = version.id;
+    const nodes: WorkflowNode[] = version.graph?.nodes ?? [];
+    const edges: WorkflowEdge[] = version.graph?.edges ?? [];
 
-    // Create execution record
-    const { data: execution, error: execError } = await supabase
-      .from("workflow_executions")
-      .insert({
-        workflow_id,
-        user_id: user.id,
-        status: "pending",
-        input_data,
-      })
-      .select()
-      .single();
+    // Reject graphs that can't be ordered before recording an execution
+    try {
+      findLoopBodies(nodes, edges, topologicalSort(nodes, edges));
+    } catch (graphError) {
+      if (graphError instanceof WorkflowGraphError) {
+        return new Response(JSON.stringify({ error: graphError.message }), {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+      throw graphError;
+    }
 
-    if (execError || !execution) {
-      return new Response(JSON.stringify({ error: "Failed to create execution record" }), {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
+    let execution: { id: string } | null = null;
+    if (resumable) {
+      // Claim the run; the status guard stops two resumes from racing
+      const { data: claimed } = await supabase
+        .from("workflow_executions")
+        .update({
+          status: "running",
+          error_message: null,
+          completed_at: null,
+          heartbeat_at: new Date().toISOString(),
+          version_id: versionId,
+        })
+        .eq("id", resumable.id)
+        .eq("status", resumable.status)
+        .select("id");
+
+      if (!claimed || claimed.length === 0) {
+        return new Response(JSON.stringify({ error: "Execution changed state; try again" }), {
+          status: 409,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+      execution = claimed[0];
+
+      // Attempts cut off by the previous invocation will never finish
+      await supabase
+        .from("node_executions")
+        .update({
+          status: "failed",
+          error_message: "Interrupted before completion",
+          completed_at: new Date().toISOString(),
+        })
+        .eq("execution_id", resumable.id)
+        .in("status", ["pending", "running"]);
+    } else {
+      // Create execution record
+      const { data: created, error: execError } = await supabase
+        .from("workflow_executions")
+        .insert({
+          workflow_id,
+          user_id: userId,
+          status: "pending",
+          input_data,
+          parameters,
+          version_id: versionId,
+        })
+        .select()
+        .single();
+
+      if (execError || !created) {
+        return new Response(JSON.stringify({ error: "Failed to create execution record" }), {
+          status: 500,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+      execution = created;
     }
 
-    // Start execution asynchronously (don't await)
-    executeWorkflow(
+    const executionId = execution!.id;
+
+    // Run in the background; the sweeper fails the run if this invocation dies
+    const run = executeWorkflow(
       supabase,
-      execution.id,
-      workflow_id,
-      user.id,
-      nodes || [],
-      edges || [],
+      executionId,
+      workflow_id!,
+      userId,
+      nodes,
+      edges,
       input_data,
       parameters,
-    ).catch(error => {
+      resolveConcurrencyLimits(workflow.metadata),
+      resumable?.checkpoint ?? null,
+    ).catch(async error => {
       console.error("Workflow execution error:", error);
-      supabase
+      await supabase
         .from("workflow_executions")
         .update({
           status: "failed",
-          error_message: error.message,
+          error_message: error instanceof Error ? error.message : String(error),
           completed_at: new Date().toISOString(),
         })
-        .eq("id", execution.id);
+        .eq("id", executionId)
+        .eq("status", "running");
     });
+    (globalThis as { EdgeRuntime?: { waitUntil?: (promise: Promise<unknown>) => void } }).EdgeRuntime?.waitUntil?.(run);
 
     // Return immediately
     return new Response(
       JSON.stringify({
-        execution_id: execution.id,
-        status: "pending",
+        execution_id: executionId,
+        status: isResume ? "running" : "pending",
         workflow_id,
+        resumed: isResume,
       }),
       {
         status: 200,
@@ -192,11 +436,17 @@ async function executeWorkflow(
   edges: WorkflowEdge[],
   inputData: Record<string, unknown>,
   parameters: Record<string, string | number | boolean>,
+  limits: ConcurrencyLimits,
+  checkpoint: ExecutionCheckpoint | null,
 ) {
-  // Update execution status
+  // Update execution status (a resumed run keeps its original start time)
   await supabase
     .from("workflow_executions")
-    .update({ status: "running", started_at: new Date().toISOString() })
+    .update({
+      status: "running",
+      heartbeat_at: new Date().toISOString(),
+      ...(checkpoint ? {} : { started_at: new Date().toISOString() }),
+    })
     .eq("id", executionId);
 
   // Build execution context
@@ -206,6 +456,7 @@ async function executeWorkflow(
     userId,
     nodeOutputs: new Map(),
     nodeStatuses: new Map(),
+    nodeErrors: new Map(),
   };
 
   // Build graph structure
@@ -231,59 +482,313 @@ async function executeWorkflow(
     throw new Error("Workflow must have a start node");
   }
 
-  // Topological sort for execution order
-  const executionOrder = topologicalSort(nodes, edges);
+  // Topological sort for execution order; loop body nodes run inside their loop node
+  const fullOrder = topologicalSort(nodes, edges);
+  const loopBodies = findLoopBodies(nodes, edges, fullOrder);
+  const bodyNodeIds = new Set([...loopBodies.values()].flatMap(body => body.nodes.map(node => node.id)));
+  const executionOrder = fullOrder.filter(nodeId => !bodyNodeIds.has(nodeId));
+
+  // Persist progress as nodes settle. Writes are chained so an older snapshot
+  // never overwrites a newer one.
+  let checkpointWrite: Promise<void> = Promise.resolve();
+  const saveCheckpoint = () => {
+    const saved: NonNullable<ExecutionCheckpoint["nodes"]> = {};
+    for (const [nodeId, status] of context.nodeStatuses) {
+      if (status !== "completed" && status !== "skipped") continue;
+      saved[nodeId] = {
+        status,
+        output: context.nodeOutputs.get(nodeId) as Record<string, unknown> | undefined,
+        error: context.nodeErrors.get(nodeId),
+      };
+    }
+    checkpointWrite = checkpointWrite.then(async () => {
+      const { error } = await supabase
+        .from("workflow_executions")
+        .update({ checkpoint: { nodes: saved }, heartbeat_at: new Date().toISOString() })
+        .eq("id", executionId);
+      if (error) console.error("Failed to save workflow checkpoint:", error);
+    });
+    return checkpointWrite;
+  };
+
+  // Heartbeat doubles as the cancellation check: once the run is no longer
+  // "running" (cancel endpoint or sweeper), in-flight nodes are aborted.
+  const runController = new AbortController();
+  const heartbeat = setInterval(async () => {
+    const { data, error } = await supabase
+      .from("workflow_executions")
+      .update({ heartbeat_at: new Date().toISOString() })
+      .eq("id", executionId)
+      .eq("status", "running")
+      .select("id");
+    if (!error && (!data || data.length === 0)) {
+      runController.abort();
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+
+  // Schedule nodes as their inputs settle. A node runs when at least one
+  // incoming edge is live (its source completed and the edge's condition
+  // holds); nodes with only dead inputs are recorded as skipped, which in turn
+  // kills their outgoing edges. Independent nodes run concurrently within the
+  // workflow and per-MCP-server limits.
+  const isSettled = (nodeId: string) => {
+    const status = context.nodeStatuses.get(nodeId);
+    return status === "completed" || status === "skipped" || status === "failed";
+  };
+  const ready: string[] = [];
+  const running = new Map<string, Promise<void>>();
+  const serverInFlight = new Map<string, number>();
+  let failure: unknown = null;
 
-  // Execute nodes in order
   for (const nodeId of executionOrder) {
-    const node = nodeMap.get(nodeId);
-    if (!node) continue;
+    context.nodeStatuses.set(nodeId, "pending");
+  }
+
+  // Restore nodes that settled before the run was interrupted
+  for (const [nodeId, saved] of Object.entries(checkpoint?.nodes ?? {})) {
+    if (!nodeMap.has(nodeId)) continue;
+    context.nodeStatuses.set(nodeId, saved.status);
+    if (saved.output) context.nodeOutputs.set(nodeId, saved.output);
+    if (saved.error !== undefined) context.nodeErrors.set(nodeId, saved.error);
+  }
+
+  // Decide the fate of every pending node whose sources have all settled
+  const resolveSettledNodes = async () => {
+    for (const nodeId of executionOrder) {
+      const node = nodeMap.get(nodeId);
+      if (!node || context.nodeStatuses.get(nodeId) !== "pending" || ready.includes(nodeId)) continue;
+
+      const inputEdges = (edgesByTarget.get(nodeId) || []).filter(edge => nodeMap.has(edge.source_node_id));
+      if (!inputEdges.every(edge => isSettled(edge.source_node_id))) continue;
 
-    // Skip start/end nodes (they're just markers)
-    if (node.node_type === "start" || node.node_type === "end") {
       if (node.node_type === "start") {
         context.nodeOutputs.set(nodeId, inputData);
+        context.nodeStatuses.set(nodeId, "completed");
+        continue;
       }
-      continue;
+
+      const liveEdges = inputEdges.filter(edge =>
+        isEdgeLive(edge, nodeMap.get(edge.source_node_id)!, context, parameters)
+      );
+
+      if (inputEdges.length > 0 && liveEdges.length === 0) {
+        context.nodeStatuses.set(nodeId, "skipped");
+        saveCheckpoint();
+        if (node.node_type !== "end") {
+          await supabase.from("node_executions").insert({
+            execution_id: executionId,
+            node_id: nodeId,
+            status: "skipped",
+            completed_at: new Date().toISOString(),
+          });
+        }
+        continue;
+      }
+
+      // End nodes are markers; their output is collected below
+      if (node.node_type === "end") {
+        context.nodeStatuses.set(nodeId, "completed");
+        continue;
+      }
+
+      ready.push(nodeId);
+    }
+  };
+
+  const launch = (node: WorkflowNode, serverKey: string | null) => {
+    const nodeInput = gatherNodeInput(edgesByTarget.get(node.id) || [], nodeMap, context, parameters);
+
+    context.nodeStatuses.set(node.id, "running");
+
+    if (node.node_type === "approval") {
+      // Completes with the approved payload once decided; until then the node waits
+      // and the run pauses when nothing else can run
+      const task = resolveApproval(supabase, context, node, nodeInput)
+        .then(output => {
+          if (!output) {
+            context.nodeStatuses.set(node.id, "waiting");
+            return;
+          }
+          context.nodeOutputs.set(node.id, output);
+          context.nodeStatuses.set(node.id, "completed");
+          saveCheckpoint();
+        })
+        .catch(error => {
+          console.error(`Node ${node.id} approval failed:`, error);
+          context.nodeStatuses.set(node.id, "failed");
+          failure ??= error;
+        })
+        .finally(() => running.delete(node.id));
+      running.set(node.id, task);
+      return;
     }
 
-    // Get input data from source nodes
-    const inputEdges = edgesByTarget.get(nodeId) || [];
-    const inputData: Record<string, unknown> = {};
+    if (serverKey) serverInFlight.set(serverKey, (serverInFlight.get(serverKey) || 0) + 1);
 
+    const execution = node.node_type === "loop"
+      ? runLoopNode(supabase, node, loopBodies.get(node.id)!, nodeInput, context, parameters, runController.signal)
+      : runNode(supabase, executionId, node, nodeInput, parameters, runController.signal);
+    const task = execution
+      .then(output => {
+        context.nodeOutputs.set(node.id, output);
+        context.nodeStatuses.set(node.id, "completed");
+        saveCheckpoint();
+      })
+      .catch(error => {
+        if (error instanceof WorkflowCancelledError) {
+          context.nodeStatuses.set(node.id, "failed");
+          return;
+        }
+        console.error(`Node ${node.id} execution failed:`, error);
+        if (recoverFromNodeError(node, error, nodeInput, context)) {
+          saveCheckpoint();
+          return;
+        }
+
+        context.nodeStatuses.set(node.id, "failed");
+        failure ??= error;
+      })
+      .finally(() => {
+        running.delete(node.id);
+        if (serverKey) serverInFlight.set(serverKey, (serverInFlight.get(serverKey) || 1) - 1);
+      });
+    running.set(node.id, task);
+  };
+
+  try {
+    for (;;) {
+      // Fail fast: once a node fails (or the run is cancelled), start nothing
+      // new and let in-flight nodes finish
+      if (!failure && !runController.signal.aborted) {
+        await resolveSettledNodes().catch(error => {
+          failure ??= error;
+        });
+
+        for (let i = 0; i < ready.length && running.size < limits.maxConcurrency;) {
+          const node = nodeMap.get(ready[i])!;
+          const serverKey = node.node_type === "tool" || node.node_type === "agent" ? node.mcp_server_id || null : null;
+          if (serverKey && (serverInFlight.get(serverKey) || 0) >= limits.maxConcurrencyPerServer) {
+            i += 1;
+            continue;
+          }
+          ready.splice(i, 1);
+          launch(node, serverKey);
+        }
+      }
+
+      if (running.size === 0) break;
+      await Promise.race(running.values());
+    }
+  } finally {
+    clearInterval(heartbeat);
+    await checkpointWrite;
+  }
+
+  if (runController.signal.aborted) {
+    // Cancelled: whoever stopped the run already recorded its final status
+    return;
+  }
+
+  if (failure) {
+    throw failure;
+  }
+
+  // Paused at an approval node; workflow-approvals dispatches the run again once it is decided
+  if ([...context.nodeStatuses.values()].includes("waiting")) {
+    // The continued run picks up from here rather than re-running finished nodes
+    await saveCheckpoint();
+    await supabase
+      .from("workflow_executions")
+      .update({ status: "waiting", heartbeat_at: new Date().toISOString() })
+      .eq("id", executionId)
+      .eq("status", "running");
+    return;
+  }
+
+  // Collect final outputs from end nodes
+  const endNodes = nodes.filter(n => n.node_type === "end");
+  const finalOutput: Record<string, unknown> = {};
+
+  for (const endNode of endNodes) {
+    const inputEdges = edgesByTarget.get(endNode.id) || [];
     for (const edge of inputEdges) {
       const sourceOutput = context.nodeOutputs.get(edge.source_node_id);
-      if (sourceOutput) {
-        // Apply data mapping if defined
-        if (edge.data_mapping) {
-          Object.entries(edge.data_mapping).forEach(([targetKey, sourcePath]) => {
-            inputData[targetKey] = extractValue(sourceOutput, sourcePath as string);
-          });
-        } else {
-          // Default: merge all source outputs
-          Object.assign(inputData, sourceOutput as Record<string, unknown>);
-        }
+      const sourceNode = nodeMap.get(edge.source_node_id);
+      if (sourceOutput && sourceNode && isEdgeLive(edge, sourceNode, context, parameters)) {
+        Object.assign(finalOutput, sourceOutput as Record<string, unknown>);
       }
     }
+  }
 
-    // Execute node
-    try {
-      context.nodeStatuses.set(nodeId, "running");
+  // Update execution as completed
+  await supabase
+    .from("workflow_executions")
+    .update({
+      status: "completed",
+      output_data: finalOutput,
+      completed_at: new Date().toISOString(),
+    })
+    .eq("id", executionId)
+    .eq("status", "running");
+}
 
-      // Create node execution record
-      const { data: nodeExecution } = await supabase
-        .from("node_executions")
-        .insert({
-          execution_id: executionId,
-          node_id: nodeId,
-          status: "running",
-          input_data: inputData,
-          started_at: new Date().toISOString(),
-        })
-        .select()
-        .single();
+/**
+ * Execute one node under its retry/timeout policy. Every attempt gets its own
+ * node_executions row with actual start and finish times and latency.
+ * Aborting `runSignal` (run cancelled) stops the node and any further retries.
+ */
+async function runNode(
+  supabase: SupabaseClient,
+  executionId: string,
+  node: WorkflowNode,
+  nodeInput: Record<string, unknown>,
+  parameters: Record<string, string | number | boolean>,
+  runSignal: AbortSignal,
+  loopIteration: LoopIteration | null = null,
+): Promise<Record<string, unknown>> {
+  const policy = readNodePolicy(node);
+  const maxRetries = Math.min(Math.max(Math.floor(policy.max_retries ?? 0), 0), MAX_RETRIES_LIMIT);
+  let lastError: unknown = null;
+
+  for (let attempt = 1; attempt <= maxRetries + 1; attempt += 1) {
+    if (attempt > 1) {
+      await new Promise(resolve => {
+        const timer = setTimeout(resolve, retryDelay(policy, attempt - 1));
+        runSignal.addEventListener("abort", () => {
+          clearTimeout(timer);
+          resolve(undefined);
+        }, { once: true });
+      });
+    }
+    if (runSignal.aborted) {
+      throw new WorkflowCancelledError();
+    }
+
+    const startedAt = Date.now();
 
-      const output = await executeNode(supabase, node, inputData, parameters);
+    // Create node execution record
+    const { data: nodeExecution } = await supabase
+      .from("node_executions")
+      .insert({
+        execution_id: executionId,
+        node_id: node.id,
+        status: "running",
+        attempt,
+        input_data: nodeInput,
+        started_at: new Date(startedAt).toISOString(),
+        ...loopIterationColumns(loopIteration),
+      })
+      .select("id")
+      .single();
+
+    try {
+      const output = await withTimeout(
+        signal => executeNode(supabase, executionId, node, nodeInput, parameters, signal),
+        policy.timeout_ms,
+        node,
+        runSignal,
+      );
+      const completedAt = Date.now();
 
       // Update node execution
       await supabase
@@ -291,70 +796,384 @@ async function executeWorkflow(
         .update({
           status: "completed",
           output_data: output,
-          completed_at: new Date().toISOString(),
+          completed_at: new Date(completedAt).toISOString(),
+          latency_ms: completedAt - startedAt,
         })
         .eq("id", nodeExecution?.id);
 
-      context.nodeOutputs.set(nodeId, output);
-      context.nodeStatuses.set(nodeId, "completed");
+      return output;
     } catch (error) {
-      console.error(`Node ${nodeId} execution failed:`, error);
-      context.nodeStatuses.set(nodeId, "failed");
+      const completedAt = Date.now();
+      const cancelled = runSignal.aborted;
+      lastError = cancelled ? new WorkflowCancelledError() : error;
 
       // Update node execution with error
-      const { data: nodeExecution } = await supabase
-        .from("node_executions")
-        .select("id")
-        .eq("execution_id", executionId)
-        .eq("node_id", nodeId)
-        .single();
-
       if (nodeExecution) {
         await supabase
           .from("node_executions")
           .update({
-            status: "failed",
-            error_message: error instanceof Error ? error.message : String(error),
-            completed_at: new Date().toISOString(),
+            status: cancelled ? "cancelled" : "failed",
+            error_message: cancelled
+              ? "Cancelled"
+              : error instanceof Error ? error.message : String(error),
+            completed_at: new Date(completedAt).toISOString(),
+            latency_ms: completedAt - startedAt,
           })
           .eq("id", nodeExecution.id);
       }
 
-      // Fail fast for now (can be configurable later)
-      throw error;
+      if (cancelled) break;
+      if (attempt <= maxRetries) {
+        console.warn(`Node ${node.id} attempt ${attempt} failed; retrying`);
+      }
     }
   }
 
-  // Collect final outputs from end nodes
-  const endNodes = nodes.filter(n => n.node_type === "end");
-  const finalOutput: Record<string, unknown> = {};
+  throw lastError;
+}
 
-  for (const endNode of endNodes) {
-    const inputEdges = edgesByTarget.get(endNode.id) || [];
-    for (const edge of inputEdges) {
-      const sourceOutput = context.nodeOutputs.get(edge.source_node_id);
-      if (sourceOutput) {
-        Object.assign(finalOutput, sourceOutput as Record<string, unknown>);
+/**
+ * Run a loop node: evaluate its `items` expression against the node input, then
+ * run the loop body once per item with at most `max_parallel` iterations at a
+ * time. The output collects each iteration's result, in item order, under
+ * `output_key`. A failed iteration stops new ones from starting; the loop fails
+ * once the iterations in flight have finished.
+ */
+async function runLoopNode(
+  supabase: SupabaseClient,
+  loop: WorkflowNode,
+  body: LoopBody,
+  nodeInput: Record<string, unknown>,
+  context: ExecutionContext,
+  parameters: Record<string, string | number | boolean>,
+  runSignal: AbortSignal,
+): Promise<Record<string, unknown>> {
+  const config = loop.config as { items?: string; item_key?: string; max_parallel?: number | string; output_key?: string };
+  const startedAt = Date.now();
+
+  const { data: loopExecution } = await supabase
+    .from("node_executions")
+    .insert({
+      execution_id: context.executionId,
+      node_id: loop.id,
+      status: "running",
+      attempt: 1,
+      input_data: nodeInput,
+      started_at: new Date(startedAt).toISOString(),
+    })
+    .select("id")
+    .single();
+
+  const finish = async (update: Record<string, unknown>) => {
+    if (!loopExecution) return;
+    const completedAt = Date.now();
+    await supabase
+      .from("node_executions")
+      .update({ ...update, completed_at: new Date(completedAt).toISOString(), latency_ms: completedAt - startedAt })
+      .eq("id", loopExecution.id);
+  };
+
+  try {
+    const expression = config.items?.trim() || "$.items";
+    const items = evaluateNodeExpression(loop, expression, { input: nodeInput, params: parameters });
+    if (!Array.isArray(items)) {
+      throw new Error(`Loop ${loop.label}: "${expression}" is not a list`);
+    }
+    if (items.length > MAX_LOOP_ITEMS) {
+      throw new Error(`Loop ${loop.label}: ${items.length} items exceeds the limit of ${MAX_LOOP_ITEMS}`);
+    }
+
+    const itemKey = config.item_key?.trim() || DEFAULT_LOOP_ITEM_KEY;
+    const maxParallel = Math.min(Math.max(Math.floor(Number(config.max_parallel) || 1), 1), MAX_LOOP_PARALLEL);
+    const results: Record<string, unknown>[] = new Array(items.length);
+    let nextItem = 0;
+    let failure: unknown = null;
+
+    // Each worker takes the next item until the list is done or an iteration fails
+    const worker = async () => {
+      while (!failure && !runSignal.aborted && nextItem < items.length) {
+        const iteration = nextItem++;
+        try {
+          results[iteration] = await runLoopIteration(
+            supabase,
+            loop,
+            body,
+            { [itemKey]: items[iteration] },
+            { loopNodeId: loop.id, iteration },
+            context,
+            parameters,
+            runSignal,
+          );
+        } catch (error) {
+          failure ??= error;
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(maxParallel, items.length) }, worker));
+
+    if (runSignal.aborted) throw new WorkflowCancelledError();
+    if (failure) throw failure;
+
+    const output = { [config.output_key?.trim() || DEFAULT_LOOP_OUTPUT_KEY]: results, count: results.length };
+    await finish({ status: "completed", output_data: output });
+    return output;
+  } catch (error) {
+    const cancelled = runSignal.aborted;
+    await finish({
+      status: cancelled ? "cancelled" : "failed",
+      error_message: cancelled ? "Cancelled" : error instanceof Error ? error.message : String(error),
+    });
+    throw cancelled ? new WorkflowCancelledError() : error;
+  }
+}
+
+/**
+ * Run the loop body for one item. Body nodes run one after another in
+ * execution order and follow the same edge, skip and on-error rules as the
+ * rest of the workflow; the loop node's "each" edges carry the item. Returns
+ * the merged outputs of the body's last nodes.
+ */
+async function runLoopIteration(
+  supabase: SupabaseClient,
+  loop: WorkflowNode,
+  body: LoopBody,
+  itemInput: Record<string, unknown>,
+  loopIteration: LoopIteration,
+  context: ExecutionContext,
+  parameters: Record<string, string | number | boolean>,
+  runSignal: AbortSignal,
+): Promise<Record<string, unknown>> {
+  const nodeMap = new Map([loop, ...body.nodes].map(node => [node.id, node]));
+  const iterationContext: ExecutionContext = {
+    ...context,
+    nodeOutputs: new Map([[loop.id, itemInput]]),
+    nodeStatuses: new Map([[loop.id, "completed" as const]]),
+    nodeErrors: new Map(),
+  };
+
+  for (const node of body.nodes) {
+    if (runSignal.aborted) throw new WorkflowCancelledError();
+
+    const inputEdges = body.edges.filter(edge => edge.target_node_id === node.id);
+    const liveEdges = inputEdges.filter(edge =>
+      isEdgeLive(edge, nodeMap.get(edge.source_node_id)!, iterationContext, parameters)
+    );
+    if (liveEdges.length === 0) {
+      iterationContext.nodeStatuses.set(node.id, "skipped");
+      await supabase.from("node_executions").insert({
+        execution_id: context.executionId,
+        node_id: node.id,
+        status: "skipped",
+        completed_at: new Date().toISOString(),
+        ...loopIterationColumns(loopIteration),
+      });
+      continue;
+    }
+
+    const nodeInput = gatherNodeInput(inputEdges, nodeMap, iterationContext, parameters);
+    try {
+      const output = await runNode(
+        supabase,
+        context.executionId,
+        node,
+        nodeInput,
+        parameters,
+        runSignal,
+        loopIteration,
+      );
+      iterationContext.nodeOutputs.set(node.id, output);
+      iterationContext.nodeStatuses.set(node.id, "completed");
+    } catch (error) {
+      if (error instanceof WorkflowCancelledError || !recoverFromNodeError(node, error, nodeInput, iterationContext)) {
+        throw error;
       }
     }
   }
 
-  // Update execution as completed
-  await supabase
-    .from("workflow_executions")
-    .update({
-      status: "completed",
-      output_data: finalOutput,
-      completed_at: new Date().toISOString(),
-    })
-    .eq("id", executionId);
+  const result: Record<string, unknown> = {};
+  for (const sinkId of body.sinks) {
+    if (iterationContext.nodeStatuses.get(sinkId) !== "completed") continue;
+    Object.assign(result, iterationContext.nodeOutputs.get(sinkId) as Record<string, unknown>);
+  }
+  return result;
+}
+
+function loopIterationColumns(loopIteration: LoopIteration | null): Record<string, unknown> {
+  return loopIteration ? { loop_node_id: loopIteration.loopNodeId, iteration: loopIteration.iteration } : {};
+}
+
+// Input for a node from its live source nodes (merge nodes therefore only
+// wait on branches that actually ran)
+function gatherNodeInput(
+  inputEdges: WorkflowEdge[],
+  nodeMap: Map<string, WorkflowNode>,
+  context: ExecutionContext,
+  parameters: Record<string, string | number | boolean>,
+): Record<string, unknown> {
+  const nodeInput: Record<string, unknown> = {};
+  for (const edge of inputEdges) {
+    const sourceNode = nodeMap.get(edge.source_node_id);
+    const sourceOutput = context.nodeOutputs.get(edge.source_node_id);
+    if (!sourceNode || !sourceOutput || !isEdgeLive(edge, sourceNode, context, parameters)) continue;
+    // Apply data mapping if defined
+    if (edge.data_mapping && Object.keys(edge.data_mapping).length > 0) {
+      Object.entries(edge.data_mapping).forEach(([targetKey, sourcePath]) => {
+        nodeInput[targetKey] = extractValue(sourceOutput, sourcePath as string);
+      });
+    } else {
+      // Default: merge all source outputs
+      Object.assign(nodeInput, sourceOutput as Record<string, unknown>);
+    }
+  }
+  return nodeInput;
+}
+
+/**
+ * Apply a failed node's on-error policy. Returns false when the failure should
+ * fail the run; otherwise records the node as completed with its fallback output.
+ */
+function recoverFromNodeError(
+  node: WorkflowNode,
+  error: unknown,
+  nodeInput: Record<string, unknown>,
+  context: ExecutionContext,
+): boolean {
+  const policy = readNodePolicy(node);
+  if (policy.on_error !== "continue" && policy.on_error !== "error_branch") return false;
+
+  // Handled: downstream nodes see the default output, or only the
+  // "error" edges fire with the error details
+  const message = error instanceof Error ? error.message : String(error);
+  context.nodeErrors.set(node.id, message);
+  context.nodeOutputs.set(
+    node.id,
+    policy.on_error === "continue"
+      ? { ...(policy.default_output ?? {}) }
+      : { error: message, failed_node: node.label, input: nodeInput },
+  );
+  context.nodeStatuses.set(node.id, "completed");
+  return true;
+}
+
+function readNodePolicy(node: WorkflowNode): NodeExecutionPolicy {
+  const policy = (node.config as { policy?: unknown } | null)?.policy;
+  return policy && typeof policy === "object" ? (policy as NodeExecutionPolicy) : {};
+}
+
+// Exponential backoff before retry number `retry` (1-based)
+function retryDelay(policy: NodeExecutionPolicy, retry: number): number {
+  const base = policy.backoff_ms ?? DEFAULT_BACKOFF_MS;
+  const multiplier = policy.backoff_multiplier ?? DEFAULT_BACKOFF_MULTIPLIER;
+  const max = policy.max_backoff_ms ?? DEFAULT_MAX_BACKOFF_MS;
+  return Math.max(0, Math.min(base * multiplier ** (retry - 1), max));
+}
+
+async function withTimeout<T>(
+  run: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number | undefined,
+  node: WorkflowNode,
+  runSignal: AbortSignal,
+): Promise<T> {
+  const controller = new AbortController();
+  let timer: number | undefined;
+  let onAbort: (() => void) | undefined;
+
+  // Settles when the attempt times out or the run is cancelled, aborting the node's requests
+  const interrupted = new Promise<never>((_, reject) => {
+    onAbort = () => {
+      controller.abort();
+      reject(new WorkflowCancelledError());
+    };
+    runSignal.addEventListener("abort", onAbort, { once: true });
+    if (timeoutMs && timeoutMs > 0) {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new Error(`Node ${node.label} timed out after ${timeoutMs} ms`));
+      }, timeoutMs);
+    }
+  });
+  try {
+    return await Promise.race([run(controller.signal), interrupted]);
+  } finally {
+    clearTimeout(timer);
+    runSignal.removeEventListener("abort", onAbort!);
+  }
+}
+
+function resolveConcurrencyLimits(metadata: unknown): ConcurrencyLimits {
+  const settings = (metadata && typeof metadata === "object" ? metadata : {}) as Record<string, unknown>;
+  const positiveInt = (value: unknown, fallback: number) => {
+    const parsed = typeof value === "string" ? Number.parseInt(value, 10) : value;
+    return typeof parsed === "number" && Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+  };
+
+  // Workflow metadata can lower or raise the deployment-wide defaults
+  return {
+    maxConcurrency: positiveInt(
+      settings.max_concurrency,
+      positiveInt(Deno.env.get("WORKFLOW_MAX_CONCURRENCY"), DEFAULT_MAX_CONCURRENCY),
+    ),
+    maxConcurrencyPerServer: positiveInt(
+      settings.max_concurrency_per_server,
+      positiveInt(Deno.env.get("WORKFLOW_MAX_CONCURRENCY_PER_SERVER"), DEFAULT_MAX_CONCURRENCY_PER_SERVER),
+    ),
+  };
+}
+
+/**
+ * Whether data flows along an edge. Edge conditions are "true"/"false"
+ * (matched against a condition node's result), "error" (taken only when the
+ * source failed and its on-error policy let the run continue), "each" (a loop
+ * node's edges into its body, live within an iteration) or an expression
+ * evaluated against the source node's output. Outgoing edges of a condition
+ * node follow its true_path/false_path config; unlabelled ones are taken only
+ * when the condition holds.
+ */
+function isEdgeLive(
+  edge: WorkflowEdge,
+  source: WorkflowNode,
+  context: ExecutionContext,
+  parameters: Record<string, string | number | boolean>,
+): boolean {
+  if (context.nodeStatuses.get(source.id) !== "completed") return false;
+
+  const output = context.nodeOutputs.get(source.id) as Record<string, unknown> | undefined;
+  const edgeCondition = edge.condition?.trim() ?? "";
+  const branchLabel = edgeCondition.toLowerCase();
+
+  const failed = context.nodeErrors.has(source.id);
+  if (branchLabel === "error") return failed;
+  if (branchLabel === "each") return source.node_type === "loop";
+  if (failed && readNodePolicy(source).on_error === "error_branch") return false;
+
+  if (source.node_type === "condition") {
+    const result = output?.condition_result === true;
+    const config = source.config as { true_path?: string; false_path?: string };
+    if (config.true_path && config.true_path === edge.target_node_id) return result;
+    if (config.false_path && config.false_path === edge.target_node_id) return !result;
+    if (branchLabel === "true" || branchLabel === "false") return result === (branchLabel === "true");
+    if (!edgeCondition) return result;
+  } else if (!edgeCondition || branchLabel === "true") {
+    return true;
+  } else if (branchLabel === "false") {
+    return false;
+  }
+
+  try {
+    return isTruthy(evaluateExpression(edgeCondition, { input: output ?? {}, params: parameters }));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Edge from ${source.label}: invalid condition "${edgeCondition}": ${message}`);
+  }
 }
 
 async function executeNode(
   supabase: any,
+  executionId: string,
   node: WorkflowNode,
   inputData: Record<string, unknown>,
   parameters: Record<string, string | number | boolean>,
+  signal?: AbortSignal,
 ): Promise<Record<string, unknown>> {
   switch (node.node_type) {
     case "tool":
@@ -362,10 +1181,10 @@ async function executeNode(
       if (!node.mcp_server_id || !node.mcp_command_name) {
         throw new Error(`Node ${node.label} is missing MCP server or command`);
       }
-      return await executeMcpCommand(supabase, node, inputData, parameters);
+      return await executeMcpCommand(supabase, node, inputData, parameters, signal);
 
     case "data":
-      return await executeDataNode(node, inputData);
+      return await executeDataNode(node, inputData, parameters);
 
     case "condition":
       return await executeConditionNode(node, inputData, parameters);
@@ -373,6 +1192,9 @@ async function executeNode(
     case "merge":
       return await executeMergeNode(node, inputData);
 
+    case "subworkflow":
+      return await executeSubworkflowNode(supabase, executionId, node, inputData, parameters, signal);
+
     default:
       throw new Error(`Unknown node type: ${node.node_type}`);
   }
@@ -383,9 +1205,12 @@ async function executeMcpCommand(
   node: WorkflowNode,
   inputData: Record<string, unknown>,
   parameters: Record<string, string | number | boolean>,
+  signal?: AbortSignal,
 ): Promise<Record<string, unknown>> {
   // Build command parameters from config, input data, and workflow parameters
-  const nodeConfig = node.config as Record<string, unknown>;
+  // (the execution policy is for the executor, not the MCP server)
+  const nodeConfig = { ...(node.config as Record<string, unknown>) };
+  delete nodeConfig.policy;
   const commandParams: Record<string, string> = {};
 
   // Merge parameters: config -> inputData -> workflow parameters
@@ -406,6 +1231,7 @@ async function executeMcpCommand(
       command: node.mcp_command_name,
       args: commandParams,
     }),
+    signal,
   });
 
   if (!response.ok) {
@@ -417,23 +1243,234 @@ async function executeMcpCommand(
   return { result: result.result || result };
 }
 
+/**
+ * Run another saved workflow as a child of this run and wait for it. The child
+ * gets the node input (or `input_mapping` evaluated over it) as its input data
+ * and this run's parameters; its output_data becomes the node output. Runs
+ * nested more than MAX_SUBWORKFLOW_DEPTH deep fail, which stops workflows that
+ * call themselves. Aborting `signal` (timeout or cancelled run) cancels the child.
+ */
+async function executeSubworkflowNode(
+  supabase: SupabaseClient,
+  executionId: string,
+  node: WorkflowNode,
+  inputData: Record<string, unknown>,
+  parameters: Record<string, string | number | boolean>,
+  signal?: AbortSignal,
+): Promise<Record<string, unknown>> {
+  const config = node.config as { workflow_id?: string; input_mapping?: Record<string, string> };
+  if (!config.workflow_id) {
+    throw new Error(`Node ${node.label} has no workflow selected`);
+  }
+  if (!SERVICE_ROLE_KEY) {
+    throw new Error("Sub-workflow nodes require SERVICE_ROLE_KEY to be configured");
+  }
+
+  const { data: parent, error: parentError } = await supabase
+    .from("workflow_executions")
+    .select("user_id, depth")
+    .eq("id", executionId)
+    .single();
+  if (parentError || !parent) {
+    throw new Error(`Node ${node.label}: parent execution not found`);
+  }
+  const depth = (parent.depth ?? 0) + 1;
+  if (depth > MAX_SUBWORKFLOW_DEPTH) {
+    throw new Error(`Node ${node.label}: sub-workflows are nested more than ${MAX_SUBWORKFLOW_DEPTH} deep`);
+  }
+
+  const childInput = config.input_mapping && Object.keys(config.input_mapping).length > 0
+    ? applyMapping(node, config.input_mapping, { input: inputData, params: parameters })
+    : inputData;
+
+  const { data: child, error: insertError } = await supabase
+    .from("workflow_executions")
+    .insert({
+      workflow_id: config.workflow_id,
+      user_id: parent.user_id,
+      status: "pending",
+      input_data: childInput,
+      parameters,
+      triggered_by: "workflow",
+      parent_execution_id: executionId,
+      parent_node_id: node.id,
+      depth,
+    })
+    .select("id")
+    .single();
+  if (insertError || !child) {
+    throw new Error(`Node ${node.label}: failed to start sub-workflow: ${insertError?.message ?? "no execution created"}`);
+  }
+
+  const dispatchError = await dispatchExecution(supabase, child.id);
+  if (dispatchError) {
+    throw new Error(`Node ${node.label}: failed to start sub-workflow: ${dispatchError}`);
+  }
+
+  for (;;) {
+    await new Promise(resolve => {
+      const timer = setTimeout(resolve, SUBWORKFLOW_POLL_INTERVAL_MS);
+      signal?.addEventListener("abort", () => {
+        clearTimeout(timer);
+        resolve(undefined);
+      }, { once: true });
+    });
+
+    if (signal?.aborted) {
+      await supabase
+        .from("workflow_executions")
+        .update({ status: "cancelled", error_message: "Parent run stopped", completed_at: new Date().toISOString() })
+        .eq("id", child.id)
+        .in("status", ["pending", "running"]);
+      throw new WorkflowCancelledError();
+    }
+
+    const { data: run, error } = await supabase
+      .from("workflow_executions")
+      .select("status, output_data, error_message")
+      .eq("id", child.id)
+      .single();
+    if (error || !run) {
+      throw new Error(`Node ${node.label}: sub-workflow run ${child.id} not found`);
+    }
+
+    if (run.status === "completed") {
+      return toNodeOutput(run.output_data ?? {});
+    }
+    if (run.status === "failed" || run.status === "cancelled") {
+      throw new Error(`Node ${node.label}: sub-workflow run ${run.status}: ${run.error_message ?? "no details"}`);
+    }
+    // This invocation can't outlive a review that may take hours
+    if (run.status === "waiting") {
+      await supabase
+        .from("workflow_executions")
+        .update({
+          status: "cancelled",
+          error_message: "Approval nodes are not supported in sub-workflows",
+          completed_at: new Date().toISOString(),
+        })
+        .eq("id", child.id)
+        .eq("status", "waiting");
+      throw new Error(`Node ${node.label}: sub-workflows cannot wait for approval`);
+    }
+  }
+}
+
+/**
+ * Resolve an approval node. The first visit records a "waiting" node execution
+ * and a pending workflow_approvals request for the node input, and returns null;
+ * the run pauses until workflow-approvals records a decision and dispatches it
+ * again. Once approved, the approved (possibly edited) payload is the node
+ * output. Rejected and expired requests fail the run there, so a resumed run
+ * asks again.
+ */
+async function resolveApproval(
+  supabase: SupabaseClient,
+  context: ExecutionContext,
+  node: WorkflowNode,
+  nodeInput: Record<string, unknown>,
+): Promise<Record<string, unknown> | null> {
+  const { data: requests, error } = await supabase
+    .from("workflow_approvals")
+    .select("id, status, approved_payload")
+    .eq("execution_id", context.executionId)
+    .eq("node_id", node.id)
+    .in("status", ["pending", "approved"])
+    .order("created_at", { ascending: false })
+    .limit(1);
+  if (error) {
+    throw new Error(`Node ${node.label}: failed to load approval: ${error.message}`);
+  }
+
+  const request = requests?.[0];
+  if (request?.status === "approved") {
+    const output = request.approved_payload ?? {};
+    await supabase
+      .from("node_executions")
+      .update({ status: "completed", output_data: output, completed_at: new Date().toISOString() })
+      .eq("execution_id", context.executionId)
+      .eq("node_id", node.id)
+      .eq("status", "waiting");
+    return output;
+  }
+  if (request) {
+    return null;
+  }
+
+  const config = node.config as { message?: string; expires_in_minutes?: number | string };
+  const expiresInMinutes = Number(config.expires_in_minutes) > 0
+    ? Number(config.expires_in_minutes)
+    : DEFAULT_APPROVAL_EXPIRY_MINUTES;
+  const now = Date.now();
+
+  await supabase.from("node_executions").insert({
+    execution_id: context.executionId,
+    node_id: node.id,
+    status: "waiting",
+    attempt: 1,
+    input_data: nodeInput,
+    started_at: new Date(now).toISOString(),
+  });
+
+  const { error: insertError } = await supabase.from("workflow_approvals").insert({
+    execution_id: context.executionId,
+    workflow_id: context.workflowId,
+    node_id: node.id,
+    node_label: node.label,
+    user_id: context.userId,
+    message: config.message?.trim() || null,
+    payload: nodeInput,
+    expires_at: new Date(now + expiresInMinutes * 60_000).toISOString(),
+  });
+  if (insertError) {
+    throw new Error(`Node ${node.label}: failed to request approval: ${insertError.message}`);
+  }
+  return null;
+}
+
 async function executeDataNode(
   node: WorkflowNode,
   inputData: Record<string, unknown>,
+  parameters: Record<string, string | number | boolean>,
 ): Promise<Record<string, unknown>> {
-  const config = node.config as { operation?: string; expression?: string };
+  const config = node.config as { operation?: string; expression?: string; mapping?: Record<string, string> };
   const operation = config.operation || "transform";
+  const expression = config.expression?.trim();
+  const scope: ExpressionScope = { input: inputData, params: parameters };
 
   switch (operation) {
     case "transform":
-      // Simple pass-through for now (can add expression evaluation later)
-      return inputData;
-    case "filter":
-      // TODO: Implement filtering
-      return inputData;
-    case "merge":
-      // TODO: Implement merging
-      return inputData;
+      if (config.mapping && Object.keys(config.mapping).length > 0) {
+        return applyMapping(node, config.mapping, scope);
+      }
+      return expression ? toNodeOutput(evaluateNodeExpression(node, expression, scope)) : inputData;
+    case "filter": {
+      if (!expression) return inputData;
+      // The expression is a predicate over the elements of every array in the
+      // input (`@` is the element); an input without arrays is kept or dropped whole.
+      const arrayKeys = Object.keys(inputData).filter(key => Array.isArray(inputData[key]));
+      if (arrayKeys.length === 0) {
+        return isTruthy(evaluateNodeExpression(node, expression, scope)) ? inputData : {};
+      }
+      const filtered: Record<string, unknown> = { ...inputData };
+      for (const key of arrayKeys) {
+        filtered[key] = (inputData[key] as unknown[]).filter(item =>
+          isTruthy(evaluateNodeExpression(node, expression, { ...scope, current: item }))
+        );
+      }
+      return filtered;
+    }
+    case "merge": {
+      // Edge inputs are already merged; mapping/expression results are layered on top.
+      const merged: Record<string, unknown> = { ...inputData };
+      if (config.mapping && Object.keys(config.mapping).length > 0) {
+        Object.assign(merged, applyMapping(node, config.mapping, scope));
+      }
+      if (expression) {
+        Object.assign(merged, toNodeOutput(evaluateNodeExpression(node, expression, scope)));
+      }
+      return merged;
+    }
     default:
       return inputData;
   }
@@ -445,16 +1482,39 @@ async function executeConditionNode(
   parameters: Record<string, string | number | boolean>,
 ): Promise<Record<string, unknown>> {
   const config = node.config as { condition?: string };
-  const condition = config.condition || "true";
+  const condition = config.condition?.trim() || "true";
+
+  const result = isTruthy(evaluateNodeExpression(node, condition, { input: inputData, params: parameters }));
+  return { condition_result: result, ...inputData };
+}
 
-  // Simple condition evaluation (can be enhanced with a proper expression parser)
+function evaluateNodeExpression(node: WorkflowNode, expression: string, scope: ExpressionScope): unknown {
   try {
-    // For now, just check if condition string exists
-    const result = condition.toLowerCase() !== "false" && condition !== "0";
-    return { condition_result: result, ...inputData };
-  } catch {
-    return { condition_result: true, ...inputData };
+    return evaluateExpression(expression, scope);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Node ${node.label}: invalid expression "${expression}": ${message}`);
+  }
+}
+
+function applyMapping(
+  node: WorkflowNode,
+  mapping: Record<string, string>,
+  scope: ExpressionScope,
+): Record<string, unknown> {
+  const output: Record<string, unknown> = {};
+  for (const [key, expression] of Object.entries(mapping)) {
+    output[key] = evaluateNodeExpression(node, String(expression), scope);
+  }
+  return output;
+}
+
+// Node outputs are objects; wrap scalar and array results.
+function toNodeOutput(value: unknown): Record<string, unknown> {
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    return value as Record<string, unknown>;
   }
+  return { result: value };
 }
 
 async function executeMergeNode(
@@ -519,9 +1579,84 @@ function topologicalSort(nodes: WorkflowNode[], edges: WorkflowEdge[]): string[]
     }
   }
 
+  // Anything Kahn's algorithm couldn't order is on (or behind) a cycle
+  if (result.length < nodeIds.size) {
+    const labels = new Map(nodes.map(n => [n.id, n.label]));
+    const unordered = [...nodeIds].filter(id => (inDegree.get(id) || 0) > 0).map(id => labels.get(id) || id);
+    throw new WorkflowGraphError(`Workflow contains a cycle involving: ${unordered.join(", ")}`);
+  }
+
   return result;
 }
 
+/**
+ * Find the body of every loop node: the nodes reachable from its "each" edges.
+ * Bodies must be self-contained (entered only through the loop's "each"
+ * edges), may not contain start, end or other loop nodes, and may not overlap.
+ */
+function findLoopBodies(nodes: WorkflowNode[], edges: WorkflowEdge[], order: string[]): Map<string, LoopBody> {
+  const nodeMap = new Map(nodes.map(n => [n.id, n]));
+  const isEachEdge = (edge: WorkflowEdge) => edge.condition?.trim().toLowerCase() === "each";
+  const owners = new Map<string, WorkflowNode>();
+  const bodies = new Map<string, LoopBody>();
+
+  for (const loop of nodes.filter(n => n.node_type === "loop")) {
+    const pending = edges
+      .filter(edge => edge.source_node_id === loop.id && isEachEdge(edge))
+      .map(edge => edge.target_node_id);
+    if (pending.length === 0) {
+      throw new WorkflowGraphError(`Loop ${loop.label} has no "each" connection to the nodes it repeats`);
+    }
+
+    while (pending.length > 0) {
+      const node = nodeMap.get(pending.pop()!);
+      if (!node || owners.get(node.id) === loop) continue;
+      const owner = owners.get(node.id);
+      if (owner) {
+        throw new WorkflowGraphError(`${node.label} is repeated by both loop ${owner.label} and loop ${loop.label}`);
+      }
+      if (node.node_type === "loop") {
+        throw new WorkflowGraphError(`Loop ${node.label} cannot be nested inside loop ${loop.label}`);
+      }
+      if (node.node_type === "start" || node.node_type === "end" || node.node_type === "approval") {
+        throw new WorkflowGraphError(`Loop ${loop.label} cannot repeat the ${node.node_type} node ${node.label}`);
+      }
+      owners.set(node.id, loop);
+      for (const edge of edges) {
+        if (edge.source_node_id === node.id) pending.push(edge.target_node_id);
+      }
+    }
+
+    bodies.set(loop.id, {
+      nodes: order.filter(id => owners.get(id) === loop).map(id => nodeMap.get(id)!),
+      edges: [],
+      sinks: [],
+    });
+  }
+
+  for (const edge of edges) {
+    const owner = owners.get(edge.target_node_id);
+    if (!owner) continue;
+    const fromBody = owners.get(edge.source_node_id) === owner;
+    if (!fromBody && !(edge.source_node_id === owner.id && isEachEdge(edge))) {
+      const source = nodeMap.get(edge.source_node_id);
+      throw new WorkflowGraphError(
+        `${source?.label ?? edge.source_node_id} connects into the body of loop ${owner.label}; ` +
+          `only the loop's "each" connections can`,
+      );
+    }
+    bodies.get(owner.id)!.edges.push(edge);
+  }
+
+  for (const body of bodies.values()) {
+    body.sinks = body.nodes
+      .filter(node => !edges.some(edge => edge.source_node_id === node.id))
+      .map(node => node.id);
+  }
+
+  return bodies;
+}
+
 function extractValue(obj: unknown, path: string): unknown {
   if (!path || path === ".") return obj;
 
@@ -37,8 +37,11 @@ serve(async (req) => {
       });
     }
 
+    // GET /workflow-execution/{id} returns status; POST /workflow-execution/{id}/cancel stops the run
     const url = new URL(req.url);
-    const executionId = url.pathname.split("/").pop();
+    const segments = url.pathname.split("/").filter(Boolean);
+    const isCancel = segments[segments.length - 1] === "cancel";
+    const executionId = isCancel ? segments[segments.length - 2] : segments[segments.length - 1];
 
     if (!executionId) {
       return new Response(JSON.stringify({ error: "Execution ID required" }), {
@@ -62,6 +65,56 @@ serve(async (req) => {
       });
     }
 
+    if (isCancel) {
+      if (req.method !== "POST") {
+        return new Response(JSON.stringify({ error: "Method not allowed" }), {
+          status: 405,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      // The executor notices on its next heartbeat and aborts in-flight nodes
+      const completedAt = new Date().toISOString();
+      const { data: cancelled, error: cancelError } = await supabase
+        .from("workflow_executions")
+        .update({ status: "cancelled", error_message: "Cancelled by user", completed_at: completedAt })
+        .eq("id", executionId)
+        .in("status", ["pending", "running", "waiting"])
+        .select()
+        .maybeSingle();
+
+      if (cancelError) {
+        return new Response(JSON.stringify({ error: "Failed to cancel execution" }), {
+          status: 500,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+      if (!cancelled) {
+        return new Response(
+          JSON.stringify({ error: `Execution is already ${execution.status}` }),
+          { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+        );
+      }
+
+      await supabase
+        .from("node_executions")
+        .update({ status: "cancelled", error_message: "Cancelled", completed_at: completedAt })
+        .eq("execution_id", executionId)
+        .in("status", ["pending", "running", "waiting"]);
+
+      // Sub-workflow runs started by this run stop with it (their executors cancel their own children)
+      await supabase
+        .from("workflow_executions")
+        .update({ status: "cancelled", error_message: "Parent run cancelled", completed_at: completedAt })
+        .eq("parent_execution_id", executionId)
+        .in("status", ["pending", "running"]);
+
+      return new Response(JSON.stringify({ execution: cancelled }), {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
     // Get node executions
     const { data: nodeExecutions, error: nodeError } = await supabase
       .from("node_executions")
@@ -76,15 +129,64 @@ serve(async (req) => {
       });
     }
 
-    // Calculate progress
-    const totalNodes = nodeExecutions?.length || 0;
-    const completedNodes = nodeExecutions?.filter(n => n.status === "completed").length || 0;
+    // Calculate progress from each node's latest attempt. Skipped nodes
+    // (untaken branches) count as done; loop iterations count through their loop node.
+    const latestByNode = new Map<string, { status: string; attempt?: number }>();
+    for (const nodeExec of nodeExecutions || []) {
+      if (nodeExec.loop_node_id) continue;
+      const latest = latestByNode.get(nodeExec.node_id);
+      if (!latest || (nodeExec.attempt ?? 1) >= (latest.attempt ?? 1)) {
+        latestByNode.set(nodeExec.node_id, nodeExec);
+      }
+    }
+    const totalNodes = latestByNode.size;
+    const completedNodes = [...latestByNode.values()].filter(
+      n => n.status === "completed" || n.status === "skipped",
+    ).length;
     const progress = totalNodes > 0 ? Math.round((completedNodes / totalNodes) * 100) : 0;
 
+    // Node names come from the version the run executed, so nodes edited or removed
+    // since still show as they ran; runs from before versioning use the current graph
+    let version: number | null = null;
+    let graphNodes: Array<{ id: string; label: string; node_type: string }> = [];
+    if (execution.version_id) {
+      const { data: pinned } = await supabase
+        .from("workflow_versions")
+        .select("version, graph")
+        .eq("id", execution.version_id)
+        .maybeSingle();
+      version = pinned?.version ?? null;
+      graphNodes = pinned?.graph?.nodes ?? [];
+    }
+    if (!graphNodes.length) {
+      const { data: currentNodes } = await supabase
+        .from("workflow_nodes")
+        .select("id, label, node_type")
+        .eq("workflow_id", execution.workflow_id);
+      graphNodes = currentNodes ?? [];
+    }
+    const nodesById = new Map(graphNodes.map(node => [node.id, node]));
+
+    // Runs started by this run's sub-workflow nodes, so the viewer can link to them
+    const { data: childExecutions } = await supabase
+      .from("workflow_executions")
+      .select("id, workflow_id, parent_node_id, status, created_at, workflows(name)")
+      .eq("parent_execution_id", executionId)
+      .order("created_at", { ascending: true });
+
     return new Response(
       JSON.stringify({
         execution,
-        node_executions: nodeExecutions || [],
+        version,
+        node_executions: (nodeExecutions || []).map(nodeExec => ({
+          ...nodeExec,
+          node_label: nodesById.get(nodeExec.node_id)?.label ?? null,
+          node_type: nodesById.get(nodeExec.node_id)?.node_type ?? null,
+        })),
+        child_executions: (childExecutions || []).map(({ workflows: workflow, ...child }) => ({
+          ...child,
+          workflow_name: workflow?.name ?? null,
+        })),
         current_step: completedNodes,
         total_steps: totalNodes,
         progress,
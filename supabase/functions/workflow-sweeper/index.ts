@@ -0,0 +1,213 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+
+const SUPABASE_URL = Deno.env.get("PROJECT_URL") ?? Deno.env.get("SUPABASE_URL");
+const SUPABASE_SERVICE_ROLE_KEY =
+  Deno.env.get("SERVICE_ROLE_KEY") ?? Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+// Must stay well above workflow-execute's heartbeat interval (5s)
+const ORPHAN_TIMEOUT_MS = Number(Deno.env.get("WORKFLOW_ORPHAN_TIMEOUT_MS") ?? 120_000);
+
+// Runs per invocation; call again while `remaining` is true.
+const BATCH_SIZE = 100;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+interface ActiveExecution {
+  id: string;
+  status: string;
+  heartbeat_at: string | null;
+  started_at: string | null;
+  created_at: string;
+}
+
+/** A run is orphaned once nothing has heartbeated for it within the timeout. */
+function isOrphaned(execution: ActiveExecution, cutoff: number): boolean {
+  const lastSeen = execution.heartbeat_at ?? execution.started_at ?? execution.created_at;
+  return new Date(lastSeen).getTime() < cutoff;
+}
+
+/**
+ * Expire approval requests nobody decided on in time and fail the runs waiting
+ * on them. Returns the ids of the expired requests.
+ */
+async function expireApprovals(supabase: SupabaseClient): Promise<string[]> {
+  const now = new Date().toISOString();
+  const { data: due, error: dueError } = await supabase
+    .from("workflow_approvals")
+    .select("id")
+    .eq("status", "pending")
+    .lt("expires_at", now)
+    .order("expires_at", { ascending: true })
+    .limit(BATCH_SIZE);
+  if (dueError) throw dueError;
+  if (!due?.length) return [];
+
+  // Guard on pending so a decision that lands meanwhile wins
+  const { data: approvals, error } = await supabase
+    .from("workflow_approvals")
+    .update({ status: "expired", decided_at: now })
+    .in("id", due.map((approval: { id: string }) => approval.id))
+    .eq("status", "pending")
+    .select("id, execution_id, node_id");
+  if (error) throw error;
+
+  for (const approval of approvals ?? []) {
+    const { data: updated } = await supabase
+      .from("workflow_executions")
+      .update({ status: "failed", error_message: "Approval expired before anyone decided", completed_at: now })
+      .eq("id", approval.execution_id)
+      .eq("status", "waiting")
+      .select("id");
+    if (!updated?.length) continue;
+
+    await supabase
+      .from("node_executions")
+      .update({ status: "failed", error_message: "Approval expired", completed_at: now })
+      .eq("execution_id", approval.execution_id)
+      .eq("node_id", approval.node_id)
+      .eq("status", "waiting");
+  }
+  return (approvals ?? []).map((approval: { id: string }) => approval.id);
+}
+
+/**
+ * Fail waiting runs that no open approval request can resume any more, e.g. one
+ * whose request was removed. A request decided within the orphan timeout still
+ * counts: its run is being handed back to workflow-execute. Returns the run ids.
+ */
+async function failStrandedWaitingRuns(supabase: SupabaseClient, cutoff: number): Promise<string[]> {
+  const { data: stranded, error: strandedError } = await supabase
+    .from("workflow_executions")
+    .select("id, workflow_approvals(id)")
+    .eq("status", "waiting")
+    .or(`status.eq.pending,decided_at.gt.${new Date(cutoff).toISOString()}`, { referencedTable: "workflow_approvals" })
+    .is("workflow_approvals", null)
+    .order("created_at", { ascending: true })
+    .limit(BATCH_SIZE);
+  if (strandedError) throw strandedError;
+  if (!stranded?.length) return [];
+
+  const now = new Date().toISOString();
+  const { data: updated, error } = await supabase
+    .from("workflow_executions")
+    .update({ status: "failed", error_message: "Run was waiting for an approval request that no longer exists", completed_at: now })
+    .in("id", stranded.map(execution => execution.id))
+    .eq("status", "waiting")
+    .select("id");
+  if (error) throw error;
+  if (!updated?.length) return [];
+
+  const ids = updated.map(execution => execution.id);
+  await supabase
+    .from("node_executions")
+    .update({ status: "failed", error_message: "Approval request no longer exists", completed_at: now })
+    .in("execution_id", ids)
+    .eq("status", "waiting");
+  return ids;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), {
+      status: 405,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    return new Response(JSON.stringify({ error: "Server not configured" }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  // Operator-only: sweeps every user's runs.
+  const authHeader = req.headers.get("Authorization") ?? "";
+  const accessToken = authHeader.replace(/Bearer\s+/i, "").trim();
+  if (accessToken !== SUPABASE_SERVICE_ROLE_KEY) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  try {
+    const cutoff = Date.now() - ORPHAN_TIMEOUT_MS;
+    const { data: rows, error } = await supabase
+      .from("workflow_executions")
+      .select("id, status, heartbeat_at, started_at, created_at")
+      .in("status", ["pending", "running"])
+      .or(`heartbeat_at.lt.${new Date(cutoff).toISOString()},heartbeat_at.is.null`)
+      .order("created_at", { ascending: true })
+      .limit(BATCH_SIZE);
+    if (error) throw error;
+
+    const swept: string[] = [];
+    const failed: Array<{ id: string; error: string }> = [];
+    for (const execution of (rows ?? []) as ActiveExecution[]) {
+      if (!isOrphaned(execution, cutoff)) continue;
+      const completedAt = new Date().toISOString();
+      try {
+        // Guard on the status we read so a run that just finished or resumed is left alone
+        const { data: updated, error: updateError } = await supabase
+          .from("workflow_executions")
+          .update({
+            status: "failed",
+            error_message: "Run stopped responding (executor orphaned); resume it to continue from the last completed node",
+            completed_at: completedAt,
+          })
+          .eq("id", execution.id)
+          .eq("status", execution.status)
+          .select("id");
+        if (updateError) throw updateError;
+        if (!updated?.length) continue;
+
+        await supabase
+          .from("node_executions")
+          .update({ status: "failed", error_message: "Interrupted before completion", completed_at: completedAt })
+          .eq("execution_id", execution.id)
+          .in("status", ["pending", "running"]);
+        swept.push(execution.id);
+      } catch (rowError) {
+        failed.push({ id: execution.id, error: rowError instanceof Error ? rowError.message : String(rowError) });
+      }
+    }
+
+    const expired = await expireApprovals(supabase);
+    const stranded = await failStrandedWaitingRuns(supabase, cutoff);
+
+    console.log(
+      `[workflow-sweeper] swept=${swept.length} failed=${failed.length} expired=${expired.length} stranded=${stranded.length}`,
+    );
+
+    return new Response(
+      JSON.stringify({
+        swept,
+        failed,
+        expired,
+        stranded,
+        remaining: (rows?.length ?? 0) === BATCH_SIZE || expired.length === BATCH_SIZE || stranded.length === BATCH_SIZE,
+      }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  } catch (error) {
+    console.error("[workflow-sweeper] failed", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Sweep failed" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  }
+});
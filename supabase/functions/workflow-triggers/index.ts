@@ -0,0 +1,510 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+import { assertValidTimezone, CronExpressionError, nextCronRun } from "../_shared/cron.ts";
+import { decryptSecret, encryptSecret, type SecretEnvelope } from "../_shared/secretCrypto.ts";
+import { dispatchExecution } from "../_shared/workflowDispatch.ts";
+
+const SUPABASE_URL = Deno.env.get("PROJECT_URL") ?? Deno.env.get("SUPABASE_URL");
+const SUPABASE_SERVICE_ROLE_KEY =
+  Deno.env.get("SERVICE_ROLE_KEY") ?? Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+// Due cron triggers dispatched per invocation; call again while `remaining` is true.
+const BATCH_SIZE = 50;
+// Webhook requests signed longer ago than this are rejected; within it, each signature is accepted once
+const WEBHOOK_TOLERANCE_SECONDS = 300;
+const MAX_WEBHOOK_BODY_BYTES = 1024 * 1024;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, x-workflow-timestamp, x-workflow-signature",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+type TriggerType = "cron" | "webhook";
+
+interface TriggersRequest {
+  action: "list" | "create" | "update" | "delete" | "rotate_secret" | "dispatch";
+  workflow_id?: string;
+  trigger_id?: string;
+  trigger_type?: TriggerType;
+  name?: string | null;
+  enabled?: boolean;
+  cron_expression?: string;
+  timezone?: string;
+  input_data?: Record<string, unknown>;
+  parameters?: Record<string, string | number | boolean>;
+}
+
+interface TriggerRow {
+  id: string;
+  workflow_id: string;
+  user_id: string;
+  trigger_type: TriggerType;
+  name: string | null;
+  enabled: boolean;
+  cron_expression: string | null;
+  timezone: string;
+  next_run_at: string | null;
+  webhook_secret_envelope: SecretEnvelope | null;
+  webhook_secret_key_version: number | null;
+  input_data: Record<string, unknown> | null;
+  parameters: Record<string, string | number | boolean> | null;
+  last_triggered_at: string | null;
+  last_execution_id: string | null;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+class TriggerValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TriggerValidationError";
+  }
+}
+
+function jsonResponse(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+function generateWebhookSecret(): string {
+  return `whsec_${toHex(crypto.getRandomValues(new Uint8Array(32)).buffer)}`;
+}
+
+// Binds the encrypted secret to its trigger, so an envelope copied to another row won't decrypt
+function webhookSecretContext(trigger: Pick<TriggerRow, "id" | "user_id">): string {
+  return `workflow_triggers.webhook_secret:${trigger.id}:${trigger.user_id}`;
+}
+
+/** A new signing secret for the trigger, and the columns that store it encrypted. */
+async function newWebhookSecret(trigger: Pick<TriggerRow, "id" | "user_id">) {
+  const secret = generateWebhookSecret();
+  const envelope = await encryptSecret(secret, webhookSecretContext(trigger));
+  return {
+    secret,
+    columns: { webhook_secret_envelope: envelope, webhook_secret_key_version: envelope.keyVersion },
+  };
+}
+
+async function signWebhook(secret: string, timestamp: string, body: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  return toHex(await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(`${timestamp}.${body}`)));
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+function webhookUrl(triggerId: string): string {
+  return `${SUPABASE_URL}/functions/v1/workflow-triggers/webhook/${triggerId}`;
+}
+
+// Rows as returned to the owner, with the URL webhook senders should call. The signing
+// secret is only included right after it is created or rotated.
+function presentTrigger(
+  { webhook_secret_envelope, webhook_secret_key_version, ...trigger }: TriggerRow,
+  webhookSecret?: string,
+) {
+  return {
+    ...trigger,
+    ...(trigger.trigger_type === "webhook" ? { webhook_url: webhookUrl(trigger.id) } : {}),
+    ...(webhookSecret ? { webhook_secret: webhookSecret } : {}),
+  };
+}
+
+function validateSchedule(cronExpression: string, timezone: string): string {
+  try {
+    assertValidTimezone(timezone);
+  } catch {
+    throw new TriggerValidationError(`Unknown timezone "${timezone}"`);
+  }
+  try {
+    return nextCronRun(cronExpression, timezone).toISOString();
+  } catch (error) {
+    if (error instanceof CronExpressionError) {
+      throw new TriggerValidationError(`Invalid cron expression: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Creates a pending workflow_executions row for the trigger and hands it to
+ * workflow-execute. Returns the execution id and, if the run could not be started,
+ * why (the execution is then marked failed).
+ */
+async function startTriggeredRun(
+  supabase: SupabaseClient,
+  trigger: TriggerRow,
+  inputData: Record<string, unknown>,
+): Promise<{ executionId: string | null; error: string | null }> {
+  const { data: execution, error: insertError } = await supabase
+    .from("workflow_executions")
+    .insert({
+      workflow_id: trigger.workflow_id,
+      user_id: trigger.user_id,
+      status: "pending",
+      input_data: inputData,
+      parameters: trigger.parameters ?? {},
+      trigger_id: trigger.id,
+      triggered_by: trigger.trigger_type,
+    })
+    .select("id")
+    .single();
+
+  const error = insertError
+    ? `Failed to create execution: ${insertError.message}`
+    : await dispatchExecution(supabase, execution.id);
+
+  await supabase
+    .from("workflow_triggers")
+    .update({
+      last_triggered_at: new Date().toISOString(),
+      last_execution_id: execution?.id ?? trigger.last_execution_id,
+      last_error: error,
+    })
+    .eq("id", trigger.id);
+
+  return { executionId: execution?.id ?? null, error };
+}
+
+// POST /workflow-triggers/webhook/{triggerId}, signed with the trigger's secret:
+// X-Workflow-Timestamp: unix seconds; X-Workflow-Signature: sha256=hex(HMAC(secret, "{timestamp}.{body}"))
+async function handleWebhook(req: Request, supabase: SupabaseClient, triggerId: string): Promise<Response> {
+  const body = await req.text();
+  if (new TextEncoder().encode(body).length > MAX_WEBHOOK_BODY_BYTES) {
+    return jsonResponse({ error: "Payload too large" }, 413);
+  }
+
+  const { data: trigger, error } = await supabase
+    .from("workflow_triggers")
+    .select("*")
+    .eq("id", triggerId)
+    .eq("trigger_type", "webhook")
+    .maybeSingle();
+  if (error) throw error;
+  // Disabled and unknown triggers look the same to callers
+  if (!trigger || !trigger.enabled || !trigger.webhook_secret_envelope) {
+    return jsonResponse({ error: "Webhook not found" }, 404);
+  }
+
+  const timestamp = req.headers.get("X-Workflow-Timestamp") ?? "";
+  const signature = (req.headers.get("X-Workflow-Signature") ?? "").replace(/^sha256=/, "");
+  const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+  if (!/^\d+$/.test(timestamp) || !(age <= WEBHOOK_TOLERANCE_SECONDS)) {
+    return jsonResponse({ error: "Missing or expired X-Workflow-Timestamp" }, 401);
+  }
+  const secret = await decryptSecret(trigger.webhook_secret_envelope, webhookSecretContext(trigger));
+  const expected = await signWebhook(secret, timestamp, body);
+  if (!timingSafeEqual(signature.toLowerCase(), expected)) {
+    return jsonResponse({ error: "Invalid signature" }, 401);
+  }
+
+  // Each signed request is accepted once; the primary key rejects a replay of it
+  const { error: deliveryError } = await supabase
+    .from("workflow_webhook_deliveries")
+    .insert({ trigger_id: trigger.id, signature: expected });
+  if (deliveryError?.code === "23505") {
+    return jsonResponse({ error: "Request was already received" }, 409);
+  }
+  if (deliveryError) throw deliveryError;
+  // Older requests fail the timestamp check anyway
+  await supabase
+    .from("workflow_webhook_deliveries")
+    .delete()
+    .eq("trigger_id", trigger.id)
+    .lt("received_at", new Date(Date.now() - 2 * WEBHOOK_TOLERANCE_SECONDS * 1000).toISOString());
+
+  // A JSON object becomes the run's input_data; anything else is wrapped
+  let inputData: Record<string, unknown>;
+  try {
+    const parsed = body ? JSON.parse(body) : {};
+    inputData = parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : { payload: parsed };
+  } catch {
+    inputData = { payload: body };
+  }
+
+  const { executionId, error: runError } = await startTriggeredRun(supabase, trigger as TriggerRow, inputData);
+  console.log(`[workflow-triggers] webhook ${triggerId} -> ${executionId ?? "no execution"}${runError ? ` (${runError})` : ""}`);
+  if (runError) {
+    return jsonResponse({ error: runError, execution_id: executionId }, 502);
+  }
+  return jsonResponse({ execution_id: executionId, status: "pending" }, 202);
+}
+
+// Starts every enabled cron trigger that is due. A trigger fires once however many
+// runs it missed, and is claimed by advancing next_run_at so overlapping calls don't double-fire.
+async function dispatchDueTriggers(supabase: SupabaseClient): Promise<Response> {
+  const now = new Date();
+  const { data: due, error } = await supabase
+    .from("workflow_triggers")
+    .select("*")
+    .eq("trigger_type", "cron")
+    .eq("enabled", true)
+    .lte("next_run_at", now.toISOString())
+    .order("next_run_at", { ascending: true })
+    .limit(BATCH_SIZE);
+  if (error) throw error;
+
+  const dispatched: Array<{ trigger_id: string; execution_id: string | null; error?: string }> = [];
+  for (const trigger of (due ?? []) as TriggerRow[]) {
+    let nextRunAt: string | null = null;
+    let scheduleError: string | null = null;
+    try {
+      nextRunAt = nextCronRun(trigger.cron_expression!, trigger.timezone, now).toISOString();
+    } catch (cronError) {
+      scheduleError = cronError instanceof Error ? cronError.message : String(cronError);
+    }
+
+    const { data: claimed, error: claimError } = await supabase
+      .from("workflow_triggers")
+      .update(
+        scheduleError
+          ? { enabled: false, next_run_at: null, last_error: `Disabled: ${scheduleError}` }
+          : { next_run_at: nextRunAt },
+      )
+      .eq("id", trigger.id)
+      .eq("next_run_at", trigger.next_run_at)
+      .select("id");
+    if (claimError) throw claimError;
+    if (!claimed?.length || scheduleError) continue;
+
+    const { executionId, error: runError } = await startTriggeredRun(supabase, trigger, trigger.input_data ?? {});
+    dispatched.push({ trigger_id: trigger.id, execution_id: executionId, ...(runError ? { error: runError } : {}) });
+  }
+
+  console.log(`[workflow-triggers] dispatched=${dispatched.length}`);
+  return jsonResponse({ dispatched, remaining: (due?.length ?? 0) === BATCH_SIZE }, 200);
+}
+
+// Manages a user's workflow triggers, dispatches due cron triggers (service role,
+// called every minute by pg_cron) and receives signed webhooks, which carry no JWT:
+// deploy with --no-verify-jwt.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    return jsonResponse({ error: "Server not configured" }, 500);
+  }
+
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  const segments = new URL(req.url).pathname.split("/").filter(Boolean);
+  const webhookIndex = segments.indexOf("webhook");
+  if (webhookIndex >= 0) {
+    const triggerId = segments[webhookIndex + 1];
+    if (!triggerId || !UUID_PATTERN.test(triggerId)) {
+      return jsonResponse({ error: "Webhook not found" }, 404);
+    }
+    try {
+      return await handleWebhook(req, supabase, triggerId);
+    } catch (error) {
+      console.error("[workflow-triggers] webhook failed", error);
+      return jsonResponse({ error: "Webhook processing failed" }, 500);
+    }
+  }
+
+  const authHeader = req.headers.get("Authorization") ?? "";
+  const accessToken = authHeader.replace(/Bearer\s+/i, "").trim();
+  if (!accessToken) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  let body: TriggersRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return jsonResponse({ error: "Invalid JSON body" }, 400);
+  }
+
+  // Operator-only: dispatches every user's due triggers.
+  if (body.action === "dispatch") {
+    if (accessToken !== SUPABASE_SERVICE_ROLE_KEY) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+    try {
+      return await dispatchDueTriggers(supabase);
+    } catch (error) {
+      console.error("[workflow-triggers] dispatch failed", error);
+      return jsonResponse({ error: error instanceof Error ? error.message : "Dispatch failed" }, 500);
+    }
+  }
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser(accessToken);
+  if (userError || !user) {
+    return jsonResponse({ error: "Unable to authenticate user" }, 401);
+  }
+
+  const loadOwnedTrigger = async (): Promise<TriggerRow | null> => {
+    if (!body.trigger_id) throw new TriggerValidationError("trigger_id is required");
+    const { data, error } = await supabase
+      .from("workflow_triggers")
+      .select("*")
+      .eq("id", body.trigger_id)
+      .eq("user_id", user.id)
+      .maybeSingle();
+    if (error) throw error;
+    return data as TriggerRow | null;
+  };
+
+  try {
+    switch (body.action) {
+      case "list": {
+        let query = supabase.from("workflow_triggers").select("*").eq("user_id", user.id);
+        if (body.workflow_id) query = query.eq("workflow_id", body.workflow_id);
+        const { data, error } = await query.order("created_at", { ascending: true });
+        if (error) throw error;
+        return jsonResponse({ triggers: ((data ?? []) as TriggerRow[]).map(presentTrigger) }, 200);
+      }
+
+      case "create": {
+        if (!body.workflow_id) throw new TriggerValidationError("workflow_id is required");
+        const { data: workflow, error: workflowError } = await supabase
+          .from("workflows")
+          .select("id")
+          .eq("id", body.workflow_id)
+          .eq("user_id", user.id)
+          .maybeSingle();
+        if (workflowError) throw workflowError;
+        if (!workflow) {
+          return jsonResponse({ error: "Workflow not found" }, 404);
+        }
+
+        const timezone = body.timezone?.trim() || "UTC";
+        let schedule: { cron_expression: string; timezone: string; next_run_at: string } | null = null;
+        if (body.trigger_type === "cron") {
+          const cronExpression = body.cron_expression?.trim();
+          if (!cronExpression) throw new TriggerValidationError("cron_expression is required");
+          schedule = { cron_expression: cronExpression, timezone, next_run_at: validateSchedule(cronExpression, timezone) };
+        } else if (body.trigger_type !== "webhook") {
+          throw new TriggerValidationError('trigger_type must be "cron" or "webhook"');
+        }
+
+        const enabled = body.enabled ?? true;
+        const triggerId = crypto.randomUUID();
+        const webhookSecret = schedule ? null : await newWebhookSecret({ id: triggerId, user_id: user.id });
+        const { data: trigger, error } = await supabase
+          .from("workflow_triggers")
+          .insert({
+            id: triggerId,
+            workflow_id: workflow.id,
+            user_id: user.id,
+            trigger_type: body.trigger_type,
+            name: body.name?.trim() || null,
+            enabled,
+            ...(schedule
+              ? { ...schedule, next_run_at: enabled ? schedule.next_run_at : null }
+              : webhookSecret!.columns),
+            input_data: body.input_data ?? {},
+            parameters: body.parameters ?? {},
+          })
+          .select("*")
+          .single();
+        if (error) throw error;
+        return jsonResponse({ trigger: presentTrigger(trigger as TriggerRow, webhookSecret?.secret) }, 200);
+      }
+
+      case "update": {
+        const trigger = await loadOwnedTrigger();
+        if (!trigger) {
+          return jsonResponse({ error: "Trigger not found" }, 404);
+        }
+
+        const updates: Record<string, unknown> = {};
+        if (body.name !== undefined) updates.name = body.name?.trim() || null;
+        if (body.input_data !== undefined) updates.input_data = body.input_data ?? {};
+        if (body.parameters !== undefined) updates.parameters = body.parameters ?? {};
+        if (body.enabled !== undefined) updates.enabled = body.enabled;
+        if (trigger.trigger_type === "cron") {
+          const cronExpression = body.cron_expression?.trim() || trigger.cron_expression!;
+          const timezone = body.timezone?.trim() || trigger.timezone;
+          const enabled = body.enabled ?? trigger.enabled;
+          // Recomputed from now, so a re-enabled schedule skips the runs it missed
+          const nextRunAt = validateSchedule(cronExpression, timezone);
+          Object.assign(updates, {
+            cron_expression: cronExpression,
+            timezone,
+            next_run_at: enabled ? nextRunAt : null,
+            ...(enabled && !trigger.enabled ? { last_error: null } : {}),
+          });
+        }
+
+        const { data: updated, error } = await supabase
+          .from("workflow_triggers")
+          .update(updates)
+          .eq("id", trigger.id)
+          .select("*")
+          .single();
+        if (error) throw error;
+        return jsonResponse({ trigger: presentTrigger(updated as TriggerRow) }, 200);
+      }
+
+      case "rotate_secret": {
+        const trigger = await loadOwnedTrigger();
+        if (!trigger || trigger.trigger_type !== "webhook") {
+          return jsonResponse({ error: "Webhook trigger not found" }, 404);
+        }
+        const webhookSecret = await newWebhookSecret(trigger);
+        const { data: updated, error } = await supabase
+          .from("workflow_triggers")
+          .update(webhookSecret.columns)
+          .eq("id", trigger.id)
+          .select("*")
+          .single();
+        if (error) throw error;
+        return jsonResponse({ trigger: presentTrigger(updated as TriggerRow, webhookSecret.secret) }, 200);
+      }
+
+      case "delete": {
+        const trigger = await loadOwnedTrigger();
+        if (!trigger) {
+          return jsonResponse({ error: "Trigger not found" }, 404);
+        }
+        // Past runs keep their history; trigger_id is cleared
+        const { error } = await supabase.from("workflow_triggers").delete().eq("id", trigger.id);
+        if (error) throw error;
+        return jsonResponse({ success: true }, 200);
+      }
+
+      default:
+        return jsonResponse({ error: `Unknown action: ${body.action}` }, 400);
+    }
+  } catch (error) {
+    if (error instanceof TriggerValidationError) {
+      return jsonResponse({ error: error.message }, 400);
+    }
+    console.error("[workflow-triggers] failed", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Trigger request failed" }, 500);
+  }
+});
@@ -0,0 +1,28 @@
+-- Cache of tools discovered on user-registered MCP servers (via MCP tools/list)
+
+alter table public.mcp_servers
+  add column if not exists tools jsonb not null default '[]'::jsonb,
+  add column if not exists tools_refreshed_at timestamptz,
+  add column if not exists tools_error text;
+
+comment on column public.mcp_servers.tools is 'Tools reported by the server''s tools/list: [{ name, description, inputSchema }].';
+comment on column public.mcp_servers.tools_refreshed_at is 'When the tools cache was last refreshed successfully.';
+comment on column public.mcp_servers.tools_error is 'Error from the most recent failed tools/list refresh, if any.';
+
+-- Supports the refresh sweep: active servers ordered by staleness
+create index if not exists mcp_servers_tools_refreshed_at_idx
+  on public.mcp_servers(tools_refreshed_at nulls first)
+  where is_active;
+
+-- Periodic refresh is driven by the mcp-refresh-tools edge function.
+-- When pg_cron and pg_net are enabled, schedule it with (replace placeholders):
+--
+--   select cron.schedule(
+--     'mcp-refresh-tools',
+--     '0 */6 * * *',
+--     $$ select net.http_post(
+--          url := 'https://<project-ref>.supabase.co/functions/v1/mcp-refresh-tools',
+--          headers := jsonb_build_object('Authorization', 'Bearer <service-role-key>', 'Content-Type', 'application/json'),
+--          body := '{}'::jsonb
+--        ) $$
+--   );
@@ -0,0 +1,65 @@
+-- Envelope encryption for stored credentials (see supabase/functions/_shared/secretCrypto.ts)
+--
+-- Secrets move from `mcp_servers.auth_secret` (base64) and `api_keys.encrypted_key`
+-- (pgcrypto) into AES-GCM envelopes tagged with the master key version that wraps them.
+-- Key version 0 marks rows that still hold a legacy value.
+
+alter table public.mcp_servers
+  add column if not exists auth_secret_envelope jsonb,
+  add column if not exists auth_secret_key_version integer;
+
+comment on column public.mcp_servers.auth_secret is 'Legacy base64 credential; cleared once the row is re-encrypted into auth_secret_envelope.';
+comment on column public.mcp_servers.auth_secret_envelope is 'Encrypted credential: { v, keyVersion, wrappedKey, wrapNonce, nonce, ciphertext }.';
+comment on column public.mcp_servers.auth_secret_key_version is 'Master key version wrapping auth_secret_envelope (0 = legacy value awaiting re-encryption).';
+
+alter table public.api_keys
+  add column if not exists key_envelope jsonb,
+  add column if not exists key_version integer;
+
+alter table public.api_keys
+  alter column encrypted_key drop not null;
+
+alter table public.api_keys
+  add constraint api_keys_has_secret check (encrypted_key is not null or key_envelope is not null);
+
+comment on column public.api_keys.encrypted_key is 'Legacy pgcrypto ciphertext; cleared once the row is re-encrypted into key_envelope.';
+comment on column public.api_keys.key_envelope is 'Encrypted key value: { v, keyVersion, wrappedKey, wrapNonce, nonce, ciphertext }.';
+comment on column public.api_keys.key_version is 'Master key version wrapping key_envelope (0 = legacy value awaiting re-encryption).';
+
+-- Flag every existing secret for re-encryption
+update public.mcp_servers
+  set auth_secret_key_version = 0
+  where auth_secret is not null and auth_secret_envelope is null;
+
+update public.api_keys
+  set key_version = 0
+  where key_envelope is null;
+
+-- Supports the rotation sweep: rows wrapped by an older key version
+create index if not exists mcp_servers_auth_secret_key_version_idx
+  on public.mcp_servers(auth_secret_key_version)
+  where auth_secret_key_version is not null;
+
+create index if not exists api_keys_key_version_idx
+  on public.api_keys(key_version)
+  where key_version is not null;
+
+-- AES-GCM under the edge functions' SECRETS_MASTER_KEY isn't available in SQL,
+-- so the flagged rows are re-encrypted by the secrets-rotate edge function.
+-- Run it after deploying (and again after bumping SECRETS_MASTER_KEY_VERSION)
+-- until it reports "remaining": false:
+--
+--   curl -X POST https://<project-ref>.supabase.co/functions/v1/secrets-rotate \
+--     -H "Authorization: Bearer <service-role-key>"
+--
+-- Or let pg_cron drive it (requires pg_cron and pg_net):
+--
+--   select cron.schedule(
+--     'secrets-rotate',
+--     '*/15 * * * *',
+--     $$ select net.http_post(
+--          url := 'https://<project-ref>.supabase.co/functions/v1/secrets-rotate',
+--          headers := jsonb_build_object('Authorization', 'Bearer <service-role-key>', 'Content-Type', 'application/json'),
+--          body := '{}'::jsonb
+--        ) $$
+--   );
@@ -0,0 +1,22 @@
+-- Pending OAuth 2.1 authorization requests for user-registered MCP servers (see mcp-oauth)
+
+create table if not exists public.mcp_oauth_states (
+  state text primary key,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  server_id text not null references public.mcp_servers(id) on delete cascade,
+  redirect_uri text not null,
+  secret_envelope jsonb not null,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null
+);
+
+comment on table public.mcp_oauth_states is 'Single-use OAuth state for in-flight MCP server authorizations.';
+comment on column public.mcp_oauth_states.secret_envelope is 'Encrypted { codeVerifier, clientSecret } for the PKCE code exchange.';
+
+create index if not exists mcp_oauth_states_expires_at_idx
+  on public.mcp_oauth_states(expires_at);
+
+-- Only the service role (edge functions) touches this table.
+alter table public.mcp_oauth_states enable row level security;
+
+comment on column public.mcp_servers.metadata is 'Server metadata. metadata.oauth holds the discovered OAuth endpoints and registered client id for auth_type = ''oauth''.';
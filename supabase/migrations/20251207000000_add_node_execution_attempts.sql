@@ -0,0 +1,9 @@
+-- Record each retry of a workflow node as its own node_executions row (see workflow-execute)
+
+alter table public.node_executions
+  add column if not exists attempt integer not null default 1 check (attempt >= 1);
+
+comment on column public.node_executions.attempt is '1-based attempt number; retried nodes have one row per attempt.';
+
+create index if not exists idx_node_executions_execution_node
+  on public.node_executions(execution_id, node_id, attempt);
@@ -0,0 +1,37 @@
+-- Durable workflow runs: workflow-execute checkpoints finished nodes and heartbeats
+-- while it runs, so a failed, cancelled or orphaned run can be resumed.
+
+alter table public.workflow_executions
+  add column if not exists parameters jsonb not null default '{}'::jsonb,
+  add column if not exists checkpoint jsonb not null default '{}'::jsonb,
+  add column if not exists heartbeat_at timestamptz;
+
+comment on column public.workflow_executions.parameters is 'Workflow parameters the run was started with; reused on resume.';
+comment on column public.workflow_executions.checkpoint is 'Outputs of completed and skipped nodes, keyed by node id ({"nodes": {...}}).';
+comment on column public.workflow_executions.heartbeat_at is 'Last liveness signal from the executor; stale running rows are failed by workflow-sweeper.';
+
+create index if not exists idx_workflow_executions_active_heartbeat
+  on public.workflow_executions(heartbeat_at)
+  where status in ('pending', 'running');
+
+-- Nodes that were still pending or running when a run was cancelled
+alter table public.node_executions
+  drop constraint if exists node_executions_status_check;
+
+alter table public.node_executions
+  add constraint node_executions_status_check
+  check (status in ('pending', 'running', 'completed', 'failed', 'skipped', 'cancelled'));
+
+-- The workflow-sweeper edge function fails runs whose executor stopped heartbeating
+-- (e.g. the edge runtime was recycled mid-run). Schedule it with pg_cron
+-- (requires pg_cron and pg_net):
+--
+--   select cron.schedule(
+--     'workflow-sweeper',
+--     '* * * * *',
+--     $$ select net.http_post(
+--          url := 'https://<project-ref>.supabase.co/functions/v1/workflow-sweeper',
+--          headers := jsonb_build_object('Authorization', 'Bearer <service-role-key>', 'Content-Type', 'application/json'),
+--          body := '{}'::jsonb
+--        ) $$
+--   );
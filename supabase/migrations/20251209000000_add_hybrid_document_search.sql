@@ -0,0 +1,122 @@
+-- Hybrid retrieval: Postgres full-text search alongside pgvector similarity
+-- Exact terms (invoice numbers, tickers, names) rank poorly on cosine similarity
+-- alone, so doc-context fuses keyword and vector rankings with reciprocal-rank fusion.
+
+alter table document_embeddings
+    add column if not exists fts tsvector
+    generated always as (to_tsvector('english', coalesce(chunk_text, ''))) stored;
+
+create index if not exists document_embeddings_fts_idx
+    on document_embeddings using gin (fts);
+
+comment on column document_embeddings.fts is 'Full-text index of chunk_text (english configuration), used by keyword and hybrid search';
+
+-- Hybrid search over document chunks.
+-- match_mode: 'vector' (cosine similarity only), 'keyword' (full-text only) or
+-- 'hybrid' (both lists fused with RRF: sum of weight / (rrf_k + rank)).
+-- Each list contributes up to result_limit * 4 candidates before fusion.
+-- Security definer, so it bypasses RLS: only the service role may call it, and
+-- it only searches job_ids, p_user_id's documents, or p_user_id's among job_ids.
+create or replace function search_document_embeddings_hybrid(
+  query_text text,
+  query_embedding vector(1536) default null,
+  job_ids uuid[] default null,
+  match_mode text default 'hybrid',
+  result_limit int default 10,
+  similarity_threshold float default 0,
+  full_text_weight float default 1,
+  semantic_weight float default 1,
+  rrf_k int default 60,
+  p_user_id uuid default null
+)
+returns table (
+  id uuid,
+  job_id uuid,
+  chunk_text text,
+  chunk_index int,
+  metadata jsonb,
+  similarity float,
+  keyword_rank float,
+  score float,
+  file_name text
+) as $$
+#variable_conflict use_column
+declare
+  scope_job_ids uuid[];
+begin
+  if match_mode not in ('vector', 'keyword', 'hybrid') then
+    raise exception 'Unknown match_mode: %', match_mode;
+  end if;
+  if job_ids is null and p_user_id is null then
+    raise exception 'job_ids or p_user_id is required';
+  end if;
+
+  -- p_user_id's documents (among job_ids, when given), otherwise exactly job_ids
+  select coalesce(array_agg(pj.id), '{}') into scope_job_ids
+  from processing_jobs pj
+  where (job_ids is null or pj.id = any(job_ids))
+    and (p_user_id is null or pj.user_id = p_user_id);
+
+  return query
+    with semantic as (
+      select
+        de.id,
+        1 - (de.embedding <=> query_embedding) as similarity,
+        row_number() over (order by de.embedding <=> query_embedding) as rank_ix
+      from document_embeddings de
+      where
+        match_mode <> 'keyword'
+        and query_embedding is not null
+        and de.job_id = any(scope_job_ids)
+        and (1 - (de.embedding <=> query_embedding)) >= similarity_threshold
+      order by de.embedding <=> query_embedding
+      limit result_limit * 4
+    ),
+    keyword as (
+      select
+        de.id,
+        ts_rank_cd(de.fts, websearch_to_tsquery('english', query_text), 32) as keyword_rank,
+        row_number() over (
+          order by ts_rank_cd(de.fts, websearch_to_tsquery('english', query_text), 32) desc
+        ) as rank_ix
+      from document_embeddings de
+      where
+        match_mode <> 'vector'
+        and coalesce(query_text, '') <> ''
+        and de.job_id = any(scope_job_ids)
+        and de.fts @@ websearch_to_tsquery('english', query_text)
+      order by keyword_rank desc
+      limit result_limit * 4
+    ),
+    fused as (
+      select
+        coalesce(s.id, k.id) as id,
+        s.similarity,
+        k.keyword_rank,
+        coalesce(semantic_weight / (rrf_k + s.rank_ix), 0.0)
+          + coalesce(full_text_weight / (rrf_k + k.rank_ix), 0.0) as score
+      from semantic s
+      full outer join keyword k on s.id = k.id
+    )
+    select
+      de.id,
+      de.job_id,
+      de.chunk_text,
+      de.chunk_index,
+      de.metadata,
+      f.similarity,
+      f.keyword_rank::float,
+      f.score,
+      pj.file_name
+    from fused f
+    join document_embeddings de on de.id = f.id
+    join processing_jobs pj on de.job_id = pj.id
+    order by f.score desc
+    limit result_limit;
+end;
+$$ language plpgsql security definer;
+
+comment on function search_document_embeddings_hybrid is 'Keyword, vector or hybrid (reciprocal-rank fusion) search over document chunks of job_ids and/or p_user_id''s documents. Returns chunks ordered by fused score.';
+
+revoke execute on function search_document_embeddings_hybrid(text, vector, uuid[], text, int, float, float, float, int, uuid) from public, anon, authenticated;
+grant execute on function search_document_embeddings_hybrid(text, vector, uuid[], text, int, float, float, float, int, uuid) to service_role;
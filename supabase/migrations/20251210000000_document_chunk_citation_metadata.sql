@@ -0,0 +1,5 @@
+-- Chunk metadata written by textract-worker now locates each chunk in its source
+-- document so answers can cite "[report.pdf p.12]" (see doc-context).
+
+comment on column document_embeddings.metadata is
+  'Chunk location: charPosition, estimatedTokens, contentLength, pageNumber/pageEnd (Textract page or PPTX slide), sectionPath (heading titles), boundingBoxes ([{page, left, top, width, height}] as page fractions) and hasTable.';
@@ -0,0 +1,140 @@
+-- Pluggable embedding providers (OpenAI, Gemini, local transformers.js model).
+-- Each chunk records the model that embedded it and at what width. Embeddings
+-- narrower than the vector(1536) column are zero-padded, which keeps cosine
+-- similarity intact, so vector search must only compare chunks embedded by the
+-- query's model at the query's dimensions (text-embedding-3 and Gemini models
+-- produce different vectors at different widths).
+
+alter table document_embeddings
+    add column if not exists embedding_model text not null default 'text-embedding-3-small',
+    add column if not exists embedding_dimensions integer not null default 1536;
+
+-- Existing rows were all embedded with text-embedding-3-small; new rows must say which model they used
+alter table document_embeddings alter column embedding_model drop default;
+alter table document_embeddings alter column embedding_dimensions drop default;
+
+alter table document_embeddings
+    add constraint document_embeddings_embedding_dimensions_check
+    check (embedding_dimensions between 1 and 1536);
+
+-- document-reembed looks up chunks that still use another model or width
+create index if not exists document_embeddings_job_id_embedding_model_idx
+    on document_embeddings(job_id, embedding_model, embedding_dimensions);
+
+comment on column document_embeddings.embedding is 'Chunk embedding, zero-padded to 1536 dimensions when the model produces fewer';
+comment on column document_embeddings.embedding_model is 'Embedding model that produced this chunk''s vector, e.g. text-embedding-3-small, text-embedding-004, Xenova/all-MiniLM-L6-v2';
+comment on column document_embeddings.embedding_dimensions is 'Native dimension of embedding_model before padding';
+
+-- Adds query_embedding_model and query_embedding_dimensions: vector candidates are
+-- limited to chunks embedded by that model at that width (all chunks when null).
+-- Keyword matching still covers every chunk. As before, only the service role may
+-- call it, and it only searches job_ids and/or p_user_id's documents.
+drop function if exists search_document_embeddings_hybrid(text, vector, uuid[], text, int, float, float, float, int, uuid);
+
+create or replace function search_document_embeddings_hybrid(
+  query_text text,
+  query_embedding vector(1536) default null,
+  job_ids uuid[] default null,
+  match_mode text default 'hybrid',
+  result_limit int default 10,
+  similarity_threshold float default 0,
+  full_text_weight float default 1,
+  semantic_weight float default 1,
+  rrf_k int default 60,
+  p_user_id uuid default null,
+  query_embedding_model text default null,
+  query_embedding_dimensions int default null
+)
+returns table (
+  id uuid,
+  job_id uuid,
+  chunk_text text,
+  chunk_index int,
+  metadata jsonb,
+  similarity float,
+  keyword_rank float,
+  score float,
+  file_name text
+) as $$
+#variable_conflict use_column
+declare
+  scope_job_ids uuid[];
+begin
+  if match_mode not in ('vector', 'keyword', 'hybrid') then
+    raise exception 'Unknown match_mode: %', match_mode;
+  end if;
+  if job_ids is null and p_user_id is null then
+    raise exception 'job_ids or p_user_id is required';
+  end if;
+
+  -- p_user_id's documents (among job_ids, when given), otherwise exactly job_ids
+  select coalesce(array_agg(pj.id), '{}') into scope_job_ids
+  from processing_jobs pj
+  where (job_ids is null or pj.id = any(job_ids))
+    and (p_user_id is null or pj.user_id = p_user_id);
+
+  return query
+    with semantic as (
+      select
+        de.id,
+        1 - (de.embedding <=> query_embedding) as similarity,
+        row_number() over (order by de.embedding <=> query_embedding) as rank_ix
+      from document_embeddings de
+      where
+        match_mode <> 'keyword'
+        and query_embedding is not null
+        and (query_embedding_model is null or de.embedding_model = query_embedding_model)
+        and (query_embedding_dimensions is null or de.embedding_dimensions = query_embedding_dimensions)
+        and de.job_id = any(scope_job_ids)
+        and (1 - (de.embedding <=> query_embedding)) >= similarity_threshold
+      order by de.embedding <=> query_embedding
+      limit result_limit * 4
+    ),
+    keyword as (
+      select
+        de.id,
+        ts_rank_cd(de.fts, websearch_to_tsquery('english', query_text), 32) as keyword_rank,
+        row_number() over (
+          order by ts_rank_cd(de.fts, websearch_to_tsquery('english', query_text), 32) desc
+        ) as rank_ix
+      from document_embeddings de
+      where
+        match_mode <> 'vector'
+        and coalesce(query_text, '') <> ''
+        and de.job_id = any(scope_job_ids)
+        and de.fts @@ websearch_to_tsquery('english', query_text)
+      order by keyword_rank desc
+      limit result_limit * 4
+    ),
+    fused as (
+      select
+        coalesce(s.id, k.id) as id,
+        s.similarity,
+        k.keyword_rank,
+        coalesce(semantic_weight / (rrf_k + s.rank_ix), 0.0)
+          + coalesce(full_text_weight / (rrf_k + k.rank_ix), 0.0) as score
+      from semantic s
+      full outer join keyword k on s.id = k.id
+    )
+    select
+      de.id,
+      de.job_id,
+      de.chunk_text,
+      de.chunk_index,
+      de.metadata,
+      f.similarity,
+      f.keyword_rank::float,
+      f.score,
+      pj.file_name
+    from fused f
+    join document_embeddings de on de.id = f.id
+    join processing_jobs pj on de.job_id = pj.id
+    order by f.score desc
+    limit result_limit;
+end;
+$$ language plpgsql security definer;
+
+comment on function search_document_embeddings_hybrid is 'Keyword, vector or hybrid (reciprocal-rank fusion) search over document chunks. Vector candidates are limited to query_embedding_model at query_embedding_dimensions. Returns chunks ordered by fused score.';
+
+revoke execute on function search_document_embeddings_hybrid(text, vector, uuid[], text, int, float, float, float, int, uuid, text, int) from public, anon, authenticated;
+grant execute on function search_document_embeddings_hybrid(text, vector, uuid[], text, int, float, float, float, int, uuid, text, int) to service_role;
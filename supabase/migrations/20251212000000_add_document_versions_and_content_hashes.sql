@@ -0,0 +1,34 @@
+-- Content-hash de-duplication and document versions.
+-- The client sends a SHA-256 of each file when registering an upload: identical
+-- content reuses the user's existing job, and a changed file with the same name
+-- becomes the next version of that document. textract-worker hashes every chunk
+-- so a new version only embeds chunks that differ from the previous version.
+
+alter table processing_jobs
+    add column if not exists content_hash text,
+    add column if not exists document_id uuid,
+    add column if not exists version integer not null default 1,
+    add column if not exists previous_version_id uuid references processing_jobs(id) on delete set null;
+
+-- Every existing job is the first version of its own document
+update processing_jobs set document_id = id where document_id is null;
+
+comment on column processing_jobs.content_hash is 'Hex SHA-256 of the uploaded file, computed by the client at upload time';
+comment on column processing_jobs.document_id is 'Shared by all versions of a document (the id of its first version)';
+comment on column processing_jobs.version is 'Version number within document_id, starting at 1';
+comment on column processing_jobs.previous_version_id is 'Job this version replaces; its unchanged chunk embeddings are reused';
+
+create index if not exists processing_jobs_user_content_hash_idx
+    on processing_jobs(user_id, content_hash)
+    where content_hash is not null;
+
+create index if not exists processing_jobs_document_version_idx
+    on processing_jobs(document_id, version desc);
+
+alter table document_embeddings
+    add column if not exists content_hash text;
+
+comment on column document_embeddings.content_hash is 'Hex SHA-256 of chunk_text; unchanged chunks are copied between document versions instead of re-embedded';
+
+create index if not exists document_embeddings_job_id_content_hash_idx
+    on document_embeddings(job_id, content_hash);
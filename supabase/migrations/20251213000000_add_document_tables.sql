@@ -0,0 +1,45 @@
+-- Structured tables extracted from documents.
+-- textract-worker runs Textract AnalyzeDocument with TABLES and FORMS (PDFs and
+-- images) and reads CSV/XLSX rows in-process, storing each table here as a header
+-- plus string rows. The query_document_table agent tool filters and aggregates
+-- these rows instead of relying on the flattened OCR text.
+
+create table if not exists document_tables (
+    id uuid primary key default gen_random_uuid(),
+    job_id uuid not null references processing_jobs(id) on delete cascade,
+    table_index integer not null,
+    page_number integer,
+    title text,
+    columns jsonb not null default '[]'::jsonb,
+    rows jsonb not null default '[]'::jsonb,
+    row_count integer not null default 0,
+    source text not null check (source in ('textract', 'textract-forms', 'csv', 'xlsx')),
+    created_at timestamptz not null default timezone('utc'::text, now()),
+    unique (job_id, table_index)
+);
+
+comment on table document_tables is 'Tables extracted from uploaded documents, queryable by the query_document_table agent tool';
+comment on column document_tables.table_index is '1-based position of the table within the document';
+comment on column document_tables.page_number is '1-based page the table starts on; null for CSV and XLSX';
+comment on column document_tables.title is 'Textract table title, XLSX sheet name, or "Form fields" for FORMS key/value pairs';
+comment on column document_tables.columns is 'Column names (JSON array of strings), unique within the table';
+comment on column document_tables.rows is 'Body rows (JSON array of string arrays), one value per column';
+
+create index if not exists document_tables_job_id_idx
+    on document_tables(job_id, table_index);
+
+alter table document_tables enable row level security;
+
+-- Policy: Users can only read tables from their own documents
+create policy "Users can select their own document tables"
+    on document_tables
+    for select
+    using (
+        exists (
+            select 1 from processing_jobs
+            where processing_jobs.id = document_tables.job_id
+            and processing_jobs.user_id = auth.uid()
+        )
+    );
+
+-- Writes come from textract-worker with the service role, which bypasses RLS
@@ -0,0 +1,179 @@
+-- Named document collections ("Q3 board pack", "Vendor contracts") with
+-- collection-scoped search and read-only sharing.
+-- A collection holds documents its owner uploaded; sharing it lets another user
+-- read those documents (jobs, chunks and tables) and search within the collection,
+-- but only the owner can change its contents or delete the documents.
+
+create table if not exists document_collections (
+    id uuid primary key default gen_random_uuid(),
+    owner_id uuid not null references auth.users(id) on delete cascade,
+    name text not null check (length(trim(name)) > 0),
+    description text,
+    created_at timestamptz not null default timezone('utc'::text, now()),
+    updated_at timestamptz not null default timezone('utc'::text, now())
+);
+
+create unique index if not exists document_collections_owner_name_idx
+    on document_collections(owner_id, lower(name));
+
+create table if not exists document_collection_items (
+    collection_id uuid not null references document_collections(id) on delete cascade,
+    job_id uuid not null references processing_jobs(id) on delete cascade,
+    added_at timestamptz not null default timezone('utc'::text, now()),
+    primary key (collection_id, job_id)
+);
+
+create index if not exists document_collection_items_job_id_idx
+    on document_collection_items(job_id);
+
+create table if not exists document_collection_shares (
+    collection_id uuid not null references document_collections(id) on delete cascade,
+    shared_with uuid not null references auth.users(id) on delete cascade,
+    shared_with_email text not null,
+    permission text not null default 'read' check (permission in ('read')),
+    created_at timestamptz not null default timezone('utc'::text, now()),
+    primary key (collection_id, shared_with)
+);
+
+create index if not exists document_collection_shares_shared_with_idx
+    on document_collection_shares(shared_with);
+
+comment on table document_collections is 'Named groups of a user''s documents, used to scope search and to share documents read-only';
+comment on table document_collection_items is 'Documents (processing_jobs) in a collection; a document can be in several collections';
+comment on table document_collection_shares is 'Users a collection is shared with; permission is read-only';
+
+-- Membership checks run as definer so the policies below do not recurse into each other
+create or replace function is_document_collection_member(p_collection_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from document_collections
+    where id = p_collection_id and owner_id = auth.uid()
+  ) or exists (
+    select 1 from document_collection_shares
+    where collection_id = p_collection_id and shared_with = auth.uid()
+  );
+$$;
+
+create or replace function is_document_shared_with_me(p_job_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from document_collection_items items
+    join document_collection_shares shares on shares.collection_id = items.collection_id
+    where items.job_id = p_job_id and shares.shared_with = auth.uid()
+  );
+$$;
+
+-- Resolves a share recipient; only callable with the service role so users cannot probe emails
+create or replace function find_user_id_by_email(p_email text)
+returns uuid
+language sql
+stable
+security definer
+set search_path = public, auth
+as $$
+  select id from auth.users where lower(email) = lower(trim(p_email)) limit 1;
+$$;
+
+revoke execute on function find_user_id_by_email(text) from public, anon, authenticated;
+grant execute on function find_user_id_by_email(text) to service_role;
+
+alter table document_collections enable row level security;
+alter table document_collection_items enable row level security;
+alter table document_collection_shares enable row level security;
+
+create policy "Users can read collections they own or that are shared with them"
+    on document_collections
+    for select
+    using (is_document_collection_member(id));
+
+create policy "Users can manage their own collections"
+    on document_collections
+    for all
+    using (owner_id = auth.uid())
+    with check (owner_id = auth.uid());
+
+create policy "Members can read collection items"
+    on document_collection_items
+    for select
+    using (is_document_collection_member(collection_id));
+
+-- Owners may only add documents they uploaded
+create policy "Owners can manage collection items"
+    on document_collection_items
+    for all
+    using (
+        exists (
+            select 1 from document_collections
+            where document_collections.id = document_collection_items.collection_id
+            and document_collections.owner_id = auth.uid()
+        )
+    )
+    with check (
+        exists (
+            select 1 from document_collections
+            where document_collections.id = document_collection_items.collection_id
+            and document_collections.owner_id = auth.uid()
+        )
+        and exists (
+            select 1 from processing_jobs
+            where processing_jobs.id = document_collection_items.job_id
+            and processing_jobs.user_id = auth.uid()
+        )
+    );
+
+create policy "Owners and recipients can read shares"
+    on document_collection_shares
+    for select
+    using (
+        shared_with = auth.uid()
+        or exists (
+            select 1 from document_collections
+            where document_collections.id = document_collection_shares.collection_id
+            and document_collections.owner_id = auth.uid()
+        )
+    );
+
+create policy "Owners can manage shares"
+    on document_collection_shares
+    for all
+    using (
+        exists (
+            select 1 from document_collections
+            where document_collections.id = document_collection_shares.collection_id
+            and document_collections.owner_id = auth.uid()
+        )
+    )
+    with check (
+        exists (
+            select 1 from document_collections
+            where document_collections.id = document_collection_shares.collection_id
+            and document_collections.owner_id = auth.uid()
+        )
+    );
+
+-- Read-only access to the documents in collections shared with the user
+create policy "Users can select documents shared with them"
+    on processing_jobs
+    for select
+    using (is_document_shared_with_me(id));
+
+create policy "Users can select embeddings of documents shared with them"
+    on document_embeddings
+    for select
+    using (is_document_shared_with_me(job_id));
+
+create policy "Users can select tables of documents shared with them"
+    on document_tables
+    for select
+    using (is_document_shared_with_me(job_id));
@@ -0,0 +1,91 @@
+-- Workflow triggers: start runs on a cron schedule or when a signed webhook is received.
+-- Triggers are created and changed through the workflow-triggers edge function, which
+-- validates cron expressions and keeps next_run_at up to date; users can only read them.
+
+create table if not exists public.workflow_triggers (
+  id uuid primary key default gen_random_uuid(),
+  workflow_id uuid not null references public.workflows(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  trigger_type text not null check (trigger_type in ('cron', 'webhook')),
+  name text,
+  enabled boolean not null default true,
+  -- cron: five-field expression evaluated in `timezone`
+  cron_expression text,
+  timezone text not null default 'UTC',
+  next_run_at timestamptz,
+  -- webhook: HMAC-SHA256 signing secret for inbound requests, encrypted like other stored
+  -- secrets (see supabase/functions/_shared/secretCrypto.ts)
+  webhook_secret_envelope jsonb,
+  webhook_secret_key_version integer,
+  -- Passed to each run; webhook runs use the request payload as input_data instead
+  input_data jsonb not null default '{}'::jsonb,
+  parameters jsonb not null default '{}'::jsonb,
+  last_triggered_at timestamptz,
+  last_execution_id uuid references public.workflow_executions(id) on delete set null,
+  last_error text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint workflow_triggers_config_check check (
+    (trigger_type = 'cron' and cron_expression is not null)
+    or (trigger_type = 'webhook' and webhook_secret_envelope is not null)
+  )
+);
+
+comment on table public.workflow_triggers is 'Schedules and inbound webhooks that start workflow runs.';
+comment on column public.workflow_triggers.next_run_at is 'Next time a cron trigger is due; workflow-triggers dispatches it and advances this.';
+comment on column public.workflow_triggers.webhook_secret_envelope is 'Encrypted shared secret the sender signs webhook requests with (X-Workflow-Signature); only revealed when created or rotated.';
+comment on column public.workflow_triggers.webhook_secret_key_version is 'Master key version wrapping webhook_secret_envelope; secrets-rotate re-wraps older ones.';
+
+create index if not exists idx_workflow_triggers_workflow_id on public.workflow_triggers(workflow_id);
+create index if not exists idx_workflow_triggers_due
+  on public.workflow_triggers(next_run_at)
+  where enabled and trigger_type = 'cron';
+create index if not exists idx_workflow_triggers_secret_key_version
+  on public.workflow_triggers(webhook_secret_key_version)
+  where webhook_secret_key_version is not null;
+
+create trigger set_workflow_triggers_updated_at
+before update on public.workflow_triggers
+for each row execute procedure public.set_workflow_updated_at();
+
+alter table public.workflow_triggers enable row level security;
+
+create policy "Users can view their own workflow triggers"
+  on public.workflow_triggers for select
+  using (auth.uid() = user_id);
+
+-- Signatures of accepted webhook requests, so a captured request can't be replayed while
+-- its timestamp is still within the tolerance window. Rows older than the window are
+-- pruned as new requests arrive. Only workflow-triggers (service role) reads or writes it.
+create table if not exists public.workflow_webhook_deliveries (
+  trigger_id uuid not null references public.workflow_triggers(id) on delete cascade,
+  signature text not null,
+  received_at timestamptz not null default now(),
+  primary key (trigger_id, signature)
+);
+
+create index if not exists idx_workflow_webhook_deliveries_received
+  on public.workflow_webhook_deliveries(trigger_id, received_at);
+
+alter table public.workflow_webhook_deliveries enable row level security;
+
+-- Runs record what started them
+alter table public.workflow_executions
+  add column if not exists trigger_id uuid references public.workflow_triggers(id) on delete set null,
+  add column if not exists triggered_by text not null default 'manual'
+    check (triggered_by in ('manual', 'cron', 'webhook'));
+
+comment on column public.workflow_executions.triggered_by is 'manual (Run button or API), cron or webhook.';
+
+-- The workflow-triggers edge function dispatches due cron triggers. Schedule it every
+-- minute with pg_cron (requires pg_cron and pg_net):
+--
+--   select cron.schedule(
+--     'workflow-triggers',
+--     '* * * * *',
+--     $$ select net.http_post(
+--          url := 'https://<project-ref>.supabase.co/functions/v1/workflow-triggers',
+--          headers := jsonb_build_object('Authorization', 'Bearer <service-role-key>', 'Content-Type', 'application/json'),
+--          body := '{"action": "dispatch"}'::jsonb
+--        ) $$
+--   );
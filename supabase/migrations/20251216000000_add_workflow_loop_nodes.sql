@@ -0,0 +1,20 @@
+-- Loop (map) nodes: run the sub-graph behind a loop node's "each" edges once per item
+-- of a list. Body nodes record one node_executions row per iteration.
+
+alter table public.workflow_nodes
+  drop constraint if exists workflow_nodes_node_type_check;
+
+alter table public.workflow_nodes
+  add constraint workflow_nodes_node_type_check
+  check (node_type in ('agent', 'tool', 'data', 'condition', 'merge', 'loop', 'start', 'end'));
+
+alter table public.node_executions
+  add column if not exists loop_node_id uuid references public.workflow_nodes(id) on delete cascade,
+  add column if not exists iteration integer check (iteration >= 0);
+
+comment on column public.node_executions.loop_node_id is 'Loop node whose body this row ran in; null outside loops.';
+comment on column public.node_executions.iteration is '0-based index of the loop item this row ran for.';
+
+create index if not exists idx_node_executions_loop_iteration
+  on public.node_executions(execution_id, loop_node_id, iteration)
+  where loop_node_id is not null;
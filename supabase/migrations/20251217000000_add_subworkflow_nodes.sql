@@ -0,0 +1,31 @@
+-- Sub-workflow nodes: a node that runs another saved workflow and waits for its result.
+-- Child runs are ordinary workflow_executions rows linked to the run and node that
+-- started them; depth counts how deeply runs are nested so recursion can be cut off.
+
+alter table public.workflow_nodes
+  drop constraint if exists workflow_nodes_node_type_check;
+
+alter table public.workflow_nodes
+  add constraint workflow_nodes_node_type_check
+  check (node_type in ('agent', 'tool', 'data', 'condition', 'merge', 'loop', 'subworkflow', 'start', 'end'));
+
+alter table public.workflow_executions
+  add column if not exists parent_execution_id uuid references public.workflow_executions(id) on delete set null,
+  add column if not exists parent_node_id uuid references public.workflow_nodes(id) on delete set null,
+  add column if not exists depth integer not null default 0 check (depth >= 0);
+
+comment on column public.workflow_executions.parent_execution_id is 'Run whose sub-workflow node started this run; null for top-level runs.';
+comment on column public.workflow_executions.depth is 'Sub-workflow nesting level: 0 for top-level runs, parent depth + 1 otherwise.';
+
+alter table public.workflow_executions
+  drop constraint if exists workflow_executions_triggered_by_check;
+
+alter table public.workflow_executions
+  add constraint workflow_executions_triggered_by_check
+  check (triggered_by in ('manual', 'cron', 'webhook', 'workflow'));
+
+comment on column public.workflow_executions.triggered_by is 'manual (Run button or API), cron, webhook or workflow (sub-workflow node).';
+
+create index if not exists idx_workflow_executions_parent
+  on public.workflow_executions(parent_execution_id)
+  where parent_execution_id is not null;
@@ -0,0 +1,76 @@
+-- Approval nodes: a run pauses ("waiting") until its owner approves, edits or rejects
+-- the data reaching the node. workflow-execute raises the request; decisions go through
+-- the workflow-approvals edge function, which resumes or fails the run.
+
+alter table public.workflow_nodes
+  drop constraint if exists workflow_nodes_node_type_check;
+
+alter table public.workflow_nodes
+  add constraint workflow_nodes_node_type_check
+  check (node_type in ('agent', 'tool', 'data', 'condition', 'merge', 'loop', 'subworkflow', 'approval', 'start', 'end'));
+
+alter table public.workflow_executions
+  drop constraint if exists workflow_executions_status_check;
+
+alter table public.workflow_executions
+  add constraint workflow_executions_status_check
+  check (status in ('pending', 'running', 'waiting', 'completed', 'failed', 'cancelled'));
+
+alter table public.node_executions
+  drop constraint if exists node_executions_status_check;
+
+alter table public.node_executions
+  add constraint node_executions_status_check
+  check (status in ('pending', 'running', 'waiting', 'completed', 'failed', 'skipped', 'cancelled'));
+
+create table if not exists public.workflow_approvals (
+  id uuid primary key default gen_random_uuid(),
+  execution_id uuid not null references public.workflow_executions(id) on delete cascade,
+  workflow_id uuid not null references public.workflows(id) on delete cascade,
+  -- No foreign key: a save may remove the node while its run waits here, and the run
+  -- continues on its own version of the graph. The label is copied for the reviewer.
+  node_id uuid not null,
+  node_label text,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  status text not null default 'pending' check (status in ('pending', 'approved', 'rejected', 'expired')),
+  -- Instructions for the reviewer (node config `message`)
+  message text,
+  -- The node input awaiting review, and what the run continues with once approved
+  payload jsonb not null default '{}'::jsonb,
+  approved_payload jsonb,
+  comment text,
+  expires_at timestamptz not null,
+  decided_at timestamptz,
+  decided_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+comment on table public.workflow_approvals is 'Review requests raised by approval nodes in workflow runs.';
+comment on column public.workflow_approvals.approved_payload is 'Node output once approved: the payload, or the reviewer''s edited version of it.';
+
+-- One open request per node of a run
+create unique index if not exists idx_workflow_approvals_pending_node
+  on public.workflow_approvals(execution_id, node_id)
+  where status = 'pending';
+
+create index if not exists idx_workflow_approvals_user_pending
+  on public.workflow_approvals(user_id, created_at)
+  where status = 'pending';
+
+create index if not exists idx_workflow_approvals_expiry
+  on public.workflow_approvals(expires_at)
+  where status = 'pending';
+
+alter table public.workflow_approvals enable row level security;
+
+create policy "Users can view their own workflow approvals"
+  on public.workflow_approvals for select
+  using (auth.uid() = user_id);
+
+-- workflow-execute runs with the owner's token when a run is started from the app
+create policy "Users can request approvals for their own runs"
+  on public.workflow_approvals for insert
+  with check (auth.uid() = user_id);
+
+-- workflow-sweeper also expires approvals past expires_at and fails their runs, and fails
+-- waiting runs left without an open request.
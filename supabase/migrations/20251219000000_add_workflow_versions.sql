@@ -0,0 +1,186 @@
+-- Workflow versions: every save of a workflow graph records an immutable snapshot of its
+-- nodes and edges. Runs execute a version's snapshot and stay pinned to it, so resumed runs
+-- and their node executions are read against the graph as it was, and a rollback saves an
+-- old snapshot as the newest version. Saves go through save_workflow_graph, which writes
+-- the nodes, edges and snapshot in one transaction.
+
+create table if not exists public.workflow_versions (
+  id uuid primary key default gen_random_uuid(),
+  workflow_id uuid not null references public.workflows(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  version integer not null check (version > 0),
+  -- { "nodes": [workflow_nodes rows], "edges": [workflow_edges rows] }
+  graph jsonb not null default '{"nodes": [], "edges": []}'::jsonb,
+  restored_from_version integer,
+  created_at timestamptz not null default now(),
+  constraint unique_workflow_version unique (workflow_id, version)
+);
+
+comment on table public.workflow_versions is 'Immutable snapshots of a workflow graph, one per save.';
+comment on column public.workflow_versions.restored_from_version is 'Version this one was rolled back to; null for ordinary saves.';
+
+alter table public.workflow_versions enable row level security;
+
+-- Read-only for clients: versions are only written by save_workflow_graph and never
+-- updated or deleted (other than with their workflow)
+create policy "Users can view their own workflow versions"
+  on public.workflow_versions for select
+  using (auth.uid() = user_id);
+
+alter table public.workflow_executions
+  add column if not exists version_id uuid references public.workflow_versions(id) on delete set null;
+
+comment on column public.workflow_executions.version_id is 'Workflow version the run executes; resumed runs keep it.';
+
+create index if not exists idx_workflow_executions_version
+  on public.workflow_executions(version_id)
+  where version_id is not null;
+
+-- Node executions outlive the nodes they ran: a node removed in a later version keeps
+-- its history, resolved against the run's version rather than the live graph.
+alter table public.node_executions
+  drop constraint if exists node_executions_node_id_fkey;
+
+alter table public.node_executions
+  drop constraint if exists node_executions_loop_node_id_fkey;
+
+-- Existing workflows start at version 1
+insert into public.workflow_versions (workflow_id, user_id, version, graph)
+select
+  w.id,
+  w.user_id,
+  1,
+  jsonb_build_object(
+    'nodes', coalesce(
+      (select jsonb_agg(to_jsonb(n) order by n.execution_order) from public.workflow_nodes n where n.workflow_id = w.id),
+      '[]'::jsonb
+    ),
+    'edges', coalesce(
+      (select jsonb_agg(to_jsonb(e)) from public.workflow_edges e where e.workflow_id = w.id),
+      '[]'::jsonb
+    )
+  )
+from public.workflows w
+where not exists (select 1 from public.workflow_versions v where v.workflow_id = w.id);
+
+-- Replace a workflow's graph and record it as the next version, atomically.
+-- p_nodes: workflow_nodes-shaped objects whose "id" is either an existing node id of this
+-- workflow (kept) or any client-side key (a new id is generated); p_edges reference nodes
+-- by those same ids. Returns { version: workflow_versions row, node_ids: { key: id } }.
+create or replace function public.save_workflow_graph(
+  p_workflow_id uuid,
+  p_nodes jsonb,
+  p_edges jsonb,
+  p_restored_from_version integer default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid;
+  v_node jsonb;
+  v_key text;
+  v_id uuid;
+  v_node_ids jsonb := '{}'::jsonb;
+  v_version public.workflow_versions;
+begin
+  -- The row lock serializes concurrent saves of one workflow, so version numbers don't collide
+  select user_id into v_user_id
+  from public.workflows
+  where id = p_workflow_id
+  for update;
+
+  if v_user_id is null or v_user_id is distinct from auth.uid() then
+    raise exception 'Workflow not found' using errcode = 'P0002';
+  end if;
+
+  -- Nodes that still exist keep their ids, which runs, approvals and versions refer to
+  for v_node in select value from jsonb_array_elements(coalesce(p_nodes, '[]'::jsonb)) loop
+    v_key := coalesce(v_node->>'id', gen_random_uuid()::text);
+    v_id := null;
+    if v_key ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' and not exists (
+      select 1 from public.workflow_nodes n where n.id = v_key::uuid and n.workflow_id <> p_workflow_id
+    ) then
+      v_id := v_key::uuid;
+    end if;
+    v_node_ids := v_node_ids || jsonb_build_object(v_key, coalesce(v_id, gen_random_uuid()));
+  end loop;
+
+  delete from public.workflow_edges where workflow_id = p_workflow_id;
+  delete from public.workflow_nodes
+  where workflow_id = p_workflow_id
+    and id not in (select value::uuid from jsonb_each_text(v_node_ids));
+
+  for v_node in select value from jsonb_array_elements(coalesce(p_nodes, '[]'::jsonb)) loop
+    v_id := (v_node_ids->>(v_node->>'id'))::uuid;
+    if v_id is null then
+      v_id := gen_random_uuid();
+    end if;
+    insert into public.workflow_nodes (
+      id, workflow_id, node_type, label, position_x, position_y, config,
+      mcp_server_id, mcp_command_name, execution_order
+    )
+    values (
+      v_id,
+      p_workflow_id,
+      v_node->>'node_type',
+      v_node->>'label',
+      coalesce((v_node->>'position_x')::numeric, 0),
+      coalesce((v_node->>'position_y')::numeric, 0),
+      coalesce(v_node->'config', '{}'::jsonb),
+      v_node->>'mcp_server_id',
+      v_node->>'mcp_command_name',
+      (v_node->>'execution_order')::integer
+    )
+    on conflict (id) do update set
+      node_type = excluded.node_type,
+      label = excluded.label,
+      position_x = excluded.position_x,
+      position_y = excluded.position_y,
+      config = excluded.config,
+      mcp_server_id = excluded.mcp_server_id,
+      mcp_command_name = excluded.mcp_command_name,
+      execution_order = excluded.execution_order,
+      updated_at = now();
+  end loop;
+
+  -- Edges whose endpoints are not part of the saved graph are dropped
+  insert into public.workflow_edges (workflow_id, source_node_id, target_node_id, condition, data_mapping)
+  select
+    p_workflow_id,
+    (v_node_ids->>(edge->>'source_node_id'))::uuid,
+    (v_node_ids->>(edge->>'target_node_id'))::uuid,
+    nullif(edge->>'condition', ''),
+    edge->'data_mapping'
+  from jsonb_array_elements(coalesce(p_edges, '[]'::jsonb)) as edge
+  where v_node_ids ? (edge->>'source_node_id')
+    and v_node_ids ? (edge->>'target_node_id');
+
+  insert into public.workflow_versions (workflow_id, user_id, version, graph, restored_from_version)
+  select
+    p_workflow_id,
+    v_user_id,
+    coalesce((select max(v.version) from public.workflow_versions v where v.workflow_id = p_workflow_id), 0) + 1,
+    jsonb_build_object(
+      'nodes', coalesce(
+        (select jsonb_agg(to_jsonb(n) order by n.execution_order) from public.workflow_nodes n where n.workflow_id = p_workflow_id),
+        '[]'::jsonb
+      ),
+      'edges', coalesce(
+        (select jsonb_agg(to_jsonb(e)) from public.workflow_edges e where e.workflow_id = p_workflow_id),
+        '[]'::jsonb
+      )
+    ),
+    p_restored_from_version
+  returning * into v_version;
+
+  return jsonb_build_object('version', to_jsonb(v_version), 'node_ids', v_node_ids);
+end;
+$$;
+
+comment on function public.save_workflow_graph is 'Replaces a workflow''s nodes and edges and records the result as its next version, in one transaction.';
+
+revoke execute on function public.save_workflow_graph(uuid, jsonb, jsonb, integer) from public, anon;
+grant execute on function public.save_workflow_graph(uuid, jsonb, jsonb, integer) to authenticated;